@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "stock_batches" ADD COLUMN     "unitCost" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "unitCost" DECIMAL(10,2);
@@ -0,0 +1,65 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'ADJUST_IN';
+ALTER TYPE "StockMovementType" ADD VALUE 'ADJUST_OUT';
+
+-- CreateEnum
+CREATE TYPE "StockCountStatus" AS ENUM ('OPEN', 'COMMITTED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "stock_counts" (
+    "id" TEXT NOT NULL,
+    "status" "StockCountStatus" NOT NULL DEFAULT 'OPEN',
+    "note" TEXT,
+    "sessionId" TEXT,
+    "createdById" TEXT,
+    "committedById" TEXT,
+    "committedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_counts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_count_lines" (
+    "id" TEXT NOT NULL,
+    "stockCountId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "batchId" TEXT,
+    "lotNumber" TEXT NOT NULL,
+    "expireDate" TIMESTAMP(3),
+    "countedQuantity" INTEGER NOT NULL,
+    "systemQuantity" INTEGER,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_count_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_counts_sessionId_key" ON "stock_counts"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "stock_counts_status_idx" ON "stock_counts"("status");
+
+-- CreateIndex
+CREATE INDEX "stock_count_lines_batchId_idx" ON "stock_count_lines"("batchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_count_lines_stockCountId_productId_lotNumber_key" ON "stock_count_lines"("stockCountId", "productId", "lotNumber");
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_committedById_fkey" FOREIGN KEY ("committedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_stockCountId_fkey" FOREIGN KEY ("stockCountId") REFERENCES "stock_counts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_count_lines" ADD CONSTRAINT "stock_count_lines_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "stock_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "reversedBySessionId" TEXT,
+ADD COLUMN     "reversesSessionId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stock_movements_reversesSessionId_idx" ON "stock_movements"("reversesSessionId");
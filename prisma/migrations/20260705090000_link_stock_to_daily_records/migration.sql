@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "dailyRecordId" TEXT,
+ADD COLUMN     "patientId" TEXT;
+
+-- CreateTable
+CREATE TABLE "treatment_materials" (
+    "id" TEXT NOT NULL,
+    "treatmentTypeId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "treatment_materials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stock_movements_dailyRecordId_idx" ON "stock_movements"("dailyRecordId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_patientId_idx" ON "stock_movements"("patientId");
+
+-- CreateIndex
+CREATE INDEX "treatment_materials_productId_idx" ON "treatment_materials"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "treatment_materials_treatmentTypeId_productId_key" ON "treatment_materials"("treatmentTypeId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_dailyRecordId_fkey" FOREIGN KEY ("dailyRecordId") REFERENCES "daily_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_materials" ADD CONSTRAINT "treatment_materials_treatmentTypeId_fkey" FOREIGN KEY ("treatmentTypeId") REFERENCES "treatment_types"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_materials" ADD CONSTRAINT "treatment_materials_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,93 @@
+-- AlterEnum
+ALTER TYPE "StockMovementType" ADD VALUE 'TRANSFER';
+
+-- CreateTable
+CREATE TABLE "stock_locations" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stock_location_thresholds" (
+    "id" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "minStock" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_location_thresholds_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the default location that all existing stock lives in
+INSERT INTO "stock_locations" ("id", "name", "isDefault", "updatedAt")
+VALUES (gen_random_uuid()::text, 'Main storeroom', true, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "stock_batches" ADD COLUMN "locationId" TEXT;
+UPDATE "stock_batches" SET "locationId" = (SELECT "id" FROM "stock_locations" WHERE "isDefault" = true);
+ALTER TABLE "stock_batches" ALTER COLUMN "locationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "stock_counts" ADD COLUMN "locationId" TEXT;
+UPDATE "stock_counts" SET "locationId" = (SELECT "id" FROM "stock_locations" WHERE "isDefault" = true);
+ALTER TABLE "stock_counts" ALTER COLUMN "locationId" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN "locationId" TEXT,
+ADD COLUMN "toBatchId" TEXT,
+ADD COLUMN "toLocationId" TEXT;
+UPDATE "stock_movements" SET "locationId" = (SELECT "id" FROM "stock_locations" WHERE "isDefault" = true)
+WHERE "batchId" IS NOT NULL;
+
+-- DropIndex
+DROP INDEX "stock_batches_productId_lotNumber_expireDate_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_batches_productId_lotNumber_expireDate_locationId_key" ON "stock_batches"("productId", "lotNumber", "expireDate", "locationId");
+
+-- CreateIndex
+CREATE INDEX "stock_batches_locationId_idx" ON "stock_batches"("locationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_locations_name_key" ON "stock_locations"("name");
+
+-- CreateIndex
+CREATE INDEX "stock_location_thresholds_productId_idx" ON "stock_location_thresholds"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stock_location_thresholds_locationId_productId_key" ON "stock_location_thresholds"("locationId", "productId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_locationId_idx" ON "stock_movements"("locationId");
+
+-- CreateIndex
+CREATE INDEX "stock_movements_toLocationId_idx" ON "stock_movements"("toLocationId");
+
+-- AddForeignKey
+ALTER TABLE "stock_location_thresholds" ADD CONSTRAINT "stock_location_thresholds_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_location_thresholds" ADD CONSTRAINT "stock_location_thresholds_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_batches" ADD CONSTRAINT "stock_batches_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_toLocationId_fkey" FOREIGN KEY ("toLocationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_toBatchId_fkey" FOREIGN KEY ("toBatchId") REFERENCES "stock_batches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_counts" ADD CONSTRAINT "stock_counts_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "stock_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN "openedShelfLifeDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "stock_in_use" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "lotNumber" TEXT NOT NULL,
+    "locationId" TEXT,
+    "openedQuantity" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "useBy" TIMESTAMP(3),
+    "sessionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "stock_in_use_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: attribute each product's current inUseQuantity to its most recent non-reversed
+-- WITHDRAW movements (older withdrawals are assumed to have been depleted first).
+INSERT INTO "stock_in_use" ("id", "productId", "batchId", "lotNumber", "locationId", "openedQuantity", "quantity", "openedAt", "sessionId", "updatedAt")
+SELECT gen_random_uuid()::text, w."productId", w."batchId", w."lotNumber", w."locationId", w."quantity",
+       LEAST(w."quantity", p."inUseQuantity" - (w."runningTotal" - w."quantity")), w."createdAt", w."sessionId", CURRENT_TIMESTAMP
+FROM (
+    SELECT m.*, SUM(m."quantity") OVER (PARTITION BY m."productId" ORDER BY m."createdAt" DESC, m."id") AS "runningTotal"
+    FROM "stock_movements" m
+    WHERE m."type" = 'WITHDRAW' AND m."reversedBySessionId" IS NULL AND m."batchId" IS NOT NULL
+) w
+JOIN "products" p ON p."id" = w."productId"
+WHERE w."runningTotal" - w."quantity" < p."inUseQuantity";
+
+-- CreateIndex
+CREATE INDEX "stock_in_use_productId_openedAt_idx" ON "stock_in_use"("productId", "openedAt");
+
+-- CreateIndex
+CREATE INDEX "stock_in_use_batchId_idx" ON "stock_in_use"("batchId");
+
+-- CreateIndex
+CREATE INDEX "stock_in_use_sessionId_idx" ON "stock_in_use"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "stock_in_use_useBy_idx" ON "stock_in_use"("useBy");
+
+-- AddForeignKey
+ALTER TABLE "stock_in_use" ADD CONSTRAINT "stock_in_use_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_in_use" ADD CONSTRAINT "stock_in_use_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "stock_batches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "StockBatchStatus" AS ENUM ('ACTIVE', 'QUARANTINED');
+
+-- AlterTable
+ALTER TABLE "stock_batches" ADD COLUMN     "status" "StockBatchStatus" NOT NULL DEFAULT 'ACTIVE',
+ADD COLUMN     "quarantinedAt" TIMESTAMP(3),
+ADD COLUMN     "quarantineReason" TEXT;
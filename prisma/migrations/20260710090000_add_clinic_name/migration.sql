@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN     "clinicName" TEXT;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "createdById" TEXT,
+ADD COLUMN     "updatedById" TEXT;
+
+-- AlterTable
+ALTER TABLE "stock_movements" ADD COLUMN     "createdById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "stock_movements_createdById_idx" ON "stock_movements"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- DropForeignKey
+ALTER TABLE "stock_movements" DROP CONSTRAINT "stock_movements_productId_fkey";
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "archivedById" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_changes" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "changedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "products_archivedAt_idx" ON "products"("archivedAt");
+
+-- CreateIndex
+CREATE INDEX "product_changes_productId_createdAt_idx" ON "product_changes"("productId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "products" ADD CONSTRAINT "products_archivedById_fkey" FOREIGN KEY ("archivedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stock_movements" ADD CONSTRAINT "stock_movements_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_changes" ADD CONSTRAINT "product_changes_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_changes" ADD CONSTRAINT "product_changes_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "PickingStrategy" AS ENUM ('FIFO', 'FEFO', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN     "defaultPickingStrategy" "PickingStrategy" NOT NULL DEFAULT 'FIFO';
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "pickingStrategy" "PickingStrategy";
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ToothSurface" AS ENUM ('M', 'O', 'D', 'B', 'L');
+
+-- CreateEnum
+CREATE TYPE "ToothCondition" AS ENUM ('CARIES', 'FILLED', 'MISSING', 'CROWN', 'RCT');
+
+-- CreateTable
+CREATE TABLE "tooth_chart_entries" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "toothNumber" INTEGER NOT NULL,
+    "surfaces" "ToothSurface"[] DEFAULT ARRAY[]::"ToothSurface"[],
+    "condition" "ToothCondition",
+    "treatmentTypeId" TEXT,
+    "dailyRecordId" TEXT,
+    "note" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tooth_chart_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tooth_chart_entries_patientId_toothNumber_idx" ON "tooth_chart_entries"("patientId", "toothNumber");
+
+-- CreateIndex
+CREATE INDEX "tooth_chart_entries_dailyRecordId_idx" ON "tooth_chart_entries"("dailyRecordId");
+
+-- AddForeignKey
+ALTER TABLE "tooth_chart_entries" ADD CONSTRAINT "tooth_chart_entries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tooth_chart_entries" ADD CONSTRAINT "tooth_chart_entries_treatmentTypeId_fkey" FOREIGN KEY ("treatmentTypeId") REFERENCES "treatment_types"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tooth_chart_entries" ADD CONSTRAINT "tooth_chart_entries_dailyRecordId_fkey" FOREIGN KEY ("dailyRecordId") REFERENCES "daily_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tooth_chart_entries" ADD CONSTRAINT "tooth_chart_entries_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "TreatmentPlanItemStatus" AS ENUM ('PROPOSED', 'ACCEPTED', 'SCHEDULED', 'DONE', 'DECLINED');
+
+-- CreateTable
+CREATE TABLE "treatment_plans" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "title" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "treatment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "treatment_plan_items" (
+    "id" TEXT NOT NULL,
+    "planId" TEXT NOT NULL,
+    "phase" INTEGER NOT NULL DEFAULT 1,
+    "treatmentTypeId" TEXT NOT NULL,
+    "toothNumber" INTEGER,
+    "estimatedFee" DECIMAL(10,2),
+    "status" "TreatmentPlanItemStatus" NOT NULL DEFAULT 'PROPOSED',
+    "appointmentId" TEXT,
+    "dailyRecordId" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "treatment_plan_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "treatment_plans_patientId_idx" ON "treatment_plans"("patientId");
+
+-- CreateIndex
+CREATE INDEX "treatment_plans_doctorId_idx" ON "treatment_plans"("doctorId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "treatment_plan_items_appointmentId_key" ON "treatment_plan_items"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "treatment_plan_items_planId_phase_idx" ON "treatment_plan_items"("planId", "phase");
+
+-- CreateIndex
+CREATE INDEX "treatment_plan_items_treatmentTypeId_idx" ON "treatment_plan_items"("treatmentTypeId");
+
+-- CreateIndex
+CREATE INDEX "treatment_plan_items_dailyRecordId_idx" ON "treatment_plan_items"("dailyRecordId");
+
+-- AddForeignKey
+ALTER TABLE "treatment_plans" ADD CONSTRAINT "treatment_plans_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plans" ADD CONSTRAINT "treatment_plans_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plans" ADD CONSTRAINT "treatment_plans_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plan_items" ADD CONSTRAINT "treatment_plan_items_planId_fkey" FOREIGN KEY ("planId") REFERENCES "treatment_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plan_items" ADD CONSTRAINT "treatment_plan_items_treatmentTypeId_fkey" FOREIGN KEY ("treatmentTypeId") REFERENCES "treatment_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plan_items" ADD CONSTRAINT "treatment_plan_items_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "treatment_plan_items" ADD CONSTRAINT "treatment_plan_items_dailyRecordId_fkey" FOREIGN KEY ("dailyRecordId") REFERENCES "daily_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "slips" ADD COLUMN     "dailyRecordId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "slips_dailyRecordId_idx" ON "slips"("dailyRecordId");
+
+-- AddForeignKey
+ALTER TABLE "slips" ADD CONSTRAINT "slips_dailyRecordId_fkey" FOREIGN KEY ("dailyRecordId") REFERENCES "daily_records"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "MedicalHistoryCategory" AS ENUM ('ALLERGY', 'MEDICATION', 'CONDITION');
+
+-- CreateEnum
+CREATE TYPE "MedicalAlertSeverity" AS ENUM ('LOW', 'MODERATE', 'HIGH');
+
+-- CreateTable
+CREATE TABLE "medical_history_entries" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "category" "MedicalHistoryCategory" NOT NULL,
+    "name" TEXT NOT NULL,
+    "severity" "MedicalAlertSeverity" NOT NULL DEFAULT 'MODERATE',
+    "notes" TEXT,
+    "startedAt" DATE,
+    "endedAt" DATE,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "medical_history_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "medical_history_entries_patientId_idx" ON "medical_history_entries"("patientId");
+
+-- AddForeignKey
+ALTER TABLE "medical_history_entries" ADD CONSTRAINT "medical_history_entries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "medical_history_entries" ADD CONSTRAINT "medical_history_entries_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "PatientFileCategory" AS ENUM ('PROFILE_PHOTO', 'XRAY', 'CONSENT_FORM', 'INTRAORAL_PHOTO');
+
+-- CreateTable
+CREATE TABLE "patient_files" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "category" "PatientFileCategory" NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storageDriver" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "thumbnailKey" TEXT,
+    "note" TEXT,
+    "uploadedById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "patient_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patient_files_storageKey_key" ON "patient_files"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "patient_files_patientId_category_idx" ON "patient_files"("patientId", "category");
+
+-- AddForeignKey
+ALTER TABLE "patient_files" ADD CONSTRAINT "patient_files_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_files" ADD CONSTRAINT "patient_files_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- A count line is per lot AND expiry: two batches sharing a lot number but with different expiry
+-- dates were collapsed into one line, so committing set one of them and left the other unchanged.
+-- NULLS NOT DISTINCT (which Prisma can't express in the schema) keeps one line per lot without an
+-- expiry date, as the old key did.
+DROP INDEX "stock_count_lines_stockCountId_productId_lotNumber_key";
+
+CREATE UNIQUE INDEX "stock_count_lines_stockCountId_productId_lotNumber_expireDate_key"
+  ON "stock_count_lines"("stockCountId", "productId", "lotNumber", "expireDate") NULLS NOT DISTINCT;
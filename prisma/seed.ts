@@ -144,6 +144,11 @@ async function seedProducts() {
     where: { sessionId: SEED_SESSION_ID },
   });
 
+  // The stock-locations migration creates the default location; fall back for a fresh schema push
+  const location =
+    (await prisma.stockLocation.findFirst({ where: { isDefault: true } })) ??
+    (await prisma.stockLocation.create({ data: { name: "Main storeroom", isDefault: true } }));
+
   for (const p of PRODUCTS) {
     const product = await prisma.product.upsert({
       where: { barcode: p.barcode },
@@ -165,12 +170,13 @@ async function seedProducts() {
           productId: product.id,
           lotNumber,
           expireDate: expireDate ?? null,
+          locationId: location.id,
         },
       });
       const batch =
         existing ??
         (await prisma.stockBatch.create({
-          data: { productId: product.id, lotNumber, expireDate, quantity },
+          data: { productId: product.id, locationId: location.id, lotNumber, expireDate, quantity },
         }));
 
       if (!seedMovementExists) {
@@ -182,6 +188,7 @@ async function seedProducts() {
             type: "IN",
             quantity,
             sessionId: SEED_SESSION_ID,
+            locationId: location.id,
           },
         });
       }
@@ -13,8 +13,17 @@ export async function getClinicSettingsHandler(req: Request, res: Response): Pro
 
 export async function updateClinicSettingsHandler(req: Request, res: Response): Promise<void> {
   try {
-    const { clinicOpenTime, clinicCloseTime } = req.body;
-    const settings = await service.updateClinicSettings({ clinicOpenTime, clinicCloseTime });
+    const { clinicName, clinicOpenTime, clinicCloseTime, defaultPickingStrategy } = req.body;
+    if (clinicName !== undefined && clinicName !== null && typeof clinicName !== 'string') {
+      res.status(400).json({ code: 'INVALID_NAME', message: 'clinicName must be a string' });
+      return;
+    }
+    const settings = await service.updateClinicSettings({
+      clinicName,
+      clinicOpenTime,
+      clinicCloseTime,
+      defaultPickingStrategy,
+    });
     res.status(200).json(settings);
   } catch (e: unknown) {
     const msg = (e as Error).message;
@@ -26,6 +35,10 @@ export async function updateClinicSettingsHandler(req: Request, res: Response):
       res.status(400).json({ code: 'INVALID_TIME_RANGE', message: 'clinicCloseTime must be after clinicOpenTime' });
       return;
     }
+    if (msg === 'INVALID_PICKING_STRATEGY') {
+      res.status(400).json({ code: 'INVALID_PICKING_STRATEGY', message: 'defaultPickingStrategy must be FIFO, FEFO or MANUAL' });
+      return;
+    }
     console.error('updateClinicSettings error:', e);
     res.status(500).json({ error: 'Internal server error' });
   }
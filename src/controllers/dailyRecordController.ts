@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import * as service from '../services/dailyRecordService';
+import * as materials from '../services/treatmentMaterialService';
 
 function handleDomainError(res: Response, msg: string): boolean {
   switch (msg) {
@@ -33,6 +34,12 @@ function handleDomainError(res: Response, msg: string): boolean {
     case 'DAILY_RECORD_NOT_FOUND':
       res.status(404).json({ code: 'DAILY_RECORD_NOT_FOUND', message: 'Daily record not found' });
       return true;
+    case 'SLIP_NOT_FOUND':
+      res.status(404).json({ code: 'SLIP_NOT_FOUND', message: 'Slip not found' });
+      return true;
+    case 'SLIP_ALREADY_LINKED':
+      res.status(409).json({ code: 'SLIP_ALREADY_LINKED', message: 'Slip is already linked to another daily record' });
+      return true;
     default:
       return false;
   }
@@ -82,7 +89,7 @@ export async function createDailyRecordHandler(req: Request, res: Response): Pro
   try {
     const {
       recordDate, patientId, doctorId, treatmentNote,
-      treatmentTypeIds, treatmentFee, medicineFee, medicineNote, paymentMethod, notes,
+      treatmentTypeIds, treatmentFee, medicineFee, medicineNote, paymentMethod, notes, postMaterials,
     } = req.body;
 
     if (!recordDate || !patientId || !doctorId || !treatmentNote || treatmentFee === undefined || !paymentMethod) {
@@ -96,7 +103,28 @@ export async function createDailyRecordHandler(req: Request, res: Response): Pro
       { recordDate, patientId, doctorId, treatmentNote, treatmentTypeIds, treatmentFee, medicineFee, medicineNote, paymentMethod, notes },
       req.user!.id,
     );
-    res.status(201).json({ dailyRecord });
+
+    // Standard consumables of the selected treatment types: proposed, or posted as a stock-out.
+    if (postMaterials === true) {
+      try {
+        const postedMaterials = await materials.postDailyRecordMaterials(dailyRecord.id, req.user!.id);
+        res.status(201).json({ dailyRecord, postedMaterials });
+      } catch (postError: unknown) {
+        // The record is already saved, so report it as created (a retry would create it twice);
+        // the client can post the materials later via POST /:id/materials/post.
+        console.error('postDailyRecordMaterials error:', postError);
+        res.status(201).json({
+          dailyRecord,
+          materialsError: {
+            code: 'MATERIALS_NOT_POSTED',
+            message: `Record saved, but its materials were not posted; retry via POST /api/daily-records/${dailyRecord.id}/materials/post`,
+          },
+        });
+      }
+      return;
+    }
+    const proposedMaterials = await materials.proposeDailyRecordMaterials(dailyRecord.id);
+    res.status(201).json({ dailyRecord, proposedMaterials });
   } catch (e: unknown) {
     const msg = (e as Error).message;
     if (handleDomainError(res, msg)) return;
@@ -135,3 +163,60 @@ export async function deleteDailyRecordHandler(req: Request, res: Response): Pro
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+/** GET /api/daily-records/:id/materials — proposed consumables from the record's treatment types. */
+export async function getDailyRecordMaterialsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const proposal = await materials.proposeDailyRecordMaterials(req.params.id);
+    res.status(200).json({ materials: proposal });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getDailyRecordMaterials error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/daily-records/:id/materials/post — posts the remaining proposed consumables as a stock-out. */
+export async function postDailyRecordMaterialsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await materials.postDailyRecordMaterials(req.params.id, req.user!.id);
+    const allSucceeded = !result.stockOut || result.stockOut.results.every((r) => r.success);
+    res.status(allSucceeded ? 200 : 207).json(result);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('postDailyRecordMaterials error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/daily-records/:id/slips — links a received transfer slip to the record. */
+export async function linkSlipHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { slipId } = req.body;
+    if (!slipId || typeof slipId !== 'string') {
+      res.status(400).json({ error: 'Missing required field: slipId' });
+      return;
+    }
+    await service.linkSlip(req.params.id, slipId);
+    res.status(204).send();
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('linkSlip error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function unlinkSlipHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await service.unlinkSlip(req.params.id, req.params.slipId);
+    res.status(204).send();
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('unlinkSlip error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
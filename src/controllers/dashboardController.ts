@@ -1,7 +1,19 @@
 import { Request, Response } from 'express';
 import { dashboardService } from '../services/dashboardService';
-import { findProductById, getProductList } from '../services/productService';
+import { findProductById, getProductList, getProductListItems } from '../services/productService';
+import { exportProductList } from '../services/inventoryReportService';
+import { getStockTrends } from '../services/stockTrendService';
 import { prisma } from '../prisma';
+import { isBarcodeTaken } from '../services/productCatalogService';
+import { isPickingStrategy } from '../services/stockOutService';
+import {
+  archiveProduct,
+  deleteProduct,
+  getProductHistory,
+  recordProductChanges,
+  unarchiveProduct,
+} from '../services/productLifecycleService';
+import { ProductArchiveFilter, ProductListQuery } from '../types/dashboard.types';
 
 /**
  * Handles GET /api/dashboard
@@ -20,15 +32,64 @@ export async function dashboardHandler(req: Request, res: Response): Promise<voi
   }
 }
 
+/**
+ * Handles GET /api/dashboard/trends
+ * Stock movement series, top consumed products, disposal reasons and stock-out frequency
+ *
+ * Query parameters:
+ * - from: YYYY-MM-DD (optional, default 29 days before to)
+ * - to: YYYY-MM-DD (optional, default today)
+ * - interval: day | week (optional, default day)
+ * - limit: number (optional) - Rows in the product rankings (default: 10, max: 50)
+ */
+export async function trendsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { from, to, interval, limit } = req.query as Record<string, string | undefined>;
+
+    if (interval !== undefined && interval !== 'day' && interval !== 'week') {
+      res.status(400).json({ error: 'Invalid request: interval must be "day" or "week"' });
+      return;
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > 50)) {
+      res.status(400).json({ error: 'Invalid request: limit must be between 1 and 50' });
+      return;
+    }
+
+    const result = await getStockTrends({ from, to, interval, limit: parsedLimit });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_DATE') {
+      res.status(400).json({ error: 'Invalid request: from and to must be in YYYY-MM-DD format' });
+      return;
+    }
+    if (error instanceof Error && error.message === 'INVALID_RANGE') {
+      res.status(400).json({ error: 'Invalid request: to must not be before from and the range must not exceed 366 days' });
+      return;
+    }
+    console.error('Error in trendsHandler:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
 /**
  * Handles GET /api/products
  * Returns product list with stock information
  * 
  * Query parameters:
- * - search: string (optional) - Search by product name or barcode
+ * - search: string (optional) - Search by product name or barcode (primary or alternate)
  * - page: number (optional) - Page number (default: 1)
  * - limit: number (optional) - Items per page (default: 20, max: 100)
  * - status: string (optional) - Filter by status: lowStock | nearExpiry | inStock | outOfStock
+ * - locationId: string (optional) - Only count stock at this location, against its thresholds
+ * - categoryId: string (optional) - Only products in this category
+ * - archived: active | archived | all (optional, default active)
+ * - format: json | csv | pdf (optional, default json) - csv/pdf download every matching product
+ *   (page and limit are ignored)
  */
 export async function getProducts(req: Request, res: Response): Promise<void> {
   try {
@@ -37,6 +98,15 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
     const page = req.query.page ? parseInt(req.query.page as string, 10) : undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
     const status = req.query.status as 'lowStock' | 'nearExpiry' | 'inStock' | 'outOfStock' | undefined;
+    const locationId = req.query.locationId as string | undefined;
+    const categoryId = req.query.categoryId as string | undefined;
+    const archived = req.query.archived as string | undefined;
+    const format = req.query.format as string | undefined;
+
+    if (format && format !== 'json' && format !== 'csv' && format !== 'pdf') {
+      res.status(400).json({ error: 'Invalid request: format must be "json", "csv" or "pdf"' });
+      return;
+    }
 
     // Validate pagination parameters
     if (page !== undefined && (isNaN(page) || page < 1)) {
@@ -61,22 +131,37 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
       return;
     }
 
+    if (archived && archived !== 'active' && archived !== 'archived' && archived !== 'all') {
+      res.status(400).json({ error: 'Invalid request: archived must be one of: active, archived, all' });
+      return;
+    }
+
     // Build query object
-    const query: {
-      search?: string;
-      page?: number;
-      limit?: number;
-      status?: 'lowStock' | 'nearExpiry' | 'inStock' | 'outOfStock' | 'expired';
-    } = {};
+    const query: ProductListQuery = {};
 
     if (search) query.search = search;
     if (page) query.page = page;
     if (limit) query.limit = limit;
     if (status) query.status = status;
+    if (locationId && typeof locationId === 'string') query.locationId = locationId;
+    if (categoryId && typeof categoryId === 'string') query.categoryId = categoryId;
+    if (archived) query.archived = archived as ProductArchiveFilter;
+
+    if (format === 'csv' || format === 'pdf') {
+      const file = await exportProductList(await getProductListItems(query), query, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.status(200).send(file.body);
+      return;
+    }
 
     const result = await getProductList(query);
     res.status(200).json(result);
   } catch (error) {
+    if (error instanceof Error && error.message === 'LOCATION_NOT_FOUND') {
+      res.status(400).json({ error: 'Invalid request: locationId does not exist' });
+      return;
+    }
     console.error('Error in getProducts:', error);
     res.status(500).json({
       error: 'Internal server error',
@@ -92,7 +177,21 @@ export async function getProducts(req: Request, res: Response): Promise<void> {
 export async function updateProductHandler(req: Request, res: Response): Promise<void> {
   try {
     const { id } = req.params;
-    const { name, barcode, unit, minStock, isReusable } = req.body;
+    const { name, barcode, unit, minStock, isReusable, openedShelfLifeDays, categoryId, pickingStrategy } = req.body;
+
+    if (
+      openedShelfLifeDays !== undefined &&
+      openedShelfLifeDays !== null &&
+      !(Number.isInteger(openedShelfLifeDays) && openedShelfLifeDays > 0)
+    ) {
+      res.status(400).json({ error: 'openedShelfLifeDays must be a positive whole number or null' });
+      return;
+    }
+
+    if (pickingStrategy !== undefined && pickingStrategy !== null && !isPickingStrategy(pickingStrategy)) {
+      res.status(400).json({ error: 'pickingStrategy must be FIFO, FEFO, MANUAL or null' });
+      return;
+    }
 
     const existing = await prisma.product.findUnique({ where: { id } });
     if (!existing) {
@@ -109,24 +208,42 @@ export async function updateProductHandler(req: Request, res: Response): Promise
       return;
     }
 
-    // Check barcode uniqueness if barcode is being changed
+    // Check barcode uniqueness if barcode is being changed (primary and alternate barcodes share one space)
     if (barcode && barcode !== existing.barcode) {
-      const duplicate = await prisma.product.findUnique({ where: { barcode } });
-      if (duplicate) {
+      if (await isBarcodeTaken(barcode, id)) {
         res.status(409).json({ error: 'Barcode already in use by another product' });
         return;
       }
     }
 
-    const updated = await prisma.product.update({
-      where: { id },
-      data: {
-        ...(name !== undefined && { name }),
-        ...(barcode !== undefined && { barcode }),
-        ...(unit !== undefined && { unit }),
-        ...(minStock !== undefined && { minStock }),
-        ...(isReusable !== undefined && { isReusable }),
-      },
+    if (categoryId !== undefined && categoryId !== null) {
+      const category =
+        typeof categoryId === 'string' ? await prisma.productCategory.findUnique({ where: { id: categoryId } }) : null;
+      if (!category) {
+        res.status(400).json({ error: 'categoryId does not exist' });
+        return;
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const product = await tx.product.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(barcode !== undefined && { barcode }),
+          ...(unit !== undefined && { unit }),
+          ...(minStock !== undefined && { minStock }),
+          ...(isReusable !== undefined && { isReusable }),
+          // applies to items opened from now on; open items keep the use-by they were given
+          ...(openedShelfLifeDays !== undefined && { openedShelfLifeDays }),
+          ...(categoryId !== undefined && { categoryId }),
+          // null falls back to the clinic default
+          ...(pickingStrategy !== undefined && { pickingStrategy }),
+          updatedById: req.user!.id,
+        },
+      });
+      await recordProductChanges(tx, id, existing, product, req.user!.id);
+      return product;
     });
 
     res.status(200).json(updated);
@@ -139,28 +256,84 @@ export async function updateProductHandler(req: Request, res: Response): Promise
   }
 }
 
+const PRODUCT_ERRORS: Record<string, { status: number; error: string }> = {
+  PRODUCT_NOT_FOUND: { status: 404, error: 'Product not found' },
+  PRODUCT_ARCHIVED: { status: 409, error: 'Product is already archived' },
+  PRODUCT_NOT_ARCHIVED: { status: 409, error: 'Product is not archived' },
+  PRODUCT_HAS_MOVEMENTS: {
+    status: 409,
+    error: 'Product has stock movements and cannot be deleted; archive it instead',
+  },
+  PRODUCT_REFERENCED: { status: 409, error: 'Product is referenced by purchase orders and cannot be deleted' },
+};
+
+// Maps product lifecycle errors to their status; returns true when handled.
+function handleProductError(res: Response, error: unknown): boolean {
+  const known = error instanceof Error ? PRODUCT_ERRORS[error.message] : undefined;
+  if (!known) return false;
+  res.status(known.status).json({ error: known.error });
+  return true;
+}
+
 /**
  * Handles DELETE /api/products/:id
- * Deletes a product and all related stock batches/movements (cascade)
+ * Permanently deletes a product that never had stock movements; anything else must be archived.
  */
 export async function deleteProductHandler(req: Request, res: Response): Promise<void> {
   try {
-    const { id } = req.params;
-
-    const existing = await prisma.product.findUnique({ where: { id } });
-    if (!existing) {
-      res.status(404).json({ error: 'Product not found' });
-      return;
-    }
-
-    await prisma.product.delete({ where: { id } });
-
+    await deleteProduct(req.params.id);
     res.status(200).json({ message: 'Product deleted successfully' });
   } catch (error) {
+    if (handleProductError(res, error)) return;
     console.error('Error in deleteProductHandler:', error);
     res.status(500).json({
       error: 'Internal server error',
       message: error instanceof Error ? error.message : 'Unknown error',
     });
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Handles POST /api/products/:id/archive
+ * Hides a product from scanning and lists while keeping its stock history.
+ */
+export async function archiveProductHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const product = await archiveProduct(req.params.id, req.user!.id);
+    res.status(200).json(product);
+  } catch (error) {
+    if (handleProductError(res, error)) return;
+    console.error('Error in archiveProductHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles POST /api/products/:id/unarchive
+ * Brings an archived product back into scanning and lists.
+ */
+export async function unarchiveProductHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const product = await unarchiveProduct(req.params.id, req.user!.id);
+    res.status(200).json(product);
+  } catch (error) {
+    if (handleProductError(res, error)) return;
+    console.error('Error in unarchiveProductHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/products/:id/history
+ * Field changes (name, unit, minStock, isReusable) and archiving of a product, newest first.
+ */
+export async function productHistoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const history = await getProductHistory(req.params.id);
+    res.status(200).json(history);
+  } catch (error) {
+    if (handleProductError(res, error)) return;
+    console.error('Error in productHistoryHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import * as service from '../services/financeSummaryService';
+import { getMaterialCostReport } from '../services/materialCostService';
 
 // DOCTOR is locked to their own figures; ADMIN/STAFF see clinic-wide totals by default but may
 // scope to one doctor via ?doctorId= (omitted/empty ⇒ clinic-wide). Powers the per-doctor DF report.
@@ -75,3 +76,22 @@ export async function periodSummaryHandler(req: Request, res: Response): Promise
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+/** GET /api/finance/material-costs?from=&to= — material cost per treatment, doctor and treatment type. */
+export async function materialCostHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    if (!from || !to) {
+      res.status(400).json({ error: 'Missing required query params: from, to' });
+      return;
+    }
+    const data = await getMaterialCostReport(from, to, scopedDoctorId(req));
+    res.status(200).json({ data });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('materialCost error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -7,7 +7,28 @@ import {
   updatePatient,
   deletePatient,
 } from '../services/patientService';
-import { CreatePatientRequest, UpdatePatientRequest } from '../types/patient.types';
+import { addChartEntries, deleteChartEntry, getPatientChart } from '../services/toothChartService';
+import { getPatientTimeline } from '../services/patientTimelineService';
+import {
+  addMedicalHistoryEntry,
+  deleteMedicalHistoryEntry,
+  listMedicalHistory,
+  updateMedicalHistoryEntry,
+} from '../services/medicalHistoryService';
+import {
+  deletePatientFile,
+  getPatientFileContent,
+  listPatientFiles,
+  maxUploadBytes,
+  migratePatientPhotos,
+  uploadPatientFile,
+} from '../services/patientFileService';
+import {
+  CreatePatientRequest,
+  PatientFileCategory,
+  ToothChartEntryInput,
+  UpdatePatientRequest,
+} from '../types/patient.types';
 
 const VALID_TITLE_PREFIXES = ['MISTER', 'MRS', 'MISS', 'YOUNG_BOY', 'YOUNG_GIRL', 'OTHER'];
 const VALID_GENDERS = ['MALE', 'FEMALE', 'OTHER'];
@@ -26,6 +47,75 @@ function handleDomainError(res: Response, msg: string): boolean {
     case 'PATIENT_NOT_FOUND':
       res.status(404).json({ error: 'PATIENT_NOT_FOUND', message: 'Patient not found' });
       return true;
+    case 'INVALID_TOOTH_NUMBER':
+      res.status(400).json({ error: 'INVALID_TOOTH_NUMBER', message: 'toothNumber must be an FDI tooth number (11-48 or 51-85)' });
+      return true;
+    case 'INVALID_SURFACE':
+      res.status(400).json({ error: 'INVALID_SURFACE', message: 'surfaces must be an array of M, O, D, B, L' });
+      return true;
+    case 'INVALID_CONDITION':
+      res.status(400).json({ error: 'INVALID_CONDITION', message: 'condition must be one of: CARIES, FILLED, MISSING, CROWN, RCT' });
+      return true;
+    case 'CHART_ENTRY_EMPTY':
+      res.status(400).json({ error: 'CHART_ENTRY_EMPTY', message: 'Each chart entry needs a condition or a treatmentTypeId' });
+      return true;
+    case 'SURFACES_REQUIRED':
+      res.status(400).json({ error: 'SURFACES_REQUIRED', message: 'CARIES and FILLED must list the affected surfaces' });
+      return true;
+    case 'SURFACES_NOT_ALLOWED':
+      res.status(400).json({ error: 'SURFACES_NOT_ALLOWED', message: 'MISSING, CROWN and RCT apply to the whole tooth: omit surfaces' });
+      return true;
+    case 'TREATMENT_TYPE_NOT_FOUND':
+      res.status(404).json({ error: 'TREATMENT_TYPE_NOT_FOUND', message: 'Treatment type not found' });
+      return true;
+    case 'DAILY_RECORD_NOT_FOUND':
+      res.status(404).json({ error: 'DAILY_RECORD_NOT_FOUND', message: 'Daily record not found' });
+      return true;
+    case 'DAILY_RECORD_PATIENT_MISMATCH':
+      res.status(400).json({ error: 'DAILY_RECORD_PATIENT_MISMATCH', message: 'The daily record belongs to another patient' });
+      return true;
+    case 'CHART_ENTRY_NOT_FOUND':
+      res.status(404).json({ error: 'CHART_ENTRY_NOT_FOUND', message: 'Chart entry not found' });
+      return true;
+    case 'INVALID_CATEGORY':
+      res.status(400).json({ error: 'INVALID_CATEGORY', message: 'category must be one of: ALLERGY, MEDICATION, CONDITION' });
+      return true;
+    case 'INVALID_SEVERITY':
+      res.status(400).json({ error: 'INVALID_SEVERITY', message: 'severity must be one of: LOW, MODERATE, HIGH' });
+      return true;
+    case 'INVALID_HISTORY_NAME':
+      res.status(400).json({ error: 'INVALID_HISTORY_NAME', message: 'name is required (e.g. the allergen, drug or condition)' });
+      return true;
+    case 'INVALID_DATE':
+      res.status(400).json({ error: 'INVALID_DATE', message: 'startedAt and endedAt must be valid YYYY-MM-DD dates' });
+      return true;
+    case 'INVALID_DATE_RANGE':
+      res.status(400).json({ error: 'INVALID_DATE_RANGE', message: 'endedAt cannot be before startedAt' });
+      return true;
+    case 'MEDICAL_HISTORY_NOT_FOUND':
+      res.status(404).json({ error: 'MEDICAL_HISTORY_NOT_FOUND', message: 'Medical history entry not found' });
+      return true;
+    case 'INVALID_FILE_CATEGORY':
+      res.status(400).json({
+        error: 'INVALID_FILE_CATEGORY',
+        message: 'category must be one of PROFILE_PHOTO, XRAY, CONSENT_FORM, INTRAORAL_PHOTO',
+      });
+      return true;
+    case 'UNSUPPORTED_CONTENT_TYPE':
+      res.status(415).json({ error: 'UNSUPPORTED_CONTENT_TYPE', message: 'This file type is not accepted for this category' });
+      return true;
+    case 'FILE_TOO_LARGE':
+      res.status(413).json({ error: 'FILE_TOO_LARGE', message: `File is larger than ${maxUploadBytes() / 1024 / 1024} MB` });
+      return true;
+    case 'INVALID_FILE_CONTENT':
+      res.status(400).json({ error: 'INVALID_FILE_CONTENT', message: 'File content is empty, corrupt or does not match its type' });
+      return true;
+    case 'FILE_NOT_FOUND':
+      res.status(404).json({ error: 'FILE_NOT_FOUND', message: 'File not found' });
+      return true;
+    case 'STORED_FILE_MISSING':
+      res.status(404).json({ error: 'STORED_FILE_MISSING', message: 'File content is missing from storage' });
+      return true;
     default:
       return false;
   }
@@ -73,7 +163,7 @@ export async function createPatientHandler(req: Request, res: Response): Promise
     const payload: CreatePatientRequest = {
       dn, nationalId, titlePrefix, firstName, lastName, dateOfBirth, gender, cardNo, address, note, photoBase64,
     };
-    const patient = await createPatient(payload);
+    const patient = await createPatient(payload, req.user!.id);
     res.status(201).json(patient);
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -157,7 +247,7 @@ export async function updatePatientHandler(req: Request, res: Response): Promise
     const patch: UpdatePatientRequest = {
       dn, nationalId, titlePrefix, firstName, lastName, dateOfBirth, gender, cardNo, address, note, photoBase64,
     };
-    const patient = await updatePatient(req.params.id, patch);
+    const patient = await updatePatient(req.params.id, patch, req.user!.id);
     res.status(200).json(patient);
   } catch (error) {
     const msg = error instanceof Error ? error.message : 'Unknown error';
@@ -178,3 +268,218 @@ export async function deletePatientHandler(req: Request, res: Response): Promise
     res.status(500).json({ error: 'Internal server error', message: msg });
   }
 }
+
+export async function getPatientChartHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const chart = await getPatientChart(req.params.id);
+    res.status(200).json(chart);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error fetching patient chart:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function addPatientChartEntriesHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { entries } = req.body;
+    if (!Array.isArray(entries) || entries.length === 0) {
+      res.status(400).json({ error: 'entries must be a non-empty array' });
+      return;
+    }
+    if (entries.some((e: unknown) => !e || typeof e !== 'object')) {
+      res.status(400).json({ error: 'Each entry must be an object' });
+      return;
+    }
+    for (const e of entries) {
+      for (const field of ['treatmentTypeId', 'dailyRecordId', 'note']) {
+        if (e[field] !== undefined && e[field] !== null && typeof e[field] !== 'string') {
+          res.status(400).json({ error: `${field} must be a string` });
+          return;
+        }
+      }
+    }
+
+    const chart = await addChartEntries(req.params.id, entries as ToothChartEntryInput[], req.user!.id);
+    res.status(201).json(chart);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error adding chart entries:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function deletePatientChartEntryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await deleteChartEntry(req.params.id, req.params.entryId);
+    res.status(204).send();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error deleting chart entry:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function getPatientTimelineHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const timeline = await getPatientTimeline(req.params.id, req.user!.role, req.user!.doctorId);
+    res.status(200).json(timeline);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error fetching patient timeline:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function listMedicalHistoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const entries = await listMedicalHistory(req.params.id);
+    res.status(200).json({ entries });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error listing medical history:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function addMedicalHistoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { category, name, severity, notes, startedAt, endedAt } = req.body;
+    if (!category || !name) {
+      res.status(400).json({ error: 'Missing required fields: category, name' });
+      return;
+    }
+    const entry = await addMedicalHistoryEntry(
+      req.params.id,
+      { category, name, severity, notes, startedAt, endedAt },
+      req.user!.id
+    );
+    res.status(201).json(entry);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error adding medical history:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function updateMedicalHistoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { category, name, severity, notes, startedAt, endedAt } = req.body;
+    const entry = await updateMedicalHistoryEntry(req.params.id, req.params.entryId, {
+      category, name, severity, notes, startedAt, endedAt,
+    });
+    res.status(200).json(entry);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error updating medical history:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function deleteMedicalHistoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await deleteMedicalHistoryEntry(req.params.id, req.params.entryId);
+    res.status(204).send();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error deleting medical history:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function listPatientFilesHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const category = typeof req.query.category === 'string' ? (req.query.category as PatientFileCategory) : undefined;
+    const files = await listPatientFiles(req.params.id, category);
+    res.status(200).json({ files });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error listing patient files:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+/**
+ * The file is the raw request body (not multipart), typed by the request Content-Type;
+ * category, fileName and note come in the query string.
+ */
+export async function uploadPatientFileHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { category, fileName, note } = req.query;
+    if (typeof category !== 'string') {
+      res.status(400).json({ error: 'Missing required query parameter: category' });
+      return;
+    }
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({ error: 'Missing file content' });
+      return;
+    }
+
+    const file = await uploadPatientFile(
+      req.params.id,
+      {
+        category: category as PatientFileCategory,
+        contentType: req.get('content-type') ?? '',
+        body: req.body,
+        fileName: typeof fileName === 'string' ? fileName : null,
+        note: typeof note === 'string' ? note : null,
+      },
+      req.user!.id
+    );
+    res.status(201).json(file);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error uploading patient file:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function downloadPatientFileHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const thumbnail = req.query.thumbnail === 'true';
+    const { file, contentType, body } = await getPatientFileContent(req.params.id, req.params.fileId, thumbnail);
+    const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `${disposition}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`);
+    res.setHeader('Cache-Control', 'private, max-age=86400'); // content under an id never changes
+    res.status(200).send(body);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error downloading patient file:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function deletePatientFileHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await deletePatientFile(req.params.id, req.params.fileId);
+    res.status(204).send();
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    if (handleDomainError(res, msg)) return;
+    console.error('Error deleting patient file:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
+
+export async function migratePatientPhotosHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    const result = await migratePatientPhotos();
+    res.status(200).json(result);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error migrating patient photos:', error);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+  }
+}
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import * as service from '../services/productCatalogService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'INVALID_NAME':
+      res.status(400).json({ code: 'INVALID_NAME', message: 'Name is required' });
+      return true;
+    case 'INVALID_BARCODE':
+      res.status(400).json({ code: 'INVALID_BARCODE', message: 'barcode is required' });
+      return true;
+    case 'INVALID_PACK_QUANTITY':
+      res.status(400).json({
+        code: 'INVALID_PACK_QUANTITY',
+        message: 'quantity must be a whole number of base units, at least 2',
+      });
+      return true;
+    case 'CATEGORY_NOT_FOUND':
+      res.status(404).json({ code: 'CATEGORY_NOT_FOUND', message: 'Product category not found' });
+      return true;
+    case 'PRODUCT_NOT_FOUND':
+      res.status(404).json({ code: 'PRODUCT_NOT_FOUND', message: 'Product not found' });
+      return true;
+    case 'BARCODE_NOT_FOUND':
+      res.status(404).json({ code: 'BARCODE_NOT_FOUND', message: 'Barcode not found for this product' });
+      return true;
+    case 'PACK_NOT_FOUND':
+      res.status(404).json({ code: 'PACK_NOT_FOUND', message: 'Pack not found for this product' });
+      return true;
+    case 'CATEGORY_NAME_TAKEN':
+      res.status(409).json({ code: 'CATEGORY_NAME_TAKEN', message: 'Category name already exists' });
+      return true;
+    case 'BARCODE_TAKEN':
+      res.status(409).json({ code: 'BARCODE_TAKEN', message: 'Barcode already in use by a product' });
+      return true;
+    case 'PACK_NAME_TAKEN':
+      res.status(409).json({ code: 'PACK_NAME_TAKEN', message: 'This product already has a pack with that name' });
+      return true;
+    case 'PACK_IN_USE':
+      res.status(409).json({ code: 'PACK_IN_USE', message: 'Pack is still linked to a barcode; remove the barcode first' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listProductCategoriesHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    const categories = await service.listProductCategories();
+    res.status(200).json({ categories });
+  } catch (e) {
+    console.error('listProductCategories error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createProductCategoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, description } = req.body;
+    const category = await service.createProductCategory({ name, description });
+    res.status(201).json({ category });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createProductCategory error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updateProductCategoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, description } = req.body;
+    const category = await service.updateProductCategory(req.params.id, { name, description });
+    res.status(200).json({ category });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updateProductCategory error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function deleteProductCategoryHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await service.deleteProductCategory(req.params.id);
+    res.status(204).send();
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('deleteProductCategory error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function getProductCatalogHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const catalog = await service.getProductCatalog(req.params.id);
+    res.status(200).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getProductCatalog error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function addProductBarcodeHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { barcode, label, packId } = req.body;
+    const catalog = await service.addProductBarcode(req.params.id, { barcode, label, packId });
+    res.status(201).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('addProductBarcode error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function removeProductBarcodeHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const catalog = await service.removeProductBarcode(req.params.id, req.params.barcodeId);
+    res.status(200).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('removeProductBarcode error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createProductPackHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, quantity } = req.body;
+    const catalog = await service.createProductPack(req.params.id, { name, quantity });
+    res.status(201).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createProductPack error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updateProductPackHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, quantity } = req.body;
+    const catalog = await service.updateProductPack(req.params.id, req.params.packId, { name, quantity });
+    res.status(200).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updateProductPack error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function deleteProductPackHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const catalog = await service.deleteProductPack(req.params.id, req.params.packId);
+    res.status(200).json(catalog);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('deleteProductPack error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
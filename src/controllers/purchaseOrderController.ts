@@ -0,0 +1,171 @@
+import { Request, Response } from 'express';
+import * as service from '../services/purchaseOrderService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'INVALID_LINES':
+      res.status(400).json({ code: 'INVALID_LINES', message: 'At least one line with a productId is required' });
+      return true;
+    case 'INVALID_QUANTITY':
+      res.status(400).json({ code: 'INVALID_QUANTITY', message: 'Quantities must be positive integers' });
+      return true;
+    case 'INVALID_AMOUNT':
+      res.status(400).json({ code: 'INVALID_AMOUNT', message: 'unitCost must be a non-negative number' });
+      return true;
+    case 'INVALID_DATE':
+      res.status(400).json({ code: 'INVALID_DATE', message: 'expectedAt must be a valid YYYY-MM-DD' });
+      return true;
+    case 'INVALID_EXPIRE_DATE':
+      res.status(400).json({ code: 'INVALID_EXPIRE_DATE', message: 'expireDate must be a valid ISO date string or null' });
+      return true;
+    case 'INVALID_STATUS':
+      res.status(400).json({
+        code: 'INVALID_STATUS',
+        message: 'status must be DRAFT, ORDERED, PARTIALLY_RECEIVED, RECEIVED or CANCELLED',
+      });
+      return true;
+    case 'DUPLICATE_PRODUCT_LINE':
+      res.status(400).json({ code: 'DUPLICATE_PRODUCT_LINE', message: 'Each product may appear on only one line' });
+      return true;
+    case 'INACTIVE_SUPPLIER':
+      res.status(400).json({ code: 'INACTIVE_SUPPLIER', message: 'Supplier does not exist or is inactive' });
+      return true;
+    case 'PRODUCT_NOT_FOUND':
+      res.status(400).json({ code: 'PRODUCT_NOT_FOUND', message: 'One or more products do not exist' });
+      return true;
+    case 'PRODUCT_ARCHIVED':
+      res.status(409).json({ code: 'PRODUCT_ARCHIVED', message: 'One or more products are archived' });
+      return true;
+    case 'LINE_NOT_FOUND':
+      res.status(400).json({ code: 'LINE_NOT_FOUND', message: 'lineId does not belong to this purchase order' });
+      return true;
+    case 'PURCHASE_ORDER_NOT_FOUND':
+      res.status(404).json({ code: 'PURCHASE_ORDER_NOT_FOUND', message: 'Purchase order not found' });
+      return true;
+    case 'PURCHASE_ORDER_NOT_EDITABLE':
+      res.status(409).json({ code: 'PURCHASE_ORDER_NOT_EDITABLE', message: 'Only DRAFT purchase orders can be edited' });
+      return true;
+    case 'INVALID_STATUS_TRANSITION':
+      res.status(409).json({ code: 'INVALID_STATUS_TRANSITION', message: 'Purchase order status does not allow this action' });
+      return true;
+    case 'PURCHASE_ORDER_NOT_RECEIVABLE':
+      res.status(409).json({
+        code: 'PURCHASE_ORDER_NOT_RECEIVABLE',
+        message: 'Only ORDERED or PARTIALLY_RECEIVED purchase orders can be received',
+      });
+      return true;
+    case 'OVER_RECEIPT':
+      res.status(409).json({ code: 'OVER_RECEIPT', message: 'Received quantity exceeds the outstanding quantity' });
+      return true;
+    case 'LOCATION_NOT_FOUND':
+      res.status(400).json({ code: 'LOCATION_NOT_FOUND', message: 'Stock location not found' });
+      return true;
+    case 'LOCATION_INACTIVE':
+      res.status(400).json({ code: 'LOCATION_INACTIVE', message: 'Stock location is inactive' });
+      return true;
+    case 'PO_NUMBER_CONFLICT':
+      res.status(409).json({ code: 'PO_NUMBER_CONFLICT', message: 'Could not assign a PO number, please retry' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listPurchaseOrdersHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const purchaseOrders = await service.listPurchaseOrders({
+      status: req.query.status as string | undefined,
+      supplierId: req.query.supplierId as string | undefined,
+    });
+    res.status(200).json({ purchaseOrders });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('listPurchaseOrders error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function getPurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const purchaseOrder = await service.getPurchaseOrder(req.params.id);
+    res.status(200).json({ purchaseOrder });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getPurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createPurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { supplierId, expectedAt, note, lines } = req.body;
+    if (!supplierId) {
+      res.status(400).json({ error: 'Missing required fields: supplierId, lines' });
+      return;
+    }
+    const purchaseOrder = await service.createPurchaseOrder({ supplierId, expectedAt, note, lines }, req.user!.id);
+    res.status(201).json({ purchaseOrder });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createPurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updatePurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { supplierId, expectedAt, note, lines } = req.body;
+    const purchaseOrder = await service.updatePurchaseOrder(req.params.id, { supplierId, expectedAt, note, lines });
+    res.status(200).json({ purchaseOrder });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updatePurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function orderPurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const purchaseOrder = await service.markPurchaseOrderOrdered(req.params.id);
+    res.status(200).json({ purchaseOrder });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('orderPurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function cancelPurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const purchaseOrder = await service.cancelPurchaseOrder(req.params.id);
+    res.status(200).json({ purchaseOrder });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('cancelPurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/purchase-orders/:id/receive — body: { locationId?, items: [{ lineId, quantity, lotNumber?, expireDate? }] } */
+export async function receivePurchaseOrderHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { items, locationId } = req.body ?? {};
+    if (locationId !== undefined && locationId !== null && typeof locationId !== 'string') {
+      res.status(400).json({ code: 'INVALID_LOCATION', message: 'locationId must be a string when provided' });
+      return;
+    }
+    const result = await service.receivePurchaseOrder(req.params.id, items, locationId, req.user!.id);
+    res.status(200).json(result);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('receivePurchaseOrder error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,15 +1,50 @@
 import { Request, Response } from 'express';
 import { stockInService } from '../services/stockInService';
-import { stockOutService } from '../services/stockOutService';
+import { isPickingStrategy, stockOutService } from '../services/stockOutService';
 import { stockLogService } from '../services/stockLogService';
-import { getStockLogsService } from '../services/getStockLogsService';
+import { getAllStockLogs, getStockLogsService, MAX_STOCK_LOG_LIMIT } from '../services/getStockLogsService';
 import { withdrawService } from '../services/withdrawService';
 import { depleteService } from '../services/depleteService';
 import { disposeService } from '../services/disposeService';
-import { DisposeRequest, StockInRequest, StockMovementLogType, StockOutRequest } from '../types/stock.types';
+import { DisposeRequest, ExpiredDispenseRequest, StockImportRequest, StockInRequest, StockLogFilters, StockMovementLogType, StockOutRequest, TransferRequest } from '../types/stock.types';
 import { Product } from '@prisma/client';
 import { prisma } from '../prisma';
 import { findProductById } from '../services/productService';
+import { getCostOfGoodsConsumed, getInventoryValuation } from '../services/inventoryValuationService';
+import { getReorderSuggestions, REORDER_SUGGESTION_CSV_COLUMNS } from '../services/reorderSuggestionService';
+import { toCsv } from '../utils/csv';
+import { reverseStockSession } from '../services/stockReversalService';
+import { transferStock } from '../services/stockTransferService';
+import { buildExpiryDigest, getExpiryDigestConfig, sendExpiryDigest } from '../services/expiryDigestService';
+import { listInUseStock } from '../services/stockInUseService';
+import { findLotRecall, setBatchStatus } from '../services/stockRecallService';
+import { isBarcodeTaken } from '../services/productCatalogService';
+import { importStock } from '../services/stockImportService';
+import { exportStockLogs } from '../services/inventoryReportService';
+import { getStockUserActivity } from '../services/stockActivityService';
+import { dispenseExpiredBatch, disposeExpiredStock, getExpiredStock } from '../services/expiredStockService';
+
+const REFERENCE_ERRORS: Record<string, string> = {
+  DAILY_RECORD_NOT_FOUND: 'Invalid request: dailyRecordId does not exist',
+  PATIENT_NOT_FOUND: 'Invalid request: patientId does not exist',
+  PATIENT_MISMATCH: 'Invalid request: patientId does not match the daily record',
+  LOCATION_NOT_FOUND: 'Invalid request: locationId does not exist',
+  LOCATION_INACTIVE: 'Invalid request: location is inactive',
+  DEFAULT_LOCATION_MISSING: 'No default stock location is configured',
+  SAME_LOCATION: 'Invalid request: fromLocationId and toLocationId must differ',
+};
+
+function isOptionalId(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === 'string';
+}
+
+// Maps unknown record / patient / location references to 400; returns true when handled.
+function handleReferenceError(res: Response, error: unknown): boolean {
+  const message = error instanceof Error ? REFERENCE_ERRORS[error.message] : undefined;
+  if (!message) return false;
+  res.status(400).json({ error: message });
+  return true;
+}
 
 /**
  * Handles POST /api/stock/in
@@ -43,6 +78,22 @@ export async function stockInHandler(req: Request, res: Response): Promise<void>
         return;
       }
 
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({
+          error: 'Invalid request: packId must be a string when provided',
+        });
+        return;
+      }
+
+      if (item.unitCost !== null && item.unitCost !== undefined) {
+        if (typeof item.unitCost !== 'number' || !Number.isFinite(item.unitCost) || item.unitCost < 0) {
+          res.status(400).json({
+            error: 'Invalid request: unitCost must be a non-negative number or null',
+          });
+          return;
+        }
+      }
+
       // Validate expireDate - can be null, empty string, or a valid date string
       // Treat empty string as null
       if (item.expireDate !== null && item.expireDate !== undefined && item.expireDate !== '') {
@@ -64,8 +115,13 @@ export async function stockInHandler(req: Request, res: Response): Promise<void>
       }
     }
 
+    if (!isOptionalId(body.locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
+    }
+
     // Process stock-in
-    const result = await stockInService(body.items);
+    const result = await stockInService(body.items, body.locationId, req.user!.id);
 
     // Check if all items succeeded
     const allSucceeded = result.results.every((r) => r.success);
@@ -73,6 +129,7 @@ export async function stockInHandler(req: Request, res: Response): Promise<void>
 
     res.status(statusCode).json(result);
   } catch (error) {
+    if (handleReferenceError(res, error)) return;
     console.error('Error in stockInHandler:', error);
     res.status(500).json({
       error: 'Internal server error',
@@ -83,7 +140,7 @@ export async function stockInHandler(req: Request, res: Response): Promise<void>
 
 /**
  * Handles POST /api/stock/out
- * Processes stock-out operations with automatic FEFO handling
+ * Processes stock-out operations in each product's picking order (FIFO, FEFO, or an explicit lot)
  */
 export async function stockOutHandler(req: Request, res: Response): Promise<void> {
   try {
@@ -112,10 +169,41 @@ export async function stockOutHandler(req: Request, res: Response): Promise<void
         });
         return;
       }
+
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({
+          error: 'Invalid request: packId must be a string when provided',
+        });
+        return;
+      }
+
+      if (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') {
+        res.status(400).json({
+          error: 'Invalid request: lotNumber must be a string when provided',
+        });
+        return;
+      }
+    }
+
+    if (!isOptionalId(body.dailyRecordId) || !isOptionalId(body.patientId)) {
+      res.status(400).json({
+        error: 'Invalid request: dailyRecordId and patientId must be strings when provided',
+      });
+      return;
+    }
+
+    if (!isOptionalId(body.locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
     }
 
     // Process stock-out
-    const result = await stockOutService(body.items);
+    const result = await stockOutService(
+      body.items,
+      { dailyRecordId: body.dailyRecordId, patientId: body.patientId },
+      body.locationId,
+      req.user!.id
+    );
 
     // Check if all items succeeded
     const allSucceeded = result.results.every((r) => r.success);
@@ -123,6 +211,7 @@ export async function stockOutHandler(req: Request, res: Response): Promise<void
 
     res.status(statusCode).json(result);
   } catch (error) {
+    if (handleReferenceError(res, error)) return;
     console.error('Error in stockOutHandler:', error);
 
     // Handle insufficient stock error specifically
@@ -146,10 +235,19 @@ export async function stockOutHandler(req: Request, res: Response): Promise<void
  * Retrieves stock movement logs grouped by sessionId
  * 
  * Query parameters:
- * - type: IN | OUT | WITHDRAW | DEPLETE (optional)
+ * - type: IN | OUT | WITHDRAW | DEPLETE | DISPOSE | ADJUST_IN | ADJUST_OUT | TRANSFER (optional)
  * - fromDate: YYYY-MM-DD (optional)
  * - toDate: YYYY-MM-DD (optional)
  * - filter: today | 7days (optional, predefined date filters)
+ * - locationId: movements at a location, including transfers into it (optional)
+ * - productId, barcode (primary or alternate), lotNumber, sessionId (optional)
+ * - userId: movements posted by this user (optional)
+ * - limit: entries per page (optional, default 100, max 500)
+ * - cursor: X-Next-Cursor of the previous page (optional)
+ * - format: json | csv | pdf (optional, default json) - csv/pdf download the movement register
+ *   (every page)
+ *
+ * The JSON body is the page's entries; the X-Next-Cursor response header is set while more follow.
  */
 export async function stockLogsHandler(req: Request, res: Response): Promise<void> {
   try {
@@ -158,15 +256,41 @@ export async function stockLogsHandler(req: Request, res: Response): Promise<voi
     const fromDate = req.query.fromDate as string | undefined;
     const toDate = req.query.toDate as string | undefined;
     const filter = req.query.filter as 'today' | '7days' | undefined;
+    const locationId = req.query.locationId as string | undefined;
+    const { productId, barcode, lotNumber, sessionId, userId, cursor, limit } = req.query;
+    const format = req.query.format as string | undefined;
+
+    if (format && format !== 'json' && format !== 'csv' && format !== 'pdf') {
+      res.status(400).json({ error: 'Invalid request: format must be "json", "csv" or "pdf"' });
+      return;
+    }
 
     // Validate type if provided
-    if (type && !['IN', 'OUT', 'WITHDRAW', 'DEPLETE', 'DISPOSE'].includes(type)) {
+    if (type && !['IN', 'OUT', 'WITHDRAW', 'DEPLETE', 'DISPOSE', 'ADJUST_IN', 'ADJUST_OUT', 'TRANSFER'].includes(type)) {
       res.status(400).json({
-        error: 'Invalid request: type must be IN, OUT, WITHDRAW, DEPLETE, or DISPOSE',
+        error: 'Invalid request: type must be IN, OUT, WITHDRAW, DEPLETE, DISPOSE, ADJUST_IN, ADJUST_OUT, or TRANSFER',
       });
       return;
     }
 
+    if (locationId !== undefined && typeof locationId !== 'string') {
+      res.status(400).json({ error: 'Invalid request: locationId must be a single value' });
+      return;
+    }
+
+    for (const [name, value] of Object.entries({ productId, barcode, lotNumber, sessionId, userId, cursor })) {
+      if (value !== undefined && typeof value !== 'string') {
+        res.status(400).json({ error: `Invalid request: ${name} must be a single value` });
+        return;
+      }
+    }
+
+    const parsedLimit = limit !== undefined ? Number(limit) : undefined;
+    if (parsedLimit !== undefined && (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_STOCK_LOG_LIMIT)) {
+      res.status(400).json({ error: `Invalid request: limit must be between 1 and ${MAX_STOCK_LOG_LIMIT}` });
+      return;
+    }
+
     // Validate filter if provided
     if (filter && filter !== 'today' && filter !== '7days') {
       res.status(400).json({
@@ -197,22 +321,36 @@ export async function stockLogsHandler(req: Request, res: Response): Promise<voi
     }
 
     // Build filters object
-    const filters: {
-      type?: StockMovementLogType;
-      fromDate?: string;
-      toDate?: string;
-      filter?: 'today' | '7days';
-    } = {};
+    const filters: StockLogFilters = {};
 
     if (type) filters.type = type;
     if (fromDate) filters.fromDate = fromDate;
     if (toDate) filters.toDate = toDate;
     if (filter) filters.filter = filter;
+    if (locationId) filters.locationId = locationId;
+    if (productId) filters.productId = productId as string;
+    if (barcode) filters.barcode = barcode as string;
+    if (lotNumber) filters.lotNumber = lotNumber as string;
+    if (sessionId) filters.sessionId = sessionId as string;
+    if (userId) filters.userId = userId as string;
 
-    // Get stock logs
-    const result = await getStockLogsService(filters);
-    res.status(200).json(result);
+    if (format === 'csv' || format === 'pdf') {
+      const file = await exportStockLogs(await getAllStockLogs(filters), filters, format);
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.status(200).send(file.body);
+      return;
+    }
+
+    // Get one page of stock logs
+    const page = await getStockLogsService({ ...filters, limit: parsedLimit, cursor: cursor as string | undefined });
+    if (page.nextCursor) res.setHeader('X-Next-Cursor', page.nextCursor);
+    res.status(200).json(page.entries);
   } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_CURSOR') {
+      res.status(400).json({ error: 'Invalid request: cursor is not valid' });
+      return;
+    }
     console.error('Error in stockLogsHandler:', error);
     res.status(500).json({
       error: 'Internal server error',
@@ -227,13 +365,23 @@ export async function stockLogsHandler(req: Request, res: Response): Promise<voi
  */
 export async function withdrawHandler(req: Request, res: Response): Promise<void> {
   try {
-    const { items } = req.body;
+    const { items, dailyRecordId, patientId, locationId } = req.body;
 
     if (!items || !Array.isArray(items) || items.length === 0) {
       res.status(400).json({ error: 'Invalid request: items array is required and must not be empty' });
       return;
     }
 
+    if (!isOptionalId(dailyRecordId) || !isOptionalId(patientId)) {
+      res.status(400).json({ error: 'Invalid request: dailyRecordId and patientId must be strings when provided' });
+      return;
+    }
+
+    if (!isOptionalId(locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
+    }
+
     for (const item of items) {
       if (!item.barcode || typeof item.barcode !== 'string') {
         res.status(400).json({ error: 'Invalid request: each item must have a valid barcode' });
@@ -243,12 +391,21 @@ export async function withdrawHandler(req: Request, res: Response): Promise<void
         res.status(400).json({ error: 'Invalid request: each item must have a positive quantity' });
         return;
       }
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({ error: 'Invalid request: packId must be a string when provided' });
+        return;
+      }
+      if (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') {
+        res.status(400).json({ error: 'Invalid request: lotNumber must be a string when provided' });
+        return;
+      }
     }
 
-    const result = await withdrawService(items);
+    const result = await withdrawService(items, { dailyRecordId, patientId }, locationId, req.user!.id);
     const allSucceeded = result.results.every((r) => r.success);
     res.status(allSucceeded ? 200 : 207).json(result);
   } catch (error) {
+    if (handleReferenceError(res, error)) return;
     console.error('Error in withdrawHandler:', error);
     if (error instanceof Error && error.message.includes('Insufficient stock')) {
       res.status(409).json({ error: 'Insufficient stock', message: error.message });
@@ -260,7 +417,7 @@ export async function withdrawHandler(req: Request, res: Response): Promise<void
 
 /**
  * Handles POST /api/stock/deplete
- * Marks reusable in-use items as consumed (decrements inUseQuantity)
+ * Marks reusable in-use items as consumed (decrements inUseQuantity), optionally from one lot
  */
 export async function depleteHandler(req: Request, res: Response): Promise<void> {
   try {
@@ -280,9 +437,17 @@ export async function depleteHandler(req: Request, res: Response): Promise<void>
         res.status(400).json({ error: 'Invalid request: each item must have a positive quantity' });
         return;
       }
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({ error: 'Invalid request: packId must be a string when provided' });
+        return;
+      }
+      if (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') {
+        res.status(400).json({ error: 'Invalid request: lotNumber must be a string when provided' });
+        return;
+      }
     }
 
-    const result = await depleteService(items);
+    const result = await depleteService(items, req.user!.id);
     const allSucceeded = result.results.every((r) => r.success);
     res.status(allSucceeded ? 200 : 207).json(result);
   } catch (error) {
@@ -313,16 +478,34 @@ export async function disposeHandler(req: Request, res: Response): Promise<void>
         res.status(400).json({ error: 'Invalid request: each item must have a positive quantity' });
         return;
       }
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({ error: 'Invalid request: packId must be a string when provided' });
+        return;
+      }
+      if (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') {
+        res.status(400).json({ error: 'Invalid request: lotNumber must be a string when provided' });
+        return;
+      }
+      if (item.expiredOnly !== undefined && typeof item.expiredOnly !== 'boolean') {
+        res.status(400).json({ error: 'Invalid request: expiredOnly must be a boolean when provided' });
+        return;
+      }
       if (!item.reason || typeof item.reason !== 'string' || item.reason.trim().length === 0) {
         res.status(400).json({ error: 'Invalid request: each item must have a non-empty reason' });
         return;
       }
     }
 
-    const result = await disposeService(body.items);
+    if (!isOptionalId(body.locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
+    }
+
+    const result = await disposeService(body.items, body.locationId, req.user!.id);
     const allSucceeded = result.results.every((r) => r.success);
     res.status(allSucceeded ? 200 : 207).json(result);
   } catch (error) {
+    if (handleReferenceError(res, error)) return;
     console.error('Error in disposeHandler:', error);
     if (error instanceof Error && error.message.includes('Insufficient stock')) {
       res.status(409).json({ error: 'Insufficient stock', message: error.message });
@@ -332,15 +515,480 @@ export async function disposeHandler(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Handles POST /api/stock/transfer
+ * Moves stock between two locations (FIFO, or a specific lot per item).
+ */
+export async function transferHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const body: TransferRequest = req.body;
+
+    if (!body.fromLocationId || typeof body.fromLocationId !== 'string' || !body.toLocationId || typeof body.toLocationId !== 'string') {
+      res.status(400).json({ error: 'Invalid request: fromLocationId and toLocationId are required' });
+      return;
+    }
+
+    if (!body.items || !Array.isArray(body.items) || body.items.length === 0) {
+      res.status(400).json({ error: 'Invalid request: items array is required and must not be empty' });
+      return;
+    }
+
+    for (const item of body.items) {
+      if (!item.barcode || typeof item.barcode !== 'string') {
+        res.status(400).json({ error: 'Invalid request: each item must have a valid barcode' });
+        return;
+      }
+      if (!item.quantity || typeof item.quantity !== 'number' || item.quantity <= 0) {
+        res.status(400).json({ error: 'Invalid request: each item must have a positive quantity' });
+        return;
+      }
+      if (!isOptionalId(item.packId)) {
+        res.status(400).json({ error: 'Invalid request: packId must be a string when provided' });
+        return;
+      }
+      if (item.lotNumber !== undefined && item.lotNumber !== null && typeof item.lotNumber !== 'string') {
+        res.status(400).json({ error: 'Invalid request: lotNumber must be a string when provided' });
+        return;
+      }
+    }
+
+    const result = await transferStock(body.fromLocationId, body.toLocationId, body.items, req.user!.id);
+    const allSucceeded = result.results.every((r) => r.success);
+    res.status(allSucceeded ? 200 : 207).json(result);
+  } catch (error) {
+    if (handleReferenceError(res, error)) return;
+    console.error('Error in transferHandler:', error);
+    if (error instanceof Error && error.message.includes('Insufficient stock')) {
+      res.status(409).json({ error: 'Insufficient stock', message: error.message });
+      return;
+    }
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/valuation
+ * FIFO inventory value per product and per batch.
+ *
+ * Query parameters:
+ * - asOf: YYYY-MM-DD (optional, defaults to current stock)
+ */
+export async function stockValuationHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const asOf = req.query.asOf as string | undefined;
+    const result = await getInventoryValuation(asOf || undefined);
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_DATE') {
+      res.status(400).json({ error: 'Invalid request: asOf must be in YYYY-MM-DD format' });
+      return;
+    }
+    console.error('Error in stockValuationHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/cogs
+ * Cost of goods consumed (OUT/WITHDRAW) and disposed (DISPOSE) over a date range.
+ *
+ * Query parameters:
+ * - fromDate: YYYY-MM-DD (required)
+ * - toDate: YYYY-MM-DD (required, inclusive)
+ */
+export async function costOfGoodsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const fromDate = req.query.fromDate as string | undefined;
+    const toDate = req.query.toDate as string | undefined;
+
+    if (!fromDate || !toDate) {
+      res.status(400).json({ error: 'Invalid request: fromDate and toDate are required' });
+      return;
+    }
+
+    const result = await getCostOfGoodsConsumed(fromDate, toDate);
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_DATE') {
+      res.status(400).json({ error: 'Invalid request: fromDate and toDate must be in YYYY-MM-DD format' });
+      return;
+    }
+    if (error instanceof Error && error.message === 'INVALID_RANGE') {
+      res.status(400).json({ error: 'Invalid request: toDate must not be before fromDate and the range must not exceed 366 days' });
+      return;
+    }
+    console.error('Error in costOfGoodsHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/activity
+ * Stock work per user (sessions, movements per type, products created) over a date range.
+ *
+ * Query parameters:
+ * - fromDate: YYYY-MM-DD (required)
+ * - toDate: YYYY-MM-DD (required, inclusive)
+ * - userId: restrict to one user (optional)
+ */
+export async function userActivityHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { fromDate, toDate, userId } = req.query;
+
+    if (typeof fromDate !== 'string' || typeof toDate !== 'string' || !fromDate || !toDate) {
+      res.status(400).json({ error: 'Invalid request: fromDate and toDate are required' });
+      return;
+    }
+    if (userId !== undefined && typeof userId !== 'string') {
+      res.status(400).json({ error: 'Invalid request: userId must be a single value' });
+      return;
+    }
+
+    const result = await getStockUserActivity(fromDate, toDate, userId || null);
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_DATE') {
+      res.status(400).json({ error: 'Invalid request: fromDate and toDate must be in YYYY-MM-DD format' });
+      return;
+    }
+    if (error instanceof Error && error.message === 'INVALID_RANGE') {
+      res.status(400).json({ error: 'Invalid request: toDate must not be before fromDate and the range must not exceed 366 days' });
+      return;
+    }
+    console.error('Error in userActivityHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/reorder-suggestions
+ * Suggested order quantities from recent consumption velocity.
+ *
+ * Query parameters:
+ * - windowDays: consumption history in days (optional, default 30)
+ * - targetCoverDays: days of cover to order up to (optional, default 30)
+ * - includeAll: true to also list products that need no order (optional)
+ * - format: json | csv (optional, default json)
+ */
+export async function reorderSuggestionsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { windowDays, targetCoverDays, includeAll, format } = req.query as Record<string, string | undefined>;
+
+    if (format && format !== 'json' && format !== 'csv') {
+      res.status(400).json({ error: 'Invalid request: format must be "json" or "csv"' });
+      return;
+    }
+
+    const result = await getReorderSuggestions({
+      windowDays: windowDays ? Number(windowDays) : undefined,
+      targetCoverDays: targetCoverDays ? Number(targetCoverDays) : undefined,
+      includeAll: includeAll === 'true',
+    });
+
+    if (format === 'csv') {
+      const filename = `reorder-suggestions-${result.generatedAt.slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.status(200).send(toCsv(result.suggestions, REORDER_SUGGESTION_CSV_COLUMNS));
+      return;
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'INVALID_WINDOW') {
+      res.status(400).json({ error: 'Invalid request: windowDays and targetCoverDays must be whole numbers between 1 and 365' });
+      return;
+    }
+    console.error('Error in reorderSuggestionsHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/** Dry run: returns the digest the scheduled job would push, without sending anything. */
+export async function expiryDigestPreviewHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    const config = getExpiryDigestConfig();
+    const digest = await buildExpiryDigest(config.windows);
+    res.status(200).json({ recipients: config.lineUserIds.length, digest });
+  } catch (error) {
+    console.error('Error in expiryDigestPreviewHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/in-use
+ * Lists opened reusable stock per batch with its opened date and use-by.
+ *
+ * Query parameters:
+ * - productId / barcode: restrict to one product (optional)
+ * - pastUseBy=true: only items past their post-opening shelf life (optional)
+ */
+export async function inUseStockHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { productId, barcode, pastUseBy } = req.query;
+
+    if (pastUseBy !== undefined && pastUseBy !== 'true' && pastUseBy !== 'false') {
+      res.status(400).json({ error: 'Invalid request: pastUseBy must be true or false' });
+      return;
+    }
+
+    const result = await listInUseStock({
+      productId: typeof productId === 'string' && productId ? productId : undefined,
+      barcode: typeof barcode === 'string' && barcode ? barcode : undefined,
+      pastUseBy: pastUseBy === 'true',
+    });
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in inUseStockHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles GET /api/stock/recalls
+ * Looks up a recalled lot: its batches, remaining quantities, movements and affected patients.
+ *
+ * Query parameters:
+ * - lotNumber: lot to look up (required)
+ * - barcode: restrict to one product (optional; lot numbers may repeat across products)
+ */
+export async function recallLookupHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { lotNumber, barcode } = req.query;
+
+    if (typeof lotNumber !== 'string' || !lotNumber.trim()) {
+      res.status(400).json({ error: 'Invalid request: lotNumber is required' });
+      return;
+    }
+    if (barcode !== undefined && typeof barcode !== 'string') {
+      res.status(400).json({ error: 'Invalid request: barcode must be a string' });
+      return;
+    }
+
+    const result = await findLotRecall(lotNumber.trim(), barcode?.trim() || null);
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in recallLookupHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles PUT /api/stock/batches/:batchId/status
+ * Quarantines a batch so stock-out/withdraw skip it, or releases it (status ACTIVE).
+ */
+export async function batchStatusHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { status, reason } = req.body ?? {};
+
+    if (status !== 'ACTIVE' && status !== 'QUARANTINED') {
+      res.status(400).json({ error: 'Invalid request: status must be ACTIVE or QUARANTINED' });
+      return;
+    }
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      res.status(400).json({ error: 'Invalid request: reason must be a string when provided' });
+      return;
+    }
+
+    const result = await setBatchStatus(req.params.batchId, { status, reason });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'BATCH_NOT_FOUND') {
+      res.status(404).json({ error: 'Stock batch not found' });
+      return;
+    }
+    console.error('Error in batchStatusHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+const EXPIRED_STOCK_ERRORS: Record<string, { status: number; error: string }> = {
+  PRODUCT_NOT_FOUND: { status: 404, error: 'Product not found' },
+  NO_EXPIRED_STOCK: { status: 409, error: 'Product has no expired stock to dispose' },
+  BATCH_NOT_FOUND: { status: 404, error: 'Stock batch not found' },
+  BATCH_NOT_EXPIRED: { status: 409, error: 'Stock batch is not expired; use /api/stock/out instead' },
+  BATCH_QUARANTINED: { status: 409, error: 'Stock batch is quarantined' },
+  PRODUCT_ARCHIVED: { status: 409, error: 'Product is archived; its stock can only be disposed' },
+  PRODUCT_REUSABLE: { status: 409, error: 'Reusable products cannot be dispensed from an expired batch' },
+  INSUFFICIENT_STOCK: { status: 409, error: 'Insufficient stock' },
+};
+
+function handleExpiredStockError(res: Response, error: unknown): boolean {
+  const known = error instanceof Error ? EXPIRED_STOCK_ERRORS[error.message] : undefined;
+  if (!known) return false;
+  res.status(known.status).json({ error: known.error });
+  return true;
+}
+
+/**
+ * Handles GET /api/stock/expired
+ * Expired batches still holding quantity, per product (optional query: locationId).
+ */
+export async function expiredStockHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { locationId } = req.query;
+    if (locationId !== undefined && typeof locationId !== 'string') {
+      res.status(400).json({ error: 'Invalid request: locationId must be a single value' });
+      return;
+    }
+
+    const result = await getExpiredStock(locationId || null);
+    res.status(200).json(result);
+  } catch (error) {
+    if (handleReferenceError(res, error)) return;
+    console.error('Error in expiredStockHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles POST /api/stock/expired/:productId/dispose
+ * Disposes all expired stock of a product with reason EXPIRED (optional body: locationId).
+ */
+export async function disposeExpiredHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { locationId } = req.body ?? {};
+    if (!isOptionalId(locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
+    }
+
+    const result = await disposeExpiredStock(req.params.productId, locationId, req.user!.id);
+    res.status(200).json(result);
+  } catch (error) {
+    if (handleExpiredStockError(res, error) || handleReferenceError(res, error)) return;
+    // Expired stock used or disposed meanwhile
+    if (error instanceof Error && error.message.includes('Insufficient stock')) {
+      res.status(409).json({ error: 'Insufficient stock', message: error.message });
+      return;
+    }
+    console.error('Error in disposeExpiredHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/**
+ * Handles POST /api/stock/expired/dispense (ADMIN)
+ * Dispenses from an expired batch; the justification is recorded on the OUT movement.
+ */
+export async function dispenseExpiredHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const body: ExpiredDispenseRequest = req.body ?? {};
+
+    if (!body.batchId || typeof body.batchId !== 'string') {
+      res.status(400).json({ error: 'Invalid request: batchId is required' });
+      return;
+    }
+    if (!Number.isInteger(body.quantity) || body.quantity <= 0) {
+      res.status(400).json({ error: 'Invalid request: quantity must be a positive whole number' });
+      return;
+    }
+    if (typeof body.justification !== 'string' || body.justification.trim().length === 0) {
+      res.status(400).json({ error: 'Invalid request: justification is required' });
+      return;
+    }
+    if (!isOptionalId(body.dailyRecordId) || !isOptionalId(body.patientId)) {
+      res.status(400).json({
+        error: 'Invalid request: dailyRecordId and patientId must be strings when provided',
+      });
+      return;
+    }
+
+    const result = await dispenseExpiredBatch(body, req.user!.id);
+    res.status(200).json(result);
+  } catch (error) {
+    if (handleExpiredStockError(res, error) || handleReferenceError(res, error)) return;
+    console.error('Error in dispenseExpiredHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+/** Sends the digest now to the configured recipients (same as the scheduled run). */
+export async function expiryDigestSendHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    const result = await sendExpiryDigest();
+    res.status(200).json(result);
+  } catch (error) {
+    console.error('Error in expiryDigestSendHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+const REVERSAL_ERRORS: Record<string, { status: number; error: string }> = {
+  SESSION_NOT_FOUND: { status: 404, error: 'Stock session not found' },
+  SESSION_ALREADY_REVERSED: { status: 409, error: 'Stock session has already been reversed' },
+  SESSION_NOT_REVERSIBLE: {
+    status: 409,
+    error: 'Only stock-in, stock-out, withdraw and dispose sessions can be reversed',
+  },
+  STOCK_ALREADY_CONSUMED: {
+    status: 409,
+    error: 'Stock from this session has already been used and can no longer be reversed',
+  },
+};
+
+/**
+ * Handles POST /api/stock/sessions/:sessionId/reverse
+ * Posts compensating movements that restore the batches touched by a session.
+ *
+ * Body: { reason?: string }
+ */
+export async function reverseSessionHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const reason = req.body?.reason;
+    if (reason !== undefined && reason !== null && typeof reason !== 'string') {
+      res.status(400).json({ error: 'Invalid request: reason must be a string' });
+      return;
+    }
+
+    const result = await reverseStockSession(req.params.sessionId, reason, req.user!.id);
+    res.status(200).json(result);
+  } catch (error) {
+    const known = error instanceof Error ? REVERSAL_ERRORS[error.message] : undefined;
+    if (known) {
+      res.status(known.status).json({ error: known.error });
+      return;
+    }
+    console.error('Error in reverseSessionHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+// Post-opening shelf life: omitted/null (no limit) or a positive number of days
+function isShelfLifeDays(value: unknown): boolean {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) > 0);
+}
+
 export async function createProduct(req: Request, res: Response): Promise<void> {
   try {
     const body: Product = req.body;
+    if (!isShelfLifeDays(body.openedShelfLifeDays)) {
+      res.status(400).json({ error: 'Invalid request: openedShelfLifeDays must be a positive whole number or null' });
+      return;
+    }
+    if (!isOptionalId(body.categoryId)) {
+      res.status(400).json({ error: 'Invalid request: categoryId must be a string when provided' });
+      return;
+    }
+    if (body.pickingStrategy != null && !isPickingStrategy(body.pickingStrategy)) {
+      res.status(400).json({ error: 'Invalid request: pickingStrategy must be FIFO, FEFO, MANUAL or null' });
+      return;
+    }
+    if (typeof body.barcode === 'string' && (await isBarcodeTaken(body.barcode))) {
+      res.status(409).json({ error: 'Barcode already in use by another product' });
+      return;
+    }
     const product = await prisma.product.create({
       data: {
         name: body.name,
         barcode: body.barcode,
         unit: body.unit,
         minStock: body.minStock,
+        ...(body.openedShelfLifeDays != null ? { openedShelfLifeDays: body.openedShelfLifeDays } : {}),
+        ...(body.categoryId ? { categoryId: body.categoryId } : {}),
+        ...(body.pickingStrategy ? { pickingStrategy: body.pickingStrategy } : {}),
+        createdById: req.user!.id,
       },
     });
     res.status(200).json(product);
@@ -353,6 +1001,45 @@ export async function createProduct(req: Request, res: Response): Promise<void>
   }
 }
 
+/**
+ * Handles POST /api/stock/import
+ * Creates products with their opening stock from a CSV (text) or XLSX (base64) sheet.
+ * Returns the row-level report: 200 for a dry-run or a committed import, 422 when rows are invalid.
+ */
+export async function importStockHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const body: StockImportRequest = req.body;
+
+    if (body.format !== 'csv' && body.format !== 'xlsx') {
+      res.status(400).json({ error: 'Invalid request: format must be csv or xlsx' });
+      return;
+    }
+    if (!body.content || typeof body.content !== 'string') {
+      res.status(400).json({ error: 'Invalid request: content is required' });
+      return;
+    }
+    if (!isOptionalId(body.locationId)) {
+      res.status(400).json({ error: 'Invalid request: locationId must be a string when provided' });
+      return;
+    }
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+      res.status(400).json({ error: 'Invalid request: dryRun must be a boolean' });
+      return;
+    }
+
+    const result = await importStock(body, req.user!.id);
+    res.status(!result.dryRun && result.errors.length > 0 ? 422 : 200).json(result);
+  } catch (error) {
+    if (handleReferenceError(res, error)) return;
+    if (error instanceof Error && error.message === 'INVALID_XLSX') {
+      res.status(400).json({ error: 'Invalid request: content is not a readable XLSX workbook' });
+      return;
+    }
+    console.error('Error in importStockHandler:', error);
+    res.status(500).json({ error: 'Internal server error', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
 export async function getStockById(req: Request, res: Response): Promise<void> {
   try {
     const result = await findProductById(req.params.stockId);
@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import * as service from '../services/stockCountService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'INVALID_LINES':
+      res.status(400).json({ code: 'INVALID_LINES', message: 'At least one item with a barcode is required' });
+      return true;
+    case 'INVALID_QUANTITY':
+      res.status(400).json({ code: 'INVALID_QUANTITY', message: 'countedQuantity must be a non-negative integer' });
+      return true;
+    case 'INVALID_EXPIRE_DATE':
+      res.status(400).json({ code: 'INVALID_EXPIRE_DATE', message: 'expireDate must be a valid ISO date string or null' });
+      return true;
+    case 'INVALID_STATUS':
+      res.status(400).json({ code: 'INVALID_STATUS', message: 'status must be OPEN, COMMITTED or CANCELLED' });
+      return true;
+    case 'PRODUCT_NOT_FOUND':
+      res.status(400).json({ code: 'PRODUCT_NOT_FOUND', message: 'No product matches the scanned barcode' });
+      return true;
+    case 'LOT_REQUIRED':
+      res.status(400).json({ code: 'LOT_REQUIRED', message: 'lotNumber is required when the product has zero or several batches in stock' });
+      return true;
+    case 'LOT_AMBIGUOUS':
+      res.status(400).json({ code: 'LOT_AMBIGUOUS', message: 'Several batches share this lot number; include expireDate' });
+      return true;
+    case 'REASON_REQUIRED':
+      res.status(400).json({ code: 'REASON_REQUIRED', message: 'Every line with a variance needs a reason (per line or for the whole count)' });
+      return true;
+    case 'LOCATION_NOT_FOUND':
+      res.status(400).json({ code: 'LOCATION_NOT_FOUND', message: 'Stock location not found' });
+      return true;
+    case 'LOCATION_INACTIVE':
+      res.status(400).json({ code: 'LOCATION_INACTIVE', message: 'Stock location is inactive' });
+      return true;
+    case 'LINE_NOT_FOUND':
+      res.status(404).json({ code: 'LINE_NOT_FOUND', message: 'Line not found on this stock count' });
+      return true;
+    case 'STOCK_COUNT_NOT_FOUND':
+      res.status(404).json({ code: 'STOCK_COUNT_NOT_FOUND', message: 'Stock count not found' });
+      return true;
+    case 'STOCK_COUNT_NOT_OPEN':
+      res.status(409).json({ code: 'STOCK_COUNT_NOT_OPEN', message: 'Stock count is already committed or cancelled' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listStockCountsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const stockCounts = await service.listStockCounts(req.query.status as string | undefined);
+    res.status(200).json({ stockCounts });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('listStockCounts error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function getStockCountHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const stockCount = await service.getStockCount(req.params.id);
+    res.status(200).json({ stockCount });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getStockCount error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/stock/counts — body: { note?, locationId? } (default location when omitted) */
+export async function openStockCountHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const locationId = req.body?.locationId;
+    if (locationId !== undefined && locationId !== null && typeof locationId !== 'string') {
+      res.status(400).json({ code: 'INVALID_LOCATION', message: 'locationId must be a string when provided' });
+      return;
+    }
+    const stockCount = await service.openStockCount(req.body?.note, req.user!.id, locationId);
+    res.status(201).json({ stockCount });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('openStockCount error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/stock/counts/:id/lines — body: { items: [{ barcode, lotNumber?, expireDate?, countedQuantity, reason? }] } */
+export async function recordStockCountLinesHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const stockCount = await service.recordStockCountLines(req.params.id, req.body?.items);
+    res.status(200).json({ stockCount });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('recordStockCountLines error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function removeStockCountLineHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const stockCount = await service.removeStockCountLine(req.params.id, req.params.lineId);
+    res.status(200).json({ stockCount });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('removeStockCountLine error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/stock/counts/:id/commit — body: { reason? } (default reason for lines without one) */
+export async function commitStockCountHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await service.commitStockCount(req.params.id, req.user!.id, req.body?.reason);
+    res.status(200).json(result);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('commitStockCount error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function cancelStockCountHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const stockCount = await service.cancelStockCount(req.params.id);
+    res.status(200).json({ stockCount });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('cancelStockCount error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,103 @@
+import { Request, Response } from 'express';
+import * as service from '../services/stockLocationService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'INVALID_NAME':
+      res.status(400).json({ code: 'INVALID_NAME', message: 'Location name is required' });
+      return true;
+    case 'INVALID_THRESHOLDS':
+      res.status(400).json({ code: 'INVALID_THRESHOLDS', message: 'thresholds must be a list of { productId, minStock }' });
+      return true;
+    case 'INVALID_MIN_STOCK':
+      res.status(400).json({ code: 'INVALID_MIN_STOCK', message: 'minStock must be a non-negative integer' });
+      return true;
+    case 'DUPLICATE_PRODUCT':
+      res.status(400).json({ code: 'DUPLICATE_PRODUCT', message: 'Each product may appear only once' });
+      return true;
+    case 'PRODUCT_NOT_FOUND':
+      res.status(400).json({ code: 'PRODUCT_NOT_FOUND', message: 'One or more products do not exist' });
+      return true;
+    case 'LOCATION_NOT_FOUND':
+      res.status(404).json({ code: 'LOCATION_NOT_FOUND', message: 'Stock location not found' });
+      return true;
+    case 'LOCATION_NAME_TAKEN':
+      res.status(409).json({ code: 'LOCATION_NAME_TAKEN', message: 'Location name already exists' });
+      return true;
+    case 'DEFAULT_LOCATION_REQUIRED':
+      res.status(409).json({
+        code: 'DEFAULT_LOCATION_REQUIRED',
+        message: 'Make another location the default before changing this one',
+      });
+      return true;
+    case 'LOCATION_NOT_EMPTY':
+      res.status(409).json({ code: 'LOCATION_NOT_EMPTY', message: 'Location still holds stock; transfer it out first' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listStockLocationsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const activeOnly = req.query.active === 'true';
+    const locations = await service.listStockLocations(activeOnly);
+    res.status(200).json({ locations });
+  } catch (e) {
+    console.error('listStockLocations error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createStockLocationHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, description, isDefault } = req.body;
+    const location = await service.createStockLocation({ name, description, isDefault });
+    res.status(201).json({ location });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createStockLocation error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updateStockLocationHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { name, description, isDefault, isActive } = req.body;
+    const location = await service.updateStockLocation(id, { name, description, isDefault, isActive });
+    res.status(200).json({ location });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updateStockLocation error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** GET /api/stock/locations/:id/stock — per-product quantity and low-stock flag at the location */
+export async function getLocationStockHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await service.getLocationStock(req.params.id);
+    res.status(200).json(result);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getLocationStock error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** PUT /api/stock/locations/:id/thresholds — body: { thresholds: [{ productId, minStock }] } */
+export async function replaceLocationThresholdsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await service.replaceLocationThresholds(req.params.id, req.body?.thresholds);
+    res.status(200).json(result);
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('replaceLocationThresholds error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
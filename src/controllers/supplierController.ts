@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import * as service from '../services/supplierService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'INVALID_NAME':
+      res.status(400).json({ code: 'INVALID_NAME', message: 'Supplier name is required' });
+      return true;
+    case 'SUPPLIER_NAME_TAKEN':
+      res.status(409).json({ code: 'SUPPLIER_NAME_TAKEN', message: 'Supplier name already exists' });
+      return true;
+    case 'SUPPLIER_NOT_FOUND':
+      res.status(404).json({ code: 'SUPPLIER_NOT_FOUND', message: 'Supplier not found' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listSuppliersHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const activeOnly = req.query.active === 'true';
+    const suppliers = await service.listSuppliers(activeOnly);
+    res.status(200).json({ suppliers });
+  } catch (e) {
+    console.error('listSuppliers error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createSupplierHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { name, contactName, phone, email, address, note } = req.body;
+    const supplier = await service.createSupplier({ name, contactName, phone, email, address, note });
+    res.status(201).json({ supplier });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createSupplier error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updateSupplierHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    const { name, contactName, phone, email, address, note, active } = req.body;
+    const supplier = await service.updateSupplier(id, { name, contactName, phone, email, address, note, active });
+    res.status(200).json({ supplier });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updateSupplier error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function deleteSupplierHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { id } = req.params;
+    await service.softDeleteSupplier(id);
+    res.status(204).send();
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('deleteSupplier error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
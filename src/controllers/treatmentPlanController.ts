@@ -0,0 +1,210 @@
+import { Request, Response } from 'express';
+import * as service from '../services/treatmentPlanService';
+
+function handleDomainError(res: Response, msg: string): boolean {
+  switch (msg) {
+    case 'TREATMENT_PLAN_NOT_FOUND':
+      res.status(404).json({ code: 'TREATMENT_PLAN_NOT_FOUND', message: 'Treatment plan not found' });
+      return true;
+    case 'PLAN_ITEM_NOT_FOUND':
+      res.status(404).json({ code: 'PLAN_ITEM_NOT_FOUND', message: 'Treatment plan item not found' });
+      return true;
+    case 'PATIENT_NOT_FOUND':
+      res.status(404).json({ code: 'PATIENT_NOT_FOUND', message: 'Patient not found' });
+      return true;
+    case 'INACTIVE_DOCTOR':
+      res.status(400).json({ code: 'INACTIVE_DOCTOR', message: 'Doctor does not exist or is inactive' });
+      return true;
+    case 'INACTIVE_TREATMENT_TYPE':
+      res.status(400).json({ code: 'INACTIVE_TREATMENT_TYPE', message: 'Treatment type does not exist or is inactive' });
+      return true;
+    case 'EMPTY_PLAN':
+      res.status(400).json({ code: 'EMPTY_PLAN', message: 'items must be a non-empty array' });
+      return true;
+    case 'INVALID_PHASE':
+      res.status(400).json({ code: 'INVALID_PHASE', message: 'phase must be a positive integer' });
+      return true;
+    case 'INVALID_TOOTH_NUMBER':
+      res.status(400).json({ code: 'INVALID_TOOTH_NUMBER', message: 'toothNumber must be an FDI tooth number (11-48 or 51-85)' });
+      return true;
+    case 'INVALID_AMOUNT':
+      res.status(400).json({ code: 'INVALID_AMOUNT', message: 'estimatedFee must be a non-negative number' });
+      return true;
+    case 'INVALID_STATUS':
+      res.status(400).json({ code: 'INVALID_STATUS', message: 'status must be one of: PROPOSED, ACCEPTED, SCHEDULED, DONE, DECLINED' });
+      return true;
+    case 'ITEM_STATUS_NOT_ALLOWED':
+      res.status(422).json({ code: 'ITEM_STATUS_NOT_ALLOWED', message: 'An item becomes SCHEDULED by booking it as an appointment' });
+      return true;
+    case 'ITEM_ALREADY_DONE':
+      res.status(422).json({ code: 'ITEM_ALREADY_DONE', message: 'Cannot modify a completed plan item' });
+      return true;
+    case 'ITEM_NOT_SCHEDULABLE':
+      res.status(422).json({ code: 'ITEM_NOT_SCHEDULABLE', message: 'Only a proposed or accepted item, or one whose appointment was cancelled or missed, can be booked' });
+      return true;
+    case 'PLAN_IN_PROGRESS':
+      res.status(422).json({ code: 'PLAN_IN_PROGRESS', message: 'Cannot delete a plan with scheduled or completed items' });
+      return true;
+    // Booking errors from appointmentService
+    case 'DOCTOR_NOT_FOUND':
+      res.status(404).json({ code: 'DOCTOR_NOT_FOUND', message: 'Doctor not found' });
+      return true;
+    case 'TREATMENT_TYPE_NOT_FOUND':
+      res.status(404).json({ code: 'TREATMENT_TYPE_NOT_FOUND', message: 'Treatment type not found' });
+      return true;
+    case 'INVALID_DATE':
+      res.status(400).json({ code: 'INVALID_DATE', message: 'Invalid date' });
+      return true;
+    case 'SLOT_UNAVAILABLE':
+      res.status(409).json({ code: 'SLOT_UNAVAILABLE', message: 'Doctor has an overlapping appointment' });
+      return true;
+    case 'PATIENT_DOUBLE_BOOKED':
+      res.status(409).json({ code: 'PATIENT_DOUBLE_BOOKED', message: 'Patient already has an overlapping appointment' });
+      return true;
+    case 'FORBIDDEN':
+      res.status(403).json({ code: 'FORBIDDEN', message: 'Insufficient permissions' });
+      return true;
+    default:
+      return false;
+  }
+}
+
+export async function listTreatmentPlansHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const patientId = req.query.patientId;
+    if (!patientId || typeof patientId !== 'string') {
+      res.status(400).json({ error: 'patientId query parameter is required' });
+      return;
+    }
+    const treatmentPlans = await service.listTreatmentPlans(patientId, req.user!.role, req.user!.doctorId);
+    res.status(200).json({ treatmentPlans });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('listTreatmentPlans error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function getTreatmentPlanHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const treatmentPlan = await service.getTreatmentPlan(req.params.id, req.user!.role, req.user!.doctorId);
+    res.status(200).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('getTreatmentPlan error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function createTreatmentPlanHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { patientId, doctorId, title, notes, items } = req.body;
+    if (!patientId || (!doctorId && req.user!.role !== 'DOCTOR') || !Array.isArray(items)) {
+      res.status(400).json({ error: 'Missing required fields: patientId, doctorId, items' });
+      return;
+    }
+    const treatmentPlan = await service.createTreatmentPlan(
+      { patientId, doctorId, title, notes, items },
+      req.user!.id,
+      req.user!.role,
+      req.user!.doctorId,
+    );
+    res.status(201).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('createTreatmentPlan error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updateTreatmentPlanHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { title, notes } = req.body;
+    const treatmentPlan = await service.updateTreatmentPlan(
+      req.params.id,
+      { title, notes },
+      req.user!.role,
+      req.user!.doctorId,
+    );
+    res.status(200).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updateTreatmentPlan error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function deleteTreatmentPlanHandler(req: Request, res: Response): Promise<void> {
+  try {
+    await service.deleteTreatmentPlan(req.params.id);
+    res.status(204).send();
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('deleteTreatmentPlan error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function addPlanItemsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { items } = req.body;
+    if (!Array.isArray(items)) {
+      res.status(400).json({ error: 'items must be an array' });
+      return;
+    }
+    const treatmentPlan = await service.addPlanItems(req.params.id, items, req.user!.role, req.user!.doctorId);
+    res.status(201).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('addPlanItems error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function updatePlanItemHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { phase, toothNumber, estimatedFee, status, notes } = req.body;
+    const treatmentPlan = await service.updatePlanItem(
+      req.params.id,
+      req.params.itemId,
+      { phase, toothNumber, estimatedFee, status, notes },
+      req.user!.role,
+      req.user!.doctorId,
+    );
+    res.status(200).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('updatePlanItem error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** POST /api/treatment-plans/:id/items/:itemId/appointment — books the item as an appointment. */
+export async function schedulePlanItemHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const { date, startTime, doctorId, notes } = req.body;
+    if (!date || !startTime) {
+      res.status(400).json({ error: 'Missing required fields: date, startTime' });
+      return;
+    }
+    const treatmentPlan = await service.schedulePlanItem(
+      req.params.id,
+      req.params.itemId,
+      { date, startTime, doctorId, notes },
+      req.user!.id,
+    );
+    res.status(201).json({ treatmentPlan });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('schedulePlanItem error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import * as service from '../services/treatmentTypeService';
+import * as materials from '../services/treatmentMaterialService';
 
 function handleDomainError(res: Response, msg: string): boolean {
   switch (msg) {
@@ -15,6 +16,18 @@ function handleDomainError(res: Response, msg: string): boolean {
     case 'TREATMENT_TYPE_NOT_FOUND':
       res.status(404).json({ code: 'TREATMENT_TYPE_NOT_FOUND', message: 'Treatment type not found' });
       return true;
+    case 'INVALID_MATERIALS':
+      res.status(400).json({ code: 'INVALID_MATERIALS', message: 'materials must be an array of { productId, quantity }' });
+      return true;
+    case 'INVALID_QUANTITY':
+      res.status(400).json({ code: 'INVALID_QUANTITY', message: 'Material quantities must be positive integers' });
+      return true;
+    case 'DUPLICATE_PRODUCT':
+      res.status(400).json({ code: 'DUPLICATE_PRODUCT', message: 'Each product may appear only once' });
+      return true;
+    case 'PRODUCT_NOT_FOUND':
+      res.status(400).json({ code: 'PRODUCT_NOT_FOUND', message: 'One or more products do not exist' });
+      return true;
     default:
       return false;
   }
@@ -70,3 +83,28 @@ export async function deleteTreatmentTypeHandler(req: Request, res: Response): P
     res.status(500).json({ error: 'Internal server error' });
   }
 }
+
+export async function listTreatmentMaterialsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await materials.listTreatmentMaterials(req.params.id);
+    res.status(200).json({ materials: result });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('listTreatmentMaterials error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+/** PUT /api/treatment-types/:id/materials — body: { materials: [{ productId, quantity }] } (replaces all) */
+export async function replaceTreatmentMaterialsHandler(req: Request, res: Response): Promise<void> {
+  try {
+    const result = await materials.replaceTreatmentMaterials(req.params.id, req.body?.materials);
+    res.status(200).json({ materials: result });
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (handleDomainError(res, msg)) return;
+    console.error('replaceTreatmentMaterials error:', e);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
@@ -5,6 +5,7 @@ import cookieParser from 'cookie-parser';
 import cors from 'cors';
 import routes from './routes';
 import lineWebhookRoutes from './routes/lineWebhookRoutes';
+import { startExpiryDigestJob } from './jobs/expiryDigestJob';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -13,13 +14,22 @@ app.use(helmet());
 app.use(cors({
   origin: process.env.CORS_ORIGIN || 'http://localhost:5173',
   credentials: true,
+  exposedHeaders: ['X-Next-Cursor', 'Idempotent-Replayed'], // stock log pagination, idempotent replays
 }));
 app.use(cookieParser());
 
 // Line webhook needs raw body for HMAC signature verification — mount BEFORE express.json()
 app.use('/api/line', express.raw({ type: 'application/json' }), lineWebhookRoutes);
 
-app.use(express.json({ limit: '4mb' }));
+// Larger JSON bodies only where they are expected: stock imports (up to MAX_IMPORT_ROWS rows) and
+// the deprecated inline photoBase64 on patient create/update. Files themselves are uploaded as raw
+// bodies to POST /api/patients/:id/files. A body parsed here is skipped by the default parser below.
+const largeJson = express.json({ limit: '4mb' });
+app.post('/api/stock/import', largeJson);
+app.post('/api/patients', largeJson);
+app.put('/api/patients/:id', largeJson);
+
+app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
 // API routes
@@ -32,12 +42,17 @@ app.get('/health', (req, res) => {
 
 // Malformed-JSON guard: express.json() throws before route handlers run. Return the JSON error
 // shape used by the slip contract's 400 case instead of Express's default HTML 400 response.
+// Same for bodies over the parser limit (e.g. a file upload over FILE_UPLOAD_MAX_MB).
 app.use(
   (err: { type?: string }, _req: express.Request, res: express.Response, next: express.NextFunction) => {
     if (err?.type === 'entity.parse.failed') {
       res.status(400).json({ error: 'Malformed JSON' });
       return;
     }
+    if (err?.type === 'entity.too.large') {
+      res.status(413).json({ error: 'FILE_TOO_LARGE', message: 'Request body is too large' });
+      return;
+    }
     next(err);
   }
 );
@@ -45,5 +60,6 @@ app.use(
 // Start server
 app.listen(PORT, () => {
   console.log(`Server is running on port ${PORT}`);
+  if (process.env.FEATURE_EXPIRY_DIGEST === 'true') startExpiryDigestJob();
 });
 
@@ -0,0 +1,42 @@
+import { sendExpiryDigest } from '../services/expiryDigestService';
+
+const DEFAULT_DIGEST_TIME = '08:00';
+const CLINIC_OFFSET_MS = 7 * 60 * 60 * 1000; // Asia/Bangkok, no DST
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Milliseconds from `now` until the next occurrence of HH:MM clinic time. */
+export function msUntilNextRun(time: string, now: Date = new Date()): number {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  const [hours, minutes] = match ? [Number(match[1]), Number(match[2])] : [8, 0];
+  const clinicNow = now.getTime() + CLINIC_OFFSET_MS;
+  const clinicMidnight = clinicNow - (clinicNow % DAY_MS);
+  let next = clinicMidnight + (hours * 60 + minutes) * 60 * 1000;
+  if (next <= clinicNow) next += DAY_MS;
+  return next - clinicNow;
+}
+
+async function runDigest(): Promise<void> {
+  try {
+    const { sentTo, failed } = await sendExpiryDigest();
+    console.log(`[expiry-digest] sent to ${sentTo.length} recipient(s)`);
+    for (const f of failed) console.error(`[expiry-digest] push to ${f.lineUserId} failed: ${f.error}`);
+  } catch (err) {
+    console.error('[expiry-digest] failed to build digest:', err);
+  }
+}
+
+/**
+ * Schedules the daily expiry/low-stock digest at EXPIRY_DIGEST_TIME (HH:MM clinic time,
+ * default 08:00). The timer is re-armed after every run; it does not keep the process alive.
+ */
+export function startExpiryDigestJob(): void {
+  const time = process.env.EXPIRY_DIGEST_TIME || DEFAULT_DIGEST_TIME;
+  const schedule = () => {
+    setTimeout(async () => {
+      await runDigest();
+      schedule();
+    }, msUntilNextRun(time)).unref();
+  };
+  schedule();
+  console.log(`[expiry-digest] scheduled daily at ${time} clinic time`);
+}
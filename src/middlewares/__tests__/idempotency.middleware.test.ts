@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+import { NextFunction, Request, Response } from 'express';
+import { idempotency } from '../idempotency.middleware';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    idempotencyKey: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+function fakeRequest(): Request {
+  return {
+    method: 'POST',
+    baseUrl: '/api/stock',
+    path: '/out',
+    body: { items: [{ barcode: '123456', quantity: 2 }] },
+    user: { id: 'user-staff', role: 'STAFF', doctorId: null },
+    header: (name: string) => (name === 'Idempotency-Key' ? 'scan-42' : undefined),
+  } as unknown as Request;
+}
+
+// Just enough of Response for the middleware: status/json/set and the 'finish' event.
+function fakeResponse() {
+  const res = Object.assign(new EventEmitter(), {
+    statusCode: 200,
+    sent: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    set: jest.fn(),
+    json(body: unknown) {
+      res.sent = body;
+      res.emit('finish');
+      return res;
+    },
+  });
+  return res;
+}
+
+describe('idempotency middleware', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValue(null);
+    (prisma.idempotencyKey.create as jest.Mock).mockResolvedValue({ id: 'key-row-1' });
+  });
+
+  it('should store the response before sending it', async () => {
+    const res = fakeResponse();
+    const next: NextFunction = () => res.status(200).json({ sessionId: 'session-1' });
+
+    await idempotency(fakeRequest(), res as unknown as Response, next);
+    await new Promise((resolve) => res.once('finish', resolve));
+
+    expect(prisma.idempotencyKey.update).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 'key-row-1' }, data: expect.objectContaining({ statusCode: 200 }) })
+    );
+    expect(prisma.idempotencyKey.deleteMany).not.toHaveBeenCalled();
+    expect(res.sent).toEqual({ sessionId: 'session-1' });
+  });
+
+  it('should release the key and still respond when the response cannot be stored', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    (prisma.idempotencyKey.update as jest.Mock).mockRejectedValueOnce(new Error('connection lost'));
+    const res = fakeResponse();
+    const next: NextFunction = () => res.status(200).json({ sessionId: 'session-1' });
+
+    await idempotency(fakeRequest(), res as unknown as Response, next);
+    await new Promise((resolve) => res.once('finish', resolve));
+
+    expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'key-row-1' } });
+    expect(res.sent).toEqual({ sessionId: 'session-1' });
+  });
+});
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  hashRequestBody,
+  IDEMPOTENCY_KEY_MAX_LENGTH,
+  IdempotencyStart,
+  releaseIdempotentRequest,
+} from '../services/idempotencyService';
+
+/**
+ * Optional `Idempotency-Key` header for stock mutations (mount after requireAuth).
+ *
+ * Without the header the request runs as usual. With it, the first request runs and its JSON
+ * response is stored before it is sent; a retry with the same key (same user, endpoint and body)
+ * gets the stored response back with `Idempotent-Replayed: true` instead of posting stock twice.
+ */
+export async function idempotency(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const key = req.header('Idempotency-Key');
+  if (key === undefined) {
+    next();
+    return;
+  }
+  if (!key.trim() || key.length > IDEMPOTENCY_KEY_MAX_LENGTH) {
+    res.status(400).json({
+      error: `Invalid request: Idempotency-Key must be 1-${IDEMPOTENCY_KEY_MAX_LENGTH} characters`,
+    });
+    return;
+  }
+
+  const endpoint = `${req.method} ${req.baseUrl}${req.path}`;
+  let start: IdempotencyStart;
+  try {
+    start = await beginIdempotentRequest(req.user!.id, key, endpoint, hashRequestBody(req.body));
+  } catch (e: unknown) {
+    const msg = (e as Error).message;
+    if (msg === 'IDEMPOTENCY_KEY_REUSED') {
+      res.status(422).json({ error: 'Idempotency-Key was already used for a different request' });
+      return;
+    }
+    if (msg === 'IDEMPOTENCY_IN_PROGRESS') {
+      res.status(409).json({ error: 'A request with this Idempotency-Key is still being processed' });
+      return;
+    }
+    console.error('Error in idempotency middleware:', e);
+    res.status(500).json({ error: 'Internal server error', message: msg });
+    return;
+  }
+
+  if (start.state === 'replay') {
+    res.set('Idempotent-Replayed', 'true');
+    res.status(start.statusCode).json(start.body);
+    return;
+  }
+
+  const id = start.id;
+  let settled = false;
+  const send = res.json.bind(res);
+  // Store the response before sending it, so a retry after the client got it always replays.
+  // If it cannot be stored, release the key: a retry then runs again rather than being refused
+  // as "in progress" until the key expires.
+  res.json = (body: unknown) => {
+    settled = true;
+    completeIdempotentRequest(id, res.statusCode, body)
+      .catch((e) => {
+        console.error('Error storing idempotent response:', e);
+        return releaseIdempotentRequest(id).catch((err) => console.error('Error releasing idempotency key:', err));
+      })
+      .finally(() => send(body));
+    return res;
+  };
+  // Answered without res.json (e.g. the default error handler): release the key for the retry.
+  // A dropped connection does not release it; the handler still finishes and stores its response.
+  res.on('finish', () => {
+    if (settled) return;
+    settled = true;
+    releaseIdempotentRequest(id).catch((e) => console.error('Error releasing idempotency key:', e));
+  });
+
+  next();
+}
@@ -5,8 +5,13 @@ import {
   createDailyRecordHandler,
   updateDailyRecordHandler,
   deleteDailyRecordHandler,
+  getDailyRecordMaterialsHandler,
+  postDailyRecordMaterialsHandler,
+  linkSlipHandler,
+  unlinkSlipHandler,
 } from '../controllers/dailyRecordController';
 import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
 
 const router = Router();
 
@@ -21,4 +26,12 @@ router.post('/', requireRole('ADMIN', 'STAFF'), createDailyRecordHandler);
 router.put('/:id', requireRole('ADMIN', 'STAFF'), updateDailyRecordHandler);
 router.delete('/:id', requireRole('ADMIN', 'STAFF'), deleteDailyRecordHandler);
 
+// Material usage: proposing and posting stock-outs is stock work, ADMIN + STAFF only.
+router.get('/:id/materials', requireRole('ADMIN', 'STAFF'), getDailyRecordMaterialsHandler);
+router.post('/:id/materials/post', requireRole('ADMIN', 'STAFF'), idempotency, postDailyRecordMaterialsHandler);
+
+// Payment slips: matching a transfer slip to the visit it pays for is data entry, ADMIN + STAFF only.
+router.post('/:id/slips', requireRole('ADMIN', 'STAFF'), linkSlipHandler);
+router.delete('/:id/slips/:slipId', requireRole('ADMIN', 'STAFF'), unlinkSlipHandler);
+
 export default router;
@@ -1,13 +1,42 @@
 import { Router } from 'express';
-import { dashboardHandler, getProducts, updateProductHandler, deleteProductHandler } from '../controllers/dashboardController';
+import {
+  dashboardHandler,
+  trendsHandler,
+  getProducts,
+  updateProductHandler,
+  deleteProductHandler,
+  archiveProductHandler,
+  unarchiveProductHandler,
+  productHistoryHandler,
+} from '../controllers/dashboardController';
+import {
+  getProductCatalogHandler,
+  addProductBarcodeHandler,
+  removeProductBarcodeHandler,
+  createProductPackHandler,
+  updateProductPackHandler,
+  deleteProductPackHandler,
+} from '../controllers/productCatalogController';
 import { requireAuth, requireRole } from '../middlewares/auth.middleware';
 
 const router = Router();
 
 router.get('/dashboard', requireAuth, dashboardHandler);
+router.get('/dashboard/trends', requireAuth, trendsHandler);
 router.get('/products', requireAuth, getProducts);
 router.put('/products/:id', requireAuth, requireRole('ADMIN', 'STAFF'), updateProductHandler);
 router.delete('/products/:id', requireAuth, requireRole('ADMIN'), deleteProductHandler);
+router.post('/products/:id/archive', requireAuth, requireRole('ADMIN', 'STAFF'), archiveProductHandler);
+router.post('/products/:id/unarchive', requireAuth, requireRole('ADMIN', 'STAFF'), unarchiveProductHandler);
+router.get('/products/:id/history', requireAuth, productHistoryHandler);
+
+// Catalog: alternate barcodes and pack sizes of a product
+router.get('/products/:id/catalog', requireAuth, getProductCatalogHandler);
+router.post('/products/:id/barcodes', requireAuth, requireRole('ADMIN', 'STAFF'), addProductBarcodeHandler);
+router.delete('/products/:id/barcodes/:barcodeId', requireAuth, requireRole('ADMIN', 'STAFF'), removeProductBarcodeHandler);
+router.post('/products/:id/packs', requireAuth, requireRole('ADMIN', 'STAFF'), createProductPackHandler);
+router.put('/products/:id/packs/:packId', requireAuth, requireRole('ADMIN', 'STAFF'), updateProductPackHandler);
+router.delete('/products/:id/packs/:packId', requireAuth, requireRole('ADMIN', 'STAFF'), deleteProductPackHandler);
 
 export default router;
 
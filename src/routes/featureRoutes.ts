@@ -6,6 +6,7 @@ router.get('/', (_req, res) => {
   res.json({
     appointments: process.env.FEATURE_APPOINTMENTS === 'true',
     slipReceiver: process.env.FEATURE_SLIP_RECEIVER === 'true',
+    expiryDigest: process.env.FEATURE_EXPIRY_DIGEST === 'true',
   });
 });
 
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { dailySummaryHandler, monthlySummaryHandler, periodSummaryHandler } from '../controllers/financeController';
+import { dailySummaryHandler, monthlySummaryHandler, periodSummaryHandler, materialCostHandler } from '../controllers/financeController';
 import { requireAuth } from '../middlewares/auth.middleware';
 
 const router = Router();
@@ -10,5 +10,6 @@ router.use(requireAuth);
 router.get('/summary/daily', dailySummaryHandler);
 router.get('/summary/monthly', monthlySummaryHandler);
 router.get('/summary/range', periodSummaryHandler);
+router.get('/material-costs', materialCostHandler);
 
 export default router;
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import stockRoutes from './stockRoutes';
 import dashboardRoutes from './dashboardRoutes';
 import patientRoutes from './patientRoutes';
+import treatmentPlanRoutes from './treatmentPlanRoutes';
 import authRoutes from './authRoutes';
 import userRoutes from './userRoutes';
 import doctorRoutes from './doctorRoutes';
@@ -16,6 +17,11 @@ import clinicSettingRoutes from './clinicSettingRoutes';
 import slipRoutes from './slipRoutes';
 import appointmentRoutes from './appointmentRoutes';
 import featureRoutes from './featureRoutes';
+import supplierRoutes from './supplierRoutes';
+import purchaseOrderRoutes from './purchaseOrderRoutes';
+import stockCountRoutes from './stockCountRoutes';
+import stockLocationRoutes from './stockLocationRoutes';
+import productCategoryRoutes from './productCategoryRoutes';
 
 const router = Router();
 
@@ -24,8 +30,16 @@ router.use('/features', featureRoutes);
 
 router.use('/auth', authRoutes);
 router.use('/users', userRoutes);
+router.use('/stock/counts', stockCountRoutes); // before /stock so /:stockId does not swallow it
+router.use('/stock/locations', stockLocationRoutes);
 router.use('/stock', stockRoutes);
+router.use('/product-categories', productCategoryRoutes);
 router.use('/patients', patientRoutes);
+router.use('/treatment-plans', treatmentPlanRoutes);
+
+// Purchasing — suppliers and purchase orders feeding stock-in
+router.use('/suppliers', supplierRoutes);
+router.use('/purchase-orders', purchaseOrderRoutes);
 
 // Finance & DF module
 router.use('/doctors', doctorRoutes);
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { requireAuth, requireRole } from '../middlewares/auth.middleware';
 import {
   createPatientHandler,
@@ -7,7 +7,21 @@ import {
   getPatientByDnHandler,
   updatePatientHandler,
   deletePatientHandler,
+  getPatientChartHandler,
+  addPatientChartEntriesHandler,
+  deletePatientChartEntryHandler,
+  getPatientTimelineHandler,
+  listMedicalHistoryHandler,
+  addMedicalHistoryHandler,
+  updateMedicalHistoryHandler,
+  deleteMedicalHistoryHandler,
+  listPatientFilesHandler,
+  uploadPatientFileHandler,
+  downloadPatientFileHandler,
+  deletePatientFileHandler,
+  migratePatientPhotosHandler,
 } from '../controllers/patientController';
+import { maxUploadBytes } from '../services/patientFileService';
 
 const router = Router();
 
@@ -18,10 +32,38 @@ router.use(requireAuth);
 router.get('/', requireRole('ADMIN', 'STAFF'), listPatientsHandler);
 router.get('/by-dn/:dn', requireRole('ADMIN', 'STAFF'), getPatientByDnHandler);
 router.get('/:id', requireRole('ADMIN', 'STAFF'), getPatientHandler);
+// Timeline: DOCTOR too, scoped to their own visits and appointments in the service.
+router.get('/:id/timeline', requireRole('ADMIN', 'STAFF', 'DOCTOR'), getPatientTimelineHandler);
+
+// One-off move of legacy photoBase64 photos into file storage (re-runnable). Before `/:id`.
+router.post('/photos/migrate', requireRole('ADMIN'), migratePatientPhotosHandler);
 
 // Write: ADMIN + STAFF create/edit; delete is ADMIN-only.
 router.post('/', requireRole('ADMIN', 'STAFF'), createPatientHandler);
 router.put('/:id', requireRole('ADMIN', 'STAFF'), updatePatientHandler);
 router.delete('/:id', requireRole('ADMIN'), deletePatientHandler);
 
+// Dental chart: entries are append-only history; DELETE only removes a mistaken entry.
+router.get('/:id/chart', requireRole('ADMIN', 'STAFF'), getPatientChartHandler);
+router.post('/:id/chart', requireRole('ADMIN', 'STAFF'), addPatientChartEntriesHandler);
+router.delete('/:id/chart/:entryId', requireRole('ADMIN', 'STAFF'), deletePatientChartEntryHandler);
+
+// Medical history: DOCTOR reads it before treating; ADMIN + STAFF record it.
+router.get('/:id/medical-history', requireRole('ADMIN', 'STAFF', 'DOCTOR'), listMedicalHistoryHandler);
+router.post('/:id/medical-history', requireRole('ADMIN', 'STAFF'), addMedicalHistoryHandler);
+router.put('/:id/medical-history/:entryId', requireRole('ADMIN', 'STAFF'), updateMedicalHistoryHandler);
+router.delete('/:id/medical-history/:entryId', requireRole('ADMIN', 'STAFF'), deleteMedicalHistoryHandler);
+
+// Files (photos, X-rays, consent forms): DOCTOR views them; ADMIN + STAFF upload and delete.
+// Upload body is the raw file of any type; the service checks it against the category.
+router.get('/:id/files', requireRole('ADMIN', 'STAFF', 'DOCTOR'), listPatientFilesHandler);
+router.post(
+  '/:id/files',
+  requireRole('ADMIN', 'STAFF'),
+  express.raw({ type: () => true, limit: maxUploadBytes() }),
+  uploadPatientFileHandler
+);
+router.get('/:id/files/:fileId', requireRole('ADMIN', 'STAFF', 'DOCTOR'), downloadPatientFileHandler);
+router.delete('/:id/files/:fileId', requireRole('ADMIN', 'STAFF'), deletePatientFileHandler);
+
 export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import {
+  listProductCategoriesHandler,
+  createProductCategoryHandler,
+  updateProductCategoryHandler,
+  deleteProductCategoryHandler,
+} from '../controllers/productCatalogController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+router.use(requireAuth);
+
+router.get('/', listProductCategoriesHandler);
+router.post('/', requireRole('ADMIN', 'STAFF'), createProductCategoryHandler);
+router.put('/:id', requireRole('ADMIN', 'STAFF'), updateProductCategoryHandler);
+router.delete('/:id', requireRole('ADMIN', 'STAFF'), deleteProductCategoryHandler);
+
+export default router;
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+  listPurchaseOrdersHandler,
+  getPurchaseOrderHandler,
+  createPurchaseOrderHandler,
+  updatePurchaseOrderHandler,
+  orderPurchaseOrderHandler,
+  cancelPurchaseOrderHandler,
+  receivePurchaseOrderHandler,
+} from '../controllers/purchaseOrderController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
+
+const router = Router();
+
+// Purchasing is part of inventory: ADMIN + STAFF only (DOCTOR has no stock-in rights).
+router.use(requireAuth, requireRole('ADMIN', 'STAFF'));
+
+router.get('/', listPurchaseOrdersHandler);
+router.get('/:id', getPurchaseOrderHandler);
+router.post('/', createPurchaseOrderHandler);
+router.put('/:id', updatePurchaseOrderHandler);
+router.post('/:id/order', orderPurchaseOrderHandler);
+router.post('/:id/cancel', cancelPurchaseOrderHandler);
+router.post('/:id/receive', idempotency, receivePurchaseOrderHandler);
+
+export default router;
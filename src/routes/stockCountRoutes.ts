@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import {
+  listStockCountsHandler,
+  getStockCountHandler,
+  openStockCountHandler,
+  recordStockCountLinesHandler,
+  removeStockCountLineHandler,
+  commitStockCountHandler,
+  cancelStockCountHandler,
+} from '../controllers/stockCountController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
+
+const router = Router();
+
+// Counting and adjusting stock is a warehouse task: ADMIN + STAFF only.
+router.use(requireAuth, requireRole('ADMIN', 'STAFF'));
+
+router.get('/', listStockCountsHandler);
+router.get('/:id', getStockCountHandler);
+router.post('/', openStockCountHandler);
+router.post('/:id/lines', recordStockCountLinesHandler);
+router.delete('/:id/lines/:lineId', removeStockCountLineHandler);
+router.post('/:id/commit', idempotency, commitStockCountHandler);
+router.post('/:id/cancel', cancelStockCountHandler);
+
+export default router;
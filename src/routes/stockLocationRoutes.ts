@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import {
+  listStockLocationsHandler,
+  createStockLocationHandler,
+  updateStockLocationHandler,
+  getLocationStockHandler,
+  replaceLocationThresholdsHandler,
+} from '../controllers/stockLocationController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Every role picks a location when scanning; ADMIN + STAFF maintain locations and thresholds.
+router.get('/', listStockLocationsHandler);
+router.post('/', requireRole('ADMIN', 'STAFF'), createStockLocationHandler);
+router.put('/:id', requireRole('ADMIN', 'STAFF'), updateStockLocationHandler);
+router.get('/:id/stock', requireRole('ADMIN', 'STAFF'), getLocationStockHandler);
+router.put('/:id/thresholds', requireRole('ADMIN', 'STAFF'), replaceLocationThresholdsHandler);
+
+export default router;
@@ -1,16 +1,33 @@
 import { Router } from 'express';
-import { createProduct, getStockById, stockInHandler, stockLogsHandler, stockOutHandler, withdrawHandler, depleteHandler, disposeHandler } from '../controllers/stockController';
+import { createProduct, getStockById, stockInHandler, stockLogsHandler, stockOutHandler, withdrawHandler, depleteHandler, disposeHandler, stockValuationHandler, costOfGoodsHandler, reorderSuggestionsHandler, reverseSessionHandler, transferHandler, expiryDigestPreviewHandler, expiryDigestSendHandler, inUseStockHandler, recallLookupHandler, batchStatusHandler, importStockHandler, userActivityHandler, expiredStockHandler, disposeExpiredHandler, dispenseExpiredHandler } from '../controllers/stockController';
 import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+import { idempotency } from '../middlewares/idempotency.middleware';
 
 const router = Router();
 
-router.post('/in', requireAuth, requireRole('ADMIN', 'STAFF'), stockInHandler);
-router.post('/out', requireAuth, stockOutHandler);
+// Stock mutations accept an Idempotency-Key header so scanner retries do not post twice.
+router.post('/in', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, stockInHandler);
+router.post('/out', requireAuth, idempotency, stockOutHandler);
 router.get('/logs', requireAuth, stockLogsHandler);
-router.post('/withdraw', requireAuth, withdrawHandler);
-router.post('/deplete', requireAuth, depleteHandler);
-router.post('/dispose', requireAuth, requireRole('ADMIN', 'STAFF'), disposeHandler);
-router.post('/create', requireAuth, requireRole('ADMIN', 'STAFF'), createProduct);
+router.post('/withdraw', requireAuth, idempotency, withdrawHandler);
+router.post('/deplete', requireAuth, idempotency, depleteHandler);
+router.get('/in-use', requireAuth, inUseStockHandler);
+router.post('/dispose', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, disposeHandler);
+router.post('/transfer', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, transferHandler);
+router.post('/create', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, createProduct);
+router.post('/import', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, importStockHandler);
+router.get('/valuation', requireAuth, requireRole('ADMIN', 'STAFF'), stockValuationHandler);
+router.get('/cogs', requireAuth, requireRole('ADMIN', 'STAFF'), costOfGoodsHandler);
+router.get('/activity', requireAuth, requireRole('ADMIN'), userActivityHandler);
+router.get('/reorder-suggestions', requireAuth, requireRole('ADMIN', 'STAFF'), reorderSuggestionsHandler);
+router.get('/expiry-digest', requireAuth, requireRole('ADMIN', 'STAFF'), expiryDigestPreviewHandler);
+router.post('/expiry-digest/send', requireAuth, requireRole('ADMIN'), expiryDigestSendHandler);
+router.get('/expired', requireAuth, requireRole('ADMIN', 'STAFF'), expiredStockHandler);
+router.post('/expired/dispense', requireAuth, requireRole('ADMIN'), idempotency, dispenseExpiredHandler);
+router.post('/expired/:productId/dispose', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, disposeExpiredHandler);
+router.get('/recalls', requireAuth, requireRole('ADMIN', 'STAFF'), recallLookupHandler);
+router.put('/batches/:batchId/status', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, batchStatusHandler);
+router.post('/sessions/:sessionId/reverse', requireAuth, requireRole('ADMIN', 'STAFF'), idempotency, reverseSessionHandler);
 router.get('/:stockId', requireAuth, getStockById);
 
 export default router;
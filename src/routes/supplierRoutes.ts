@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import {
+  listSuppliersHandler,
+  createSupplierHandler,
+  updateSupplierHandler,
+  deleteSupplierHandler,
+} from '../controllers/supplierController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Suppliers are inventory master data: ADMIN + STAFF maintain them; deactivation is ADMIN-only.
+router.get('/', requireRole('ADMIN', 'STAFF'), listSuppliersHandler);
+router.post('/', requireRole('ADMIN', 'STAFF'), createSupplierHandler);
+router.put('/:id', requireRole('ADMIN', 'STAFF'), updateSupplierHandler);
+router.delete('/:id', requireRole('ADMIN'), deleteSupplierHandler);
+
+export default router;
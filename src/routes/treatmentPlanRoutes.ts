@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import {
+  listTreatmentPlansHandler,
+  getTreatmentPlanHandler,
+  createTreatmentPlanHandler,
+  updateTreatmentPlanHandler,
+  deleteTreatmentPlanHandler,
+  addPlanItemsHandler,
+  updatePlanItemHandler,
+  schedulePlanItemHandler,
+} from '../controllers/treatmentPlanController';
+import { requireAuth, requireRole } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Read: all roles (DOCTOR is scoped to own plans in the service).
+router.get('/', listTreatmentPlansHandler);
+router.get('/:id', getTreatmentPlanHandler);
+
+// Planning: doctors propose their own plans; ADMIN + STAFF enter them for any doctor.
+router.post('/', requireRole('ADMIN', 'STAFF', 'DOCTOR'), createTreatmentPlanHandler);
+router.put('/:id', requireRole('ADMIN', 'STAFF', 'DOCTOR'), updateTreatmentPlanHandler);
+router.post('/:id/items', requireRole('ADMIN', 'STAFF', 'DOCTOR'), addPlanItemsHandler);
+router.patch('/:id/items/:itemId', requireRole('ADMIN', 'STAFF', 'DOCTOR'), updatePlanItemHandler);
+
+// Booking and deletion: ADMIN + STAFF only, like appointments.
+router.post('/:id/items/:itemId/appointment', requireRole('ADMIN', 'STAFF'), schedulePlanItemHandler);
+router.delete('/:id', requireRole('ADMIN', 'STAFF'), deleteTreatmentPlanHandler);
+
+export default router;
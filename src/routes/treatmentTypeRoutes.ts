@@ -4,6 +4,8 @@ import {
   createTreatmentTypeHandler,
   updateTreatmentTypeHandler,
   deleteTreatmentTypeHandler,
+  listTreatmentMaterialsHandler,
+  replaceTreatmentMaterialsHandler,
 } from '../controllers/treatmentTypeController';
 import { requireAuth, requireRole } from '../middlewares/auth.middleware';
 
@@ -13,10 +15,12 @@ router.use(requireAuth);
 
 // All authenticated roles can read treatment types.
 router.get('/', listTreatmentTypesHandler);
+router.get('/:id/materials', listTreatmentMaterialsHandler);
 
 // Mutations are ADMIN-only.
 router.post('/', requireRole('ADMIN'), createTreatmentTypeHandler);
 router.put('/:id', requireRole('ADMIN'), updateTreatmentTypeHandler);
 router.delete('/:id', requireRole('ADMIN'), deleteTreatmentTypeHandler);
+router.put('/:id/materials', requireRole('ADMIN'), replaceTreatmentMaterialsHandler);
 
 export default router;
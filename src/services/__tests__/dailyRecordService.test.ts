@@ -0,0 +1,41 @@
+import { deleteDailyRecord } from '../dailyRecordService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    dailyRecord: {
+      findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+    treatmentPlanItem: {
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+describe('dailyRecordService.deleteDailyRecord', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+  });
+
+  it('should reopen the plan items the record completed before deleting it', async () => {
+    (prisma.dailyRecord.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'record-1' });
+
+    await deleteDailyRecord('record-1');
+
+    expect(prisma.treatmentPlanItem.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ dailyRecordId: 'record-1', status: 'DONE' }) })
+    );
+    expect(prisma.dailyRecord.delete).toHaveBeenCalledWith({ where: { id: 'record-1' } });
+  });
+
+  it('should throw DAILY_RECORD_NOT_FOUND for an unknown record', async () => {
+    (prisma.dailyRecord.findUnique as jest.Mock).mockResolvedValueOnce(null);
+
+    await expect(deleteDailyRecord('missing')).rejects.toThrow('DAILY_RECORD_NOT_FOUND');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
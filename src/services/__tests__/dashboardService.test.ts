@@ -86,6 +86,7 @@ describe('dashboardService', () => {
 
       expect(result.lowStockCount).toBe(2); // product-1 and product-3
       expect(prisma.product.findMany).toHaveBeenCalledWith({
+        where: { archivedAt: null },
         include: {
           stockBatches: {
             select: {
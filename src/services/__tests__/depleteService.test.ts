@@ -5,6 +5,9 @@ import { DepleteItem } from '../../types/stock.types';
 jest.mock('../../prisma', () => ({
   prisma: {
     $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
       update: jest.fn(),
@@ -12,6 +15,10 @@ jest.mock('../../prisma', () => ({
     stockMovement: {
       create: jest.fn(),
     },
+    stockInUse: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
   },
 }));
 
@@ -31,6 +38,7 @@ describe('depleteService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (prisma.$transaction as jest.Mock).mockImplementation(async (cb) => cb(prisma));
+    (prisma.stockInUse.findMany as jest.Mock).mockResolvedValue([]);
   });
 
   describe('successful depletion', () => {
@@ -57,6 +65,33 @@ describe('depleteService', () => {
       );
     });
 
+    it('should attribute DEPLETE to the batches opened earliest', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(makeProduct(3, 3));
+      (prisma.product.update as jest.Mock).mockResolvedValue({ ...makeProduct(3, 3), inUseQuantity: 0 });
+      (prisma.stockInUse.findMany as jest.Mock).mockResolvedValue([
+        { id: 'in-use-1', batchId: 'batch-1', lotNumber: 'LOT001', locationId: 'loc-1', quantity: 1 },
+        { id: 'in-use-2', batchId: 'batch-2', lotNumber: 'LOT002', locationId: 'loc-1', quantity: 1 },
+      ]);
+
+      const result = await depleteService([{ barcode: 'RESIN001', quantity: 3 }]);
+
+      expect(prisma.stockInUse.update).toHaveBeenCalledWith({
+        where: { id: 'in-use-1' },
+        data: { quantity: { decrement: 1 } },
+      });
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'DEPLETE', batchId: 'batch-2', lotNumber: 'LOT002', quantity: 1 }),
+      });
+      // the third unit predates per-batch tracking and has no batch
+      expect(prisma.stockMovement.create).toHaveBeenLastCalledWith({
+        data: expect.not.objectContaining({ batchId: expect.anything() }),
+      });
+      expect(result.results[0].batches).toEqual([
+        { batchId: 'batch-1', lotNumber: 'LOT001', quantity: 1 },
+        { batchId: 'batch-2', lotNumber: 'LOT002', quantity: 1 },
+      ]);
+    });
+
     it('should set isOutOfStock=true when both warehouse and inUse reach 0', async () => {
       const product = makeProduct(0, 1); // warehouse empty, 1 in use
       const updatedProduct = { ...product, inUseQuantity: 0 };
@@ -109,6 +144,21 @@ describe('depleteService', () => {
       expect(result.results[0].error).toMatch(/not reusable/i);
     });
 
+    it('should reject a lot-specific deplete beyond what that lot has open', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(makeProduct(5, 3));
+      (prisma.stockInUse.findMany as jest.Mock).mockResolvedValue([
+        { id: 'in-use-1', batchId: 'batch-1', lotNumber: 'LOT001', locationId: null, quantity: 1 },
+      ]);
+
+      const result = await depleteService([{ barcode: 'RESIN001', quantity: 2, lotNumber: 'LOT001' }]);
+
+      expect(result.results[0].success).toBe(false);
+      expect(prisma.stockInUse.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { productId: 'product-1', quantity: { gt: 0 }, lotNumber: 'LOT001' } })
+      );
+      expect(prisma.product.update).not.toHaveBeenCalled();
+    });
+
     it('should reject if inUseQuantity is less than requested quantity', async () => {
       (prisma.product.findUnique as jest.Mock).mockResolvedValue(makeProduct(5, 1));
 
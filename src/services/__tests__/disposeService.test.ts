@@ -5,9 +5,15 @@ import { DisposeItem } from '../../types/stock.types';
 jest.mock('../../prisma', () => ({
   prisma: {
     $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
     },
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
     stockBatch: {
       findMany: jest.fn(),
       update: jest.fn(),
@@ -226,4 +232,25 @@ describe('disposeService', () => {
     expect(prisma.stockBatch.update).not.toHaveBeenCalled();
     expect(prisma.stockMovement.create).not.toHaveBeenCalled();
   });
+
+  it('should dispose from the requested lot only', async () => {
+    (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'product-1', name: 'Needle', pickingStrategy: 'FEFO' });
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([
+      { id: 'batch-2', productId: 'product-1', lotNumber: 'LOT002', locationId: 'location-main', unitCost: null, quantity: 4 },
+    ]);
+
+    const result = await disposeService([{ barcode: 'NEEDLE001', quantity: 4, reason: 'DAMAGED', lotNumber: 'LOT002' }]);
+
+    expect(prisma.stockBatch.findMany).toHaveBeenCalledWith({
+      where: { productId: 'product-1', quantity: { gt: 0 }, lotNumber: 'LOT002' },
+      orderBy: [{ expireDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { createdAt: 'asc' }],
+    });
+    expect(result.results[0]).toEqual(
+      expect.objectContaining({
+        success: true,
+        disposedQuantity: 4,
+        batches: [{ batchId: 'batch-2', lotNumber: 'LOT002', quantity: 4 }],
+      })
+    );
+  });
 });
@@ -0,0 +1,190 @@
+import { dispenseExpiredBatch, disposeExpiredStock, getExpiredStock } from '../expiredStockService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
+    product: {
+      findUnique: jest.fn(),
+    },
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
+    stockBatch: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      aggregate: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+const expiredBatch = {
+  id: 'batch-1',
+  productId: 'product-1',
+  lotNumber: 'LOT001',
+  expireDate: new Date('2024-01-31T00:00:00Z'),
+  receivedAt: new Date('2023-06-01T00:00:00Z'),
+  locationId: 'location-main',
+  unitCost: null,
+  quantity: 6,
+  status: 'ACTIVE',
+};
+
+describe('expiredStockService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+  });
+
+  describe('getExpiredStock', () => {
+    it('should group expired batches that still hold stock per product', async () => {
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([
+        {
+          ...expiredBatch,
+          product: { name: 'Lidocaine', barcode: 'LIDO', unit: 'cartridge' },
+          location: { name: 'Main storeroom' },
+        },
+        {
+          ...expiredBatch,
+          id: 'batch-2',
+          lotNumber: 'LOT002',
+          expireDate: new Date('2024-03-31T00:00:00Z'),
+          quantity: 4,
+          status: 'QUARANTINED',
+          product: { name: 'Lidocaine', barcode: 'LIDO', unit: 'cartridge' },
+          location: { name: 'Main storeroom' },
+        },
+      ]);
+
+      const report = await getExpiredStock();
+
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { quantity: { gt: 0 }, expireDate: { lt: expect.any(Date) } } })
+      );
+      expect(report.totalQuantity).toBe(10);
+      expect(report.products).toEqual([
+        {
+          productId: 'product-1',
+          productName: 'Lidocaine',
+          barcode: 'LIDO',
+          unit: 'cartridge',
+          quantity: 10,
+          batches: [
+            {
+              batchId: 'batch-1',
+              lotNumber: 'LOT001',
+              expireDate: '2024-01-31',
+              locationId: 'location-main',
+              locationName: 'Main storeroom',
+              quantity: 6,
+              status: 'ACTIVE',
+            },
+            {
+              batchId: 'batch-2',
+              lotNumber: 'LOT002',
+              expireDate: '2024-03-31',
+              locationId: 'location-main',
+              locationName: 'Main storeroom',
+              quantity: 4,
+              status: 'QUARANTINED',
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('disposeExpiredStock', () => {
+    it('should dispose the whole expired quantity with reason EXPIRED', async () => {
+      (prisma.product.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ barcode: 'LIDO' })
+        .mockResolvedValueOnce({ id: 'product-1', name: 'Lidocaine', barcode: 'LIDO', pickingStrategy: 'MANUAL' });
+      (prisma.stockBatch.aggregate as jest.Mock).mockResolvedValueOnce({ _sum: { quantity: 6 } });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([expiredBatch]);
+
+      const result = await disposeExpiredStock('product-1', null, 'user-staff');
+
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith({
+        where: { productId: 'product-1', quantity: { gt: 0 }, expireDate: { lt: expect.any(Date) } },
+        orderBy: [{ expireDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { createdAt: 'asc' }],
+      });
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'DISPOSE', quantity: 6, reason: 'EXPIRED', createdById: 'user-staff' }),
+      });
+      expect(result.results[0]).toEqual(expect.objectContaining({ success: true, disposedQuantity: 6 }));
+    });
+
+    it('should refuse when the product has no expired stock', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ barcode: 'LIDO' });
+      (prisma.stockBatch.aggregate as jest.Mock).mockResolvedValueOnce({ _sum: { quantity: null } });
+
+      await expect(disposeExpiredStock('product-1')).rejects.toThrow('NO_EXPIRED_STOCK');
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dispenseExpiredBatch', () => {
+    it('should post an OUT movement carrying the justification', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...expiredBatch,
+        product: { isReusable: false, archivedAt: null },
+      });
+
+      const result = await dispenseExpiredBatch(
+        { batchId: 'batch-1', quantity: 2, justification: ' Only stock left for emergency extraction ' },
+        'user-admin'
+      );
+
+      expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { quantity: { decrement: 2 } },
+      });
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'OUT',
+          batchId: 'batch-1',
+          quantity: 2,
+          reason: 'Only stock left for emergency extraction',
+          createdById: 'user-admin',
+        }),
+      });
+      expect(result).toEqual(
+        expect.objectContaining({ lotNumber: 'LOT001', expireDate: '2024-01-31', quantity: 2 })
+      );
+    });
+
+    it('should refuse a batch that has not expired', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...expiredBatch,
+        expireDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
+        product: { isReusable: false, archivedAt: null },
+      });
+
+      await expect(
+        dispenseExpiredBatch({ batchId: 'batch-1', quantity: 2, justification: 'Needed' }, 'user-admin')
+      ).rejects.toThrow('BATCH_NOT_EXPIRED');
+      expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a batch of an archived product', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValueOnce({
+        ...expiredBatch,
+        product: { isReusable: false, archivedAt: new Date('2025-01-01T00:00:00Z') },
+      });
+
+      await expect(
+        dispenseExpiredBatch({ batchId: 'batch-1', quantity: 2, justification: 'Needed' }, 'user-admin')
+      ).rejects.toThrow('PRODUCT_ARCHIVED');
+      expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+      expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+    });
+  });
+});
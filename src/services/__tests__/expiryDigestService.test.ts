@@ -0,0 +1,169 @@
+import { buildExpiryDigest, getExpiryDigestConfig, sendExpiryDigest } from '../expiryDigestService';
+import { sendStockDigest } from '../lineNotificationService';
+import { prisma } from '../../prisma';
+import { clinicToday, parseRecordDate } from '../../utils/date';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    stockBatch: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+    product: {
+      findMany: jest.fn(),
+    },
+    stockInUse: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// The LINE push is an outbound HTTP call — fake it at that boundary.
+jest.mock('../lineNotificationService', () => ({
+  sendStockDigest: jest.fn(),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function batch(id: string, daysFromToday: number, quantity = 5) {
+  return {
+    id,
+    productId: 'product-1',
+    lotNumber: `LOT-${id}`,
+    quantity,
+    expireDate: new Date(parseRecordDate(clinicToday()).getTime() + daysFromToday * DAY_MS),
+    product: { name: 'Gauze', unit: 'pack' },
+  };
+}
+
+describe('expiryDigestService', () => {
+  const env = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...env };
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.stockBatch.groupBy as jest.Mock).mockResolvedValue([]);
+    (prisma.stockInUse.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    process.env = env;
+  });
+
+  it('should list each batch once, in the shortest window it falls into', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+      batch('expired', -2),
+      batch('soon', 10),
+      batch('later', 60),
+      batch('edge', 90),
+    ]);
+
+    const digest = await buildExpiryDigest([30, 90]);
+
+    expect(digest.expired.map((b) => b.batchId)).toEqual(['expired']);
+    expect(digest.expired[0].daysLeft).toBe(-2);
+    expect(digest.windows).toEqual([
+      { days: 30, batches: [expect.objectContaining({ batchId: 'soon', daysLeft: 10 })] },
+      {
+        days: 90,
+        batches: [
+          expect.objectContaining({ batchId: 'later' }),
+          expect.objectContaining({ batchId: 'edge' }),
+        ],
+      },
+    ]);
+  });
+
+  it('should report products at or below minStock', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([
+      { id: 'p-1', name: 'Gloves', unit: 'box', minStock: 5 },
+      { id: 'p-2', name: 'Masks', unit: 'box', minStock: 5 },
+      { id: 'p-3', name: 'Bibs', unit: 'pack', minStock: 2 },
+    ]);
+    (prisma.stockBatch.groupBy as jest.Mock).mockResolvedValue([
+      { productId: 'p-1', _sum: { quantity: 5 } },
+      { productId: 'p-2', _sum: { quantity: 20 } },
+    ]);
+
+    const digest = await buildExpiryDigest();
+
+    expect(digest.lowStock.map((p) => [p.productId, p.quantity])).toEqual([
+      ['p-3', 0],
+      ['p-1', 5],
+    ]);
+  });
+
+  it('should leave archived products out of low stock but keep their expiring batches', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+
+    await buildExpiryDigest([30]);
+
+    expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { quantity: { gt: 0 }, expireDate: { not: null, lt: expect.any(Date) } } })
+    );
+    expect(prisma.product.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { archivedAt: null } }));
+  });
+
+  it('should read windows and recipients from the environment', () => {
+    process.env.EXPIRY_DIGEST_WINDOWS = '90, 30, abc, 30';
+    process.env.EXPIRY_DIGEST_LINE_USER_IDS = 'U1, ,U2';
+
+    expect(getExpiryDigestConfig()).toEqual({ windows: [30, 90], lineUserIds: ['U1', 'U2'] });
+  });
+
+  it('should list opened reusable items past their use-by', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.stockInUse.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: 'in-use-1',
+        productId: 'product-2',
+        batchId: 'batch-9',
+        lotNumber: 'LOT009',
+        locationId: null,
+        openedQuantity: 1,
+        quantity: 1,
+        openedAt: new Date(Date.now() - 40 * DAY_MS),
+        useBy: new Date(Date.now() - 10 * DAY_MS),
+        product: { name: 'Bonding agent', barcode: 'BOND01', unit: 'bottle' },
+      },
+    ]);
+
+    const digest = await buildExpiryDigest([30]);
+
+    expect(prisma.stockInUse.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ quantity: { gt: 0 }, useBy: { lte: expect.any(Date) } }),
+      })
+    );
+    expect(digest.openedPastUseBy).toEqual([
+      expect.objectContaining({ batchId: 'batch-9', lotNumber: 'LOT009', quantity: 1, isPastUseBy: true }),
+    ]);
+  });
+
+  it('should push to every recipient and collect failures', async () => {
+    process.env.EXPIRY_DIGEST_LINE_USER_IDS = 'U1,U2';
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([batch('soon', 3)]);
+    (sendStockDigest as jest.Mock)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Line push failed: 400'));
+
+    const result = await sendExpiryDigest();
+
+    expect(sendStockDigest).toHaveBeenCalledTimes(2);
+    expect(result.sentTo).toEqual(['U1']);
+    expect(result.failed).toEqual([{ lineUserId: 'U2', error: 'Line push failed: 400' }]);
+  });
+
+  it('should not push an empty digest', async () => {
+    process.env.EXPIRY_DIGEST_LINE_USER_IDS = 'U1';
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+
+    const result = await sendExpiryDigest();
+
+    expect(sendStockDigest).not.toHaveBeenCalled();
+    expect(result.sentTo).toEqual([]);
+  });
+});
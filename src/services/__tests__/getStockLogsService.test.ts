@@ -1,121 +1,132 @@
+import { Prisma } from '@prisma/client';
 import { getStockLogsService } from '../getStockLogsService';
 import { prisma } from '../../prisma';
 
 jest.mock('../../prisma', () => ({
   prisma: {
-    stockMovement: {
-      findMany: jest.fn(),
+    $queryRaw: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
     },
   },
 }));
 
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    groupKey: 'session-1|DISPOSE|product-1|storeroom|EXPIRED',
+    sessionId: 'session-1',
+    type: 'DISPOSE',
+    createdAt: new Date('2025-01-15T10:00:00Z'),
+    productName: 'Product A',
+    totalQuantity: 5,
+    reason: 'EXPIRED',
+    reversedBySessionId: null,
+    reversesSessionId: null,
+    locationName: null,
+    toLocationName: null,
+    lots: [
+      { lot: 'LOT002', quantity: 3 },
+      { lot: 'LOT001', quantity: 2 },
+    ],
+    ...overrides,
+  };
+}
+
+function lastQuery(): Prisma.Sql {
+  const calls = (prisma.$queryRaw as jest.Mock).mock.calls;
+  return calls[calls.length - 1][0];
+}
+
 describe('getStockLogsService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
   });
 
   it('should filter DISPOSE movements and expose grouped disposal reasons', async () => {
-    const mockMovements = [
-      {
-        id: 'movement-1',
-        productId: 'product-1',
-        batchId: 'batch-1',
-        lotNumber: 'LOT001',
-        type: 'DISPOSE',
-        quantity: 2,
-        reason: 'EXPIRED',
-        sessionId: 'session-1',
-        createdAt: new Date('2025-01-15T10:00:00Z'),
-        product: {
-          name: 'Product A',
-        },
-      },
-      {
-        id: 'movement-2',
-        productId: 'product-1',
-        batchId: 'batch-2',
-        lotNumber: 'LOT002',
-        type: 'DISPOSE',
-        quantity: 3,
-        reason: 'EXPIRED',
-        sessionId: 'session-1',
-        createdAt: new Date('2025-01-15T10:01:00Z'),
-        product: {
-          name: 'Product A',
-        },
-      },
-    ];
-
-    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue(mockMovements);
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([row()]);
 
     const result = await getStockLogsService({ type: 'DISPOSE' });
 
-    expect(prisma.stockMovement.findMany).toHaveBeenCalledWith({
-      where: { type: 'DISPOSE' },
-      include: {
-        product: {
-          select: {
-            name: true,
-          },
+    expect(lastQuery().sql).toContain('m."type"::text = ?');
+    expect(lastQuery().values).toContain('DISPOSE');
+    expect(result).toEqual({
+      entries: [
+        {
+          sessionId: 'session-1',
+          type: 'DISPOSE',
+          createdAt: '2025-01-15T10:00:00.000Z',
+          productName: 'Product A',
+          totalQuantity: 5,
+          reason: 'EXPIRED',
+          lots: [
+            { lot: 'LOT002', quantity: 3 },
+            { lot: 'LOT001', quantity: 2 },
+          ],
         },
-      },
-      orderBy: {
-        createdAt: 'desc',
-      },
+      ],
+      nextCursor: null,
     });
-    expect(result).toEqual([
-      {
-        sessionId: 'session-1',
-        type: 'DISPOSE',
-        createdAt: '2025-01-15T10:00:00.000Z',
-        productName: 'Product A',
-        totalQuantity: 5,
-        reason: 'EXPIRED',
-        lots: [
-          { lot: 'LOT001', quantity: 2 },
-          { lot: 'LOT002', quantity: 3 },
-        ],
-      },
+  });
+
+  it('should keep the reason in the grouping key of DISPOSE and ADJUST_* movements', async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+
+    await getStockLogsService();
+
+    const query = lastQuery();
+    expect(query.sql).toContain('CASE WHEN m."type"::text IN (?,?,?) THEN COALESCE(m."reason", \'\') ELSE \'\' END');
+    expect(query.values.slice(0, 3)).toEqual(['DISPOSE', 'ADJUST_IN', 'ADJUST_OUT']);
+  });
+
+  it('should return a cursor while more entries follow and continue after it', async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([
+      row({ groupKey: 'k3', createdAt: new Date('2025-01-15T12:00:00Z') }),
+      row({ groupKey: 'k2', createdAt: new Date('2025-01-15T11:00:00Z') }),
+      row({ groupKey: 'k1', createdAt: new Date('2025-01-15T10:00:00Z') }),
     ]);
+
+    const first = await getStockLogsService({ limit: 2 });
+
+    expect(first.entries).toHaveLength(2);
+    expect(lastQuery().values[lastQuery().values.length - 1]).toBe(3); // limit + 1 to detect a next page
+    expect(first.nextCursor).not.toBeNull();
+
+    (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([row({ groupKey: 'k1' })]);
+    const second = await getStockLogsService({ limit: 2, cursor: first.nextCursor! });
+
+    expect(lastQuery().sql).toContain('WHERE (g."createdAt", g."groupKey") < (?, ?)');
+    // Movements newer than the cursor are dropped before grouping, unless their session started by then
+    expect(lastQuery().sql).toContain('(m."createdAt" <= ? OR (m."sessionId" IS NOT NULL AND EXISTS (');
+    expect(lastQuery().values).toEqual(expect.arrayContaining([new Date('2025-01-15T11:00:00Z'), 'k2']));
+    expect(second.nextCursor).toBeNull();
   });
 
-  it('should split DISPOSE logs by reason within the same session and product', async () => {
-    const mockMovements = [
-      {
-        id: 'movement-1',
-        productId: 'product-1',
-        batchId: 'batch-1',
-        lotNumber: 'LOT001',
-        type: 'DISPOSE',
-        quantity: 2,
-        reason: 'EXPIRED',
-        sessionId: 'session-1',
-        createdAt: new Date('2025-01-15T10:00:00Z'),
-        product: {
-          name: 'Product A',
-        },
-      },
-      {
-        id: 'movement-2',
-        productId: 'product-1',
-        batchId: 'batch-2',
-        lotNumber: 'LOT002',
-        type: 'DISPOSE',
-        quantity: 1,
-        reason: 'DAMAGED',
-        sessionId: 'session-1',
-        createdAt: new Date('2025-01-15T10:01:00Z'),
-        product: {
-          name: 'Product A',
-        },
-      },
-    ];
+  it('should filter by the primary barcode when an alternate barcode is given', async () => {
+    (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValue({
+      barcode: 'BOX-50',
+      packId: 'pack-box',
+      product: { barcode: 'GLOVE-M' },
+    });
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
 
-    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue(mockMovements);
+    await getStockLogsService({ barcode: 'BOX-50', lotNumber: 'LOT001' });
 
-    const result = await getStockLogsService({ type: 'DISPOSE' });
+    expect(lastQuery().sql).toContain('m."productId" IN (SELECT "id" FROM "products" WHERE "barcode" = ?)');
+    expect(lastQuery().values).toEqual(expect.arrayContaining(['GLOVE-M', 'LOT001']));
+  });
+
+  it('should filter by the posting user and show who posted each entry', async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([row({ createdById: 'user-1', createdByName: 'Somchai' })]);
+
+    const result = await getStockLogsService({ userId: 'user-1' });
+
+    expect(lastQuery().sql).toContain('m."createdById" = ?');
+    expect(lastQuery().values).toContain('user-1');
+    expect(result.entries[0]).toEqual(expect.objectContaining({ createdById: 'user-1', createdByName: 'Somchai' }));
+  });
 
-    expect(result).toHaveLength(2);
-    expect(result.map((log) => log.reason).sort()).toEqual(['DAMAGED', 'EXPIRED']);
+  it('should reject a malformed cursor', async () => {
+    await expect(getStockLogsService({ cursor: 'not-a-cursor' })).rejects.toThrow('INVALID_CURSOR');
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,127 @@
+import { Prisma } from '@prisma/client';
+import {
+  beginIdempotentRequest,
+  completeIdempotentRequest,
+  hashRequestBody,
+} from '../idempotencyService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    idempotencyKey: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+const body = { items: [{ barcode: '123456', quantity: 2 }] };
+
+function storedKey(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'key-row-1',
+    userId: 'user-staff',
+    key: 'scan-42',
+    endpoint: 'POST /api/stock/out',
+    requestHash: hashRequestBody(body),
+    sessionId: 'session-1',
+    statusCode: 200,
+    responseBody: { sessionId: 'session-1', results: [] },
+    createdAt: new Date(),
+    completedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('idempotencyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('beginIdempotentRequest', () => {
+    it('should claim an unused key', async () => {
+      (prisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValueOnce(null);
+      (prisma.idempotencyKey.create as jest.Mock).mockResolvedValueOnce({ id: 'key-row-1' });
+
+      const start = await beginIdempotentRequest('user-staff', 'scan-42', 'POST /api/stock/out', hashRequestBody(body));
+
+      expect(start).toEqual({ state: 'new', id: 'key-row-1' });
+      expect(prisma.idempotencyKey.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-staff',
+          key: 'scan-42',
+          endpoint: 'POST /api/stock/out',
+          requestHash: hashRequestBody(body),
+        },
+      });
+    });
+
+    it('should replay the stored response of a completed request', async () => {
+      (prisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValueOnce(storedKey());
+
+      const start = await beginIdempotentRequest('user-staff', 'scan-42', 'POST /api/stock/out', hashRequestBody(body));
+
+      expect(start).toEqual({ state: 'replay', statusCode: 200, body: { sessionId: 'session-1', results: [] } });
+      expect(prisma.idempotencyKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key reused for a different body', async () => {
+      (prisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValueOnce(storedKey());
+
+      await expect(
+        beginIdempotentRequest('user-staff', 'scan-42', 'POST /api/stock/out', hashRequestBody({ items: [] }))
+      ).rejects.toThrow('IDEMPOTENCY_KEY_REUSED');
+    });
+
+    it('should report a concurrent retry while the first request is still running', async () => {
+      (prisma.idempotencyKey.findUnique as jest.Mock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(storedKey({ statusCode: null, responseBody: null, completedAt: null }));
+      (prisma.idempotencyKey.create as jest.Mock).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(
+        beginIdempotentRequest('user-staff', 'scan-42', 'POST /api/stock/out', hashRequestBody(body))
+      ).rejects.toThrow('IDEMPOTENCY_IN_PROGRESS');
+    });
+
+    it('should start over when the stored key is past the retention window', async () => {
+      (prisma.idempotencyKey.findUnique as jest.Mock).mockResolvedValueOnce(
+        storedKey({ createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) })
+      );
+      (prisma.idempotencyKey.create as jest.Mock).mockResolvedValueOnce({ id: 'key-row-2' });
+
+      const start = await beginIdempotentRequest('user-staff', 'scan-42', 'POST /api/stock/out', hashRequestBody(body));
+
+      expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'key-row-1' } });
+      expect(start).toEqual({ state: 'new', id: 'key-row-2' });
+    });
+  });
+
+  describe('completeIdempotentRequest', () => {
+    it('should store the response with the stock session it created', async () => {
+      await completeIdempotentRequest('key-row-1', 207, { sessionId: 'session-1', results: [{ success: false }] });
+
+      expect(prisma.idempotencyKey.update).toHaveBeenCalledWith({
+        where: { id: 'key-row-1' },
+        data: {
+          statusCode: 207,
+          responseBody: { sessionId: 'session-1', results: [{ success: false }] },
+          sessionId: 'session-1',
+          completedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should release the key after a server error so the retry runs again', async () => {
+      await completeIdempotentRequest('key-row-1', 500, { error: 'Internal server error' });
+
+      expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({ where: { id: 'key-row-1' } });
+      expect(prisma.idempotencyKey.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { exportProductList, exportStockLogs } from '../inventoryReportService';
+import { prisma } from '../../prisma';
+import { StockLogResponseEntry } from '../../types/stock.types';
+import { ProductListItem } from '../../types/dashboard.types';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
+    stockLocation: {
+      findUnique: jest.fn(),
+    },
+    productCategory: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const transferEntry: StockLogResponseEntry = {
+  sessionId: 'session-1',
+  type: 'TRANSFER',
+  createdAt: '2026-03-01T17:30:00.000Z',
+  productName: 'Glove, nitrile "M"',
+  totalQuantity: 5,
+  reason: null,
+  locationName: 'Main storeroom',
+  toLocationName: 'Operatory 1',
+  createdById: 'user-1',
+  createdByName: 'Somchai',
+  lots: [
+    { lot: 'LOT1', quantity: 3 },
+    { lot: 'LOT2', quantity: 2 },
+  ],
+};
+
+function product(overrides: Partial<ProductListItem>): ProductListItem {
+  return {
+    id: 'product-1',
+    name: 'Composite A2',
+    barcode: 'COMP-A2',
+    unit: 'syringe',
+    minStock: 2,
+    isReusable: false,
+    categoryId: null,
+    categoryName: null,
+    warehouseQuantity: 10,
+    inUseQuantity: 0,
+    totalQuantity: 10,
+    nearExpiry: false,
+    expireDate: '2027-05-31T00:00:00.000Z',
+    isExpired: false,
+    ...overrides,
+  };
+}
+
+describe('inventoryReportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('exportStockLogs', () => {
+    it('should write the movement register as CSV in clinic time', async () => {
+      const file = await exportStockLogs([transferEntry], {}, 'csv');
+
+      expect(file.contentType).toBe('text/csv; charset=utf-8');
+      expect(file.filename).toMatch(/^stock-movements-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect((file.body as string).split('\r\n')).toEqual([
+        '\uFEFFDate,Type,Product,Quantity,Lots,Location,Reason,User,Session',
+        '2026-03-02 00:30,TRANSFER,"Glove, nitrile ""M""",5,LOT1 × 3; LOT2 × 2,Main storeroom → Operatory 1,,Somchai,session-1',
+        '',
+      ]);
+      expect(prisma.clinicSetting.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should neutralize text that a spreadsheet would run as a formula', async () => {
+      const file = await exportStockLogs(
+        [{ ...transferEntry, productName: '=HYPERLINK("http://x","Glove")', reason: '@SUM(A1)', totalQuantity: -5 }],
+        {},
+        'csv'
+      );
+
+      expect((file.body as string).split('\r\n')[1]).toBe(
+        '2026-03-02 00:30,TRANSFER,"\'=HYPERLINK(""http://x"",""Glove"")",-5,LOT1 × 3; LOT2 × 2,' +
+          'Main storeroom → Operatory 1,"\'@SUM(A1)",Somchai,session-1'
+      );
+    });
+
+    it('should render a PDF headed by the clinic name and filters', async () => {
+      (prisma.clinicSetting.findUnique as jest.Mock).mockResolvedValue({
+        clinicName: 'Smile Dental',
+        clinicOpenTime: '11:00',
+        clinicCloseTime: '20:00',
+      });
+      (prisma.stockLocation.findUnique as jest.Mock).mockResolvedValue({ name: 'Main storeroom' });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const file = await exportStockLogs(
+        [transferEntry],
+        { fromDate: '2026-03-01', toDate: '2026-03-31', locationId: 'storeroom' },
+        'pdf'
+      );
+
+      expect(file.contentType).toBe('application/pdf');
+      expect((file.body as Buffer).subarray(0, 5).toString()).toBe('%PDF-');
+      expect(prisma.stockLocation.findUnique).toHaveBeenCalledWith({ where: { id: 'storeroom' }, select: { name: true } });
+      warn.mockRestore();
+    });
+  });
+
+  describe('exportProductList', () => {
+    it('should list on-hand quantities with their status flags', async () => {
+      const file = await exportProductList(
+        [
+          product({ categoryName: 'Restorative', warehouseQuantity: 1, totalQuantity: 1, nearExpiry: true }),
+          product({ id: 'product-2', name: 'Mask', barcode: 'MASK', unit: 'piece', warehouseQuantity: 0, totalQuantity: 0, expireDate: null }),
+        ],
+        { status: 'lowStock' },
+        'csv'
+      );
+
+      expect((file.body as string).split('\r\n').slice(1, 3)).toEqual([
+        'Composite A2,COMP-A2,Restorative,syringe,2,1,0,1,2027-05-31,"Low stock, Near expiry"',
+        'Mask,MASK,,piece,2,0,0,0,,Out of stock',
+      ]);
+    });
+  });
+});
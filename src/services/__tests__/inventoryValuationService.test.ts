@@ -0,0 +1,114 @@
+import { Prisma } from '@prisma/client';
+import { getCostOfGoodsConsumed, getInventoryValuation } from '../inventoryValuationService';
+import { prisma } from '../../prisma';
+
+// Mock Prisma client
+jest.mock('../../prisma', () => ({
+  prisma: {
+    stockBatch: {
+      findMany: jest.fn(),
+    },
+    stockMovement: {
+      findMany: jest.fn(),
+      groupBy: jest.fn(),
+    },
+  },
+}));
+
+const gauze = { id: 'product-1', name: 'Gauze', unit: 'pack' };
+const gloves = { id: 'product-2', name: 'Gloves', unit: 'box' };
+
+function batch(overrides: Record<string, unknown>) {
+  return {
+    id: 'batch-1',
+    productId: gauze.id,
+    lotNumber: 'LOT001',
+    expireDate: null,
+    receivedAt: new Date('2026-06-01T03:00:00.000Z'),
+    createdAt: new Date('2026-06-01T03:00:00.000Z'),
+    quantity: 10,
+    unitCost: new Prisma.Decimal('12.50'),
+    product: gauze,
+    ...overrides,
+  };
+}
+
+describe('inventoryValuationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getInventoryValuation', () => {
+    it('should value current batches at their unit cost and report uncosted quantity separately', async () => {
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        batch({ id: 'batch-1', quantity: 10 }),
+        batch({ id: 'batch-2', lotNumber: 'LOT002', quantity: 4, unitCost: null }),
+        batch({ id: 'batch-3', productId: gloves.id, product: gloves, quantity: 2, unitCost: new Prisma.Decimal('150') }),
+      ]);
+
+      const result = await getInventoryValuation();
+
+      expect(prisma.stockMovement.groupBy).not.toHaveBeenCalled();
+      expect(result.asOf).toBeNull();
+      expect(result.totalValue).toBe(425);
+      expect(result.unvaluedQuantity).toBe(4);
+
+      const gauzeEntry = result.products.find((p) => p.productId === gauze.id)!;
+      expect(gauzeEntry.quantity).toBe(14);
+      expect(gauzeEntry.value).toBe(125);
+      expect(gauzeEntry.unvaluedQuantity).toBe(4);
+      expect(gauzeEntry.batches.map((b) => b.value)).toEqual([125, null]);
+    });
+
+    it('should roll batch quantities back to the end of the asOf day', async () => {
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([batch({ id: 'batch-1', quantity: 6 })]);
+      // After the cutoff: 10 received, 14 taken out → 4 more than now on the asOf day
+      (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([
+        { batchId: 'batch-1', type: 'IN', _sum: { quantity: 10 } },
+        { batchId: 'batch-1', type: 'OUT', _sum: { quantity: 14 } },
+      ]);
+
+      const result = await getInventoryValuation('2026-06-30');
+
+      const groupByArgs = (prisma.stockMovement.groupBy as jest.Mock).mock.calls[0][0];
+      // End of 2026-06-30 in Asia/Bangkok
+      expect(groupByArgs.where.createdAt.gte.toISOString()).toBe('2026-06-30T17:00:00.000Z');
+      expect(result.products[0].quantity).toBe(10);
+      expect(result.totalValue).toBe(125);
+    });
+
+    it('should reject a malformed asOf date', async () => {
+      await expect(getInventoryValuation('2026-02-30')).rejects.toThrow('INVALID_DATE');
+      expect(prisma.stockBatch.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCostOfGoodsConsumed', () => {
+    it('should split consumed and disposed cost using the cost captured on each movement', async () => {
+      (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+        { productId: gauze.id, type: 'OUT', quantity: 3, unitCost: new Prisma.Decimal('12.50'), product: gauze },
+        { productId: gauze.id, type: 'WITHDRAW', quantity: 1, unitCost: null, product: gauze },
+        { productId: gauze.id, type: 'DISPOSE', quantity: 2, unitCost: new Prisma.Decimal('10'), product: gauze },
+      ]);
+
+      const result = await getCostOfGoodsConsumed('2026-06-01', '2026-06-30');
+
+      expect(result.consumedCost).toBe(37.5);
+      expect(result.disposedCost).toBe(20);
+      expect(result.totalCost).toBe(57.5);
+      expect(result.uncostedQuantity).toBe(1);
+      expect(result.products[0]).toMatchObject({
+        consumedQuantity: 4,
+        consumedCost: 37.5,
+        disposedQuantity: 2,
+        disposedCost: 20,
+        uncostedQuantity: 1,
+      });
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(getCostOfGoodsConsumed('2026-06-30', '2026-06-01')).rejects.toThrow('INVALID_RANGE');
+      expect(prisma.stockMovement.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { addMedicalHistoryEntry, updateMedicalHistoryEntry } from '../medicalHistoryService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    patient: {
+      findUnique: jest.fn(),
+    },
+    medicalHistoryEntry: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+function entryRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'mh-1',
+    patientId: 'patient-1',
+    category: 'MEDICATION',
+    name: 'Warfarin',
+    severity: 'HIGH',
+    notes: null,
+    startedAt: new Date('2024-01-01T00:00:00Z'),
+    endedAt: null,
+    createdById: 'user-staff',
+    createdAt: new Date('2024-01-02T03:00:00Z'),
+    updatedAt: new Date('2024-01-02T03:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('medicalHistoryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addMedicalHistoryEntry', () => {
+    it('should record the entry as ongoing with the acting user', async () => {
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.medicalHistoryEntry.create as jest.Mock).mockResolvedValueOnce(entryRow());
+
+      const entry = await addMedicalHistoryEntry(
+        'patient-1',
+        { category: 'MEDICATION', name: ' Warfarin ', severity: 'HIGH', startedAt: '2024-01-01' },
+        'user-staff'
+      );
+
+      expect(prisma.medicalHistoryEntry.create).toHaveBeenCalledWith({
+        data: {
+          patientId: 'patient-1',
+          category: 'MEDICATION',
+          name: 'Warfarin',
+          severity: 'HIGH',
+          notes: null,
+          startedAt: new Date('2024-01-01T00:00:00Z'),
+          endedAt: null,
+          createdById: 'user-staff',
+        },
+      });
+      expect(entry).toEqual(expect.objectContaining({ startedAt: '2024-01-01', endedAt: null, active: true }));
+    });
+
+    it('should reject an unknown category before touching the database', async () => {
+      await expect(
+        addMedicalHistoryEntry('patient-1', { category: 'ALLERGIES' as never, name: 'Penicillin' })
+      ).rejects.toThrow('INVALID_CATEGORY');
+      expect(prisma.patient.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateMedicalHistoryEntry', () => {
+    it('should end an entry and keep the rest as recorded', async () => {
+      (prisma.medicalHistoryEntry.findFirst as jest.Mock).mockResolvedValueOnce(entryRow());
+      (prisma.medicalHistoryEntry.update as jest.Mock).mockResolvedValueOnce(
+        entryRow({ endedAt: new Date('2024-06-30T00:00:00Z') })
+      );
+
+      const entry = await updateMedicalHistoryEntry('patient-1', 'mh-1', { endedAt: '2024-06-30' });
+
+      expect(prisma.medicalHistoryEntry.update).toHaveBeenCalledWith({
+        where: { id: 'mh-1' },
+        data: {
+          category: 'MEDICATION',
+          name: 'Warfarin',
+          severity: 'HIGH',
+          notes: null,
+          startedAt: new Date('2024-01-01T00:00:00Z'),
+          endedAt: new Date('2024-06-30T00:00:00Z'),
+        },
+      });
+      expect(entry.active).toBe(false);
+    });
+
+    it('should reject an end date before the start date', async () => {
+      (prisma.medicalHistoryEntry.findFirst as jest.Mock).mockResolvedValueOnce(entryRow());
+
+      await expect(updateMedicalHistoryEntry('patient-1', 'mh-1', { endedAt: '2023-12-31' })).rejects.toThrow(
+        'INVALID_DATE_RANGE'
+      );
+      expect(prisma.medicalHistoryEntry.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { getPatientFileContent, migratePatientPhotos, uploadPatientFile } from '../patientFileService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked). Files go to a
+// real local storage in a temp directory.
+jest.mock('../../prisma', () => ({
+  prisma: {
+    patient: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    patientFile: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+    },
+  },
+}));
+
+let storageRoot: string;
+
+async function pngOf(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 30, b: 30 } } }).png().toBuffer();
+}
+
+async function storedKeys(): Promise<string[]> {
+  const dir = path.join(storageRoot, 'patients', 'patient-1');
+  return readdir(dir).catch(() => []);
+}
+
+describe('patientFileService', () => {
+  beforeAll(async () => {
+    storageRoot = await mkdtemp(path.join(os.tmpdir(), 'dentsis-files-'));
+    process.env.FILE_STORAGE_LOCAL_DIR = storageRoot;
+  });
+
+  afterAll(async () => {
+    await rm(storageRoot, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.patient.findUnique as jest.Mock).mockResolvedValue({ id: 'patient-1' });
+    (prisma.patientFile.create as jest.Mock).mockImplementation(async ({ data }) => ({
+      ...data,
+      createdAt: new Date('2024-03-01T03:00:00Z'),
+    }));
+  });
+
+  afterEach(async () => {
+    await rm(path.join(storageRoot, 'patients'), { recursive: true, force: true });
+  });
+
+  describe('uploadPatientFile', () => {
+    it('should store an image with a thumbnail that fits 256px', async () => {
+      const png = await pngOf(1024, 512);
+
+      const file = await uploadPatientFile(
+        'patient-1',
+        { category: 'XRAY', contentType: 'image/png', body: png, fileName: 'C:\\scans\\pano.png' },
+        'user-staff'
+      );
+
+      expect(file).toEqual(
+        expect.objectContaining({ category: 'XRAY', fileName: 'pano.png', size: png.length, hasThumbnail: true })
+      );
+      const row = await (prisma.patientFile.create as jest.Mock).mock.results[0].value;
+      (prisma.patientFile.findFirst as jest.Mock).mockResolvedValue(row);
+
+      const original = await getPatientFileContent('patient-1', file.id);
+      expect(original.body.equals(png)).toBe(true);
+      const thumb = await getPatientFileContent('patient-1', file.id, true);
+      expect(thumb.contentType).toBe('image/jpeg');
+      expect(await sharp(thumb.body).metadata()).toEqual(expect.objectContaining({ width: 256, height: 128 }));
+    });
+
+    it('should reject bytes that do not match the declared type', async () => {
+      await expect(
+        uploadPatientFile('patient-1', { category: 'CONSENT_FORM', contentType: 'application/pdf', body: await pngOf(8, 8) })
+      ).rejects.toThrow('INVALID_FILE_CONTENT');
+      expect(prisma.patientFile.create).not.toHaveBeenCalled();
+      expect(await storedKeys()).toEqual([]);
+    });
+
+    it('should reject a type the category does not accept', async () => {
+      await expect(
+        uploadPatientFile('patient-1', { category: 'XRAY', contentType: 'application/pdf', body: Buffer.from('%PDF-1.7') })
+      ).rejects.toThrow('UNSUPPORTED_CONTENT_TYPE');
+    });
+
+    it('should reject a file over FILE_UPLOAD_MAX_MB', async () => {
+      process.env.FILE_UPLOAD_MAX_MB = '0.001'; // ~1 KB
+      try {
+        await expect(
+          uploadPatientFile('patient-1', { category: 'CONSENT_FORM', contentType: 'application/pdf', body: Buffer.alloc(2048, '%PDF-') })
+        ).rejects.toThrow('FILE_TOO_LARGE');
+      } finally {
+        delete process.env.FILE_UPLOAD_MAX_MB;
+      }
+    });
+  });
+
+  describe('migratePatientPhotos', () => {
+    it('should move inline photos into storage and keep the ones it cannot store', async () => {
+      const png = await pngOf(16, 16);
+      (prisma.patient.findMany as jest.Mock)
+        .mockResolvedValueOnce([
+          { id: 'patient-1', photoBase64: `data:image/png;base64,${png.toString('base64')}` },
+          { id: 'patient-2', photoBase64: 'data:image/gif;base64,R0lGODlhAQABAAAAACw=' },
+        ])
+        .mockResolvedValueOnce([]);
+
+      const result = await migratePatientPhotos();
+
+      expect(result).toEqual({ migrated: 1, failed: [{ patientId: 'patient-2', error: 'UNSUPPORTED_CONTENT_TYPE' }] });
+      expect(prisma.patientFile.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ patientId: 'patient-1', category: 'PROFILE_PHOTO', contentType: 'image/png' }),
+      });
+      expect(prisma.patient.update).toHaveBeenCalledTimes(1);
+      expect(prisma.patient.update).toHaveBeenCalledWith({ where: { id: 'patient-1' }, data: { photoBase64: null } });
+      expect(prisma.patient.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { photoBase64: { not: null }, id: { notIn: ['patient-2'] } } })
+      );
+      expect(await storedKeys()).toHaveLength(2); // photo + thumbnail
+    });
+  });
+});
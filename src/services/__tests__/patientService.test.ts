@@ -138,5 +138,29 @@ describe('patientService', () => {
       expect(result.note).toBeNull();
       expect(result.age).toBe(35);
     });
+
+    it('lists ongoing medical history as alerts, most severe first', () => {
+      const entry = {
+        notes: null,
+        startedAt: null,
+        endedAt: null,
+        createdById: null,
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+        updatedAt: new Date('2026-01-01T00:00:00Z'),
+      };
+      const result = formatPatientResponse({
+        ...baseMockPatient,
+        medicalHistory: [
+          { ...entry, id: 'mh-1', category: 'CONDITION', name: 'Diabetes', severity: 'MODERATE' },
+          { ...entry, id: 'mh-2', category: 'ALLERGY', name: 'Penicillin', severity: 'HIGH', notes: 'Anaphylaxis' },
+          { ...entry, id: 'mh-3', category: 'CONDITION', name: 'Pregnancy', severity: 'HIGH', endedAt: new Date('2026-02-01') },
+        ],
+      });
+
+      expect(result.alerts).toEqual([
+        { id: 'mh-2', category: 'ALLERGY', name: 'Penicillin', severity: 'HIGH', notes: 'Anaphylaxis' },
+        { id: 'mh-1', category: 'CONDITION', name: 'Diabetes', severity: 'MODERATE', notes: null },
+      ]);
+    });
   });
 });
@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { getPatientTimeline } from '../patientTimelineService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    patient: {
+      findUnique: jest.fn(),
+    },
+    dailyRecord: {
+      findMany: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+function recordRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'record-1',
+    recordDate: new Date('2024-03-05T00:00:00Z'),
+    sequenceNo: 3,
+    doctorId: 'doctor-1',
+    treatmentNote: 'ขูดหินปูน',
+    totalAmount: new Prisma.Decimal(1200),
+    paymentMethod: 'CASH',
+    createdAt: new Date('2024-03-05T07:30:00Z'), // 14:30 in Bangkok
+    doctor: { name: 'Dr. A' },
+    slips: [],
+    ...overrides,
+  };
+}
+
+function appointmentRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'appt-1',
+    date: new Date('2024-03-05T00:00:00Z'),
+    startTime: '14:00',
+    endTime: '14:30',
+    doctorId: 'doctor-1',
+    status: 'COMPLETED',
+    cancellationReason: null,
+    doctor: { name: 'Dr. A' },
+    treatmentType: { name: 'ขูดหินปูน' },
+    ...overrides,
+  };
+}
+
+describe('patientTimelineService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.patient.findUnique as jest.Mock).mockResolvedValue({ id: 'patient-1' });
+  });
+
+  it('should merge visits, appointments and linked slips newest first', async () => {
+    (prisma.dailyRecord.findMany as jest.Mock).mockResolvedValueOnce([
+      recordRow(),
+      recordRow({
+        id: 'record-2',
+        recordDate: new Date('2024-04-10T00:00:00Z'),
+        paymentMethod: 'TRANSFER',
+        totalAmount: new Prisma.Decimal(1500),
+        createdAt: new Date('2024-04-10T04:00:00Z'),
+        slips: [
+          {
+            id: 'slip-1',
+            amount: new Prisma.Decimal(1000),
+            transferredAt: new Date('2024-04-10T05:15:00Z'),
+            sendingBank: '004',
+            transRef: 'REF1',
+            createdAt: new Date('2024-04-10T05:16:00Z'),
+          },
+        ],
+      }),
+    ]);
+    (prisma.appointment.findMany as jest.Mock).mockResolvedValueOnce([
+      appointmentRow(),
+      appointmentRow({ id: 'appt-2', date: new Date('2024-03-20T00:00:00Z'), startTime: '10:00', status: 'NO_SHOW' }),
+    ]);
+
+    const timeline = await getPatientTimeline('patient-1', 'STAFF', null);
+
+    expect(timeline.entries.map((e) => [e.type, e.id, e.date, e.time])).toEqual([
+      ['PAYMENT', 'slip-1', '2024-04-10', '12:15'],
+      ['VISIT', 'record-2', '2024-04-10', '11:00'],
+      ['APPOINTMENT', 'appt-2', '2024-03-20', '10:00'],
+      ['VISIT', 'record-1', '2024-03-05', '14:30'],
+      ['APPOINTMENT', 'appt-1', '2024-03-05', '14:00'],
+    ]);
+    expect(timeline.summary).toEqual({
+      totalSpent: 2700,
+      outstandingBalance: 500,
+      lastVisitDate: '2024-04-10',
+      visitCount: 2,
+      noShowCount: 1,
+    });
+  });
+
+  it('should scope a doctor to their own visits and appointments', async () => {
+    (prisma.dailyRecord.findMany as jest.Mock).mockResolvedValueOnce([]);
+    (prisma.appointment.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+    const timeline = await getPatientTimeline('patient-1', 'DOCTOR', 'doctor-2');
+
+    expect(prisma.dailyRecord.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { patientId: 'patient-1', doctorId: 'doctor-2' } })
+    );
+    expect(prisma.appointment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { patientId: 'patient-1', doctorId: 'doctor-2' } })
+    );
+    expect(timeline.summary.lastVisitDate).toBeNull();
+  });
+
+  it('should throw PATIENT_NOT_FOUND for an unknown patient', async () => {
+    (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce(null);
+
+    await expect(getPatientTimeline('missing', 'ADMIN', null)).rejects.toThrow('PATIENT_NOT_FOUND');
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  addProductBarcode,
+  applyScanPack,
+  deleteProductPack,
+  isBarcodeTaken,
+} from '../productCatalogService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    product: {
+      findUnique: jest.fn(),
+    },
+    productBarcode: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      count: jest.fn(),
+    },
+    productPack: {
+      findUnique: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+const catalogProduct = {
+  id: 'product-1',
+  name: 'Glove M',
+  barcode: 'GLOVE-M',
+  unit: 'piece',
+  category: null,
+  barcodes: [],
+  packs: [],
+};
+
+describe('productCatalogService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('applyScanPack', () => {
+    it('should multiply the scanned quantity by the pack size', () => {
+      expect(applyScanPack(3, { packId: 'pack-box', name: 'Box', unitsPerPack: 100 })).toEqual({
+        quantity: 300,
+        pack: { packId: 'pack-box', name: 'Box', unitsPerPack: 100, packQuantity: 3 },
+      });
+    });
+
+    it('should keep base units when no pack applies', () => {
+      expect(applyScanPack(3, null)).toEqual({ quantity: 3 });
+    });
+  });
+
+  describe('isBarcodeTaken', () => {
+    it("should ignore the product's own primary barcode but not its alternates", async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'product-1' });
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'alt-1' });
+
+      await expect(isBarcodeTaken('GLOVE-M', 'product-1')).resolves.toBe(false);
+      await expect(isBarcodeTaken('GLOVE-M', 'product-1')).resolves.toBe(true);
+    });
+  });
+
+  describe('addProductBarcode', () => {
+    it('should add an alternate barcode printed on a pack', async () => {
+      (prisma.product.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ id: 'product-1' }) // assertProduct
+        .mockResolvedValueOnce(null) // isBarcodeTaken (primary)
+        .mockResolvedValueOnce(catalogProduct); // getProductCatalog
+      (prisma.productPack.findUnique as jest.Mock).mockResolvedValue({ id: 'pack-box', productId: 'product-1' });
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await addProductBarcode('product-1', { barcode: ' GLOVE-M-BOX ', label: 'Box of 100', packId: 'pack-box' });
+
+      expect(prisma.productBarcode.create).toHaveBeenCalledWith({
+        data: { productId: 'product-1', barcode: 'GLOVE-M-BOX', label: 'Box of 100', packId: 'pack-box' },
+      });
+    });
+
+    it('should throw BARCODE_TAKEN when another product uses the code', async () => {
+      (prisma.product.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ id: 'product-1' })
+        .mockResolvedValueOnce({ id: 'product-2' });
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(addProductBarcode('product-1', { barcode: 'OTHER' })).rejects.toThrow('BARCODE_TAKEN');
+      expect(prisma.productBarcode.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw PACK_NOT_FOUND for a pack of another product', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'product-1' });
+      (prisma.productPack.findUnique as jest.Mock).mockResolvedValue({ id: 'pack-x', productId: 'product-2' });
+
+      await expect(addProductBarcode('product-1', { barcode: 'NEW', packId: 'pack-x' })).rejects.toThrow(
+        'PACK_NOT_FOUND'
+      );
+    });
+  });
+
+  describe('deleteProductPack', () => {
+    it('should throw PACK_IN_USE while a barcode still points at the pack', async () => {
+      (prisma.productPack.findUnique as jest.Mock).mockResolvedValue({ id: 'pack-box', productId: 'product-1' });
+      (prisma.productBarcode.count as jest.Mock).mockResolvedValue(1);
+
+      await expect(deleteProductPack('product-1', 'pack-box')).rejects.toThrow('PACK_IN_USE');
+      expect(prisma.productPack.delete).not.toHaveBeenCalled();
+    });
+  });
+});
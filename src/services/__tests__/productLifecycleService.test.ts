@@ -0,0 +1,146 @@
+import {
+  archiveProduct,
+  deleteProduct,
+  getProductHistory,
+  recordProductChanges,
+  unarchiveProduct,
+} from '../productLifecycleService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    product: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    productChange: {
+      create: jest.fn(),
+      createMany: jest.fn(),
+    },
+  },
+}));
+
+const product = {
+  id: 'product-1',
+  name: 'Glove M',
+  unit: 'piece',
+  minStock: 10,
+  isReusable: false,
+  archivedAt: null as Date | null,
+};
+
+describe('productLifecycleService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+  });
+
+  describe('recordProductChanges', () => {
+    it('should keep one history row per changed tracked field', async () => {
+      await recordProductChanges(
+        prisma as never,
+        'product-1',
+        product,
+        { ...product, name: 'Nitrile glove M', minStock: 20 },
+        'user-staff'
+      );
+
+      expect(prisma.productChange.createMany).toHaveBeenCalledWith({
+        data: [
+          { productId: 'product-1', field: 'name', oldValue: 'Glove M', newValue: 'Nitrile glove M', changedById: 'user-staff' },
+          { productId: 'product-1', field: 'minStock', oldValue: '10', newValue: '20', changedById: 'user-staff' },
+        ],
+      });
+    });
+
+    it('should write nothing when no tracked field changed', async () => {
+      await recordProductChanges(prisma as never, 'product-1', product, { ...product }, 'user-staff');
+
+      expect(prisma.productChange.createMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('archiveProduct', () => {
+    it('should stamp the product and record the change', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce(product);
+      (prisma.product.update as jest.Mock).mockResolvedValueOnce({ ...product, archivedAt: new Date() });
+
+      await archiveProduct('product-1', 'user-admin');
+
+      expect(prisma.product.update).toHaveBeenCalledWith({
+        where: { id: 'product-1' },
+        data: { archivedAt: expect.any(Date), archivedById: 'user-admin' },
+      });
+      expect(prisma.productChange.create).toHaveBeenCalledWith({
+        data: { productId: 'product-1', field: 'archived', oldValue: 'false', newValue: 'true', changedById: 'user-admin' },
+      });
+    });
+
+    it('should refuse to unarchive a product that is not archived', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce(product);
+
+      await expect(unarchiveProduct('product-1', 'user-admin')).rejects.toThrow('PRODUCT_NOT_ARCHIVED');
+      expect(prisma.product.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteProduct', () => {
+    it('should refuse to delete a product with stock movements', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'product-1', _count: { stockMovements: 3 } });
+
+      await expect(deleteProduct('product-1')).rejects.toThrow('PRODUCT_HAS_MOVEMENTS');
+      expect(prisma.product.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete a product that never moved', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'product-1', _count: { stockMovements: 0 } });
+
+      await deleteProduct('product-1');
+
+      expect(prisma.product.delete).toHaveBeenCalledWith({ where: { id: 'product-1' } });
+    });
+  });
+
+  describe('getProductHistory', () => {
+    it('should list changes with the name of the user who made them', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'product-1',
+        name: 'Nitrile glove M',
+        archivedAt: null,
+        changes: [
+          {
+            id: 'change-1',
+            field: 'name',
+            oldValue: 'Glove M',
+            newValue: 'Nitrile glove M',
+            changedById: 'user-staff',
+            changedBy: { name: 'Somchai' },
+            createdAt: new Date('2026-03-01T04:00:00Z'),
+          },
+        ],
+      });
+
+      const history = await getProductHistory('product-1');
+
+      expect(history).toEqual({
+        productId: 'product-1',
+        name: 'Nitrile glove M',
+        archivedAt: null,
+        changes: [
+          {
+            id: 'change-1',
+            field: 'name',
+            oldValue: 'Glove M',
+            newValue: 'Nitrile glove M',
+            changedById: 'user-staff',
+            changedByName: 'Somchai',
+            changedAt: '2026-03-01T04:00:00.000Z',
+          },
+        ],
+      });
+    });
+  });
+});
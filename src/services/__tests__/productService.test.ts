@@ -3,10 +3,22 @@ import { prisma } from '../../prisma';
 
 jest.mock('../../prisma', () => ({
   prisma: {
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
       findMany: jest.fn(),
     },
+    stockLocation: {
+      findUnique: jest.fn(),
+    },
+    stockLocationThreshold: {
+      findMany: jest.fn(),
+    },
+    stockInUse: {
+      groupBy: jest.fn(),
+    },
   },
 }));
 
@@ -137,3 +149,52 @@ describe('getProductList nearExpiry filtering', () => {
     expect(result.data[0].nearExpiry).toBe(true);
   });
 });
+
+describe('getProductList by location', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it("counts only the location's in-use stock and falls back to Product.minStock", async () => {
+    (prisma.stockLocation.findUnique as jest.Mock).mockResolvedValue({ id: 'operatory-1' });
+    (prisma.stockLocationThreshold.findMany as jest.Mock).mockResolvedValue([
+      { productId: 'product-scaler', minStock: 1 },
+    ]);
+    (prisma.stockInUse.groupBy as jest.Mock).mockResolvedValue([{ productId: 'product-scaler', _sum: { quantity: 2 } }]);
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: 'product-gloves',
+        name: 'Gloves',
+        barcode: 'GLOVE-M',
+        unit: 'box',
+        minStock: 5,
+        isReusable: false,
+        inUseQuantity: 0,
+        stockBatches: [{ quantity: 3, expireDate: null }],
+      },
+      {
+        id: 'product-scaler',
+        name: 'Scaler tip',
+        barcode: 'SCALER',
+        unit: 'piece',
+        minStock: 4,
+        isReusable: true,
+        inUseQuantity: 6, // across all locations
+        stockBatches: [{ quantity: 1, expireDate: null }],
+      },
+    ]);
+
+    const result = await getProductList({ locationId: 'operatory-1' });
+
+    expect(prisma.stockInUse.groupBy).toHaveBeenCalledWith({
+      by: ['productId'],
+      where: { locationId: 'operatory-1', quantity: { gt: 0 } },
+      _sum: { quantity: true },
+    });
+    const [gloves, scaler] = result.data;
+    expect(gloves.minStock).toBe(5); // no threshold at this location
+    expect(scaler.minStock).toBe(1);
+    expect(scaler.inUseQuantity).toBe(2);
+    expect(scaler.totalQuantity).toBe(3);
+  });
+});
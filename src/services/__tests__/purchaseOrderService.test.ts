@@ -0,0 +1,191 @@
+import { createPurchaseOrder, receivePurchaseOrder } from '../purchaseOrderService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    purchaseOrder: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    supplier: {
+      findUnique: jest.fn(),
+    },
+    product: {
+      findMany: jest.fn(),
+    },
+    purchaseOrderLine: {
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+    stockLocation: {
+      findFirst: jest.fn(),
+    },
+    stockBatch: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+const line = {
+  id: 'line-1',
+  purchaseOrderId: 'po-1',
+  productId: 'product-1',
+  orderedQuantity: 10,
+  receivedQuantity: 0,
+  unitCost: null,
+  product: { archivedAt: null },
+};
+
+const detail = {
+  id: 'po-1',
+  poNumber: 'PO-202607-0001',
+  supplierId: 'supplier-1',
+  supplier: { name: 'Dental Supply Co.' },
+  status: 'PARTIALLY_RECEIVED',
+  orderedAt: new Date('2026-07-01T03:00:00.000Z'),
+  expectedAt: null,
+  note: null,
+  createdById: 'user-1',
+  lines: [
+    {
+      ...line,
+      receivedQuantity: 4,
+      product: { name: 'Gloves (M)', barcode: '8850001000002', unit: 'box' },
+    },
+  ],
+  createdAt: new Date('2026-07-01T02:00:00.000Z'),
+  updatedAt: new Date('2026-07-02T02:00:00.000Z'),
+};
+
+describe('purchaseOrderService.receivePurchaseOrder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+    (prisma.stockLocation.findFirst as jest.Mock).mockResolvedValue({ id: 'location-main', isDefault: true });
+  });
+
+  it('runs stock-in per line, links the IN movement to the line and marks the order partially received', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock)
+      .mockResolvedValueOnce({ id: 'po-1', status: 'ORDERED', lines: [line] })
+      .mockResolvedValueOnce(detail);
+    (prisma.purchaseOrderLine.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-1' });
+    (prisma.purchaseOrderLine.findMany as jest.Mock).mockResolvedValue([{ ...line, receivedQuantity: 4 }]);
+
+    const result = await receivePurchaseOrder('po-1', [
+      { lineId: 'line-1', quantity: 4, lotNumber: 'LOT-A', expireDate: '2027-01-31' },
+    ]);
+
+    expect(prisma.purchaseOrderLine.updateMany).toHaveBeenCalledWith({
+      where: { id: 'line-1', receivedQuantity: { lte: 6 } },
+      data: { receivedQuantity: { increment: 4 } },
+    });
+    expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+      data: {
+        productId: 'product-1',
+        batchId: 'batch-1',
+        lotNumber: 'LOT-A',
+        type: 'IN',
+        quantity: 4,
+        sessionId: result.sessionId,
+        locationId: 'location-main',
+        purchaseOrderLineId: 'line-1',
+      },
+    });
+    expect(prisma.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { status: 'PARTIALLY_RECEIVED' },
+    });
+    expect(result.results).toEqual([
+      { lineId: 'line-1', productId: 'product-1', batchId: 'batch-1', lotNumber: 'LOT-A', quantity: 4 },
+    ]);
+    expect(result.purchaseOrder.lines[0].outstandingQuantity).toBe(6);
+  });
+
+  it('marks the order RECEIVED once every line is complete', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock)
+      .mockResolvedValueOnce({ id: 'po-1', status: 'PARTIALLY_RECEIVED', lines: [{ ...line, receivedQuantity: 4 }] })
+      .mockResolvedValueOnce({ ...detail, status: 'RECEIVED' });
+    (prisma.purchaseOrderLine.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-2' });
+    (prisma.purchaseOrderLine.findMany as jest.Mock).mockResolvedValue([{ ...line, receivedQuantity: 10 }]);
+
+    await receivePurchaseOrder('po-1', [{ lineId: 'line-1', quantity: 6, expireDate: null }]);
+
+    expect(prisma.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { status: 'RECEIVED' },
+    });
+  });
+
+  it('rejects receiving more than the outstanding quantity without touching stock', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue({
+      id: 'po-1',
+      status: 'ORDERED',
+      lines: [{ ...line, receivedQuantity: 8 }],
+    });
+
+    await expect(receivePurchaseOrder('po-1', [{ lineId: 'line-1', quantity: 3 }])).rejects.toThrow('OVER_RECEIPT');
+    expect(prisma.stockBatch.create).not.toHaveBeenCalled();
+    expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects orders that are still DRAFT', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue({ id: 'po-1', status: 'DRAFT', lines: [line] });
+
+    await expect(receivePurchaseOrder('po-1', [{ lineId: 'line-1', quantity: 1 }])).rejects.toThrow(
+      'PURCHASE_ORDER_NOT_RECEIVABLE'
+    );
+  });
+
+  it('rejects a line that belongs to another order', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue({ id: 'po-1', status: 'ORDERED', lines: [line] });
+
+    await expect(receivePurchaseOrder('po-1', [{ lineId: 'line-x', quantity: 1 }])).rejects.toThrow('LINE_NOT_FOUND');
+  });
+
+  it('rejects a line whose product was archived after ordering', async () => {
+    (prisma.purchaseOrder.findUnique as jest.Mock).mockResolvedValue({
+      id: 'po-1',
+      status: 'ORDERED',
+      lines: [{ ...line, product: { archivedAt: new Date('2026-07-03T02:00:00.000Z') } }],
+    });
+
+    await expect(receivePurchaseOrder('po-1', [{ lineId: 'line-1', quantity: 1 }])).rejects.toThrow('PRODUCT_ARCHIVED');
+    expect(prisma.purchaseOrderLine.updateMany).not.toHaveBeenCalled();
+    expect(prisma.stockBatch.create).not.toHaveBeenCalled();
+  });
+
+  it('validates quantities before opening a transaction', async () => {
+    await expect(receivePurchaseOrder('po-1', [{ lineId: 'line-1', quantity: 0 }])).rejects.toThrow('INVALID_QUANTITY');
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('purchaseOrderService.createPurchaseOrder', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('rejects lines for archived products', async () => {
+    (prisma.supplier.findUnique as jest.Mock).mockResolvedValue({ id: 'supplier-1', active: true });
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([
+      { id: 'product-1', archivedAt: new Date('2026-07-03T02:00:00.000Z') },
+    ]);
+
+    await expect(
+      createPurchaseOrder({ supplierId: 'supplier-1', lines: [{ productId: 'product-1', orderedQuantity: 5 }] }, 'user-1')
+    ).rejects.toThrow('PRODUCT_ARCHIVED');
+    expect(prisma.purchaseOrder.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { getReorderSuggestions } from '../reorderSuggestionService';
+import { prisma } from '../../prisma';
+
+// Mock Prisma client
+jest.mock('../../prisma', () => ({
+  prisma: {
+    product: {
+      findMany: jest.fn(),
+    },
+    stockBatch: {
+      groupBy: jest.fn(),
+    },
+    stockMovement: {
+      groupBy: jest.fn(),
+    },
+    purchaseOrderLine: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const gauze = { id: 'product-1', name: 'Gauze', barcode: '111', unit: 'pack', minStock: 5, isReusable: false };
+const resin = { id: 'product-2', name: 'Resin', barcode: '222', unit: 'tube', minStock: 1, isReusable: true };
+const floss = { id: 'product-3', name: 'Floss', barcode: '333', unit: 'box', minStock: 2, isReusable: false };
+
+describe('reorderSuggestionService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([gauze, resin, floss]);
+    (prisma.purchaseOrderLine.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should suggest ordering up to the target cover from usage velocity', async () => {
+    (prisma.stockBatch.groupBy as jest.Mock).mockResolvedValue([
+      { productId: gauze.id, _sum: { quantity: 10 } },
+      { productId: floss.id, _sum: { quantity: 50 } },
+    ]);
+    // 60 gauze over 30 days → 2/day
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([
+      { productId: gauze.id, type: 'OUT', _sum: { quantity: 60 } },
+    ]);
+
+    const result = await getReorderSuggestions();
+
+    expect(result.windowDays).toBe(30);
+    const entry = result.suggestions.find((s) => s.productId === gauze.id)!;
+    expect(entry.dailyUsage).toBe(2);
+    expect(entry.daysOfCover).toBe(5);
+    expect(entry.targetQuantity).toBe(60);
+    expect(entry.suggestedQuantity).toBe(50);
+    // Floss has plenty on hand and no usage → not listed
+    expect(result.suggestions.find((s) => s.productId === floss.id)).toBeUndefined();
+    // Quarantined, recalled and expired batches are not counted as on hand
+    expect(prisma.stockBatch.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { status: 'ACTIVE', OR: [{ expireDate: null }, { expireDate: { gte: expect.any(Date) } }] },
+      })
+    );
+  });
+
+  it('should use depletions for reusable items and fall back to minStock without usage', async () => {
+    (prisma.stockBatch.groupBy as jest.Mock).mockResolvedValue([]);
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([
+      { productId: resin.id, type: 'WITHDRAW', _sum: { quantity: 1 } },
+      { productId: resin.id, type: 'DEPLETE', _sum: { quantity: 3 } },
+    ]);
+
+    const result = await getReorderSuggestions({ windowDays: 30, targetCoverDays: 60 });
+
+    const resinEntry = result.suggestions.find((s) => s.productId === resin.id)!;
+    expect(resinEntry.consumedQuantity).toBe(3);
+    expect(resinEntry.suggestedQuantity).toBe(6);
+    const flossEntry = result.suggestions.find((s) => s.productId === floss.id)!;
+    expect(flossEntry.daysOfCover).toBeNull();
+    expect(flossEntry.suggestedQuantity).toBe(2);
+  });
+
+  it('should count outstanding purchase order quantities towards cover', async () => {
+    (prisma.stockBatch.groupBy as jest.Mock).mockResolvedValue([{ productId: gauze.id, _sum: { quantity: 10 } }]);
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([
+      { productId: gauze.id, type: 'OUT', _sum: { quantity: 60 } },
+    ]);
+    (prisma.purchaseOrderLine.findMany as jest.Mock).mockResolvedValue([
+      { productId: gauze.id, orderedQuantity: 40, receivedQuantity: 10 },
+    ]);
+
+    const result = await getReorderSuggestions();
+
+    const entry = result.suggestions.find((s) => s.productId === gauze.id)!;
+    expect(entry.onOrderQuantity).toBe(30);
+    expect(entry.suggestedQuantity).toBe(20);
+  });
+
+  it('should reject an out-of-range window', async () => {
+    await expect(getReorderSuggestions({ windowDays: 0 })).rejects.toThrow('INVALID_WINDOW');
+    await expect(getReorderSuggestions({ targetCoverDays: 1.5 })).rejects.toThrow('INVALID_WINDOW');
+    expect(prisma.product.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,106 @@
+import { getStockUserActivity } from '../stockActivityService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    stockMovement: {
+      groupBy: jest.fn(),
+    },
+    product: {
+      groupBy: jest.fn(),
+    },
+    user: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+describe('stockActivityService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should summarise the movements and products of each user', async () => {
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValueOnce([
+      { createdById: 'user-staff', type: 'OUT', _count: { _all: 3 }, _sum: { quantity: 12 }, _max: { createdAt: new Date('2026-03-02T04:00:00Z') } },
+      { createdById: 'user-staff', type: 'DISPOSE', _count: { _all: 1 }, _sum: { quantity: 2 }, _max: { createdAt: new Date('2026-03-03T04:00:00Z') } },
+      { createdById: null, type: 'IN', _count: { _all: 1 }, _sum: { quantity: 50 }, _max: { createdAt: new Date('2026-03-01T04:00:00Z') } },
+    ]);
+    (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([
+      { createdById: 'user-staff', sessionCount: 2 },
+      { createdById: null, sessionCount: 1 },
+    ]);
+    (prisma.product.groupBy as jest.Mock).mockResolvedValueOnce([{ createdById: 'user-admin', _count: { _all: 4 } }]);
+    (prisma.user.findMany as jest.Mock).mockResolvedValueOnce([
+      { id: 'user-staff', name: 'Somchai', role: 'STAFF' },
+      { id: 'user-admin', name: 'Malee', role: 'ADMIN' },
+    ]);
+
+    const result = await getStockUserActivity('2026-03-01', '2026-03-03');
+
+    expect(prisma.stockMovement.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { createdAt: { gte: new Date('2026-02-28T17:00:00.000Z'), lt: new Date('2026-03-03T17:00:00.000Z') } },
+      })
+    );
+    expect(result.users).toEqual([
+      {
+        userId: 'user-staff',
+        userName: 'Somchai',
+        role: 'STAFF',
+        sessionCount: 2,
+        movementCount: 4,
+        byType: [
+          { type: 'DISPOSE', movementCount: 1, quantity: 2 },
+          { type: 'OUT', movementCount: 3, quantity: 12 },
+        ],
+        productsCreated: 0,
+        lastActivityAt: '2026-03-03T04:00:00.000Z',
+      },
+      {
+        userId: null,
+        userName: null,
+        role: null,
+        sessionCount: 1,
+        movementCount: 1,
+        byType: [{ type: 'IN', movementCount: 1, quantity: 50 }],
+        productsCreated: 0,
+        lastActivityAt: '2026-03-01T04:00:00.000Z',
+      },
+      {
+        userId: 'user-admin',
+        userName: 'Malee',
+        role: 'ADMIN',
+        sessionCount: 0,
+        movementCount: 0,
+        byType: [],
+        productsCreated: 4,
+        lastActivityAt: null,
+      },
+    ]);
+  });
+
+  it('should restrict every aggregate to the requested user', async () => {
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValueOnce([]);
+    (prisma.$queryRaw as jest.Mock).mockResolvedValueOnce([]);
+    (prisma.product.groupBy as jest.Mock).mockResolvedValueOnce([]);
+    (prisma.user.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+    const result = await getStockUserActivity('2026-03-01', '2026-03-01', 'user-staff');
+
+    expect(prisma.stockMovement.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ createdById: 'user-staff' }) })
+    );
+    expect(prisma.product.groupBy).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ createdById: 'user-staff' }) })
+    );
+    expect(result.users).toEqual([]);
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    await expect(getStockUserActivity('2026-03-10', '2026-03-01')).rejects.toThrow('INVALID_RANGE');
+    expect(prisma.stockMovement.groupBy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,237 @@
+import { commitStockCount, recordStockCountLines } from '../stockCountService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    product: {
+      findUnique: jest.fn(),
+    },
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
+    productPack: {
+      findUnique: jest.fn(),
+    },
+    stockCount: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    stockCountLine: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    stockBatch: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+const product = { id: 'product-1', name: 'Gauze', barcode: '111', unit: 'pack' };
+
+const emptyDetail = {
+  id: 'count-1',
+  status: 'OPEN',
+  note: null,
+  sessionId: null,
+  createdById: 'user-1',
+  committedById: null,
+  committedAt: null,
+  lines: [],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('stockCountService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (cb) => cb(prisma));
+  });
+
+  describe('recordStockCountLines', () => {
+    it('should record the count against the matching batch without touching stock', async () => {
+      (prisma.stockCount.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ status: 'OPEN' })
+        .mockResolvedValueOnce(emptyDetail);
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(product);
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        { id: 'batch-1', lotNumber: 'LOT001', expireDate: null },
+      ]);
+
+      await recordStockCountLines('count-1', [{ barcode: '111', lotNumber: 'LOT001', countedQuantity: 7 }]);
+
+      expect(prisma.stockCountLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ batchId: 'batch-1', lotNumber: 'LOT001', countedQuantity: 7 }),
+      });
+      expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+      expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep separate lines for two batches of the same lot with different expiry dates', async () => {
+      const may = new Date('2027-05-31T00:00:00.000Z');
+      const june = new Date('2027-06-30T00:00:00.000Z');
+      (prisma.stockCount.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ status: 'OPEN' })
+        .mockResolvedValueOnce(emptyDetail);
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(product);
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        { id: 'batch-1', lotNumber: 'LOT001', expireDate: may },
+        { id: 'batch-2', lotNumber: 'LOT001', expireDate: june },
+      ]);
+      // The May batch was counted earlier; the June one is new to this count
+      (prisma.stockCountLine.findFirst as jest.Mock).mockResolvedValueOnce({ id: 'line-1' }).mockResolvedValueOnce(null);
+
+      await recordStockCountLines('count-1', [
+        { barcode: '111', lotNumber: 'LOT001', expireDate: '2027-05-31', countedQuantity: 4 },
+        { barcode: '111', lotNumber: 'LOT001', expireDate: '2027-06-30', countedQuantity: 6 },
+      ]);
+
+      expect(prisma.stockCountLine.findFirst).toHaveBeenNthCalledWith(2, {
+        where: { stockCountId: 'count-1', productId: 'product-1', lotNumber: 'LOT001', expireDate: june },
+        select: { id: true },
+      });
+      expect(prisma.stockCountLine.update).toHaveBeenCalledWith({
+        where: { id: 'line-1' },
+        data: { batchId: 'batch-1', countedQuantity: 4, reason: null },
+      });
+      expect(prisma.stockCountLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ batchId: 'batch-2', expireDate: june, countedQuantity: 6 }),
+      });
+    });
+
+    it('should require a lot when the product has several batches in stock', async () => {
+      (prisma.stockCount.findUnique as jest.Mock).mockResolvedValueOnce({ status: 'OPEN' });
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(product);
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        { id: 'batch-1', lotNumber: 'LOT001', expireDate: null },
+        { id: 'batch-2', lotNumber: 'LOT002', expireDate: null },
+      ]);
+
+      await expect(
+        recordStockCountLines('count-1', [{ barcode: '111', countedQuantity: 7 }])
+      ).rejects.toThrow('LOT_REQUIRED');
+    });
+
+    it('should count by an alternate pack barcode in base units', async () => {
+      (prisma.stockCount.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ status: 'OPEN' })
+        .mockResolvedValueOnce(emptyDetail);
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValue({
+        barcode: 'BOX-10',
+        packId: 'pack-10',
+        product: { barcode: '111' },
+      });
+      (prisma.productPack.findUnique as jest.Mock).mockResolvedValue({
+        id: 'pack-10',
+        productId: 'product-1',
+        name: 'Box of 10',
+        quantity: 10,
+      });
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue(product);
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        { id: 'batch-1', lotNumber: 'LOT001', expireDate: null },
+      ]);
+
+      await recordStockCountLines('count-1', [{ barcode: 'BOX-10', lotNumber: 'LOT001', countedQuantity: 3 }]);
+
+      expect(prisma.product.findUnique).toHaveBeenCalledWith({ where: { barcode: '111' } });
+      expect(prisma.stockCountLine.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ batchId: 'batch-1', countedQuantity: 30 }),
+      });
+    });
+
+    it('should reject lines on a committed count', async () => {
+      (prisma.stockCount.findUnique as jest.Mock).mockResolvedValueOnce({ status: 'COMMITTED' });
+
+      await expect(
+        recordStockCountLines('count-1', [{ barcode: '111', lotNumber: 'LOT001', countedQuantity: 7 }])
+      ).rejects.toThrow('STOCK_COUNT_NOT_OPEN');
+      expect(prisma.stockCountLine.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('commitStockCount', () => {
+    const shortLine = {
+      id: 'line-1',
+      productId: 'product-1',
+      batchId: 'batch-1',
+      lotNumber: 'LOT001',
+      expireDate: null,
+      countedQuantity: 7,
+      reason: null,
+    };
+
+    it('should post ADJUST_OUT for a shortfall with the count reason', async () => {
+      (prisma.stockCount.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...emptyDetail, lines: [shortLine] })
+        .mockResolvedValueOnce({ ...emptyDetail, status: 'COMMITTED' });
+      (prisma.stockCount.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValue({
+        id: 'batch-1',
+        quantity: 10,
+        unitCost: null,
+      });
+
+      const result = await commitStockCount('count-1', 'user-1', 'Monthly count');
+
+      expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { quantity: { increment: -3 } },
+      });
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'ADJUST_OUT',
+          quantity: 3,
+          reason: 'Monthly count',
+          sessionId: result.sessionId,
+        }),
+      });
+      expect(result.adjustments).toEqual([
+        expect.objectContaining({ type: 'ADJUST_OUT', quantity: 3, batchId: 'batch-1' }),
+      ]);
+    });
+
+    it('should create the batch for a lot found on the shelf', async () => {
+      const newLot = { ...shortLine, batchId: null, lotNumber: 'LOT009', countedQuantity: 4, reason: 'Found in drawer' };
+      (prisma.stockCount.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ ...emptyDetail, lines: [newLot] })
+        .mockResolvedValueOnce({ ...emptyDetail, status: 'COMMITTED' });
+      (prisma.stockCount.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-9' });
+
+      const result = await commitStockCount('count-1', 'user-1');
+
+      expect(prisma.stockBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ lotNumber: 'LOT009', quantity: 4 }),
+      });
+      expect(result.adjustments[0]).toMatchObject({ type: 'ADJUST_IN', quantity: 4, batchId: 'batch-9' });
+    });
+
+    it('should refuse to post a variance without any reason', async () => {
+      (prisma.stockCount.findUnique as jest.Mock).mockResolvedValueOnce({ ...emptyDetail, lines: [shortLine] });
+      (prisma.stockCount.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValue({ id: 'batch-1', quantity: 10, unitCost: null });
+
+      await expect(commitStockCount('count-1', 'user-1')).rejects.toThrow('REASON_REQUIRED');
+      expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+    });
+
+    it('should not commit a count twice', async () => {
+      (prisma.stockCount.findUnique as jest.Mock).mockResolvedValueOnce({ ...emptyDetail, lines: [shortLine] });
+      (prisma.stockCount.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+      await expect(commitStockCount('count-1', 'user-1', 'again')).rejects.toThrow('STOCK_COUNT_NOT_OPEN');
+      expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { deflateRawSync } from 'zlib';
+import { importStock } from '../stockImportService';
+import { prisma } from '../../prisma';
+import { Decimal } from '../../utils/money';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    product: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    productBarcode: {
+      findMany: jest.fn(),
+    },
+    productCategory: {
+      findMany: jest.fn(),
+    },
+    stockLocation: {
+      findFirst: jest.fn(),
+    },
+    stockBatch: {
+      findFirst: jest.fn(),
+      create: jest.fn(),
+    },
+    stockMovement: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+/**
+ * Builds a one-sheet .xlsx (deflated zip entries) with inline-string cells. declaredSize
+ * overrides the uncompressed size written in the zip headers.
+ */
+function xlsxBase64(rows: string[][], declaredSize?: number): string {
+  const sheet =
+    '<worksheet><sheetData>' +
+    rows
+      .map(
+        (cells, r) =>
+          `<row r="${r + 1}">` +
+          cells
+            .map((cell, c) =>
+              /^\d+$/.test(cell)
+                ? `<c r="${String.fromCharCode(65 + c)}${r + 1}"><v>${cell}</v></c>`
+                : `<c r="${String.fromCharCode(65 + c)}${r + 1}" t="inlineStr"><is><t>${cell}</t></is></c>`
+            )
+            .join('') +
+          '</row>'
+      )
+      .join('') +
+    '</sheetData></worksheet>';
+
+  const entries: [string, Buffer][] = [['xl/worksheets/sheet1.xml', Buffer.from(sheet)]];
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of entries) {
+    const compressed = deflateRawSync(data);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(declaredSize ?? data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(declaredSize ?? data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, Buffer.from(name), compressed);
+    centrals.push(central, Buffer.from(name));
+    offset += 30 + name.length + compressed.length;
+  }
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, eocd]).toString('base64');
+}
+
+describe('stockImportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.stockLocation.findFirst as jest.Mock).mockResolvedValue({ id: 'location-main', isDefault: true });
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.productBarcode.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.productCategory.findMany as jest.Mock).mockResolvedValue([{ id: 'cat-ppe', name: 'PPE' }]);
+    (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+  });
+
+  it('should report every invalid row on a dry-run without writing', async () => {
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([{ barcode: 'EXISTING' }]);
+    const csv = [
+      'Barcode,Name,Unit,Min Stock,Category,Lot Number,Expire Date,Quantity,Unit Cost',
+      'GLOVE-M,Glove M,piece,100,PPE,LOT1,2027-02-30,50,1.5',
+      'GLOVE-M,Glove Medium,,,,LOT2,2027-06-30,-5,',
+      'EXISTING,Old product,piece,1,,,,,',
+      'BUR-1,Diamond bur,piece,x,Burs,,,,',
+      ',No barcode,piece,1,,,,,',
+    ].join('\r\n');
+
+    const result = await importStock({ format: 'csv', content: csv, dryRun: true });
+
+    expect(result.committed).toBe(false);
+    expect(result.rowCount).toBe(5);
+    expect(result.errors).toEqual([
+      { row: 2, column: 'expireDate', message: 'expireDate must be a valid date (YYYY-MM-DD)' },
+      { row: 3, column: 'name', message: 'name conflicts with row 2 for barcode GLOVE-M' },
+      { row: 3, column: 'quantity', message: 'quantity must be a whole number, 0 or more' },
+      { row: 4, column: 'barcode', message: 'Barcode already in use by a product: EXISTING' },
+      { row: 5, column: 'minStock', message: 'minStock must be a whole number, 0 or more' },
+      { row: 5, column: 'category', message: 'Category does not exist: Burs' },
+      { row: 6, column: 'barcode', message: 'barcode is required' },
+    ]);
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should create products and receive their opening batches under one session', async () => {
+    (prisma.product.create as jest.Mock)
+      .mockResolvedValueOnce({ id: 'product-glove' })
+      .mockResolvedValueOnce({ id: 'product-mask' });
+    (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-new' });
+    const csv = [
+      'barcode,name,unit,minStock,category,lotNumber,expireDate,quantity,unitCost',
+      'GLOVE-M,Glove M,piece,100,ppe,LOT1,2027-01-31,50,1.5',
+      'GLOVE-M,,,,,LOT2,2027-06-30,30,',
+      'MASK,Mask,piece,20,,,,,',
+    ].join('\n');
+
+    const result = await importStock({ format: 'csv', content: csv });
+
+    expect(result.committed).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(prisma.product.create).toHaveBeenNthCalledWith(1, {
+      data: { name: 'Glove M', barcode: 'GLOVE-M', unit: 'piece', minStock: 100, isReusable: false, categoryId: 'cat-ppe' },
+    });
+    expect(prisma.stockBatch.create).toHaveBeenCalledTimes(2);
+    expect(prisma.stockBatch.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ productId: 'product-glove', lotNumber: 'LOT1', quantity: 50, unitCost: new Decimal('1.5') }),
+    });
+    const sessionIds = (prisma.stockMovement.create as jest.Mock).mock.calls.map((call) => call[0].data.sessionId);
+    expect(sessionIds).toEqual([result.sessionId, result.sessionId]);
+    expect(result.products).toEqual([
+      { productId: 'product-glove', barcode: 'GLOVE-M', name: 'Glove M', batches: 2, quantity: 80 },
+      { productId: 'product-mask', barcode: 'MASK', name: 'Mask', batches: 0, quantity: 0 },
+    ]);
+  });
+
+  it('should refuse to commit when any row is invalid', async () => {
+    const csv = 'barcode,name,unit\nGLOVE-M,,piece\n';
+
+    const result = await importStock({ format: 'csv', content: csv });
+
+    expect(result).toEqual(expect.objectContaining({ dryRun: false, committed: false, sessionId: null }));
+    expect(result.errors).toEqual([{ row: 2, column: 'name', message: 'name is required' }]);
+    expect(prisma.product.create).not.toHaveBeenCalled();
+  });
+
+  it('should read XLSX sheets and convert Excel date serials', async () => {
+    const content = xlsxBase64([
+      ['barcode', 'name', 'unit', 'expireDate', 'quantity'],
+      ['COMPOSITE', 'Composite A2', 'syringe', '46418', '4'],
+    ]);
+
+    const result = await importStock({ format: 'xlsx', content, dryRun: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.products).toEqual([
+      { productId: null, barcode: 'COMPOSITE', name: 'Composite A2', batches: 1, quantity: 4 },
+    ]);
+  });
+
+  it('should throw INVALID_XLSX for content that is not a workbook', async () => {
+    await expect(
+      importStock({ format: 'xlsx', content: Buffer.from('not a zip file at all, just text').toString('base64') })
+    ).rejects.toThrow('INVALID_XLSX');
+  });
+
+  it('should refuse XLSX parts that are declared or inflate larger than allowed', async () => {
+    const rows = [['barcode', 'name', 'unit', 'quantity'], ['GLOVE', 'x'.repeat(100_000), 'box', '1']];
+
+    // Declared over the ceiling: refused before inflating
+    await expect(importStock({ format: 'xlsx', content: xlsxBase64(rows, 64 * 1024 * 1024), dryRun: true })).rejects.toThrow(
+      'INVALID_XLSX'
+    );
+    // Declared small but inflates to far more (a zip bomb): inflating stops at the declared size
+    await expect(importStock({ format: 'xlsx', content: xlsxBase64(rows, 1024), dryRun: true })).rejects.toThrow(
+      'INVALID_XLSX'
+    );
+  });
+});
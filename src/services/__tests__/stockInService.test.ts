@@ -1,14 +1,24 @@
 import { stockInService } from '../stockInService';
 import { StockInItem } from '../../types/stock.types';
 import { prisma } from '../../prisma';
+import { Decimal } from '../../utils/money';
 
 // Mock Prisma client
 jest.mock('../../prisma', () => ({
   prisma: {
     $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
     },
+    productPack: {
+      findUnique: jest.fn(),
+    },
+    stockLocation: {
+      findFirst: jest.fn(),
+    },
     stockBatch: {
       findFirst: jest.fn(),
       create: jest.fn(),
@@ -23,6 +33,7 @@ jest.mock('../../prisma', () => ({
 describe('stockInService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (prisma.stockLocation.findFirst as jest.Mock).mockResolvedValue({ id: 'location-main', isDefault: true });
   });
 
   describe('when product exists and batch does not exist', () => {
@@ -90,11 +101,13 @@ describe('stockInService', () => {
           productId: 'product-1',
           lotNumber: 'LOT001',
           expireDate: new Date('2025-12-31'),
+          locationId: 'location-main',
         },
       });
       expect(prisma.stockBatch.create).toHaveBeenCalledWith({
         data: {
           productId: 'product-1',
+          locationId: 'location-main',
           lotNumber: 'LOT001',
           expireDate: new Date('2025-12-31'),
           receivedAt: expect.any(Date),
@@ -198,6 +211,58 @@ describe('stockInService', () => {
     });
   });
 
+  describe('when a pack barcode is scanned', () => {
+    it('should receive base units and store the cost per base unit', async () => {
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'barcode-1',
+        barcode: 'BOX-50',
+        packId: 'pack-box',
+        product: { barcode: '123456' },
+      });
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'product-1', barcode: '123456' });
+      (prisma.productPack.findUnique as jest.Mock).mockResolvedValueOnce({
+        id: 'pack-box',
+        productId: 'product-1',
+        name: 'Box',
+        quantity: 50,
+      });
+      (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-1' });
+      (prisma.stockMovement.create as jest.Mock).mockResolvedValue({ id: 'movement-1' });
+      (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+
+      const result = await stockInService([{ barcode: 'BOX-50', quantity: 2, lotNumber: 'LOT001', expireDate: '2027-06-30', unitCost: 125 }]);
+
+      expect(prisma.product.findUnique).toHaveBeenCalledWith({ where: { barcode: '123456' } });
+      expect(prisma.stockBatch.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ quantity: 100, unitCost: new Decimal('2.5') }),
+      });
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({
+          success: true,
+          quantity: 100,
+          pack: { packId: 'pack-box', name: 'Box', unitsPerPack: 50, packQuantity: 2 },
+        })
+      );
+    });
+  });
+
+  describe('when posted by a signed-in user', () => {
+    it('should record the user on the IN movement', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'product-1', barcode: '123456' });
+      (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-1' });
+      (prisma.stockMovement.create as jest.Mock).mockResolvedValue({ id: 'movement-1' });
+      (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+
+      await stockInService([{ barcode: '123456', quantity: 5, lotNumber: 'LOT001', expireDate: null }], null, 'user-staff');
+
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'IN', quantity: 5, createdById: 'user-staff' }),
+      });
+    });
+  });
+
   describe('when processing bulk items', () => {
     it('should process all items in a single transaction with same sessionId', async () => {
       const mockProduct1 = {
@@ -6,11 +6,18 @@ import { StockOutItem } from '../../types/stock.types';
 jest.mock('../../prisma', () => ({
   prisma: {
     $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
     },
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
     stockBatch: {
       findMany: jest.fn(),
+      aggregate: jest.fn().mockResolvedValue({ _sum: { quantity: null } }),
       update: jest.fn(),
     },
     stockMovement: {
@@ -95,6 +102,7 @@ describe('stockOutService', () => {
         where: {
           productId: 'product-1',
           quantity: { gt: 0 },
+          status: 'ACTIVE',
           OR: [
             { expireDate: null },
             { expireDate: { gte: expect.any(Date) } },
@@ -455,5 +463,77 @@ describe('stockOutService', () => {
       expect(prisma.$transaction).toHaveBeenCalledTimes(1);
     });
   });
-});
 
+  describe('picking strategy', () => {
+    const product = { id: 'product-1', name: 'Composite A2', barcode: '123456', isReusable: false, pickingStrategy: null };
+    const batch = {
+      id: 'batch-2',
+      productId: 'product-1',
+      lotNumber: 'LOT002',
+      locationId: 'location-main',
+      unitCost: null,
+      quantity: 5,
+    };
+
+    beforeEach(() => {
+      (prisma.$transaction as jest.Mock).mockImplementation(async (callback) => callback(prisma));
+    });
+
+    it('should pick the earliest expiring batch first when the clinic default is FEFO', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce(product);
+      (prisma.clinicSetting.findUnique as jest.Mock).mockResolvedValueOnce({ defaultPickingStrategy: 'FEFO' });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([batch]);
+
+      await stockOutService([{ barcode: '123456', quantity: 2 }]);
+
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ expireDate: { sort: 'asc', nulls: 'last' } }, { receivedAt: 'asc' }, { createdAt: 'asc' }],
+        })
+      );
+    });
+
+    it('should deduct only from the requested lot and roll back when it is short', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ ...product, pickingStrategy: 'FIFO' });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([batch]);
+
+      await expect(stockOutService([{ barcode: '123456', quantity: 8, lotNumber: ' LOT002 ' }])).rejects.toThrow(
+        'Insufficient stock for product 123456 in lot LOT002. Requested: 8, Available: 5'
+      );
+
+      expect(prisma.clinicSetting.findUnique).not.toHaveBeenCalled();
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ lotNumber: 'LOT002' }) })
+      );
+      expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+    });
+
+    it('should mention expired stock that was left out when stock runs short', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ ...product, pickingStrategy: 'FIFO' });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValueOnce([batch]);
+      (prisma.stockBatch.aggregate as jest.Mock).mockResolvedValueOnce({ _sum: { quantity: 12 } });
+
+      await expect(stockOutService([{ barcode: '123456', quantity: 8 }])).rejects.toThrow(
+        'Requested: 8, Available: 5 (12 more expired: dispose it or ask an admin for an expired-stock override)'
+      );
+      expect(prisma.stockBatch.aggregate).toHaveBeenCalledWith({
+        where: expect.objectContaining({ productId: 'product-1', expireDate: { lt: expect.any(Date) } }),
+        _sum: { quantity: true },
+      });
+    });
+
+    it('should fail the item when a manually picked product has no lot', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValueOnce({ ...product, pickingStrategy: 'MANUAL' });
+
+      const result = await stockOutService([{ barcode: '123456', quantity: 2 }]);
+
+      expect(result.results[0]).toEqual(
+        expect.objectContaining({
+          success: false,
+          error: 'Product "Composite A2" is picked manually: lotNumber is required',
+        })
+      );
+      expect(prisma.stockBatch.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+import { findLotRecall, setBatchStatus } from '../stockRecallService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    stockBatch: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      findMany: jest.fn(),
+    },
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+function batch(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'batch-1',
+    productId: 'product-1',
+    locationId: 'storeroom',
+    lotNumber: 'LOT001',
+    expireDate: new Date('2027-01-31T00:00:00.000Z'),
+    receivedAt: new Date('2026-01-01T00:00:00.000Z'),
+    quantity: 4,
+    status: 'ACTIVE',
+    quarantinedAt: null,
+    quarantineReason: null,
+    product: { name: 'Anesthetic cartridge', barcode: 'ANES01', unit: 'cartridge' },
+    location: { name: 'Main storeroom' },
+    inUse: [],
+    ...overrides,
+  };
+}
+
+function movement(overrides: Record<string, unknown>) {
+  return {
+    id: 'movement-1',
+    sessionId: 'session-1',
+    batchId: 'batch-1',
+    toBatchId: null,
+    type: 'OUT',
+    quantity: 1,
+    reason: null,
+    dailyRecordId: null,
+    patientId: null,
+    reversedBySessionId: null,
+    createdAt: new Date('2026-02-01T03:00:00.000Z'),
+    patient: null,
+    dailyRecord: null,
+    ...overrides,
+  };
+}
+
+describe('stockRecallService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findLotRecall', () => {
+    it('should list the lot with its movements and the patients it was used for', async () => {
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        batch({ inUse: [{ quantity: 1 }] }),
+        batch({ id: 'batch-2', locationId: 'cabinet', location: { name: 'Operatory 1' }, quantity: 2 }),
+      ]);
+      (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+        movement({ id: 'm-in', type: 'IN', quantity: 10, createdAt: new Date('2026-01-01T03:00:00.000Z') }),
+        movement({ id: 'm-tr', type: 'TRANSFER', quantity: 3, toBatchId: 'batch-2' }),
+        movement({
+          id: 'm-out-1',
+          batchId: 'batch-2',
+          patientId: 'patient-1',
+          dailyRecordId: 'record-1',
+          patient: { dn: '6910001', firstName: 'Somchai', lastName: 'Jaidee' },
+          createdAt: new Date('2026-02-02T03:00:00.000Z'),
+        }),
+        movement({
+          id: 'm-out-2',
+          type: 'WITHDRAW',
+          patientId: 'patient-1',
+          dailyRecordId: 'record-2',
+          patient: { dn: '6910001', firstName: 'Somchai', lastName: 'Jaidee' },
+          createdAt: new Date('2026-02-05T03:00:00.000Z'),
+        }),
+        movement({
+          id: 'm-out-3',
+          dailyRecordId: 'record-3',
+          dailyRecord: { dn: null, patientName: 'Walk-in patient' },
+          createdAt: new Date('2026-02-06T03:00:00.000Z'),
+        }),
+        movement({ id: 'm-rev', patientId: 'patient-2', reversedBySessionId: 'session-9' }),
+      ]);
+
+      const result = await findLotRecall('LOT001', 'ANES01');
+
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { lotNumber: 'LOT001', product: { barcode: 'ANES01' } } })
+      );
+      expect(result.batches[0]).toEqual(
+        expect.objectContaining({ batchId: 'batch-1', quantity: 4, inUseQuantity: 1, locationName: 'Main storeroom' })
+      );
+      expect(result.batches[0].movements.map((m) => m.id)).toEqual(['m-in', 'm-tr', 'm-out-2', 'm-out-3', 'm-rev']);
+      expect(result.batches[1].movements.map((m) => m.id)).toEqual(['m-tr', 'm-out-1']);
+      expect(result.affectedPatients).toEqual([
+        {
+          patientId: 'patient-1',
+          dn: '6910001',
+          patientName: 'Somchai Jaidee',
+          quantity: 2,
+          dailyRecordIds: ['record-1', 'record-2'],
+          firstUsedAt: '2026-02-02T03:00:00.000Z',
+          lastUsedAt: '2026-02-05T03:00:00.000Z',
+        },
+        expect.objectContaining({ patientId: null, patientName: 'Walk-in patient', dailyRecordIds: ['record-3'] }),
+      ]);
+    });
+
+    it('should narrow to the product of an alternate barcode', async () => {
+      (prisma.productBarcode.findUnique as jest.Mock).mockResolvedValue({
+        barcode: 'GTIN-ANES',
+        packId: null,
+        product: { barcode: 'ANES01' },
+      });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await findLotRecall('LOT001', 'GTIN-ANES');
+
+      expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { lotNumber: 'LOT001', product: { barcode: 'ANES01' } } })
+      );
+      expect(result.barcode).toBe('GTIN-ANES');
+    });
+
+    it('should return empty lists for an unknown lot without loading movements', async () => {
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await findLotRecall('NOPE');
+
+      expect(result).toEqual({ lotNumber: 'NOPE', barcode: null, batches: [], affectedPatients: [] });
+      expect(prisma.stockMovement.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('setBatchStatus', () => {
+    it('should quarantine a batch with a reason', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValue(batch());
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([batch({ status: 'QUARANTINED' })]);
+      (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([]);
+
+      const result = await setBatchStatus('batch-1', { status: 'QUARANTINED', reason: ' Manufacturer recall ' });
+
+      expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { status: 'QUARANTINED', quarantinedAt: expect.any(Date), quarantineReason: 'Manufacturer recall' },
+      });
+      expect(result.status).toBe('QUARANTINED');
+    });
+
+    it('should clear the quarantine details on release', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValue(
+        batch({ status: 'QUARANTINED', quarantinedAt: new Date(), quarantineReason: 'Recall' })
+      );
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([batch()]);
+      (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([]);
+
+      await setBatchStatus('batch-1', { status: 'ACTIVE' });
+
+      expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+        where: { id: 'batch-1' },
+        data: { status: 'ACTIVE', quarantinedAt: null, quarantineReason: null },
+      });
+    });
+
+    it('should throw BATCH_NOT_FOUND for an unknown batch', async () => {
+      (prisma.stockBatch.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(setBatchStatus('missing', { status: 'QUARANTINED' })).rejects.toThrow('BATCH_NOT_FOUND');
+      expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { reverseStockSession } from '../stockReversalService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    stockMovement: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+    stockBatch: {
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    product: {
+      updateMany: jest.fn(),
+    },
+    stockInUse: {
+      findFirst: jest.fn(),
+      delete: jest.fn(),
+    },
+    purchaseOrderLine: {
+      update: jest.fn(),
+      findMany: jest.fn(),
+    },
+    purchaseOrder: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+function movement(overrides: Record<string, unknown>) {
+  return {
+    id: 'movement-1',
+    productId: 'product-1',
+    batchId: 'batch-1',
+    lotNumber: 'LOT001',
+    type: 'OUT',
+    quantity: 5,
+    reason: null,
+    unitCost: null,
+    sessionId: 'session-1',
+    purchaseOrderLineId: null,
+    reversesSessionId: null,
+    reversedBySessionId: null,
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('stockReversalService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (cb) => cb(prisma));
+  });
+
+  it('should return stock-out quantities to the same batches and link both sessions', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+      movement({ id: 'm-1', batchId: 'batch-1', quantity: 3 }),
+      movement({ id: 'm-2', batchId: 'batch-2', lotNumber: 'LOT002', quantity: 2 }),
+    ]);
+    (prisma.stockMovement.updateMany as jest.Mock).mockResolvedValue({ count: 2 });
+
+    const result = await reverseStockSession('session-1', 'Scanned wrong item');
+
+    expect(prisma.stockMovement.updateMany).toHaveBeenCalledWith({
+      where: { sessionId: 'session-1', reversedBySessionId: null },
+      data: { reversedBySessionId: result.reversalSessionId },
+    });
+    expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { quantity: { increment: 3 } },
+    });
+    expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-2' },
+      data: { quantity: { increment: 2 } },
+    });
+    expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'ADJUST_IN',
+        batchId: 'batch-2',
+        quantity: 2,
+        reason: 'Scanned wrong item',
+        sessionId: result.reversalSessionId,
+        reversesSessionId: 'session-1',
+      }),
+    });
+    expect(result.movements).toHaveLength(2);
+  });
+
+  it('should refuse to reverse a stock-in whose stock has already been consumed', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([movement({ type: 'IN', quantity: 10 })]);
+    (prisma.stockMovement.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockBatch.updateMany as jest.Mock).mockResolvedValue({ count: 0 });
+
+    await expect(reverseStockSession('session-1')).rejects.toThrow('STOCK_ALREADY_CONSUMED');
+    expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('should close the in-use row opened by a reversed withdraw', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([movement({ type: 'WITHDRAW', quantity: 2 })]);
+    (prisma.stockMovement.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockInUse.findFirst as jest.Mock).mockResolvedValue({ id: 'in-use-1', openedQuantity: 2, quantity: 2 });
+    (prisma.product.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+
+    await reverseStockSession('session-1');
+
+    expect(prisma.stockInUse.delete).toHaveBeenCalledWith({ where: { id: 'in-use-1' } });
+    expect(prisma.product.updateMany).toHaveBeenCalledWith({
+      where: { id: 'product-1', inUseQuantity: { gte: 2 } },
+      data: { inUseQuantity: { decrement: 2 } },
+    });
+  });
+
+  it('should refuse to reverse a withdraw whose opened stock was partly depleted', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([movement({ type: 'WITHDRAW', quantity: 2 })]);
+    (prisma.stockMovement.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockInUse.findFirst as jest.Mock).mockResolvedValue({ id: 'in-use-1', openedQuantity: 2, quantity: 1 });
+
+    await expect(reverseStockSession('session-1')).rejects.toThrow('STOCK_ALREADY_CONSUMED');
+    expect(prisma.stockInUse.delete).not.toHaveBeenCalled();
+  });
+
+  it('should hand a reversed purchase-order receipt back to its line', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+      movement({ type: 'IN', quantity: 4, purchaseOrderLineId: 'line-1' }),
+    ]);
+    (prisma.stockMovement.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.stockBatch.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (prisma.purchaseOrderLine.update as jest.Mock).mockResolvedValue({ purchaseOrderId: 'po-1' });
+    (prisma.purchaseOrderLine.findMany as jest.Mock).mockResolvedValue([{ receivedQuantity: 0 }]);
+
+    const result = await reverseStockSession('session-1');
+
+    expect(prisma.purchaseOrderLine.update).toHaveBeenCalledWith({
+      where: { id: 'line-1' },
+      data: { receivedQuantity: { decrement: 4 } },
+    });
+    expect(prisma.purchaseOrder.update).toHaveBeenCalledWith({
+      where: { id: 'po-1' },
+      data: { status: 'ORDERED' },
+    });
+    expect(result.movements[0].type).toBe('ADJUST_OUT');
+  });
+
+  it('should not reverse a session twice', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+      movement({ reversedBySessionId: 'session-2' }),
+    ]);
+
+    await expect(reverseStockSession('session-1')).rejects.toThrow('SESSION_ALREADY_REVERSED');
+    expect(prisma.stockBatch.update).not.toHaveBeenCalled();
+  });
+
+  it('should refuse DEPLETE sessions', async () => {
+    (prisma.stockMovement.findMany as jest.Mock).mockResolvedValue([
+      movement({ type: 'DEPLETE', batchId: null, lotNumber: null }),
+    ]);
+
+    await expect(reverseStockSession('session-1')).rejects.toThrow('SESSION_NOT_REVERSIBLE');
+  });
+});
@@ -0,0 +1,121 @@
+import { Prisma } from '@prisma/client';
+import { transferStock } from '../stockTransferService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    stockLocation: {
+      findUnique: jest.fn(),
+    },
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
+    product: {
+      findUnique: jest.fn(),
+    },
+    stockBatch: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+const receivedAt = new Date('2026-05-01T03:00:00.000Z');
+
+function sourceBatch(overrides: Record<string, unknown>) {
+  return {
+    id: 'batch-1',
+    productId: 'product-1',
+    locationId: 'storeroom',
+    lotNumber: 'LOT001',
+    expireDate: null,
+    receivedAt,
+    quantity: 10,
+    unitCost: new Prisma.Decimal(20),
+    ...overrides,
+  };
+}
+
+describe('stockTransferService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (cb) => cb(prisma));
+    (prisma.stockLocation.findUnique as jest.Mock).mockImplementation(async ({ where }) => ({
+      id: where.id,
+      isActive: true,
+    }));
+    (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'product-1', barcode: '111' });
+  });
+
+  it('should split the source batch into a new batch at the destination, keeping its age and cost', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([sourceBatch({})]);
+    (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.stockBatch.create as jest.Mock).mockResolvedValue({ id: 'batch-2' });
+
+    const result = await transferStock('storeroom', 'room-1', [{ barcode: '111', quantity: 4 }]);
+
+    expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-1' },
+      data: { quantity: { decrement: 4 } },
+    });
+    expect(prisma.stockBatch.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ locationId: 'room-1', lotNumber: 'LOT001', quantity: 4, receivedAt }),
+    });
+    expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        type: 'TRANSFER',
+        batchId: 'batch-1',
+        toBatchId: 'batch-2',
+        locationId: 'storeroom',
+        toLocationId: 'room-1',
+        quantity: 4,
+      }),
+    });
+    expect(result.results[0].batches).toEqual([
+      { fromBatchId: 'batch-1', toBatchId: 'batch-2', lotNumber: 'LOT001', quantity: 4 },
+    ]);
+  });
+
+  it('should add to the matching lot already at the destination', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([sourceBatch({})]);
+    (prisma.stockBatch.findFirst as jest.Mock).mockResolvedValue({
+      id: 'batch-3',
+      quantity: 2,
+      unitCost: new Prisma.Decimal(20),
+    });
+
+    await transferStock('storeroom', 'room-1', [{ barcode: '111', quantity: 3, lotNumber: 'LOT001' }]);
+
+    expect(prisma.stockBatch.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ locationId: 'storeroom', lotNumber: 'LOT001' }) })
+    );
+    expect(prisma.stockBatch.update).toHaveBeenCalledWith({
+      where: { id: 'batch-3' },
+      data: { quantity: { increment: 3 }, unitCost: new Prisma.Decimal(20) },
+    });
+    expect(prisma.stockBatch.create).not.toHaveBeenCalled();
+  });
+
+  it('should roll back when the source location does not hold enough', async () => {
+    (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([sourceBatch({ quantity: 2 })]);
+
+    await expect(transferStock('storeroom', 'room-1', [{ barcode: '111', quantity: 5 }])).rejects.toThrow(
+      'Insufficient stock'
+    );
+    expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to transfer to the same location', async () => {
+    await expect(transferStock('storeroom', 'storeroom', [{ barcode: '111', quantity: 1 }])).rejects.toThrow(
+      'SAME_LOCATION'
+    );
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
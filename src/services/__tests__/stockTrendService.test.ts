@@ -0,0 +1,85 @@
+import { getStockTrends } from '../stockTrendService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    stockMovement: {
+      groupBy: jest.fn(),
+    },
+    product: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+describe('stockTrendService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  it('should fill every day of the range and rank products from the aggregates', async () => {
+    (prisma.$queryRaw as jest.Mock)
+      .mockResolvedValueOnce([
+        { period: '2026-03-01', type: 'IN', quantity: 100 },
+        { period: '2026-03-03', type: 'OUT', quantity: 7 },
+        { period: '2026-03-03', type: 'DISPOSE', quantity: 2 },
+      ])
+      .mockResolvedValueOnce([
+        { productId: 'product-1', productName: 'Glove M', stockOutCount: 3n, activeDays: 2n, quantity: 7n },
+      ]);
+    (prisma.stockMovement.groupBy as jest.Mock)
+      .mockResolvedValueOnce([{ productId: 'product-1', _sum: { quantity: 9 } }])
+      .mockResolvedValueOnce([
+        { reason: 'Expired', _sum: { quantity: 2 }, _count: { _all: 1 } },
+        { reason: null, _sum: { quantity: 1 }, _count: { _all: 1 } },
+      ]);
+    (prisma.product.findMany as jest.Mock).mockResolvedValue([{ id: 'product-1', name: 'Glove M', unit: 'piece' }]);
+
+    const result = await getStockTrends({ from: '2026-03-01', to: '2026-03-03', limit: 5 });
+
+    expect(result.series).toEqual([
+      { period: '2026-03-01', quantities: { IN: 100, OUT: 0, WITHDRAW: 0, DEPLETE: 0, DISPOSE: 0 } },
+      { period: '2026-03-02', quantities: { IN: 0, OUT: 0, WITHDRAW: 0, DEPLETE: 0, DISPOSE: 0 } },
+      { period: '2026-03-03', quantities: { IN: 0, OUT: 7, WITHDRAW: 0, DEPLETE: 0, DISPOSE: 2 } },
+    ]);
+    expect(prisma.stockMovement.groupBy).toHaveBeenCalledWith({
+      by: ['productId'],
+      where: {
+        createdAt: { gte: new Date('2026-02-28T17:00:00.000Z'), lt: new Date('2026-03-03T17:00:00.000Z') },
+        reversedBySessionId: null,
+        type: { in: ['OUT', 'WITHDRAW'] },
+      },
+      _sum: { quantity: true },
+      orderBy: { _sum: { quantity: 'desc' } },
+      take: 5,
+    });
+    expect(result.topConsumed).toEqual([{ productId: 'product-1', productName: 'Glove M', unit: 'piece', quantity: 9 }]);
+    expect(result.disposalReasons).toEqual([
+      { reason: 'Expired', quantity: 2, movementCount: 1 },
+      { reason: null, quantity: 1, movementCount: 1 },
+    ]);
+    expect(result.stockOutFrequency).toEqual([
+      { productId: 'product-1', productName: 'Glove M', stockOutCount: 3, activeDays: 2, quantity: 7 },
+    ]);
+  });
+
+  it('should bucket weekly series from the Monday of the first week', async () => {
+    (prisma.$queryRaw as jest.Mock)
+      .mockResolvedValueOnce([{ period: '2026-03-09', type: 'WITHDRAW', quantity: 4 }])
+      .mockResolvedValueOnce([]);
+    (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([]);
+
+    const result = await getStockTrends({ from: '2026-03-04', to: '2026-03-15', interval: 'week' });
+
+    expect(result.series.map((p) => p.period)).toEqual(['2026-03-02', '2026-03-09']);
+    expect(result.series[1].quantities.WITHDRAW).toBe(4);
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    await expect(getStockTrends({ from: '2026-03-10', to: '2026-03-01' })).rejects.toThrow('INVALID_RANGE');
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { addChartEntries, buildChartState, getPatientChart, isFdiToothNumber } from '../toothChartService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    patient: {
+      findUnique: jest.fn(),
+    },
+    treatmentType: {
+      count: jest.fn(),
+    },
+    dailyRecord: {
+      findMany: jest.fn(),
+    },
+    toothChartEntry: {
+      findMany: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'entry-1',
+    patientId: 'patient-1',
+    toothNumber: 36,
+    surfaces: [],
+    condition: null,
+    treatmentTypeId: null,
+    dailyRecordId: null,
+    note: null,
+    createdById: null,
+    createdAt: new Date('2024-03-01T03:00:00Z'),
+    treatmentType: null,
+    dailyRecord: null,
+    createdBy: null,
+    ...overrides,
+  };
+}
+
+describe('toothChartService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('isFdiToothNumber', () => {
+    it('should accept permanent and primary FDI numbers only', () => {
+      expect([11, 18, 48, 51, 85].every(isFdiToothNumber)).toBe(true);
+      expect([10, 19, 49, 56, 86, 9, 36.5].some(isFdiToothNumber)).toBe(false);
+    });
+  });
+
+  describe('buildChartState', () => {
+    it('should replay entries into the current state of each tooth', () => {
+      const teeth = buildChartState([
+        entry({ toothNumber: 36, surfaces: ['O', 'D'], condition: 'CARIES', createdAt: new Date('2024-01-10T03:00:00Z') }),
+        entry({ toothNumber: 36, surfaces: ['O'], condition: 'FILLED', createdAt: new Date('2024-02-10T03:00:00Z') }),
+        entry({ toothNumber: 11, condition: 'RCT', createdAt: new Date('2024-01-15T03:00:00Z') }),
+        entry({ toothNumber: 11, condition: 'CROWN', createdAt: new Date('2024-02-15T03:00:00Z') }),
+        entry({ toothNumber: 48, surfaces: ['O'], condition: 'CARIES', createdAt: new Date('2024-01-20T03:00:00Z') }),
+        entry({ toothNumber: 48, condition: 'MISSING', createdAt: new Date('2024-03-20T03:00:00Z') }),
+      ]);
+
+      expect(teeth).toEqual([
+        { toothNumber: 11, conditions: ['RCT', 'CROWN'], surfaces: {}, lastChartedAt: '2024-02-15T03:00:00.000Z' },
+        {
+          toothNumber: 36,
+          conditions: [],
+          surfaces: { O: 'FILLED', D: 'CARIES' },
+          lastChartedAt: '2024-02-10T03:00:00.000Z',
+        },
+        { toothNumber: 48, conditions: ['MISSING'], surfaces: {}, lastChartedAt: '2024-03-20T03:00:00.000Z' },
+      ]);
+    });
+  });
+
+  describe('getPatientChart', () => {
+    it('should return the history newest first with procedure and visit details', async () => {
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.toothChartEntry.findMany as jest.Mock).mockResolvedValueOnce([
+        entry({ id: 'entry-1', surfaces: ['O'], condition: 'CARIES' }),
+        entry({
+          id: 'entry-2',
+          surfaces: ['O'],
+          condition: 'FILLED',
+          treatmentTypeId: 'tt-filling',
+          treatmentType: { name: 'อุดฟัน' },
+          dailyRecordId: 'record-1',
+          dailyRecord: { recordDate: new Date('2024-03-05T00:00:00Z') },
+          createdById: 'user-staff',
+          createdBy: { name: 'Staff' },
+          createdAt: new Date('2024-03-05T04:00:00Z'),
+        }),
+      ]);
+
+      const chart = await getPatientChart('patient-1');
+
+      expect(chart.teeth).toEqual([
+        { toothNumber: 36, conditions: [], surfaces: { O: 'FILLED' }, lastChartedAt: '2024-03-05T04:00:00.000Z' },
+      ]);
+      expect(chart.history.map((h) => h.id)).toEqual(['entry-2', 'entry-1']);
+      expect(chart.history[0]).toEqual(
+        expect.objectContaining({ treatmentTypeName: 'อุดฟัน', recordDate: '2024-03-05', createdByName: 'Staff' })
+      );
+    });
+  });
+
+  describe('addChartEntries', () => {
+    it('should reject surfaces on a whole-tooth condition before touching the database', async () => {
+      await expect(
+        addChartEntries('patient-1', [{ toothNumber: 36, surfaces: ['O'], condition: 'CROWN' }])
+      ).rejects.toThrow('SURFACES_NOT_ALLOWED');
+      expect(prisma.patient.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to link another patient's visit", async () => {
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.dailyRecord.findMany as jest.Mock).mockResolvedValueOnce([{ id: 'record-9', patientId: 'patient-2' }]);
+
+      await expect(
+        addChartEntries('patient-1', [{ toothNumber: 36, surfaces: ['O'], condition: 'FILLED', dailyRecordId: 'record-9' }])
+      ).rejects.toThrow('DAILY_RECORD_PATIENT_MISMATCH');
+      expect(prisma.toothChartEntry.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should record the entries with the acting user', async () => {
+      (prisma.patient.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ id: 'patient-1' })
+        .mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.treatmentType.count as jest.Mock).mockResolvedValueOnce(1);
+      (prisma.toothChartEntry.findMany as jest.Mock).mockResolvedValueOnce([]);
+
+      await addChartEntries(
+        'patient-1',
+        [{ toothNumber: 46, surfaces: ['M', 'O', 'M'], condition: 'FILLED', treatmentTypeId: 'tt-filling', note: ' ' }],
+        'user-staff'
+      );
+
+      expect(prisma.toothChartEntry.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            patientId: 'patient-1',
+            toothNumber: 46,
+            surfaces: ['M', 'O'],
+            condition: 'FILLED',
+            treatmentTypeId: 'tt-filling',
+            dailyRecordId: null,
+            note: null,
+            createdById: 'user-staff',
+          },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { postDailyRecordMaterials, proposeDailyRecordMaterials, replaceTreatmentMaterials } from '../treatmentMaterialService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    dailyRecord: {
+      findUnique: jest.fn(),
+    },
+    treatmentType: {
+      findUnique: jest.fn(),
+    },
+    treatmentMaterial: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
+    product: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
+    stockBatch: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    stockMovement: {
+      groupBy: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+const gauze = { name: 'Gauze', barcode: '111', unit: 'pack', isReusable: false };
+const resin = { name: 'Resin', barcode: '222', unit: 'tube', isReusable: true };
+
+describe('treatmentMaterialService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation(async (cb) => cb(prisma));
+  });
+
+  describe('proposeDailyRecordMaterials', () => {
+    it('should sum templates across treatment types and subtract what was already posted', async () => {
+      (prisma.dailyRecord.findUnique as jest.Mock).mockResolvedValue({
+        id: 'record-1',
+        treatmentTypeIds: ['scaling', 'filling'],
+      });
+      (prisma.treatmentMaterial.findMany as jest.Mock).mockResolvedValue([
+        { treatmentTypeId: 'scaling', productId: 'gauze', quantity: 2, product: gauze },
+        { treatmentTypeId: 'filling', productId: 'gauze', quantity: 1, product: gauze },
+        { treatmentTypeId: 'filling', productId: 'resin', quantity: 1, product: resin },
+      ]);
+      (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([
+        { productId: 'gauze', _sum: { quantity: 1 } },
+      ]);
+
+      const proposal = await proposeDailyRecordMaterials('record-1');
+
+      expect(proposal.items).toEqual([
+        expect.objectContaining({ productId: 'gauze', proposedQuantity: 3, postedQuantity: 1, remainingQuantity: 2 }),
+        expect.objectContaining({ productId: 'resin', proposedQuantity: 1, postedQuantity: 0, remainingQuantity: 1 }),
+      ]);
+    });
+
+    it('should propose nothing for a record without treatment types', async () => {
+      (prisma.dailyRecord.findUnique as jest.Mock).mockResolvedValue({ id: 'record-1', treatmentTypeIds: [] });
+
+      const proposal = await proposeDailyRecordMaterials('record-1');
+
+      expect(proposal.items).toEqual([]);
+      expect(prisma.treatmentMaterial.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('postDailyRecordMaterials', () => {
+    it('should stock out consumables linked to the record and skip reusable items', async () => {
+      (prisma.dailyRecord.findUnique as jest.Mock)
+        .mockResolvedValueOnce({ id: 'record-1', treatmentTypeIds: ['filling'] })
+        .mockResolvedValueOnce({ patientId: 'patient-1' });
+      (prisma.treatmentMaterial.findMany as jest.Mock).mockResolvedValue([
+        { treatmentTypeId: 'filling', productId: 'gauze', quantity: 2, product: gauze },
+        { treatmentTypeId: 'filling', productId: 'resin', quantity: 1, product: resin },
+      ]);
+      (prisma.stockMovement.groupBy as jest.Mock).mockResolvedValue([]);
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ id: 'gauze', ...gauze });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue([
+        { id: 'batch-1', lotNumber: 'LOT001', quantity: 10, unitCost: null },
+      ]);
+
+      const result = await postDailyRecordMaterials('record-1');
+
+      expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'OUT',
+          quantity: 2,
+          dailyRecordId: 'record-1',
+          patientId: 'patient-1',
+        }),
+      });
+      expect(result.skipped.map((i) => i.productId)).toEqual(['resin']);
+      expect(result.stockOut?.results[0].success).toBe(true);
+    });
+  });
+
+  describe('replaceTreatmentMaterials', () => {
+    it('should reject a product listed twice', async () => {
+      await expect(
+        replaceTreatmentMaterials('filling', [
+          { productId: 'gauze', quantity: 1 },
+          { productId: 'gauze', quantity: 2 },
+        ])
+      ).rejects.toThrow('DUPLICATE_PRODUCT');
+      expect(prisma.treatmentMaterial.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Prisma } from '@prisma/client';
+import {
+  completePlanItemsForRecord,
+  createTreatmentPlan,
+  reopenPlanItemsForRecord,
+  schedulePlanItem,
+  updatePlanItem,
+} from '../treatmentPlanService';
+import { prisma } from '../../prisma';
+
+// Mock the Prisma singleton (Chicago-school: only the DB boundary is faked).
+jest.mock('../../prisma', () => ({
+  prisma: {
+    patient: {
+      findUnique: jest.fn(),
+    },
+    doctor: {
+      findUnique: jest.fn(),
+    },
+    treatmentType: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    treatmentPlan: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    treatmentPlanItem: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    appointment: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+const scaling = {
+  id: 'tt-scaling',
+  name: 'ขูดหินปูน',
+  defaultPrice: new Prisma.Decimal(800),
+  durationMinutes: 30,
+  active: true,
+};
+
+function planRow(items: Record<string, unknown>[] = []) {
+  return {
+    id: 'plan-1',
+    patientId: 'patient-1',
+    doctorId: 'doctor-1',
+    title: null,
+    notes: null,
+    createdById: 'user-staff',
+    createdAt: new Date('2024-03-01T03:00:00Z'),
+    updatedAt: new Date('2024-03-01T03:00:00Z'),
+    patient: { firstName: 'Somchai', lastName: 'Jaidee' },
+    doctor: { name: 'Dr. A' },
+    items,
+  };
+}
+
+function itemRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'item-1',
+    planId: 'plan-1',
+    phase: 1,
+    treatmentTypeId: 'tt-scaling',
+    toothNumber: null,
+    estimatedFee: new Prisma.Decimal(800),
+    status: 'PROPOSED',
+    appointmentId: null,
+    dailyRecordId: null,
+    completedAt: null,
+    notes: null,
+    createdAt: new Date('2024-03-01T03:00:00Z'),
+    updatedAt: new Date('2024-03-01T03:00:00Z'),
+    treatmentType: { name: 'ขูดหินปูน' },
+    appointment: null,
+    ...overrides,
+  };
+}
+
+describe('treatmentPlanService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createTreatmentPlan', () => {
+    it('should estimate fees from the treatment type default price unless overridden', async () => {
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.doctor.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'doctor-1', active: true });
+      (prisma.treatmentType.findMany as jest.Mock).mockResolvedValueOnce([scaling]);
+      (prisma.treatmentPlan.create as jest.Mock).mockResolvedValueOnce(
+        planRow([
+          itemRow(),
+          itemRow({ id: 'item-2', phase: 2, toothNumber: 36, estimatedFee: new Prisma.Decimal(650) }),
+          itemRow({ id: 'item-3', phase: 3, status: 'DECLINED' }),
+        ])
+      );
+
+      const plan = await createTreatmentPlan(
+        {
+          patientId: 'patient-1',
+          doctorId: 'doctor-1',
+          items: [{ treatmentTypeId: 'tt-scaling' }, { treatmentTypeId: 'tt-scaling', phase: 2, toothNumber: 36, estimatedFee: 650 }],
+        },
+        'user-staff',
+        'STAFF',
+        null
+      );
+
+      const data = (prisma.treatmentPlan.create as jest.Mock).mock.calls[0][0].data;
+      expect(data.items.createMany.data).toEqual([
+        { phase: 1, treatmentTypeId: 'tt-scaling', toothNumber: null, estimatedFee: new Prisma.Decimal(800), notes: null },
+        { phase: 2, treatmentTypeId: 'tt-scaling', toothNumber: 36, estimatedFee: new Prisma.Decimal(650), notes: null },
+      ]);
+      expect(plan.estimatedTotal).toBe(1450);
+      expect(plan.patientName).toBe('Somchai Jaidee');
+    });
+
+    it('should plan as the logged-in doctor whatever doctorId is sent', async () => {
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1' });
+      (prisma.doctor.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'doctor-2', active: true });
+      (prisma.treatmentType.findMany as jest.Mock).mockResolvedValueOnce([scaling]);
+      (prisma.treatmentPlan.create as jest.Mock).mockResolvedValueOnce(planRow([itemRow()]));
+
+      await createTreatmentPlan(
+        { patientId: 'patient-1', doctorId: 'doctor-1', items: [{ treatmentTypeId: 'tt-scaling' }] },
+        'user-doctor',
+        'DOCTOR',
+        'doctor-2'
+      );
+
+      expect(prisma.treatmentPlan.create).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ doctorId: 'doctor-2' }) })
+      );
+    });
+  });
+
+  describe('updatePlanItem', () => {
+    it('should not let an item be marked SCHEDULED without booking it', async () => {
+      (prisma.treatmentPlanItem.findFirst as jest.Mock).mockResolvedValueOnce({
+        ...itemRow({ status: 'ACCEPTED' }),
+        plan: { patientId: 'patient-1', doctorId: 'doctor-1' },
+      });
+
+      await expect(updatePlanItem('plan-1', 'item-1', { status: 'SCHEDULED' }, 'STAFF', null)).rejects.toThrow(
+        'ITEM_STATUS_NOT_ALLOWED'
+      );
+      expect(prisma.treatmentPlanItem.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedulePlanItem', () => {
+    it('should book the item as an appointment and mark it SCHEDULED', async () => {
+      (prisma.treatmentPlanItem.findFirst as jest.Mock).mockResolvedValueOnce({
+        ...itemRow({ status: 'ACCEPTED' }),
+        plan: { patientId: 'patient-1', doctorId: 'doctor-1' },
+      });
+      (prisma.patient.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'patient-1', firstName: 'Somchai', lastName: 'Jaidee' });
+      (prisma.doctor.findUnique as jest.Mock).mockResolvedValueOnce({ id: 'doctor-1', active: true, lineUserId: null });
+      (prisma.treatmentType.findUnique as jest.Mock).mockResolvedValueOnce(scaling);
+      (prisma.appointment.findMany as jest.Mock).mockResolvedValue([]);
+      (prisma.appointment.create as jest.Mock).mockResolvedValueOnce({
+        id: 'appt-1',
+        date: new Date('2099-01-05T00:00:00Z'),
+        startTime: '10:00',
+        endTime: '10:30',
+        status: 'SCHEDULED',
+        confirmationStatus: 'WAITING_CALL',
+        notes: null,
+        createdAt: new Date(),
+        patient: { id: 'patient-1', dn: '6910001', firstName: 'Somchai', lastName: 'Jaidee' },
+        doctor: { id: 'doctor-1', name: 'Dr. A', nickname: null, color: null, specialty: null },
+        treatmentType: { id: 'tt-scaling', name: 'ขูดหินปูน', durationMinutes: 30, color: null },
+      });
+      (prisma.treatmentPlanItem.updateMany as jest.Mock).mockResolvedValueOnce({ count: 1 });
+      (prisma.treatmentPlan.findUnique as jest.Mock).mockResolvedValueOnce(
+        planRow([itemRow({ status: 'SCHEDULED', appointmentId: 'appt-1' })])
+      );
+
+      await schedulePlanItem('plan-1', 'item-1', { date: '2099-01-05', startTime: '10:00' }, 'user-staff');
+
+      expect(prisma.appointment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ patientId: 'patient-1', doctorId: 'doctor-1', treatmentTypeId: 'tt-scaling' }),
+        })
+      );
+      expect(prisma.treatmentPlanItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 'item-1', status: 'ACCEPTED', appointmentId: null },
+        data: { status: 'SCHEDULED', appointmentId: 'appt-1' },
+      });
+    });
+
+    it('should refuse an item that is already done', async () => {
+      (prisma.treatmentPlanItem.findFirst as jest.Mock).mockResolvedValueOnce({
+        ...itemRow({ status: 'DONE' }),
+        plan: { patientId: 'patient-1', doctorId: 'doctor-1' },
+      });
+
+      await expect(
+        schedulePlanItem('plan-1', 'item-1', { date: '2099-01-05', startTime: '10:00' }, 'user-staff')
+      ).rejects.toThrow('ITEM_NOT_SCHEDULABLE');
+      expect(prisma.appointment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completePlanItemsForRecord', () => {
+    it('should complete one open item per treatment type, booked items first', async () => {
+      (prisma.treatmentPlanItem.findMany as jest.Mock).mockResolvedValueOnce([
+        { id: 'item-phase-1', treatmentTypeId: 'tt-scaling', status: 'ACCEPTED' },
+        { id: 'item-booked', treatmentTypeId: 'tt-scaling', status: 'SCHEDULED' },
+        { id: 'item-filling', treatmentTypeId: 'tt-filling', status: 'PROPOSED' },
+      ]);
+
+      const ids = await completePlanItemsForRecord(prisma as unknown as Prisma.TransactionClient, {
+        id: 'record-1',
+        patientId: 'patient-1',
+        treatmentTypeIds: ['tt-scaling', 'tt-filling'],
+      });
+
+      expect(ids).toEqual(['item-booked', 'item-filling']);
+      expect(prisma.treatmentPlanItem.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['item-booked', 'item-filling'] } },
+        data: { status: 'DONE', dailyRecordId: 'record-1', completedAt: expect.any(Date) },
+      });
+    });
+
+    it('should do nothing for a record without a patient link', async () => {
+      const ids = await completePlanItemsForRecord(prisma as unknown as Prisma.TransactionClient, {
+        id: 'record-1',
+        patientId: null,
+        treatmentTypeIds: ['tt-scaling'],
+      });
+
+      expect(ids).toEqual([]);
+      expect(prisma.treatmentPlanItem.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reopenPlanItemsForRecord', () => {
+    it('should put the items a record completed back to SCHEDULED when booked, ACCEPTED otherwise', async () => {
+      await reopenPlanItemsForRecord(prisma as unknown as Prisma.TransactionClient, 'record-1');
+
+      expect(prisma.treatmentPlanItem.updateMany).toHaveBeenCalledWith({
+        where: { dailyRecordId: 'record-1', status: 'DONE', appointmentId: { not: null } },
+        data: { dailyRecordId: null, completedAt: null, status: 'SCHEDULED' },
+      });
+      expect(prisma.treatmentPlanItem.updateMany).toHaveBeenCalledWith({
+        where: { dailyRecordId: 'record-1', status: 'DONE', appointmentId: null },
+        data: { dailyRecordId: null, completedAt: null, status: 'ACCEPTED' },
+      });
+    });
+  });
+});
@@ -5,10 +5,16 @@ import { WithdrawItem } from '../../types/stock.types';
 jest.mock('../../prisma', () => ({
   prisma: {
     $transaction: jest.fn(),
+    productBarcode: {
+      findUnique: jest.fn(),
+    },
     product: {
       findUnique: jest.fn(),
       update: jest.fn(),
     },
+    clinicSetting: {
+      findUnique: jest.fn(),
+    },
     stockBatch: {
       findMany: jest.fn(),
       update: jest.fn(),
@@ -16,6 +22,9 @@ jest.mock('../../prisma', () => ({
     stockMovement: {
       create: jest.fn(),
     },
+    stockInUse: {
+      create: jest.fn(),
+    },
   },
 }));
 
@@ -85,6 +94,24 @@ describe('withdrawService', () => {
       );
     });
 
+    it('should open an in-use row per batch with a use-by from the post-opening shelf life', async () => {
+      (prisma.product.findUnique as jest.Mock).mockResolvedValue({ ...mockReusableProduct, openedShelfLifeDays: 30 });
+      (prisma.stockBatch.findMany as jest.Mock).mockResolvedValue(mockBatches);
+      (prisma.product.update as jest.Mock).mockResolvedValue({ ...mockReusableProduct, inUseQuantity: 6 });
+
+      const before = Date.now();
+      await withdrawService([{ barcode: 'RESIN001', quantity: 6 }]);
+
+      expect(prisma.stockInUse.create).toHaveBeenCalledTimes(2);
+      const [first, second] = (prisma.stockInUse.create as jest.Mock).mock.calls.map((c) => c[0].data);
+      expect(first).toEqual(
+        expect.objectContaining({ batchId: 'batch-1', lotNumber: 'LOT001', openedQuantity: 5, quantity: 5 })
+      );
+      expect(second).toEqual(expect.objectContaining({ batchId: 'batch-2', openedQuantity: 1, quantity: 1 }));
+      expect(first.useBy.getTime() - first.openedAt.getTime()).toBe(30 * 24 * 60 * 60 * 1000);
+      expect(first.openedAt.getTime()).toBeGreaterThanOrEqual(before);
+    });
+
     it('should apply strict FIFO: deduct from earliest received batch first', async () => {
       const updatedProduct = { ...mockReusableProduct, inUseQuantity: 6 };
 
@@ -108,6 +135,7 @@ describe('withdrawService', () => {
         where: {
           productId: 'product-1',
           quantity: { gt: 0 },
+          status: 'ACTIVE',
           OR: [{ expireDate: null }, { expireDate: { gte: expect.any(Date) } }],
         },
         orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
@@ -1,5 +1,6 @@
-import { AppointmentConfirmationStatus, AppointmentStatus, UserRole } from '@prisma/client';
+import { AppointmentConfirmationStatus, AppointmentStatus, MedicalHistoryEntry, UserRole } from '@prisma/client';
 import { prisma } from '../prisma';
+import { toPatientAlerts } from './medicalHistoryService';
 import { sendAppointmentConfirmed, sendAppointmentCancelled, sendAppointmentBooked, sendAppointmentRescheduled } from './lineNotificationService';
 
 // HH:MM string → minutes since midnight
@@ -25,7 +26,7 @@ function timesOverlap(aStart: string, aEnd: string, bStart: string, bEnd: string
 }
 
 const APPOINTMENT_INCLUDE = {
-  patient: { select: { id: true, dn: true, firstName: true, lastName: true } },
+  patient: { select: { id: true, dn: true, firstName: true, lastName: true, medicalHistory: true } },
   doctor: { select: { id: true, name: true, nickname: true, color: true, specialty: true } },
   treatmentType: { select: { id: true, name: true, durationMinutes: true, color: true } },
 } as const;
@@ -39,7 +40,7 @@ type AppointmentWithIncludes = {
   confirmationStatus: AppointmentConfirmationStatus;
   notes: string | null;
   createdAt: Date;
-  patient: { id: string; dn: string | null; firstName: string; lastName: string };
+  patient: { id: string; dn: string | null; firstName: string; lastName: string; medicalHistory: MedicalHistoryEntry[] };
   doctor: { id: string; name: string; nickname: string | null; color: string | null; specialty: string | null };
   treatmentType: { id: string; name: string; durationMinutes: number; color: string | null };
 };
@@ -52,6 +53,7 @@ function toAppointmentItem(a: AppointmentWithIncludes) {
       dn: a.patient.dn,
       name: `${a.patient.firstName} ${a.patient.lastName}`,
     },
+    alerts: toPatientAlerts(a.patient.medicalHistory), // check before treatment
     doctor: {
       id: a.doctor.id,
       name: a.doctor.name,
@@ -264,7 +266,10 @@ export async function createAppointment(
   },
   createdByUserId: string,
 ) {
-  const patient = await prisma.patient.findUnique({ where: { id: body.patientId } });
+  const patient = await prisma.patient.findUnique({
+    where: { id: body.patientId },
+    include: { medicalHistory: true },
+  });
   if (!patient) throw new Error('PATIENT_NOT_FOUND');
 
   const doctor = await prisma.doctor.findUnique({ where: { id: body.doctorId } });
@@ -321,6 +326,7 @@ export async function createAppointment(
       startTime: body.startTime,
       endTime,
       treatmentName: treatmentType.name,
+      alerts: toPatientAlerts(patient.medicalHistory),
     }).catch(err => console.error('Line booked noti failed:', err));
   }
 
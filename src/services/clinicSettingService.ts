@@ -1,22 +1,43 @@
+import { PickingStrategy } from '@prisma/client';
 import { prisma } from '../prisma';
 import { parseHHMM } from './guaranteeCalculatorService';
+import { isPickingStrategy } from './stockOutService';
 
 export interface ClinicSettings {
+  clinicName: string | null;
   clinicOpenTime: string;
   clinicCloseTime: string;
+  defaultPickingStrategy: PickingStrategy; // for products without their own pickingStrategy
 }
 
-const DEFAULTS: ClinicSettings = { clinicOpenTime: '11:00', clinicCloseTime: '20:00' };
+const DEFAULTS: ClinicSettings = {
+  clinicName: null,
+  clinicOpenTime: '11:00',
+  clinicCloseTime: '20:00',
+  defaultPickingStrategy: 'FIFO',
+};
+
+function toSettings(row: ClinicSettings): ClinicSettings {
+  return {
+    clinicName: row.clinicName,
+    clinicOpenTime: row.clinicOpenTime,
+    clinicCloseTime: row.clinicCloseTime,
+    defaultPickingStrategy: row.defaultPickingStrategy,
+  };
+}
 
 export async function getClinicSettings(): Promise<ClinicSettings> {
   const row = await prisma.clinicSetting.findUnique({ where: { id: 1 } });
   if (!row) return DEFAULTS;
-  return { clinicOpenTime: row.clinicOpenTime, clinicCloseTime: row.clinicCloseTime };
+  return toSettings(row);
 }
 
 export async function updateClinicSettings(input: Partial<ClinicSettings>): Promise<ClinicSettings> {
   if (input.clinicOpenTime !== undefined) parseHHMM(input.clinicOpenTime);
   if (input.clinicCloseTime !== undefined) parseHHMM(input.clinicCloseTime);
+  if (input.defaultPickingStrategy !== undefined && !isPickingStrategy(input.defaultPickingStrategy)) {
+    throw new Error('INVALID_PICKING_STRATEGY');
+  }
 
   const current = await getClinicSettings();
   const openTime = input.clinicOpenTime ?? current.clinicOpenTime;
@@ -24,8 +45,10 @@ export async function updateClinicSettings(input: Partial<ClinicSettings>): Prom
   if (parseHHMM(closeTime) <= parseHHMM(openTime)) throw new Error('INVALID_TIME_RANGE');
 
   const data = {
+    ...(input.clinicName !== undefined && { clinicName: input.clinicName?.trim() || null }),
     ...(input.clinicOpenTime !== undefined && { clinicOpenTime: input.clinicOpenTime }),
     ...(input.clinicCloseTime !== undefined && { clinicCloseTime: input.clinicCloseTime }),
+    ...(input.defaultPickingStrategy !== undefined && { defaultPickingStrategy: input.defaultPickingStrategy }),
   };
 
   const row = await prisma.clinicSetting.upsert({
@@ -33,5 +56,5 @@ export async function updateClinicSettings(input: Partial<ClinicSettings>): Prom
     create: { id: 1, ...DEFAULTS, ...data },
     update: data,
   });
-  return { clinicOpenTime: row.clinicOpenTime, clinicCloseTime: row.clinicCloseTime };
+  return toSettings(row);
 }
@@ -3,6 +3,7 @@ import { Prisma, PaymentMethod, DfRule } from '@prisma/client';
 import { Decimal, decimalToNumber, parseAmount } from '../utils/money';
 import { parseRecordDate, isFutureDate, dayRangeUTC, recordDateKey } from '../utils/date';
 import { calculateDf } from './dfCalculatorService';
+import { completePlanItemsForRecord, reopenPlanItemsForRecord } from './treatmentPlanService';
 
 const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'TRANSFER'];
 const MAX_SEQUENCE_RETRIES = 5;
@@ -189,10 +190,13 @@ export async function createDailyRecord(
           _max: { sequenceNo: true },
         });
         const sequenceNo = (agg._max.sequenceNo ?? 0) + 1;
-        return tx.dailyRecord.create({
+        const created = await tx.dailyRecord.create({
           data: { ...baseData, sequenceNo },
           include: includeDoctor,
         });
+        // The visit performed these treatments: close the matching items of the patient's plans.
+        await completePlanItemsForRecord(tx, created);
+        return created;
       });
       return toResponse(record);
     } catch (e: unknown) {
@@ -244,25 +248,37 @@ export async function updateDailyRecord(
   const { dfAmount, ruleUsed } = await calculateDf(doctorId, null, treatmentFee, medicineFee);
   const dfRuleSnapshot = buildRuleSnapshot(ruleUsed);
 
-  const record = await prisma.dailyRecord.update({
-    where: { id },
-    data: {
-      dn: patient.dn,
-      patientId: patient.id,
-      patientName,
-      doctorId,
-      treatmentNote,
-      treatmentTypeIds,
-      treatmentFee,
-      medicineFee,
-      medicineNote: input.medicineNote !== undefined ? input.medicineNote : existing.medicineNote,
-      totalAmount,
-      paymentMethod,
-      dfAmount,
-      dfRuleSnapshot,
-      notes: input.notes !== undefined ? input.notes : existing.notes,
-    },
-    include: includeDoctor,
+  // Plan items completed by this record follow its treatment types and patient.
+  const planItemsChanged =
+    patient.id !== existing.patientId ||
+    treatmentTypeIds.length !== existing.treatmentTypeIds.length ||
+    treatmentTypeIds.some((t) => !existing.treatmentTypeIds.includes(t));
+
+  const record = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    if (planItemsChanged) {
+      await reopenPlanItemsForRecord(tx, id);
+      await completePlanItemsForRecord(tx, { id, patientId: patient.id, treatmentTypeIds });
+    }
+    return tx.dailyRecord.update({
+      where: { id },
+      data: {
+        dn: patient.dn,
+        patientId: patient.id,
+        patientName,
+        doctorId,
+        treatmentNote,
+        treatmentTypeIds,
+        treatmentFee,
+        medicineFee,
+        medicineNote: input.medicineNote !== undefined ? input.medicineNote : existing.medicineNote,
+        totalAmount,
+        paymentMethod,
+        dfAmount,
+        dfRuleSnapshot,
+        notes: input.notes !== undefined ? input.notes : existing.notes,
+      },
+      include: includeDoctor,
+    });
   });
   return toResponse(record);
 }
@@ -301,5 +317,27 @@ export async function getDailyRecord(id: string): Promise<DailyRecordResponse> {
 export async function deleteDailyRecord(id: string): Promise<void> {
   const existing = await prisma.dailyRecord.findUnique({ where: { id } });
   if (!existing) throw new Error('DAILY_RECORD_NOT_FOUND');
-  await prisma.dailyRecord.delete({ where: { id } });
+  // Plan items this record completed are open again (a record entered by mistake must not close them).
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await reopenPlanItemsForRecord(tx, id);
+    await tx.dailyRecord.delete({ where: { id } });
+  });
+}
+
+/**
+ * Links a received transfer slip to the visit it pays for (see the patient timeline balance).
+ * Throws DAILY_RECORD_NOT_FOUND, SLIP_NOT_FOUND or SLIP_ALREADY_LINKED (paid for another visit).
+ */
+export async function linkSlip(id: string, slipId: string): Promise<void> {
+  const record = await prisma.dailyRecord.findUnique({ where: { id }, select: { id: true } });
+  if (!record) throw new Error('DAILY_RECORD_NOT_FOUND');
+  const slip = await prisma.slip.findUnique({ where: { id: slipId }, select: { dailyRecordId: true } });
+  if (!slip) throw new Error('SLIP_NOT_FOUND');
+  if (slip.dailyRecordId && slip.dailyRecordId !== id) throw new Error('SLIP_ALREADY_LINKED');
+  await prisma.slip.update({ where: { id: slipId }, data: { dailyRecordId: id } });
+}
+
+export async function unlinkSlip(id: string, slipId: string): Promise<void> {
+  const { count } = await prisma.slip.updateMany({ where: { id: slipId, dailyRecordId: id }, data: { dailyRecordId: null } });
+  if (count === 0) throw new Error('SLIP_NOT_FOUND');
 }
@@ -4,9 +4,9 @@ import { DashboardSummary } from '../types/dashboard.types';
 /**
  * Calculates dashboard summary statistics
  * 
- * - totalProducts: Total number of products
+ * - totalProducts: Total number of products, archived ones excluded
  * - totalStockQuantity: Sum of all batch quantities
- * - lowStockCount: Products where totalQuantity < minStock
+ * - lowStockCount: Products (not archived) where totalQuantity < minStock
  * - nearExpiryCount: Products with at least one active batch expiring in less than 6 months
  * - expiredCount: Products with at least one batch that has expired
  * 
@@ -14,7 +14,7 @@ import { DashboardSummary } from '../types/dashboard.types';
  */
 export async function dashboardService(): Promise<DashboardSummary> {
   // Calculate total products
-  const totalProducts = await prisma.product.count();
+  const totalProducts = await prisma.product.count({ where: { archivedAt: null } });
 
   // Calculate total stock quantity from all batches
   const stockAggregate = await prisma.stockBatch.aggregate({
@@ -26,6 +26,7 @@ export async function dashboardService(): Promise<DashboardSummary> {
 
   // Get all products with their batches to calculate low stock
   const products = await prisma.product.findMany({
+    where: { archivedAt: null },
     include: {
       stockBatches: {
         select: {
@@ -1,16 +1,20 @@
 import { randomUUID } from 'crypto';
 import { prisma } from '../prisma';
-import { DepleteItem, DepleteResponse, DepleteItemResult } from '../types/stock.types';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
+import { DepleteBatchEntry, DepleteItem, DepleteResponse, DepleteItemResult } from '../types/stock.types';
 
 /**
  * Marks reusable items as consumed (depleted).
- * Decrements inUseQuantity on the product and logs a DEPLETE movement.
+ * Open in-use rows are consumed oldest-opened first (or only those of item.lotNumber), with one
+ * DEPLETE movement per batch. Quantity withdrawn before per-batch tracking has no row; it is used
+ * last and logged as a single DEPLETE without a batch. inUseQuantity on the product is decremented.
  * Returns isOutOfStock=true when both warehouse and inUse reach 0.
  *
  * @param items - Array of items to deplete (must be reusable products)
+ * @param userId - User posting the depletion
  * @returns DepleteResponse with sessionId and per-item results
  */
-export async function depleteService(items: DepleteItem[]): Promise<DepleteResponse> {
+export async function depleteService(items: DepleteItem[], userId: string | null = null): Promise<DepleteResponse> {
   const sessionId = randomUUID();
 
   const results = await prisma.$transaction(async (tx) => {
@@ -18,8 +22,10 @@ export async function depleteService(items: DepleteItem[]): Promise<DepleteRespo
 
     for (const item of items) {
       try {
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
         const product = await tx.product.findUnique({
-          where: { barcode: item.barcode },
+          where: { barcode: scan.barcode },
           include: { stockBatches: { select: { quantity: true } } },
         });
 
@@ -36,11 +42,17 @@ export async function depleteService(items: DepleteItem[]): Promise<DepleteRespo
           continue;
         }
 
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
         if (!product.isReusable) {
           itemResults.push({
             barcode: item.barcode,
             productId: product.id,
-            quantity: item.quantity,
+            quantity,
             inUseAfter: 0,
             isOutOfStock: false,
             success: false,
@@ -49,33 +61,85 @@ export async function depleteService(items: DepleteItem[]): Promise<DepleteRespo
           continue;
         }
 
-        if (product.inUseQuantity < item.quantity) {
+        if (product.inUseQuantity < quantity) {
           itemResults.push({
             barcode: item.barcode,
             productId: product.id,
-            quantity: item.quantity,
+            quantity,
             inUseAfter: product.inUseQuantity,
             isOutOfStock: false,
             success: false,
-            error: `Cannot deplete ${item.quantity} — only ${product.inUseQuantity} in use for product "${product.name}".`,
+            error: `Cannot deplete ${quantity} — only ${product.inUseQuantity} in use for product "${product.name}".`,
           });
           continue;
         }
 
-        // Decrement inUseQuantity and log DEPLETE movement (no batch reference)
-        const updatedProduct = await tx.product.update({
-          where: { id: product.id },
-          data: { inUseQuantity: { decrement: item.quantity } },
+        const lotNumber = item.lotNumber?.trim() || null;
+        const openRows = await tx.stockInUse.findMany({
+          where: { productId: product.id, quantity: { gt: 0 }, ...(lotNumber ? { lotNumber } : {}) },
+          orderBy: [{ openedAt: 'asc' }, { id: 'asc' }],
         });
 
-        await tx.stockMovement.create({
-          data: {
+        // A lot-specific deplete can only draw on that lot's open rows
+        const available = openRows.reduce((sum, r) => sum + r.quantity, 0);
+        if (lotNumber && available < quantity) {
+          itemResults.push({
+            barcode: item.barcode,
             productId: product.id,
-            // batchId and lotNumber are nullable for DEPLETE movements
-            type: 'DEPLETE',
-            quantity: item.quantity,
-            sessionId,
-          },
+            quantity,
+            inUseAfter: product.inUseQuantity,
+            isOutOfStock: false,
+            success: false,
+            error: `Cannot deplete ${quantity} — only ${available} in use for lot "${lotNumber}" of product "${product.name}".`,
+          });
+          continue;
+        }
+
+        let remainingQuantity = quantity;
+        const batches: DepleteBatchEntry[] = [];
+
+        for (const row of openRows) {
+          if (remainingQuantity <= 0) break;
+          const quantityToDeplete = Math.min(remainingQuantity, row.quantity);
+
+          await tx.stockInUse.update({
+            where: { id: row.id },
+            data: { quantity: { decrement: quantityToDeplete } },
+          });
+
+          await tx.stockMovement.create({
+            data: {
+              productId: product.id,
+              batchId: row.batchId,
+              lotNumber: row.lotNumber,
+              type: 'DEPLETE',
+              quantity: quantityToDeplete,
+              sessionId,
+              locationId: row.locationId,
+              ...(userId ? { createdById: userId } : {}),
+            },
+          });
+
+          batches.push({ batchId: row.batchId, lotNumber: row.lotNumber, quantity: quantityToDeplete });
+          remainingQuantity -= quantityToDeplete;
+        }
+
+        if (remainingQuantity > 0) {
+          await tx.stockMovement.create({
+            data: {
+              productId: product.id,
+              // no batch to attribute: withdrawn before per-batch in-use tracking
+              type: 'DEPLETE',
+              quantity: remainingQuantity,
+              sessionId,
+              ...(userId ? { createdById: userId } : {}),
+            },
+          });
+        }
+
+        const updatedProduct = await tx.product.update({
+          where: { id: product.id },
+          data: { inUseQuantity: { decrement: quantity } },
         });
 
         // isOutOfStock: no warehouse stock AND nothing left in use
@@ -85,9 +149,11 @@ export async function depleteService(items: DepleteItem[]): Promise<DepleteRespo
         itemResults.push({
           barcode: item.barcode,
           productId: product.id,
-          quantity: item.quantity,
+          quantity,
           inUseAfter: updatedProduct.inUseQuantity,
           isOutOfStock,
+          batches,
+          pack,
           success: true,
         });
       } catch (error) {
@@ -1,5 +1,8 @@
 import { randomUUID } from 'crypto';
 import { prisma } from '../prisma';
+import { FEFO_BATCH_ORDER, insufficientStockMessage, resolveBatchPicking } from './stockOutService';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
 import {
   DisposeItem,
   DisposeResponse,
@@ -8,13 +11,21 @@ import {
 } from '../types/stock.types';
 
 /**
- * Disposes warehouse stock from product batches using strict FIFO.
+ * Disposes warehouse stock from product batches in each product's picking order (FIFO, FEFO, or
+ * the requested lot).
  * Disposal is an audit-only removal path for expired, damaged, or otherwise discarded stock.
  *
  * @param items - Array of stock disposal items
+ * @param locationId - Optional location to dispose from (all locations when omitted)
+ * @param userId - User posting the disposal
  * @returns DisposeResponse with sessionId and per-item results
  */
-export async function disposeService(items: DisposeItem[]): Promise<DisposeResponse> {
+export async function disposeService(
+  items: DisposeItem[],
+  locationId?: string | null,
+  userId: string | null = null
+): Promise<DisposeResponse> {
+  if (locationId) await resolveLocationId(prisma, locationId);
   const sessionId = randomUUID();
 
   const results = await prisma.$transaction(async (tx) => {
@@ -24,8 +35,10 @@ export async function disposeService(items: DisposeItem[]): Promise<DisposeRespo
       try {
         const reason = item.reason.trim();
 
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
         const product = await tx.product.findUnique({
-          where: { barcode: item.barcode },
+          where: { barcode: scan.barcode },
         });
 
         if (!product) {
@@ -42,23 +55,39 @@ export async function disposeService(items: DisposeItem[]): Promise<DisposeRespo
           continue;
         }
 
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+
+        // Expired-only disposal empties expired batches whatever the picking strategy
+        // (a MANUAL product needs no lot), earliest expiry first
+        const picking =
+          item.expiredOnly && !item.lotNumber?.trim()
+            ? { lotNumber: null, where: {}, orderBy: FEFO_BATCH_ORDER }
+            : await resolveBatchPicking(tx, product, item.lotNumber);
         const batches = await tx.stockBatch.findMany({
           where: {
             productId: product.id,
             quantity: { gt: 0 },
+            ...(locationId ? { locationId } : {}),
+            ...(item.expiredOnly ? { expireDate: { lt: startOfToday } } : {}),
+            ...picking.where,
           },
-          orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
+          orderBy: picking.orderBy,
         });
 
         const totalAvailable = batches.reduce((sum, batch) => sum + batch.quantity, 0);
 
-        if (totalAvailable < item.quantity) {
-          throw new Error(
-            `Insufficient stock for product ${item.barcode}. Requested: ${item.quantity}, Available: ${totalAvailable}`
-          );
+        if (totalAvailable < quantity) {
+          throw new Error(insufficientStockMessage(item.barcode, picking.lotNumber, quantity, totalAvailable));
         }
 
-        let remainingQuantity = item.quantity;
+        let remainingQuantity = quantity;
         const batchDeductions: StockOutBatchDeduction[] = [];
 
         for (const batch of batches) {
@@ -84,8 +113,11 @@ export async function disposeService(items: DisposeItem[]): Promise<DisposeRespo
               lotNumber: batch.lotNumber,
               type: 'DISPOSE',
               quantity: quantityToDeduct,
+              unitCost: batch.unitCost,
               reason,
               sessionId,
+              locationId: batch.locationId,
+              ...(userId ? { createdById: userId } : {}),
             } as any, // Type assertion needed until Prisma client is regenerated
           });
 
@@ -101,10 +133,11 @@ export async function disposeService(items: DisposeItem[]): Promise<DisposeRespo
         itemResults.push({
           barcode: item.barcode,
           productId: product.id,
-          requestedQuantity: item.quantity,
-          disposedQuantity: item.quantity,
+          requestedQuantity: quantity,
+          disposedQuantity: quantity,
           reason,
           batches: batchDeductions,
+          pack,
           success: true,
         });
       } catch (error) {
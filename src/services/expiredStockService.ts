@@ -0,0 +1,172 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { clinicToday, recordDateKey } from '../utils/date';
+import { disposeService } from './disposeService';
+import { resolveConsumptionLink } from './stockOutService';
+import { resolveLocationId } from './stockLocationService';
+import {
+  DisposeResponse,
+  ExpiredDispenseRequest,
+  ExpiredDispenseResponse,
+  ExpiredStockProduct,
+  ExpiredStockReport,
+} from '../types/stock.types';
+
+/** Reason recorded on disposals made by disposeExpiredStock. */
+export const EXPIRED_DISPOSE_REASON = 'EXPIRED';
+
+// Same cut-off as stock-out and withdraw: a batch expiring today is still usable today.
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Expired batches that still hold warehouse quantity, grouped per product (earliest expiry first).
+ * Quarantined batches are listed too: they still have to be disposed.
+ */
+export async function getExpiredStock(locationId?: string | null): Promise<ExpiredStockReport> {
+  if (locationId) await resolveLocationId(prisma, locationId);
+  const today = startOfToday();
+
+  const batches = await prisma.stockBatch.findMany({
+    where: {
+      quantity: { gt: 0 },
+      expireDate: { lt: today },
+      ...(locationId ? { locationId } : {}),
+    },
+    include: {
+      product: { select: { name: true, barcode: true, unit: true } },
+      location: { select: { name: true } },
+    },
+    orderBy: [{ expireDate: 'asc' }, { receivedAt: 'asc' }],
+  });
+
+  const products = new Map<string, ExpiredStockProduct>();
+  for (const batch of batches) {
+    let entry = products.get(batch.productId);
+    if (!entry) {
+      entry = {
+        productId: batch.productId,
+        productName: batch.product.name,
+        barcode: batch.product.barcode,
+        unit: batch.product.unit,
+        quantity: 0,
+        batches: [],
+      };
+      products.set(batch.productId, entry);
+    }
+    entry.quantity += batch.quantity;
+    entry.batches.push({
+      batchId: batch.id,
+      lotNumber: batch.lotNumber,
+      expireDate: recordDateKey(batch.expireDate!),
+      locationId: batch.locationId,
+      locationName: batch.location.name,
+      quantity: batch.quantity,
+      status: batch.status,
+    });
+  }
+
+  const list = Array.from(products.values()).sort((a, b) => a.productName.localeCompare(b.productName));
+  return {
+    today: clinicToday(),
+    totalQuantity: list.reduce((sum, p) => sum + p.quantity, 0),
+    products: list,
+  };
+}
+
+/**
+ * Disposes every expired batch of a product (optionally at one location) in one DISPOSE session
+ * with reason EXPIRED. Throws PRODUCT_NOT_FOUND or NO_EXPIRED_STOCK.
+ */
+export async function disposeExpiredStock(
+  productId: string,
+  locationId?: string | null,
+  userId: string | null = null
+): Promise<DisposeResponse> {
+  const product = await prisma.product.findUnique({ where: { id: productId }, select: { barcode: true } });
+  if (!product) throw new Error('PRODUCT_NOT_FOUND');
+
+  const expired = await prisma.stockBatch.aggregate({
+    where: {
+      productId,
+      quantity: { gt: 0 },
+      expireDate: { lt: startOfToday() },
+      ...(locationId ? { locationId } : {}),
+    },
+    _sum: { quantity: true },
+  });
+  const quantity = expired._sum.quantity ?? 0;
+  if (quantity === 0) throw new Error('NO_EXPIRED_STOCK');
+
+  return disposeService(
+    [{ barcode: product.barcode, quantity, reason: EXPIRED_DISPOSE_REASON, expiredOnly: true }],
+    locationId,
+    userId
+  );
+}
+
+/**
+ * ADMIN override: dispenses from one expired batch as an OUT movement whose reason is the
+ * justification, optionally linked to a daily record / patient like a normal stock-out.
+ *
+ * Throws BATCH_NOT_FOUND, BATCH_NOT_EXPIRED, BATCH_QUARANTINED, PRODUCT_ARCHIVED, PRODUCT_REUSABLE,
+ * INSUFFICIENT_STOCK, or the consumption-link errors of resolveConsumptionLink.
+ */
+export async function dispenseExpiredBatch(
+  request: ExpiredDispenseRequest,
+  userId: string | null = null
+): Promise<ExpiredDispenseResponse> {
+  const linkData = await resolveConsumptionLink({
+    dailyRecordId: request.dailyRecordId,
+    patientId: request.patientId,
+  });
+  const justification = request.justification.trim();
+  const sessionId = randomUUID();
+
+  return prisma.$transaction(async (tx) => {
+    const batch = await tx.stockBatch.findUnique({
+      where: { id: request.batchId },
+      include: { product: { select: { isReusable: true, archivedAt: true } } },
+    });
+    if (!batch) throw new Error('BATCH_NOT_FOUND');
+    if (!batch.expireDate || batch.expireDate >= startOfToday()) throw new Error('BATCH_NOT_EXPIRED');
+    if (batch.status === 'QUARANTINED') throw new Error('BATCH_QUARANTINED');
+    // Like a stock-out: archived products are not used any more, their leftovers can only be disposed
+    if (batch.product.archivedAt) throw new Error('PRODUCT_ARCHIVED');
+    if (batch.product.isReusable) throw new Error('PRODUCT_REUSABLE');
+    if (batch.quantity < request.quantity) throw new Error('INSUFFICIENT_STOCK');
+
+    await tx.stockBatch.update({
+      where: { id: batch.id },
+      data: { quantity: { decrement: request.quantity } },
+    });
+    await tx.stockMovement.create({
+      data: {
+        productId: batch.productId,
+        batchId: batch.id,
+        lotNumber: batch.lotNumber,
+        type: 'OUT',
+        quantity: request.quantity,
+        unitCost: batch.unitCost,
+        reason: justification,
+        sessionId,
+        locationId: batch.locationId,
+        ...linkData,
+        ...(userId ? { createdById: userId } : {}),
+      },
+    });
+
+    return {
+      sessionId,
+      productId: batch.productId,
+      batchId: batch.id,
+      lotNumber: batch.lotNumber,
+      expireDate: recordDateKey(batch.expireDate),
+      quantity: request.quantity,
+      justification,
+    };
+  });
+}
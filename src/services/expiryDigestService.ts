@@ -0,0 +1,138 @@
+import { prisma } from '../prisma';
+import { clinicToday, parseRecordDate, recordDateKey } from '../utils/date';
+import { sendStockDigest } from './lineNotificationService';
+import { listInUseStock } from './stockInUseService';
+import { ExpiryDigest, ExpiryDigestBatch, ExpiryDigestLowStock } from '../types/stock.types';
+
+export const DEFAULT_DIGEST_WINDOWS = [30, 90, 180];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ExpiryDigestConfig {
+  windows: number[]; // ascending day counts
+  lineUserIds: string[];
+}
+
+/**
+ * Reads the digest configuration from the environment:
+ * - EXPIRY_DIGEST_WINDOWS: comma-separated day counts (default 30,90,180)
+ * - EXPIRY_DIGEST_LINE_USER_IDS: comma-separated LINE user IDs of staff/admins to notify
+ * Invalid window entries are ignored.
+ */
+export function getExpiryDigestConfig(): ExpiryDigestConfig {
+  const windows = (process.env.EXPIRY_DIGEST_WINDOWS ?? '')
+    .split(',')
+    .map((v) => Number(v.trim()))
+    .filter((n) => Number.isInteger(n) && n > 0);
+  const lineUserIds = (process.env.EXPIRY_DIGEST_LINE_USER_IDS ?? '')
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+  return {
+    windows: windows.length > 0 ? [...new Set(windows)].sort((a, b) => a - b) : DEFAULT_DIGEST_WINDOWS,
+    lineUserIds,
+  };
+}
+
+/**
+ * Builds the stock digest for the clinic's current day:
+ * - expired: batches past their expiry date that still hold quantity
+ * - windows: batches expiring within each window; each batch is listed once, in the shortest
+ *   window it falls into (e.g. 30 → 0–30 days, 90 → 31–90 days)
+ * - lowStock: products whose warehouse quantity is at or below minStock (same rule as the dashboard)
+ * - openedPastUseBy: opened reusable items past their post-opening life (use-by)
+ * Archived products are left out of low stock only: their remaining batches still expire and
+ * need disposing, so they stay in the expiry lists.
+ */
+export async function buildExpiryDigest(windows: number[] = DEFAULT_DIGEST_WINDOWS): Promise<ExpiryDigest> {
+  const today = clinicToday();
+  const todayDate = parseRecordDate(today);
+  const sortedWindows = [...windows].sort((a, b) => a - b);
+  const horizon = new Date(todayDate.getTime() + (sortedWindows[sortedWindows.length - 1] + 1) * DAY_MS);
+
+  const [batches, products, totals, openedPastUseBy] = await Promise.all([
+    prisma.stockBatch.findMany({
+      where: { quantity: { gt: 0 }, expireDate: { not: null, lt: horizon } },
+      include: { product: { select: { name: true, unit: true } } },
+      orderBy: { expireDate: 'asc' },
+    }),
+    prisma.product.findMany({
+      where: { archivedAt: null },
+      select: { id: true, name: true, unit: true, minStock: true },
+    }),
+    prisma.stockBatch.groupBy({ by: ['productId'], _sum: { quantity: true } }),
+    listInUseStock({ pastUseBy: true }),
+  ]);
+
+  const expired: ExpiryDigestBatch[] = [];
+  const buckets = sortedWindows.map((days) => ({ days, batches: [] as ExpiryDigestBatch[] }));
+
+  for (const batch of batches) {
+    const expireKey = recordDateKey(batch.expireDate!);
+    const daysLeft = Math.round((parseRecordDate(expireKey).getTime() - todayDate.getTime()) / DAY_MS);
+    const entry: ExpiryDigestBatch = {
+      batchId: batch.id,
+      productId: batch.productId,
+      productName: batch.product.name,
+      unit: batch.product.unit,
+      lotNumber: batch.lotNumber,
+      expireDate: expireKey,
+      daysLeft,
+      quantity: batch.quantity,
+    };
+    if (daysLeft < 0) {
+      expired.push(entry);
+      continue;
+    }
+    buckets.find((b) => daysLeft <= b.days)?.batches.push(entry);
+  }
+
+  const totalByProduct = new Map(totals.map((t) => [t.productId, t._sum.quantity ?? 0]));
+  const lowStock: ExpiryDigestLowStock[] = products
+    .map((p) => ({
+      productId: p.id,
+      productName: p.name,
+      unit: p.unit,
+      quantity: totalByProduct.get(p.id) ?? 0,
+      minStock: p.minStock,
+    }))
+    .filter((p) => p.quantity <= p.minStock)
+    .sort((a, b) => a.quantity - a.minStock - (b.quantity - b.minStock));
+
+  return { generatedAt: new Date().toISOString(), today, expired, windows: buckets, lowStock, openedPastUseBy };
+}
+
+/** True when the digest has nothing to report. */
+export function isDigestEmpty(digest: ExpiryDigest): boolean {
+  return (
+    digest.expired.length === 0 &&
+    digest.lowStock.length === 0 &&
+    digest.openedPastUseBy.length === 0 &&
+    digest.windows.every((w) => w.batches.length === 0)
+  );
+}
+
+/**
+ * Builds the digest and pushes it to every configured LINE recipient. An empty digest is not sent.
+ * A failed push to one recipient does not stop the others; failures are returned.
+ */
+export async function sendExpiryDigest(): Promise<{
+  digest: ExpiryDigest;
+  sentTo: string[];
+  failed: Array<{ lineUserId: string; error: string }>;
+}> {
+  const config = getExpiryDigestConfig();
+  const digest = await buildExpiryDigest(config.windows);
+  const sentTo: string[] = [];
+  const failed: Array<{ lineUserId: string; error: string }> = [];
+  if (isDigestEmpty(digest)) return { digest, sentTo, failed };
+
+  for (const lineUserId of config.lineUserIds) {
+    try {
+      await sendStockDigest(lineUserId, digest);
+      sentTo.push(lineUserId);
+    } catch (e: unknown) {
+      failed.push({ lineUserId, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return { digest, sentTo, failed };
+}
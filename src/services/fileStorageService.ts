@@ -0,0 +1,201 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+/**
+ * Pluggable object storage for uploaded files (patient photos, X-rays, consent forms, ...).
+ *
+ * FILE_STORAGE_DRIVER selects the driver:
+ * - `local` (default): files under FILE_STORAGE_LOCAL_DIR (default ./uploads)
+ * - `s3`: any S3-compatible bucket (AWS S3, or a local MinIO with S3_FORCE_PATH_STYLE=true)
+ *
+ * Keys are relative, '/'-separated paths chosen by the caller (e.g. `patients/<id>/<uuid>.jpg`).
+ */
+export interface FileStorage {
+  readonly driver: 'local' | 's3';
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Throws STORED_FILE_MISSING when nothing is stored under the key. */
+  get(key: string): Promise<Buffer>;
+  /** Deleting a missing key is not an error. */
+  delete(key: string): Promise<void>;
+}
+
+// Keys come from our own services, but never let one escape the storage root.
+function assertSafeKey(key: string): void {
+  if (!key || key.startsWith('/') || key.split('/').some((part) => part === '' || part === '.' || part === '..')) {
+    throw new Error('INVALID_STORAGE_KEY');
+  }
+}
+
+// ── Local disk ────────────────────────────────────────────────────────────────
+
+export function createLocalStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+  const resolve = (key: string) => {
+    assertSafeKey(key);
+    return path.join(root, ...key.split('/'));
+  };
+
+  return {
+    driver: 'local',
+    async put(key, body) {
+      const file = resolve(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body);
+    },
+    async get(key) {
+      try {
+        return await readFile(resolve(key));
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') throw new Error('STORED_FILE_MISSING');
+        throw e;
+      }
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
+
+// ── S3-compatible ─────────────────────────────────────────────────────────────
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; default AWS S3 for the region
+  forcePathStyle?: boolean; // bucket in the path instead of the host name (MinIO)
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// RFC 3986 encoding of one path segment, as SigV4 expects.
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+export interface SigV4Request {
+  method: string;
+  url: URL;
+  headers: Record<string, string>; // signed as given; must include x-amz-date and x-amz-content-sha256
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/** AWS Signature Version 4 `Authorization` header for an S3 request (no query string). */
+export function signS3Request(req: SigV4Request): string {
+  const amzDate = req.headers['x-amz-date'];
+  const day = amzDate.slice(0, 8);
+  const scope = `${day}/${req.region}/s3/aws4_request`;
+
+  const headers = Object.entries({ ...req.headers, host: req.url.host })
+    .map(([name, value]) => [name.toLowerCase(), value.trim()] as const)
+    .sort(([a], [b]) => (a < b ? -1 : 1));
+  const signedHeaders = headers.map(([name]) => name).join(';');
+
+  const canonicalRequest = [
+    req.method,
+    req.url.pathname,
+    '',
+    ...headers.map(([name, value]) => `${name}:${value}`),
+    '',
+    signedHeaders,
+    req.headers['x-amz-content-sha256'],
+  ].join('\n');
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${req.secretAccessKey}`, day), req.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${req.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+export function createS3Storage(config: S3StorageConfig): FileStorage {
+  const endpoint = new URL(config.endpoint || `https://s3.${config.region}.amazonaws.com`);
+
+  const objectUrl = (key: string): URL => {
+    assertSafeKey(key);
+    const encodedKey = key.split('/').map(encodeSegment).join('/');
+    const base = endpoint.pathname.replace(/\/$/, '');
+    if (config.forcePathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${base}/${encodeSegment(config.bucket)}/${encodedKey}`);
+    }
+    return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}${base}/${encodedKey}`);
+  };
+
+  const send = async (method: string, key: string, body?: Buffer, contentType?: string): Promise<Response> => {
+    const url = objectUrl(key);
+    const headers: Record<string, string> = {
+      'x-amz-date': new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      'x-amz-content-sha256': sha256Hex(body ?? ''),
+      ...(contentType ? { 'content-type': contentType } : {}),
+    };
+    headers.authorization = signS3Request({
+      method,
+      url,
+      headers,
+      region: config.region,
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    });
+    return fetch(url, { method, headers, body });
+  };
+
+  const fail = async (res: Response, action: string): Promise<never> => {
+    const detail = await res.text();
+    throw new Error(`S3 ${action} failed: ${res.status} ${detail.slice(0, 200)}`);
+  };
+
+  return {
+    driver: 's3',
+    async put(key, body, contentType) {
+      const res = await send('PUT', key, body, contentType);
+      if (!res.ok) await fail(res, 'put');
+    },
+    async get(key) {
+      const res = await send('GET', key);
+      if (res.status === 404) throw new Error('STORED_FILE_MISSING');
+      if (!res.ok) await fail(res, 'get');
+      return Buffer.from(await res.arrayBuffer());
+    },
+    async delete(key) {
+      const res = await send('DELETE', key);
+      if (!res.ok && res.status !== 404) await fail(res, 'delete');
+    },
+  };
+}
+
+// ── Configured instance ───────────────────────────────────────────────────────
+
+let storage: FileStorage | null = null;
+
+/** The storage configured by env vars (created on first use). */
+export function getFileStorage(): FileStorage {
+  if (storage) return storage;
+
+  if (process.env.FILE_STORAGE_DRIVER === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('FILE_STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    storage = createS3Storage({
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  } else {
+    storage = createLocalStorage(process.env.FILE_STORAGE_LOCAL_DIR || 'uploads');
+  }
+  return storage;
+}
@@ -1,154 +1,233 @@
 import { prisma } from '../prisma';
-import { StockLogResponseEntry, StockLogFilters, StockMovementLogType } from '../types/stock.types';
+import { Prisma, StockMovementType } from '@prisma/client';
+import { resolveScannedBarcode } from './productCatalogService';
+import { StockLogResponseEntry, StockLogFilters, StockLogPage, StockMovementLogType } from '../types/stock.types';
 
 /**
- * Retrieves stock movement logs grouped by sessionId
- * 
- * Groups movements by:
- * - sessionId (for bulk operations)
- * - If sessionId is null, each movement is its own group
- * 
- * Each group shows:
- * - sessionId (can be null)
- * - type (IN/OUT/WITHDRAW/DEPLETE)
- * - createdAt (ISO date string)
- * - productName
- * - totalQuantity (sum of all movements in group)
- * - lots (aggregated by lotNumber)
- * 
- * @param filters - Optional filters for type, fromDate, toDate
- * @returns Array of StockLogResponseEntry
+ * Movement types whose reason is part of the grouping key, so differently-justified
+ * movements in the same session stay separate log entries.
  */
-export async function getStockLogsService(
-  filters?: StockLogFilters
-): Promise<StockLogResponseEntry[]> {
-  // Build where clause for filters
-  const where: any = {};
-
-  // Filter by type
-  if (filters?.type) {
-    where.type = filters.type;
+export const REASON_GROUPED_TYPES: StockMovementType[] = ['DISPOSE', 'ADJUST_IN', 'ADJUST_OUT'];
+
+export const DEFAULT_STOCK_LOG_LIMIT = 100;
+export const MAX_STOCK_LOG_LIMIT = 500;
+
+/** Log entry row as grouped by the query below. */
+interface StockLogRow {
+  groupKey: string;
+  sessionId: string | null;
+  type: StockMovementLogType;
+  createdAt: Date;
+  productName: string;
+  totalQuantity: number;
+  reason: string | null;
+  reversedBySessionId: string | null;
+  reversesSessionId: string | null;
+  locationName: string | null;
+  toLocationName: string | null;
+  createdById: string | null;
+  createdByName: string | null;
+  lots: Array<{ lot: string; quantity: number }>;
+}
+
+interface StockLogCursor {
+  createdAt: Date;
+  groupKey: string;
+}
+
+function encodeCursor(row: StockLogRow): string {
+  return Buffer.from(JSON.stringify({ c: row.createdAt.toISOString(), k: row.groupKey })).toString('base64url');
+}
+
+/** Decodes a nextCursor; throws INVALID_CURSOR when it was not produced by this service. */
+function decodeCursor(cursor: string): StockLogCursor {
+  try {
+    const { c, k } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const createdAt = new Date(c);
+    if (typeof k !== 'string' || Number.isNaN(createdAt.getTime())) throw new Error();
+    return { createdAt, groupKey: k };
+  } catch {
+    throw new Error('INVALID_CURSOR');
+  }
+}
+
+/** Movement conditions for the filters (date filters keep their server-local day boundaries). */
+async function buildConditions(filters: StockLogFilters): Promise<Prisma.Sql[]> {
+  const conditions: Prisma.Sql[] = [];
+
+  if (filters.type) conditions.push(Prisma.sql`m."type"::text = ${filters.type}`);
+
+  // Movements at the location plus transfers into it
+  if (filters.locationId) {
+    conditions.push(Prisma.sql`(m."locationId" = ${filters.locationId} OR m."toLocationId" = ${filters.locationId})`);
   }
 
+  if (filters.productId) conditions.push(Prisma.sql`m."productId" = ${filters.productId}`);
+  if (filters.barcode) {
+    const scan = await resolveScannedBarcode(prisma, filters.barcode);
+    conditions.push(Prisma.sql`m."productId" IN (SELECT "id" FROM "products" WHERE "barcode" = ${scan.barcode})`);
+  }
+  if (filters.lotNumber) conditions.push(Prisma.sql`m."lotNumber" = ${filters.lotNumber}`);
+  if (filters.sessionId) conditions.push(Prisma.sql`m."sessionId" = ${filters.sessionId}`);
+  if (filters.userId) conditions.push(Prisma.sql`m."createdById" = ${filters.userId}`);
+
   // Handle predefined date filters (today, 7days)
   // These take precedence over fromDate/toDate if both are provided
-  if (filters?.filter) {
+  if (filters.filter) {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
-    
+
     const endOfToday = new Date();
     endOfToday.setHours(23, 59, 59, 999);
 
-    if (filters.filter === 'today') {
-      where.createdAt = {
-        gte: today,
-        lte: endOfToday,
-      };
-    } else if (filters.filter === '7days') {
-      const sevenDaysAgo = new Date(today);
-      sevenDaysAgo.setDate(today.getDate() - 7);
-      
-      where.createdAt = {
-        gte: sevenDaysAgo,
-        lte: endOfToday,
-      };
-    }
+    const from = new Date(today);
+    if (filters.filter === '7days') from.setDate(today.getDate() - 7);
+    conditions.push(Prisma.sql`m."createdAt" >= ${from} AND m."createdAt" <= ${endOfToday}`);
   } else {
     // Filter by date range (only if predefined filter is not used)
-    if (filters?.fromDate || filters?.toDate) {
-      where.createdAt = {};
-      if (filters.fromDate) {
-        const fromDate = new Date(filters.fromDate);
-        fromDate.setHours(0, 0, 0, 0);
-        where.createdAt.gte = fromDate;
-      }
-      if (filters.toDate) {
-        const toDate = new Date(filters.toDate);
-        toDate.setHours(23, 59, 59, 999);
-        where.createdAt.lte = toDate;
-      }
+    if (filters.fromDate) {
+      const fromDate = new Date(filters.fromDate);
+      fromDate.setHours(0, 0, 0, 0);
+      conditions.push(Prisma.sql`m."createdAt" >= ${fromDate}`);
+    }
+    if (filters.toDate) {
+      const toDate = new Date(filters.toDate);
+      toDate.setHours(23, 59, 59, 999);
+      conditions.push(Prisma.sql`m."createdAt" <= ${toDate}`);
     }
   }
 
-  // Fetch movements with product information, ordered by creation date (newest first)
-  const movements = await prisma.stockMovement.findMany({
-    where,
-    include: {
-      product: {
-        select: {
-          name: true,
-        },
-      },
-    },
-    orderBy: {
-      createdAt: 'desc',
-    },
-  });
-
-  // Group movements by sessionId + type + productId (+ reason for DISPOSE)
-  // If sessionId is null, treat each movement as its own group
-  // This ensures that:
-  // - Bulk operations (same sessionId) are grouped together
-  // - Different products in same session are separate entries
-  // - IN and OUT operations are separate
-  const groupedMap = new Map<string, StockLogResponseEntry>();
-
-  for (const movement of movements) {
-    const movementReason = (movement as { reason?: string | null }).reason ?? null;
-    const reasonKey = movement.type === 'DISPOSE' ? movementReason || '' : '';
-
-    // Create group key: sessionId|type|productId|reason
-    // If sessionId is null, use movement id to make it unique
-    const sessionKey = movement.sessionId || `single-${movement.id}`;
-    const groupKey = `${sessionKey}|${movement.type}|${movement.productId}|${reasonKey}`;
-
-    if (groupedMap.has(groupKey)) {
-      // Update existing group
-      const existing = groupedMap.get(groupKey)!;
-      existing.totalQuantity += movement.quantity;
-
-      // Update or add lot breakdown (DEPLETE movements have no lotNumber — skip)
-      if (movement.lotNumber !== null) {
-        const lotIndex = existing.lots.findIndex(
-          (lot) => lot.lot === movement.lotNumber
-        );
-        if (lotIndex >= 0) {
-          existing.lots[lotIndex].quantity += movement.quantity;
-        } else {
-          existing.lots.push({
-            lot: movement.lotNumber,
-            quantity: movement.quantity,
-          });
-        }
-      }
-
-      // Update createdAt if this movement is older (we want the earliest timestamp in the group)
-      const movementDate = new Date(movement.createdAt);
-      const existingDate = new Date(existing.createdAt);
-      if (movementDate < existingDate) {
-        existing.createdAt = movement.createdAt.toISOString();
-      }
-    } else {
-      // Create new group
-      groupedMap.set(groupKey, {
-        sessionId: movement.sessionId,
-        type: movement.type as StockMovementLogType,
-        createdAt: movement.createdAt.toISOString(),
-        productName: movement.product.name,
-        totalQuantity: movement.quantity,
-        reason: movementReason,
-        lots: movement.lotNumber !== null
-          ? [{ lot: movement.lotNumber, quantity: movement.quantity }]
-          : [],
-      });
-    }
+  return conditions;
+}
+
+/**
+ * Retrieves one page of stock movement logs, grouped in the database.
+ *
+ * Movements are grouped by sessionId + type + product + location (+ reason for
+ * DISPOSE/ADJUST_*); a movement without sessionId is its own group. Each group shows:
+ * - sessionId (can be null)
+ * - type (IN/OUT/WITHDRAW/DEPLETE/DISPOSE/ADJUST_IN/ADJUST_OUT/TRANSFER)
+ * - createdAt (earliest movement of the group, ISO date string)
+ * - productName
+ * - totalQuantity (sum of all movements in group)
+ * - lots (aggregated by lotNumber; DEPLETE of untracked stock has none)
+ * - reversedBySessionId / reversesSessionId (reversal links, only when present)
+ * - locationName / toLocationName (only when present; a session spanning several locations
+ *   yields one entry per location)
+ * - createdById / createdByName (user who posted the movements, only when recorded)
+ *
+ * Entries are newest first, at most `limit` per call. Pages are keyed on (createdAt, group), so
+ * entries posted while paging never shift or repeat a page; pass nextCursor back as `cursor` for
+ * the next page.
+ *
+ * @param filters - Optional filters for type, dates, location, product/barcode, lot, session and
+ *   user, plus limit (default 100, max 500) and cursor
+ * @returns The page of entries and the cursor of the next page (null on the last page).
+ *   Throws INVALID_CURSOR for a malformed cursor.
+ */
+export async function getStockLogsService(filters: StockLogFilters = {}): Promise<StockLogPage> {
+  const limit = Math.min(filters.limit ?? DEFAULT_STOCK_LOG_LIMIT, MAX_STOCK_LOG_LIMIT);
+  const cursor = filters.cursor ? decodeCursor(filters.cursor) : null;
+  const conditions = await buildConditions(filters);
+  if (cursor) {
+    // Later pages only hold groups that start at or before the cursor, so newer movements are
+    // skipped before grouping — except those of a session that started by then (same group).
+    conditions.push(Prisma.sql`(m."createdAt" <= ${cursor.createdAt} OR (m."sessionId" IS NOT NULL AND EXISTS (
+      SELECT 1 FROM "stock_movements" s WHERE s."sessionId" = m."sessionId" AND s."createdAt" <= ${cursor.createdAt}
+    )))`);
   }
+  const where = conditions.length ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+
+  // Inner query: one row per group + lot; outer query: one row per group with its lots
+  const rows = await prisma.$queryRaw<StockLogRow[]>(Prisma.sql`
+    WITH lot_groups AS (
+      SELECT
+        COALESCE(m."sessionId", 'single-' || m."id") AS "sessionKey",
+        m."type"::text AS "type",
+        m."productId",
+        COALESCE(m."locationId", '') AS "locationKey",
+        CASE WHEN m."type"::text IN (${Prisma.join(REASON_GROUPED_TYPES)}) THEN COALESCE(m."reason", '') ELSE '' END AS "reasonKey",
+        m."lotNumber",
+        MAX(m."sessionId") AS "sessionId",
+        SUM(m."quantity")::int AS "quantity",
+        MIN(m."createdAt") AS "firstAt",
+        MAX(m."createdAt") AS "lastAt",
+        MAX(m."reason") AS "reason",
+        MAX(m."reversedBySessionId") AS "reversedBySessionId",
+        MAX(m."reversesSessionId") AS "reversesSessionId",
+        MAX(m."locationId") AS "locationId",
+        MAX(m."toLocationId") AS "toLocationId",
+        MAX(m."createdById") AS "createdById"
+      FROM "stock_movements" m
+      WHERE ${where}
+      GROUP BY 1, 2, 3, 4, 5, 6
+    ),
+    log_groups AS (
+      SELECT
+        "sessionKey" || '|' || "type" || '|' || "productId" || '|' || "locationKey" || '|' || "reasonKey" AS "groupKey",
+        MAX("sessionId") AS "sessionId",
+        "type",
+        "productId",
+        MIN("firstAt") AS "createdAt",
+        SUM("quantity")::int AS "totalQuantity",
+        MAX("reason") AS "reason",
+        MAX("reversedBySessionId") AS "reversedBySessionId",
+        MAX("reversesSessionId") AS "reversesSessionId",
+        MAX("locationId") AS "locationId",
+        MAX("toLocationId") AS "toLocationId",
+        MAX("createdById") AS "createdById",
+        COALESCE(
+          json_agg(json_build_object('lot', "lotNumber", 'quantity', "quantity") ORDER BY "lastAt" DESC)
+            FILTER (WHERE "lotNumber" IS NOT NULL),
+          '[]'
+        ) AS "lots"
+      FROM lot_groups
+      GROUP BY "sessionKey", "type", "productId", "locationKey", "reasonKey"
+    )
+    SELECT g."groupKey", g."sessionId", g."type", g."createdAt", g."totalQuantity", g."reason",
+           g."reversedBySessionId", g."reversesSessionId", g."lots", g."createdById",
+           p."name" AS "productName", l."name" AS "locationName", tl."name" AS "toLocationName",
+           u."name" AS "createdByName"
+    FROM log_groups g
+    JOIN "products" p ON p."id" = g."productId"
+    LEFT JOIN "stock_locations" l ON l."id" = g."locationId"
+    LEFT JOIN "stock_locations" tl ON tl."id" = g."toLocationId"
+    LEFT JOIN "users" u ON u."id" = g."createdById"
+    ${cursor ? Prisma.sql`WHERE (g."createdAt", g."groupKey") < (${cursor.createdAt}, ${cursor.groupKey})` : Prisma.empty}
+    ORDER BY g."createdAt" DESC, g."groupKey" DESC
+    LIMIT ${limit + 1}
+  `);
 
-  // Convert map to array and sort by createdAt (newest first)
-  const logs = Array.from(groupedMap.values()).sort(
-    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-  );
+  const page = rows.slice(0, limit);
+  const entries = page.map((row): StockLogResponseEntry => ({
+    sessionId: row.sessionId,
+    type: row.type,
+    createdAt: row.createdAt.toISOString(),
+    productName: row.productName,
+    totalQuantity: Number(row.totalQuantity),
+    reason: row.reason,
+    ...(row.reversedBySessionId ? { reversedBySessionId: row.reversedBySessionId } : {}),
+    ...(row.reversesSessionId ? { reversesSessionId: row.reversesSessionId } : {}),
+    ...(row.locationName ? { locationName: row.locationName } : {}),
+    ...(row.toLocationName ? { toLocationName: row.toLocationName } : {}),
+    ...(row.createdById ? { createdById: row.createdById, createdByName: row.createdByName } : {}),
+    lots: row.lots,
+  }));
 
-  return logs;
+  return {
+    entries,
+    nextCursor: rows.length > limit ? encodeCursor(page[page.length - 1]) : null,
+  };
 }
 
+/** Every log entry matching the filters, page by page (for exports). */
+export async function getAllStockLogs(filters: StockLogFilters = {}): Promise<StockLogResponseEntry[]> {
+  const entries: StockLogResponseEntry[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await getStockLogsService({ ...filters, limit: MAX_STOCK_LOG_LIMIT, cursor });
+    entries.push(...page.entries);
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return entries;
+}
@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { IdempotencyKey, Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export const IDEMPOTENCY_KEY_MAX_LENGTH = 255;
+
+/** Keys older than this are forgotten: the same key then starts a new request. */
+export const IDEMPOTENCY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyStart =
+  | { state: 'new'; id: string } // first request: run it, then completeIdempotentRequest
+  | { state: 'replay'; statusCode: number; body: unknown }; // retry: send the stored response
+
+/** SHA-256 of the request body, to recognise a key reused for a different request. */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(body ?? null))
+    .digest('hex');
+}
+
+function resolveExisting(row: IdempotencyKey, endpoint: string, requestHash: string): IdempotencyStart {
+  if (row.endpoint !== endpoint || row.requestHash !== requestHash) throw new Error('IDEMPOTENCY_KEY_REUSED');
+  if (row.statusCode === null) throw new Error('IDEMPOTENCY_IN_PROGRESS');
+  return { state: 'replay', statusCode: row.statusCode, body: row.responseBody };
+}
+
+/**
+ * Claims an Idempotency-Key for a user's request, or returns the stored response of the request
+ * that already used it. Like slip dedup, the unique (userId, key) pair settles concurrent retries.
+ *
+ * Throws IDEMPOTENCY_KEY_REUSED (same key, different endpoint or body) or IDEMPOTENCY_IN_PROGRESS
+ * (the first request has not answered yet).
+ */
+export async function beginIdempotentRequest(
+  userId: string,
+  key: string,
+  endpoint: string,
+  requestHash: string
+): Promise<IdempotencyStart> {
+  const existing = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+  if (existing) {
+    if (existing.createdAt.getTime() >= Date.now() - IDEMPOTENCY_RETENTION_MS) {
+      return resolveExisting(existing, endpoint, requestHash);
+    }
+    await prisma.idempotencyKey.deleteMany({ where: { id: existing.id } });
+  }
+
+  try {
+    const row = await prisma.idempotencyKey.create({ data: { userId, key, endpoint, requestHash } });
+    return { state: 'new', id: row.id };
+  } catch (e) {
+    // A concurrent retry claimed the key first.
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === 'P2002') {
+      const dup = await prisma.idempotencyKey.findUnique({ where: { userId_key: { userId, key } } });
+      if (dup) return resolveExisting(dup, endpoint, requestHash);
+    }
+    throw e;
+  }
+}
+
+/**
+ * Stores the response of a claimed request (with its stock sessionId) for replay. A server error
+ * releases the key instead, so the retry runs the operation again.
+ */
+export async function completeIdempotentRequest(id: string, statusCode: number, body: unknown): Promise<void> {
+  if (statusCode >= 500) {
+    await releaseIdempotentRequest(id);
+    return;
+  }
+
+  const sessionId =
+    body && typeof body === 'object' && typeof (body as { sessionId?: unknown }).sessionId === 'string'
+      ? (body as { sessionId: string }).sessionId
+      : null;
+
+  await prisma.idempotencyKey.update({
+    where: { id },
+    data: {
+      statusCode,
+      // Stored as sent on the wire (dates as ISO strings)
+      responseBody:
+        body === undefined || body === null
+          ? Prisma.JsonNull
+          : (JSON.parse(JSON.stringify(body)) as Prisma.InputJsonValue),
+      sessionId,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/** Forgets a claimed key whose request ended without a response. */
+export async function releaseIdempotentRequest(id: string): Promise<void> {
+  await prisma.idempotencyKey.deleteMany({ where: { id } });
+}
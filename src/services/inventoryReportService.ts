@@ -0,0 +1,138 @@
+import { prisma } from '../prisma';
+import { getClinicSettings } from './clinicSettingService';
+import { toCsv } from '../utils/csv';
+import { clinicDateTime } from '../utils/date';
+import { PdfColumn, renderTablePdf } from '../utils/pdf';
+import { StockLogFilters, StockLogResponseEntry } from '../types/stock.types';
+import { ProductListItem, ProductListQuery } from '../types/dashboard.types';
+
+export type ReportFormat = 'csv' | 'pdf';
+
+function formatLots(entry: StockLogResponseEntry): string {
+  return entry.lots.map((l) => `${l.lot} × ${l.quantity}`).join('; ');
+}
+
+function formatLocation(entry: StockLogResponseEntry): string {
+  if (entry.toLocationName) return `${entry.locationName ?? ''} → ${entry.toLocationName}`;
+  return entry.locationName ?? '';
+}
+
+function productStatus(p: ProductListItem): string {
+  const flags: string[] = [];
+  if (p.totalQuantity === 0) flags.push('Out of stock');
+  else if (p.warehouseQuantity <= p.minStock) flags.push('Low stock');
+  if (p.isExpired) flags.push('Expired batch');
+  if (p.nearExpiry) flags.push('Near expiry');
+  return flags.join(', ');
+}
+
+/** Movement register layout shared by the CSV and PDF exports of /api/stock/logs. */
+export const STOCK_LOG_REPORT_COLUMNS: PdfColumn<StockLogResponseEntry>[] = [
+  { header: 'Date', width: 11, value: (e) => clinicDateTime(new Date(e.createdAt)) },
+  { header: 'Type', width: 8, value: (e) => e.type },
+  { header: 'Product', width: 22, value: (e) => e.productName },
+  { header: 'Quantity', width: 7, align: 'right', value: (e) => e.totalQuantity },
+  { header: 'Lots', width: 18, value: formatLots },
+  { header: 'Location', width: 14, value: formatLocation },
+  { header: 'Reason', width: 12, value: (e) => e.reason ?? '' },
+  { header: 'User', width: 10, value: (e) => e.createdByName ?? '' },
+  { header: 'Session', width: 10, value: (e) => e.sessionId ?? '' },
+];
+
+/** On-hand listing layout shared by the CSV and PDF exports of /api/products. */
+export const PRODUCT_LIST_REPORT_COLUMNS: PdfColumn<ProductListItem>[] = [
+  { header: 'Product', width: 22, value: (p) => p.name },
+  { header: 'Barcode', width: 12, value: (p) => p.barcode },
+  { header: 'Category', width: 11, value: (p) => p.categoryName ?? '' },
+  { header: 'Unit', width: 7, value: (p) => p.unit },
+  { header: 'Min stock', width: 7, align: 'right', value: (p) => p.minStock },
+  { header: 'Warehouse', width: 8, align: 'right', value: (p) => p.warehouseQuantity },
+  { header: 'In use', width: 7, align: 'right', value: (p) => p.inUseQuantity },
+  { header: 'Total', width: 7, align: 'right', value: (p) => p.totalQuantity },
+  { header: 'Earliest expiry', width: 9, value: (p) => (p.expireDate ? p.expireDate.slice(0, 10) : '') },
+  { header: 'Status', width: 12, value: productStatus },
+];
+
+async function locationName(locationId: string): Promise<string> {
+  const location = await prisma.stockLocation.findUnique({ where: { id: locationId }, select: { name: true } });
+  return location?.name ?? locationId;
+}
+
+async function stockLogDetails(filters: StockLogFilters): Promise<string[]> {
+  const details: string[] = [];
+  if (filters.filter === 'today') details.push('Period: today');
+  else if (filters.filter === '7days') details.push('Period: last 7 days');
+  else if (filters.fromDate || filters.toDate) {
+    details.push(`Period: ${filters.fromDate ?? '…'} to ${filters.toDate ?? '…'}`);
+  }
+  if (filters.type) details.push(`Type: ${filters.type}`);
+  if (filters.locationId) details.push(`Location: ${await locationName(filters.locationId)}`);
+  if (filters.userId) {
+    const user = await prisma.user.findUnique({ where: { id: filters.userId }, select: { name: true } });
+    details.push(`User: ${user?.name ?? filters.userId}`);
+  }
+  return details;
+}
+
+async function productListDetails(query: ProductListQuery): Promise<string[]> {
+  const details: string[] = [];
+  if (query.status) details.push(`Status: ${query.status}`);
+  if (query.search) details.push(`Search: ${query.search}`);
+  if (query.categoryId) {
+    const category = await prisma.productCategory.findUnique({ where: { id: query.categoryId }, select: { name: true } });
+    details.push(`Category: ${category?.name ?? query.categoryId}`);
+  }
+  if (query.locationId) details.push(`Location: ${await locationName(query.locationId)}`);
+  return details;
+}
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  body: string | Buffer;
+}
+
+/**
+ * Movement register file for the given stock-log entries. The PDF is headed by the clinic name
+ * and the filters applied.
+ */
+export async function exportStockLogs(
+  entries: StockLogResponseEntry[],
+  filters: StockLogFilters,
+  format: ReportFormat,
+): Promise<ReportFile> {
+  const filename = `stock-movements-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'csv') {
+    return { filename, contentType: 'text/csv; charset=utf-8', body: toCsv(entries, STOCK_LOG_REPORT_COLUMNS) };
+  }
+  const { clinicName } = await getClinicSettings();
+  const body = await renderTablePdf({
+    clinicName,
+    title: 'Stock movement register',
+    details: await stockLogDetails(filters),
+    columns: STOCK_LOG_REPORT_COLUMNS,
+    rows: entries,
+  });
+  return { filename, contentType: 'application/pdf', body };
+}
+
+/** On-hand listing file for the given products (all pages of the filtered list). */
+export async function exportProductList(
+  items: ProductListItem[],
+  query: ProductListQuery,
+  format: ReportFormat,
+): Promise<ReportFile> {
+  const filename = `stock-on-hand-${new Date().toISOString().slice(0, 10)}.${format}`;
+  if (format === 'csv') {
+    return { filename, contentType: 'text/csv; charset=utf-8', body: toCsv(items, PRODUCT_LIST_REPORT_COLUMNS) };
+  }
+  const { clinicName } = await getClinicSettings();
+  const body = await renderTablePdf({
+    clinicName,
+    title: 'Stock on hand',
+    details: await productListDetails(query),
+    columns: PRODUCT_LIST_REPORT_COLUMNS,
+    rows: items,
+  });
+  return { filename, contentType: 'application/pdf', body };
+}
@@ -0,0 +1,229 @@
+import { StockMovementType } from '@prisma/client';
+import { prisma } from '../prisma';
+import { FIFO_BATCH_ORDER } from './stockOutService';
+import { Decimal, decimalToNumber, round2 } from '../utils/money';
+import { clinicDayRange, rangeUTC } from '../utils/date';
+import {
+  CostOfGoodsProductEntry,
+  CostOfGoodsResponse,
+  InventoryValuationBatchEntry,
+  InventoryValuationProductEntry,
+  InventoryValuationResponse,
+} from '../types/stock.types';
+
+/**
+ * Effect of each movement type on the quantity of its batch (StockMovement.batchId).
+ * DEPLETE names the batch the opened stock came from but only consumes in-use stock, so it never changes a batch.
+ * TRANSFER takes from its source batch and adds the same quantity to toBatchId.
+ */
+export const BATCH_QUANTITY_SIGN: Record<StockMovementType, number> = {
+  IN: 1,
+  OUT: -1,
+  WITHDRAW: -1,
+  DEPLETE: 0,
+  DISPOSE: -1,
+  ADJUST_IN: 1,
+  ADJUST_OUT: -1,
+  TRANSFER: -1,
+};
+
+/** Movement types that take stock out of the warehouse and therefore carry a cost. */
+const CONSUMED_TYPES: StockMovementType[] = ['OUT', 'WITHDRAW'];
+const DISPOSED_TYPES: StockMovementType[] = ['DISPOSE'];
+
+/**
+ * FIFO inventory valuation, per product and per batch.
+ *
+ * Without `asOf` the current batch quantities are valued. With `asOf` (`YYYY-MM-DD`, clinic day)
+ * each batch quantity is rolled back by replaying the movements recorded after the end of that
+ * day in reverse. Batches are valued at their stored unitCost; quantities received without a
+ * cost are reported as unvaluedQuantity rather than silently counted as zero.
+ *
+ * Throws INVALID_DATE when asOf is malformed.
+ */
+export async function getInventoryValuation(asOf?: string): Promise<InventoryValuationResponse> {
+  const cutoff = asOf ? clinicDayRange(asOf).end : null;
+
+  const batches = await prisma.stockBatch.findMany({
+    where: cutoff ? { createdAt: { lt: cutoff } } : {},
+    include: { product: { select: { id: true, name: true, unit: true } } },
+    orderBy: [{ productId: 'asc' }, ...FIFO_BATCH_ORDER],
+  });
+
+  // Net change per batch since the cutoff, to subtract from the current quantity.
+  const laterChange = new Map<string, number>();
+  if (cutoff) {
+    const later = await prisma.stockMovement.groupBy({
+      by: ['batchId', 'type'],
+      where: { createdAt: { gte: cutoff }, batchId: { not: null } },
+      _sum: { quantity: true },
+    });
+    for (const row of later) {
+      if (!row.batchId) continue;
+      const delta = BATCH_QUANTITY_SIGN[row.type] * (row._sum.quantity ?? 0);
+      laterChange.set(row.batchId, (laterChange.get(row.batchId) ?? 0) + delta);
+    }
+
+    const laterTransfersIn = await prisma.stockMovement.groupBy({
+      by: ['toBatchId'],
+      where: { createdAt: { gte: cutoff }, type: 'TRANSFER', toBatchId: { not: null } },
+      _sum: { quantity: true },
+    });
+    for (const row of laterTransfersIn) {
+      if (!row.toBatchId) continue;
+      laterChange.set(row.toBatchId, (laterChange.get(row.toBatchId) ?? 0) + (row._sum.quantity ?? 0));
+    }
+  }
+
+  const products = new Map<string, InventoryValuationProductEntry & { valueDecimal: Decimal }>();
+  let totalValue = new Decimal(0);
+  let totalUnvalued = 0;
+
+  for (const batch of batches) {
+    const quantity = batch.quantity - (laterChange.get(batch.id) ?? 0);
+    if (quantity <= 0) continue;
+
+    let entry = products.get(batch.productId);
+    if (!entry) {
+      entry = {
+        productId: batch.product.id,
+        productName: batch.product.name,
+        unit: batch.product.unit,
+        quantity: 0,
+        value: 0,
+        unvaluedQuantity: 0,
+        batches: [],
+        valueDecimal: new Decimal(0),
+      };
+      products.set(batch.productId, entry);
+    }
+
+    const value = batch.unitCost ? round2(batch.unitCost.times(quantity)) : null;
+    const batchEntry: InventoryValuationBatchEntry = {
+      batchId: batch.id,
+      lotNumber: batch.lotNumber,
+      expireDate: batch.expireDate ? batch.expireDate.toISOString() : null,
+      receivedAt: batch.receivedAt.toISOString(),
+      quantity,
+      unitCost: decimalToNumber(batch.unitCost),
+      value: decimalToNumber(value),
+    };
+    entry.batches.push(batchEntry);
+    entry.quantity += quantity;
+
+    if (value) {
+      entry.valueDecimal = entry.valueDecimal.plus(value);
+      totalValue = totalValue.plus(value);
+    } else {
+      entry.unvaluedQuantity += quantity;
+      totalUnvalued += quantity;
+    }
+  }
+
+  return {
+    asOf: asOf ?? null,
+    totalValue: totalValue.toNumber(),
+    unvaluedQuantity: totalUnvalued,
+    products: Array.from(products.values())
+      .map(({ valueDecimal, ...entry }) => ({ ...entry, value: valueDecimal.toNumber() }))
+      .sort((a, b) => a.productName.localeCompare(b.productName)),
+  };
+}
+
+/**
+ * Cost of goods consumed between two clinic days (inclusive).
+ *
+ * OUT and WITHDRAW movements count as consumed, DISPOSE as disposed. Each movement is costed
+ * at the unitCost captured on it when the batch was deducted, so later cost changes never
+ * rewrite history. Reversed sessions are left out. Movements without a cost are reported as
+ * uncostedQuantity.
+ *
+ * Throws INVALID_DATE for malformed bounds and INVALID_RANGE for to < from or an over-wide span.
+ */
+export async function getCostOfGoodsConsumed(from: string, to: string): Promise<CostOfGoodsResponse> {
+  rangeUTC(from, to); // validates format, order and span
+  const start = clinicDayRange(from).start;
+  const end = clinicDayRange(to).end;
+
+  const movements = await prisma.stockMovement.findMany({
+    where: {
+      type: { in: [...CONSUMED_TYPES, ...DISPOSED_TYPES] },
+      createdAt: { gte: start, lt: end },
+      reversedBySessionId: null, // a reversed session never consumed anything
+    },
+    select: {
+      productId: true,
+      type: true,
+      quantity: true,
+      unitCost: true,
+      product: { select: { name: true, unit: true } },
+    },
+  });
+
+  type Acc = {
+    entry: CostOfGoodsProductEntry;
+    consumedCost: Decimal;
+    disposedCost: Decimal;
+  };
+  const byProduct = new Map<string, Acc>();
+  let consumedTotal = new Decimal(0);
+  let disposedTotal = new Decimal(0);
+  let uncostedTotal = 0;
+
+  for (const m of movements) {
+    let acc = byProduct.get(m.productId);
+    if (!acc) {
+      acc = {
+        entry: {
+          productId: m.productId,
+          productName: m.product.name,
+          unit: m.product.unit,
+          consumedQuantity: 0,
+          consumedCost: 0,
+          disposedQuantity: 0,
+          disposedCost: 0,
+          uncostedQuantity: 0,
+        },
+        consumedCost: new Decimal(0),
+        disposedCost: new Decimal(0),
+      };
+      byProduct.set(m.productId, acc);
+    }
+
+    const cost = m.unitCost ? round2(m.unitCost.times(m.quantity)) : null;
+    if (!cost) {
+      acc.entry.uncostedQuantity += m.quantity;
+      uncostedTotal += m.quantity;
+    }
+
+    if (DISPOSED_TYPES.includes(m.type)) {
+      acc.entry.disposedQuantity += m.quantity;
+      if (cost) {
+        acc.disposedCost = acc.disposedCost.plus(cost);
+        disposedTotal = disposedTotal.plus(cost);
+      }
+    } else {
+      acc.entry.consumedQuantity += m.quantity;
+      if (cost) {
+        acc.consumedCost = acc.consumedCost.plus(cost);
+        consumedTotal = consumedTotal.plus(cost);
+      }
+    }
+  }
+
+  return {
+    from,
+    to,
+    consumedCost: consumedTotal.toNumber(),
+    disposedCost: disposedTotal.toNumber(),
+    totalCost: consumedTotal.plus(disposedTotal).toNumber(),
+    uncostedQuantity: uncostedTotal,
+    products: Array.from(byProduct.values())
+      .map(({ entry, consumedCost, disposedCost }) => ({
+        ...entry,
+        consumedCost: consumedCost.toNumber(),
+        disposedCost: disposedCost.toNumber(),
+      }))
+      .sort((a, b) => b.consumedCost + b.disposedCost - (a.consumedCost + a.disposedCost)),
+  };
+}
@@ -1,4 +1,8 @@
+import { ExpiryDigest } from "../types/stock.types";
+import { PatientAlert } from "../types/patient.types";
+
 const LINE_PUSH_URL = "https://api.line.me/v2/bot/message/push";
+const MAX_DIGEST_ROWS = 5; // per section, keeps the Flex payload well under LINE's size limit
 
 export interface AppointmentNotiParams {
   lineUserId: string;
@@ -8,6 +12,7 @@ export interface AppointmentNotiParams {
   endTime: string; // HH:MM
   treatmentName: string;
   reason?: string;
+  alerts?: PatientAlert[]; // medical alerts, shown on the booking notification
 }
 
 export interface AppointmentRescheduleParams extends AppointmentNotiParams {
@@ -27,6 +32,16 @@ function formatThaiDate(isoDate: string): string {
   });
 }
 
+// Like formatThaiDate, for a full ISO timestamp (shown as its clinic-local day)
+function formatThaiInstant(iso: string): string {
+  return new Date(iso).toLocaleDateString("th-TH", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    timeZone: "Asia/Bangkok",
+  });
+}
+
 function row(label: string, value: string) {
   return {
     type: "box",
@@ -45,6 +60,35 @@ function row(label: string, value: string) {
   };
 }
 
+const ALERT_CATEGORY_LABELS: Record<PatientAlert["category"], string> = {
+  ALLERGY: "แพ้",
+  MEDICATION: "ยา",
+  CONDITION: "โรค/ภาวะ",
+};
+
+// Red "ข้อควรระวัง" box listing the patient's medical alerts; HIGH severity is flagged.
+function alertsBox(alerts: PatientAlert[]) {
+  return {
+    type: "box",
+    layout: "vertical",
+    margin: "xxl",
+    spacing: "sm",
+    backgroundColor: "#FDECEA",
+    cornerRadius: "md",
+    paddingAll: "md",
+    contents: [
+      { type: "text", text: "⚠️ ข้อควรระวัง", weight: "bold", color: "#C62828", size: "sm" },
+      ...alerts.map((a) => ({
+        type: "text",
+        text: `${a.severity === "HIGH" ? "‼️ " : "• "}${ALERT_CATEGORY_LABELS[a.category]}: ${a.name}`,
+        size: "sm",
+        color: "#C62828",
+        wrap: true,
+      })),
+    ],
+  };
+}
+
 // ── Flex builders ─────────────────────────────────────────────────────────────
 
 function buildConfirmBubble(params: AppointmentNotiParams): object {
@@ -236,6 +280,7 @@ function buildNewBookingBubble(params: AppointmentNotiParams): object {
             row("สถานะ", "⏳ รอยืนยัน"),
           ],
         },
+        ...(params.alerts?.length ? [alertsBox(params.alerts)] : []),
         { type: "separator", margin: "xxl" },
         {
           type: "box",
@@ -315,6 +360,93 @@ function buildRescheduleBubble(params: AppointmentRescheduleParams): object {
   };
 }
 
+function digestSection(title: string, color: string, lines: string[], total: number): object[] {
+  if (total === 0) return [];
+  const more = total - lines.length;
+  return [
+    { type: "separator", margin: "lg" },
+    {
+      type: "text",
+      text: `${title} (${total})`,
+      weight: "bold",
+      color,
+      size: "sm",
+      margin: "lg",
+    },
+    ...lines.map((text) => ({ type: "text", text, size: "xs", color: "#111111", wrap: true })),
+    ...(more > 0
+      ? [{ type: "text", text: `และอีก ${more} รายการ`, size: "xs", color: "#aaaaaa" }]
+      : []),
+  ];
+}
+
+function buildStockDigestBubble(digest: ExpiryDigest): object {
+  const batchLine = (b: ExpiryDigest["expired"][number]) =>
+    `${b.productName} · Lot ${b.lotNumber} · ${b.quantity} ${b.unit} · ${formatThaiDate(b.expireDate)}`;
+
+  let previous = 0;
+  const windowSections = digest.windows.flatMap((w) => {
+    const title = previous === 0 ? `หมดอายุภายใน ${w.days} วัน` : `หมดอายุใน ${previous + 1}–${w.days} วัน`;
+    previous = w.days;
+    return digestSection(title, "#F5A623", w.batches.slice(0, MAX_DIGEST_ROWS).map(batchLine), w.batches.length);
+  });
+
+  return {
+    type: "bubble",
+    body: {
+      type: "box",
+      layout: "vertical",
+      contents: [
+        {
+          type: "text",
+          text: "สรุปสต็อกประจำวัน",
+          weight: "bold",
+          color: "#1d9bf5",
+          size: "sm",
+        },
+        {
+          type: "text",
+          text: formatThaiDate(digest.today),
+          weight: "bold",
+          size: "xl",
+          margin: "md",
+        },
+        ...digestSection(
+          "หมดอายุแล้ว",
+          "#E8512A",
+          digest.expired.slice(0, MAX_DIGEST_ROWS).map(batchLine),
+          digest.expired.length,
+        ),
+        ...windowSections,
+        ...digestSection(
+          "สต็อกต่ำ",
+          "#E8512A",
+          digest.lowStock
+            .slice(0, MAX_DIGEST_ROWS)
+            .map((p) => `${p.productName} · ${p.quantity}/${p.minStock} ${p.unit}`),
+          digest.lowStock.length,
+        ),
+        ...digestSection(
+          "เปิดใช้เกินกำหนด",
+          "#E8512A",
+          digest.openedPastUseBy
+            .slice(0, MAX_DIGEST_ROWS)
+            .map((u) => `${u.productName} · Lot ${u.lotNumber} · ${u.quantity} ${u.unit} · ใช้ได้ถึง ${formatThaiInstant(u.useBy!)}`),
+          digest.openedPastUseBy.length,
+        ),
+        { type: "separator", margin: "xxl" },
+        {
+          type: "box",
+          layout: "horizontal",
+          margin: "md",
+          contents: [{ type: "text", text: "🦷 Smilist Dental Clinic", size: "xs", color: "#aaaaaa" }],
+        },
+      ],
+    },
+    styles: { footer: { separator: true } },
+  };
+}
+
 // ── Exports ───────────────────────────────────────────────────────────────────
 
 export async function sendAppointmentConfirmed(
@@ -356,3 +488,14 @@ export async function sendAppointmentRescheduled(
     buildRescheduleBubble(params),
   );
 }
+
+export async function sendStockDigest(
+  lineUserId: string,
+  digest: ExpiryDigest,
+): Promise<void> {
+  await pushFlex(
+    lineUserId,
+    `สรุปสต็อก – ${digest.today}`,
+    buildStockDigestBubble(digest),
+  );
+}
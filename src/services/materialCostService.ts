@@ -0,0 +1,158 @@
+import { prisma } from '../prisma';
+import { Decimal, round2 } from '../utils/money';
+import { rangeUTC, recordDateKey } from '../utils/date';
+
+export interface MaterialCostRecordEntry {
+  dailyRecordId: string;
+  recordDate: string; // YYYY-MM-DD
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  treatmentNote: string;
+  treatmentTypeIds: string[];
+  materialCost: number;
+  uncostedQuantity: number; // units consumed without a captured unit cost
+}
+
+export interface MaterialCostDoctorEntry {
+  doctorId: string;
+  doctorName: string;
+  recordCount: number;
+  materialCost: number;
+}
+
+export interface MaterialCostTreatmentTypeEntry {
+  treatmentTypeId: string;
+  treatmentTypeName: string;
+  recordCount: number;
+  materialCost: number;
+  averageCost: number;
+}
+
+export interface MaterialCostReport {
+  from: string;
+  to: string;
+  totalMaterialCost: number;
+  records: MaterialCostRecordEntry[];
+  byDoctor: MaterialCostDoctorEntry[];
+  byTreatmentType: MaterialCostTreatmentTypeEntry[];
+}
+
+/**
+ * Material cost of treatments over [from..to] (record dates, inclusive), from OUT/WITHDRAW
+ * movements linked to a DailyRecord at the unit cost captured on each movement. Reversed sessions
+ * are left out. A record with several treatment types shares its cost evenly between them.
+ *
+ * @param doctorId - Optional: restrict to one doctor's records (null = clinic-wide)
+ */
+export async function getMaterialCostReport(
+  from: string,
+  to: string,
+  doctorId: string | null,
+): Promise<MaterialCostReport> {
+  const { start, end } = rangeUTC(from, to);
+
+  const movements = await prisma.stockMovement.findMany({
+    where: {
+      type: { in: ['OUT', 'WITHDRAW'] },
+      reversedBySessionId: null,
+      dailyRecord: {
+        recordDate: { gte: start, lt: end },
+        ...(doctorId ? { doctorId } : {}),
+      },
+    },
+    select: {
+      quantity: true,
+      unitCost: true,
+      dailyRecord: {
+        select: {
+          id: true,
+          recordDate: true,
+          patientName: true,
+          doctorId: true,
+          treatmentNote: true,
+          treatmentTypeIds: true,
+          doctor: { select: { name: true } },
+        },
+      },
+    },
+  });
+
+  const records = new Map<string, MaterialCostRecordEntry & { cost: Decimal }>();
+  for (const m of movements) {
+    const r = m.dailyRecord!;
+    let entry = records.get(r.id);
+    if (!entry) {
+      entry = {
+        dailyRecordId: r.id,
+        recordDate: recordDateKey(r.recordDate),
+        patientName: r.patientName,
+        doctorId: r.doctorId,
+        doctorName: r.doctor.name,
+        treatmentNote: r.treatmentNote,
+        treatmentTypeIds: r.treatmentTypeIds,
+        materialCost: 0,
+        uncostedQuantity: 0,
+        cost: new Decimal(0),
+      };
+      records.set(r.id, entry);
+    }
+    if (m.unitCost) {
+      entry.cost = entry.cost.plus(m.unitCost.times(m.quantity));
+    } else {
+      entry.uncostedQuantity += m.quantity;
+    }
+  }
+
+  const byDoctor = new Map<string, { entry: MaterialCostDoctorEntry; cost: Decimal }>();
+  const byType = new Map<string, { recordCount: number; cost: Decimal }>();
+  let total = new Decimal(0);
+
+  for (const entry of records.values()) {
+    entry.cost = round2(entry.cost);
+    entry.materialCost = entry.cost.toNumber();
+    total = total.plus(entry.cost);
+
+    const doctor = byDoctor.get(entry.doctorId) ?? {
+      entry: { doctorId: entry.doctorId, doctorName: entry.doctorName, recordCount: 0, materialCost: 0 },
+      cost: new Decimal(0),
+    };
+    doctor.entry.recordCount += 1;
+    doctor.cost = doctor.cost.plus(entry.cost);
+    byDoctor.set(entry.doctorId, doctor);
+
+    const share = entry.treatmentTypeIds.length > 0 ? entry.cost.div(entry.treatmentTypeIds.length) : null;
+    for (const typeId of entry.treatmentTypeIds) {
+      const type = byType.get(typeId) ?? { recordCount: 0, cost: new Decimal(0) };
+      type.recordCount += 1;
+      type.cost = type.cost.plus(share!);
+      byType.set(typeId, type);
+    }
+  }
+
+  const types = byType.size
+    ? await prisma.treatmentType.findMany({ where: { id: { in: [...byType.keys()] } }, select: { id: true, name: true } })
+    : [];
+  const typeNames = new Map(types.map((t) => [t.id, t.name]));
+
+  return {
+    from,
+    to,
+    totalMaterialCost: total.toNumber(),
+    records: Array.from(records.values())
+      .map(({ cost, ...entry }) => entry)
+      .sort((a, b) => a.recordDate.localeCompare(b.recordDate)),
+    byDoctor: Array.from(byDoctor.values())
+      .map(({ entry, cost }) => ({ ...entry, materialCost: cost.toNumber() }))
+      .sort((a, b) => b.materialCost - a.materialCost),
+    byTreatmentType: Array.from(byType.entries())
+      .map(([treatmentTypeId, t]) => ({
+        treatmentTypeId,
+        treatmentTypeName: typeNames.get(treatmentTypeId) ?? '',
+        recordCount: t.recordCount,
+        materialCost: round2(t.cost).toNumber(),
+        averageCost: round2(t.cost.div(t.recordCount)).toNumber(),
+      }))
+      .sort((a, b) => b.materialCost - a.materialCost),
+  };
+}
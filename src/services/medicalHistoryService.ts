@@ -0,0 +1,133 @@
+import { MedicalHistoryEntry } from '@prisma/client';
+import { prisma } from '../prisma';
+import { clinicToday, parseRecordDate, recordDateKey } from '../utils/date';
+import {
+  MedicalAlertSeverity,
+  MedicalHistoryCategory,
+  MedicalHistoryEntryInput,
+  MedicalHistoryEntryResponse,
+  PatientAlert,
+} from '../types/patient.types';
+
+export const MEDICAL_HISTORY_CATEGORIES: MedicalHistoryCategory[] = ['ALLERGY', 'MEDICATION', 'CONDITION'];
+export const MEDICAL_ALERT_SEVERITIES: MedicalAlertSeverity[] = ['LOW', 'MODERATE', 'HIGH'];
+
+const SEVERITY_RANK: Record<MedicalAlertSeverity, number> = { HIGH: 0, MODERATE: 1, LOW: 2 };
+const CATEGORY_RANK: Record<MedicalHistoryCategory, number> = { ALLERGY: 0, MEDICATION: 1, CONDITION: 2 };
+
+type AlertSource = Pick<MedicalHistoryEntry, 'id' | 'category' | 'name' | 'severity' | 'notes' | 'endedAt'>;
+
+/** Ongoing as of the clinic's today: no end date, or ending today or later. */
+function isOngoing(entry: Pick<MedicalHistoryEntry, 'endedAt'>): boolean {
+  return !entry.endedAt || recordDateKey(entry.endedAt) >= clinicToday();
+}
+
+/**
+ * Alerts from a patient's medical history entries (as loaded with the patient): the ongoing
+ * ones, most severe first, then allergies before medication before conditions.
+ */
+export function toPatientAlerts(entries: AlertSource[] | undefined): PatientAlert[] {
+  return (entries ?? [])
+    .filter(isOngoing)
+    .sort(
+      (a, b) =>
+        SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+        CATEGORY_RANK[a.category] - CATEGORY_RANK[b.category] ||
+        a.name.localeCompare(b.name)
+    )
+    .map((e) => ({ id: e.id, category: e.category, name: e.name, severity: e.severity, notes: e.notes }));
+}
+
+function toResponse(e: MedicalHistoryEntry): MedicalHistoryEntryResponse {
+  return {
+    id: e.id,
+    category: e.category,
+    name: e.name,
+    severity: e.severity,
+    notes: e.notes,
+    startedAt: e.startedAt ? recordDateKey(e.startedAt) : null,
+    endedAt: e.endedAt ? recordDateKey(e.endedAt) : null,
+    active: isOngoing(e),
+    createdById: e.createdById,
+    createdAt: e.createdAt.toISOString(),
+    updatedAt: e.updatedAt.toISOString(),
+  };
+}
+
+function parseOptionalDate(value: string | null | undefined): Date | null {
+  return value === null || value === undefined || value === '' ? null : parseRecordDate(value);
+}
+
+/**
+ * Validated column values for a full entry. Throws INVALID_CATEGORY, INVALID_SEVERITY,
+ * INVALID_HISTORY_NAME, INVALID_DATE or INVALID_DATE_RANGE (ended before it started).
+ */
+function buildEntryData(input: MedicalHistoryEntryInput) {
+  if (!MEDICAL_HISTORY_CATEGORIES.includes(input.category)) throw new Error('INVALID_CATEGORY');
+  const severity = input.severity ?? 'MODERATE';
+  if (!MEDICAL_ALERT_SEVERITIES.includes(severity)) throw new Error('INVALID_SEVERITY');
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw new Error('INVALID_HISTORY_NAME');
+  const startedAt = parseOptionalDate(input.startedAt);
+  const endedAt = parseOptionalDate(input.endedAt);
+  if (startedAt && endedAt && endedAt < startedAt) throw new Error('INVALID_DATE_RANGE');
+
+  return { category: input.category, name, severity, notes: input.notes?.trim() || null, startedAt, endedAt };
+}
+
+/** Whole medical history of a patient, ongoing entries first. Throws PATIENT_NOT_FOUND. */
+export async function listMedicalHistory(patientId: string): Promise<MedicalHistoryEntryResponse[]> {
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const entries = await prisma.medicalHistoryEntry.findMany({
+    where: { patientId },
+    orderBy: [{ createdAt: 'desc' }],
+  });
+  return entries.map(toResponse).sort((a, b) => Number(b.active) - Number(a.active));
+}
+
+export async function addMedicalHistoryEntry(
+  patientId: string,
+  input: MedicalHistoryEntryInput,
+  userId: string | null = null
+): Promise<MedicalHistoryEntryResponse> {
+  const data = buildEntryData(input);
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const entry = await prisma.medicalHistoryEntry.create({ data: { ...data, patientId, createdById: userId } });
+  return toResponse(entry);
+}
+
+/**
+ * Edits an entry; fields left out keep their value. Ending an ongoing entry (endedAt) turns its
+ * alert off while keeping the history. Throws MEDICAL_HISTORY_NOT_FOUND.
+ */
+export async function updateMedicalHistoryEntry(
+  patientId: string,
+  entryId: string,
+  input: Partial<MedicalHistoryEntryInput>
+): Promise<MedicalHistoryEntryResponse> {
+  const existing = await prisma.medicalHistoryEntry.findFirst({ where: { id: entryId, patientId } });
+  if (!existing) throw new Error('MEDICAL_HISTORY_NOT_FOUND');
+
+  const data = buildEntryData({
+    category: input.category ?? existing.category,
+    name: input.name ?? existing.name,
+    severity: input.severity ?? existing.severity,
+    notes: input.notes !== undefined ? input.notes : existing.notes,
+    startedAt:
+      input.startedAt !== undefined ? input.startedAt : existing.startedAt ? recordDateKey(existing.startedAt) : null,
+    endedAt: input.endedAt !== undefined ? input.endedAt : existing.endedAt ? recordDateKey(existing.endedAt) : null,
+  });
+
+  const entry = await prisma.medicalHistoryEntry.update({ where: { id: entryId }, data });
+  return toResponse(entry);
+}
+
+/** Removes an entry recorded by mistake. Throws MEDICAL_HISTORY_NOT_FOUND. */
+export async function deleteMedicalHistoryEntry(patientId: string, entryId: string): Promise<void> {
+  const { count } = await prisma.medicalHistoryEntry.deleteMany({ where: { id: entryId, patientId } });
+  if (count === 0) throw new Error('MEDICAL_HISTORY_NOT_FOUND');
+}
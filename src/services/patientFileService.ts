@@ -0,0 +1,260 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { PatientFile } from '@prisma/client';
+import { prisma } from '../prisma';
+import { getFileStorage } from './fileStorageService';
+import {
+  PatientFileCategory,
+  PatientFileResponse,
+  PhotoMigrationResult,
+  UploadPatientFileInput,
+} from '../types/patient.types';
+
+export const PATIENT_FILE_CATEGORIES: PatientFileCategory[] = ['PROFILE_PHOTO', 'XRAY', 'CONSENT_FORM', 'INTRAORAL_PHOTO'];
+
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const ALLOWED_TYPES: Record<PatientFileCategory, string[]> = {
+  PROFILE_PHOTO: IMAGE_TYPES,
+  INTRAORAL_PHOTO: IMAGE_TYPES,
+  XRAY: ['image/jpeg', 'image/png'], // exported from the X-ray software; DICOM is not supported
+  CONSENT_FORM: ['application/pdf', 'image/jpeg', 'image/png'], // signed PDF or a photo of the paper form
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+const THUMBNAIL_SIZE = 256;
+
+/** Largest accepted upload in bytes (FILE_UPLOAD_MAX_MB, default 10). */
+export function maxUploadBytes(): number {
+  const mb = Number(process.env.FILE_UPLOAD_MAX_MB);
+  return (Number.isFinite(mb) && mb > 0 ? mb : 10) * 1024 * 1024;
+}
+
+/** `image/JPEG; charset=x` → `image/jpeg`; `image/jpg` is a common alias. */
+function normalizeContentType(contentType: string): string {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === 'image/jpg' ? 'image/jpeg' : type;
+}
+
+// The declared Content-Type is only trusted when the file starts with that format's signature.
+function detectContentType(body: Buffer): string | null {
+  if (body.length >= 3 && body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) return 'image/jpeg';
+  if (body.length >= 8 && body.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (body.length >= 12 && body.toString('ascii', 0, 4) === 'RIFF' && body.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (body.length >= 5 && body.toString('ascii', 0, 5) === '%PDF-') return 'application/pdf';
+  return null;
+}
+
+/** Keeps the base name only (no client paths) and falls back to `<category>.<ext>`. */
+function cleanFileName(fileName: string | null | undefined, category: PatientFileCategory, ext: string): string {
+  const base = path.basename((fileName ?? '').replace(/\\/g, '/')).trim().slice(0, 200);
+  return base || `${category.toLowerCase()}.${ext}`;
+}
+
+function toResponse(file: PatientFile): PatientFileResponse {
+  return {
+    id: file.id,
+    patientId: file.patientId,
+    category: file.category,
+    fileName: file.fileName,
+    contentType: file.contentType,
+    size: file.size,
+    hasThumbnail: file.thumbnailKey !== null,
+    note: file.note,
+    uploadedById: file.uploadedById,
+    createdAt: file.createdAt.toISOString(),
+  };
+}
+
+/** Files of a patient, newest first, optionally of one category. Throws PATIENT_NOT_FOUND. */
+export async function listPatientFiles(
+  patientId: string,
+  category?: PatientFileCategory
+): Promise<PatientFileResponse[]> {
+  if (category !== undefined && !PATIENT_FILE_CATEGORIES.includes(category)) throw new Error('INVALID_FILE_CATEGORY');
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const files = await prisma.patientFile.findMany({
+    where: { patientId, ...(category ? { category } : {}) },
+    orderBy: { createdAt: 'desc' },
+  });
+  return files.map(toResponse);
+}
+
+/**
+ * Checks category, type and size of an upload before anything is stored; returns the normalized
+ * content type. Throws INVALID_FILE_CATEGORY, UNSUPPORTED_CONTENT_TYPE (not allowed for the
+ * category), FILE_TOO_LARGE or INVALID_FILE_CONTENT (empty, or bytes not matching the type).
+ */
+export function validateUpload(input: UploadPatientFileInput): string {
+  if (!PATIENT_FILE_CATEGORIES.includes(input.category)) throw new Error('INVALID_FILE_CATEGORY');
+  const contentType = normalizeContentType(input.contentType);
+  if (!ALLOWED_TYPES[input.category].includes(contentType)) throw new Error('UNSUPPORTED_CONTENT_TYPE');
+  if (input.body.length > maxUploadBytes()) throw new Error('FILE_TOO_LARGE');
+  if (input.body.length === 0 || detectContentType(input.body) !== contentType) throw new Error('INVALID_FILE_CONTENT');
+  return contentType;
+}
+
+/**
+ * Validates (see validateUpload) and stores an uploaded file, with a JPEG thumbnail for images.
+ *
+ * Also throws INVALID_FILE_CONTENT for an image that cannot be decoded, and PATIENT_NOT_FOUND.
+ */
+export async function uploadPatientFile(
+  patientId: string,
+  input: UploadPatientFileInput,
+  userId: string | null = null
+): Promise<PatientFileResponse> {
+  const contentType = validateUpload(input);
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  let thumbnail: Buffer | null = null;
+  if (IMAGE_TYPES.includes(contentType)) {
+    try {
+      thumbnail = await sharp(input.body)
+        .rotate() // apply EXIF orientation (phone photos)
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+    } catch {
+      throw new Error('INVALID_FILE_CONTENT');
+    }
+  }
+
+  const ext = EXTENSIONS[contentType];
+  const id = randomUUID();
+  const storageKey = `patients/${patientId}/${id}.${ext}`;
+  const thumbnailKey = thumbnail ? `patients/${patientId}/${id}.thumb.jpg` : null;
+
+  const storage = getFileStorage();
+  await storage.put(storageKey, input.body, contentType);
+  try {
+    if (thumbnail && thumbnailKey) await storage.put(thumbnailKey, thumbnail, 'image/jpeg');
+    const file = await prisma.patientFile.create({
+      data: {
+        id,
+        patientId,
+        category: input.category,
+        fileName: cleanFileName(input.fileName, input.category, ext),
+        contentType,
+        size: input.body.length,
+        storageDriver: storage.driver,
+        storageKey,
+        thumbnailKey,
+        note: input.note?.trim() || null,
+        uploadedById: userId,
+      },
+    });
+    return toResponse(file);
+  } catch (e) {
+    await removeStoredObjects([{ storageKey, thumbnailKey }]);
+    throw e;
+  }
+}
+
+/**
+ * The bytes of a file (or of its thumbnail). Throws FILE_NOT_FOUND (also for a thumbnail of a
+ * non-image) or STORED_FILE_MISSING (row exists but the storage has no object).
+ *
+ * Objects are read from the configured storage: when switching FILE_STORAGE_DRIVER, copy the
+ * existing objects over with the same keys.
+ */
+export async function getPatientFileContent(
+  patientId: string,
+  fileId: string,
+  thumbnail = false
+): Promise<{ file: PatientFileResponse; contentType: string; body: Buffer }> {
+  const file = await prisma.patientFile.findFirst({ where: { id: fileId, patientId } });
+  if (!file) throw new Error('FILE_NOT_FOUND');
+
+  if (thumbnail) {
+    if (!file.thumbnailKey) throw new Error('FILE_NOT_FOUND');
+    return { file: toResponse(file), contentType: 'image/jpeg', body: await getFileStorage().get(file.thumbnailKey) };
+  }
+  return { file: toResponse(file), contentType: file.contentType, body: await getFileStorage().get(file.storageKey) };
+}
+
+/** Deletes a file and its stored objects. Throws FILE_NOT_FOUND. */
+export async function deletePatientFile(patientId: string, fileId: string): Promise<void> {
+  const file = await prisma.patientFile.findFirst({ where: { id: fileId, patientId } });
+  if (!file) throw new Error('FILE_NOT_FOUND');
+
+  await prisma.patientFile.delete({ where: { id: fileId } });
+  await removeStoredObjects([file]);
+}
+
+/**
+ * Best-effort removal of stored objects whose rows are gone (or were never written). A failure
+ * only leaves an orphaned object behind, so it is logged rather than thrown.
+ */
+export async function removeStoredObjects(
+  files: Pick<PatientFile, 'storageKey' | 'thumbnailKey'>[]
+): Promise<void> {
+  const storage = getFileStorage();
+  const keys = files.flatMap((f) => (f.thumbnailKey ? [f.storageKey, f.thumbnailKey] : [f.storageKey]));
+  for (const key of keys) {
+    try {
+      await storage.delete(key);
+    } catch (e) {
+      console.error(`Failed to delete stored file ${key}:`, e);
+    }
+  }
+}
+
+/**
+ * A legacy `data:image/...;base64,...` photo as a PROFILE_PHOTO upload, validated (see
+ * validateUpload). Throws INVALID_FILE_CONTENT for a malformed data URL.
+ */
+export function parsePhotoDataUrl(dataUrl: string): UploadPatientFileInput {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl.trim());
+  if (!match) throw new Error('INVALID_FILE_CONTENT');
+  const input: UploadPatientFileInput = {
+    category: 'PROFILE_PHOTO',
+    contentType: match[1],
+    body: Buffer.from(match[2], 'base64'),
+  };
+  validateUpload(input);
+  return input;
+}
+
+/**
+ * One-off move of photos still stored inline in `patients.photoBase64` into file storage: each
+ * becomes a PROFILE_PHOTO file and the column is cleared. Safe to re-run; photos that cannot be
+ * stored (unsupported format, undecodable) are reported and stay in the column.
+ */
+export async function migratePatientPhotos(batchSize = 50): Promise<PhotoMigrationResult> {
+  const result: PhotoMigrationResult = { migrated: 0, failed: [] };
+
+  for (;;) {
+    const patients = await prisma.patient.findMany({
+      where: { photoBase64: { not: null }, id: { notIn: result.failed.map((f) => f.patientId) } },
+      select: { id: true, photoBase64: true },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    });
+    if (patients.length === 0) return result;
+
+    for (const p of patients) {
+      try {
+        await uploadPatientFile(p.id, parsePhotoDataUrl(p.photoBase64!));
+        await prisma.patient.update({ where: { id: p.id }, data: { photoBase64: null } });
+        result.migrated += 1;
+      } catch (e) {
+        result.failed.push({ patientId: p.id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+  }
+}
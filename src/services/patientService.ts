@@ -1,6 +1,14 @@
 import { Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
 import { CreatePatientRequest, UpdatePatientRequest, PatientResponse } from '../types/patient.types';
+import { toPatientAlerts } from './medicalHistoryService';
+import { deletePatientFile, parsePhotoDataUrl, removeStoredObjects, uploadPatientFile } from './patientFileService';
+
+/** Loaded with every patient so responses carry their medical alerts and current photo. */
+const PATIENT_INCLUDE = {
+  medicalHistory: true,
+  files: { where: { category: 'PROFILE_PHOTO' }, orderBy: { createdAt: 'desc' }, take: 1, select: { id: true } },
+} as const;
 
 /**
  * Compute age in full years from date of birth to today.
@@ -21,7 +29,8 @@ export function computeAge(dateOfBirth: Date): number {
 
 /**
  * Format a Prisma patient record into a PatientResponse.
- * Converts DateTime fields to ISO strings and appends computed age.
+ * Converts DateTime fields to ISO strings and appends computed age, the medical alerts
+ * (from `medicalHistory`, when loaded) and the latest profile photo file (from `files`).
  */
 export function formatPatientResponse(patient: any): PatientResponse {
   return {
@@ -38,7 +47,9 @@ export function formatPatientResponse(patient: any): PatientResponse {
     address: patient.address,
     note: patient.note,
     photoBase64: patient.photoBase64,
+    photoFileId: patient.files?.[0]?.id ?? null,
     age: computeAge(patient.dateOfBirth),
+    alerts: toPatientAlerts(patient.medicalHistory),
     createdAt: patient.createdAt.toISOString(),
     updatedAt: patient.updatedAt.toISOString(),
   };
@@ -47,8 +58,9 @@ export function formatPatientResponse(patient: any): PatientResponse {
 /**
  * Create a new patient record.
  * Enforces uniqueness on both `dn` and `nationalId`.
+ * A `photoBase64` data URL is stored as the patient's PROFILE_PHOTO file, not on the row.
  */
-export async function createPatient(data: CreatePatientRequest): Promise<PatientResponse> {
+export async function createPatient(data: CreatePatientRequest, userId: string | null = null): Promise<PatientResponse> {
   const existing = await prisma.patient.findFirst({
     where: { OR: [{ dn: data.dn }, { nationalId: data.nationalId }] },
     select: { dn: true, nationalId: true },
@@ -58,6 +70,7 @@ export async function createPatient(data: CreatePatientRequest): Promise<Patient
     throw new Error('DUPLICATE_NATIONAL_ID');
   }
 
+  const photo = data.photoBase64 ? parsePhotoDataUrl(data.photoBase64) : null;
   const dateOfBirth = new Date(data.dateOfBirth);
 
   const patient = await prisma.patient.create({
@@ -73,10 +86,20 @@ export async function createPatient(data: CreatePatientRequest): Promise<Patient
       cardNo: data.cardNo,
       address: data.address,
       note: data.note,
-      photoBase64: data.photoBase64,
     },
+    include: PATIENT_INCLUDE,
   });
 
+  if (photo) {
+    try {
+      const file = await uploadPatientFile(patient.id, photo, userId);
+      return formatPatientResponse({ ...patient, files: [{ id: file.id }] });
+    } catch (e) {
+      // e.g. an undecodable image: don't leave a half-registered patient behind
+      await prisma.patient.delete({ where: { id: patient.id } });
+      throw e;
+    }
+  }
   return formatPatientResponse(patient);
 }
 
@@ -107,29 +130,40 @@ export async function listPatients(params: ListPatientsParams = {}): Promise<Pat
     : {};
 
   const args: Prisma.PatientFindManyArgs = params.all
-    ? { where, orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }] }
-    : { where, orderBy: { createdAt: 'desc' }, take: Math.min(Math.max(params.limit ?? 50, 1), 200) };
+    ? { where, include: PATIENT_INCLUDE, orderBy: [{ lastName: 'asc' }, { firstName: 'asc' }] }
+    : {
+        where,
+        include: PATIENT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        take: Math.min(Math.max(params.limit ?? 50, 1), 200),
+      };
 
   const patients = await prisma.patient.findMany(args);
   return patients.map(formatPatientResponse);
 }
 
 export async function getPatientById(id: string): Promise<PatientResponse> {
-  const patient = await prisma.patient.findUnique({ where: { id } });
+  const patient = await prisma.patient.findUnique({ where: { id }, include: PATIENT_INCLUDE });
   if (!patient) throw new Error('PATIENT_NOT_FOUND');
   return formatPatientResponse(patient);
 }
 
 export async function getPatientByDn(dn: string): Promise<PatientResponse> {
-  const patient = await prisma.patient.findUnique({ where: { dn } });
+  const patient = await prisma.patient.findUnique({ where: { dn }, include: PATIENT_INCLUDE });
   if (!patient) throw new Error('PATIENT_NOT_FOUND');
   return formatPatientResponse(patient);
 }
 
 /**
  * Update a patient. Re-checks uniqueness when `dn` or `nationalId` change.
+ * A `photoBase64` data URL becomes a new PROFILE_PHOTO file; null removes the profile photos.
+ * Either way the legacy inline photo is cleared.
  */
-export async function updatePatient(id: string, data: UpdatePatientRequest): Promise<PatientResponse> {
+export async function updatePatient(
+  id: string,
+  data: UpdatePatientRequest,
+  userId: string | null = null
+): Promise<PatientResponse> {
   const existing = await prisma.patient.findUnique({ where: { id } });
   if (!existing) throw new Error('PATIENT_NOT_FOUND');
 
@@ -152,31 +186,55 @@ export async function updatePatient(id: string, data: UpdatePatientRequest): Pro
     }
   }
 
-  const patient = await prisma.patient.update({
-    where: { id },
-    data: {
-      ...(data.dn !== undefined ? { dn: data.dn } : {}),
-      ...(data.nationalId !== undefined ? { nationalId: data.nationalId } : {}),
-      ...(data.titlePrefix !== undefined ? { titlePrefix: data.titlePrefix } : {}),
-      ...(data.firstName !== undefined ? { firstName: data.firstName } : {}),
-      ...(data.lastName !== undefined ? { lastName: data.lastName } : {}),
-      ...(data.dateOfBirth !== undefined ? { dateOfBirth: new Date(data.dateOfBirth) } : {}),
-      ...(data.gender !== undefined ? { gender: data.gender } : {}),
-      ...(data.cardNo !== undefined ? { cardNo: data.cardNo } : {}),
-      ...(data.address !== undefined ? { address: data.address } : {}),
-      ...(data.note !== undefined ? { note: data.note } : {}),
-      ...(data.photoBase64 !== undefined ? { photoBase64: data.photoBase64 } : {}),
-    },
-  });
+  // Stored first so an undecodable photo fails the whole update; removed again if the row update fails.
+  const uploaded = data.photoBase64
+    ? await uploadPatientFile(id, parsePhotoDataUrl(data.photoBase64), userId)
+    : null;
+
+  let patient;
+  try {
+    patient = await prisma.patient.update({
+      where: { id },
+      data: {
+        ...(data.dn !== undefined ? { dn: data.dn } : {}),
+        ...(data.nationalId !== undefined ? { nationalId: data.nationalId } : {}),
+        ...(data.titlePrefix !== undefined ? { titlePrefix: data.titlePrefix } : {}),
+        ...(data.firstName !== undefined ? { firstName: data.firstName } : {}),
+        ...(data.lastName !== undefined ? { lastName: data.lastName } : {}),
+        ...(data.dateOfBirth !== undefined ? { dateOfBirth: new Date(data.dateOfBirth) } : {}),
+        ...(data.gender !== undefined ? { gender: data.gender } : {}),
+        ...(data.cardNo !== undefined ? { cardNo: data.cardNo } : {}),
+        ...(data.address !== undefined ? { address: data.address } : {}),
+        ...(data.note !== undefined ? { note: data.note } : {}),
+        ...(data.photoBase64 !== undefined ? { photoBase64: null } : {}),
+      },
+      include: PATIENT_INCLUDE,
+    });
+  } catch (e) {
+    if (uploaded) await deletePatientFile(id, uploaded.id);
+    throw e;
+  }
+
+  if (data.photoBase64 === null) {
+    const photos = await prisma.patientFile.findMany({ where: { patientId: id, category: 'PROFILE_PHOTO' } });
+    await prisma.patientFile.deleteMany({ where: { id: { in: photos.map((p) => p.id) } } });
+    await removeStoredObjects(photos);
+    return formatPatientResponse({ ...patient, files: [] });
+  }
   return formatPatientResponse(patient);
 }
 
 /**
  * Hard-delete a patient. Linked daily_records keep their dn/patientName snapshot
- * (FK is ON DELETE SET NULL), so the income audit trail is preserved.
+ * (FK is ON DELETE SET NULL), so the income audit trail is preserved. File rows cascade;
+ * their stored objects are removed afterwards.
  */
 export async function deletePatient(id: string): Promise<void> {
-  const existing = await prisma.patient.findUnique({ where: { id } });
+  const existing = await prisma.patient.findUnique({
+    where: { id },
+    include: { files: { select: { storageKey: true, thumbnailKey: true } } },
+  });
   if (!existing) throw new Error('PATIENT_NOT_FOUND');
   await prisma.patient.delete({ where: { id } });
+  await removeStoredObjects(existing.files);
 }
@@ -0,0 +1,126 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Decimal, decimalToNumber } from '../utils/money';
+import { clinicDateTime, recordDateKey } from '../utils/date';
+import { PatientTimelineEntry, PatientTimelineResponse, TimelineVisitEntry } from '../types/patient.types';
+
+/**
+ * A patient's visits (DailyRecord), appointments (every status, so cancellations and no-shows
+ * show) and the transfer slips linked to their visits, newest first, with money totals.
+ *
+ * A CASH visit is settled at the desk; a TRANSFER visit stays outstanding until slips covering
+ * its total are linked to it. A DOCTOR only gets their own visits and appointments (and the
+ * payments of those visits), so the totals cover only those too.
+ *
+ * Throws PATIENT_NOT_FOUND.
+ */
+export async function getPatientTimeline(
+  patientId: string,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<PatientTimelineResponse> {
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const doctorFilter = role === UserRole.DOCTOR ? { doctorId: userDoctorId ?? '' } : {};
+
+  const [records, appointments] = await Promise.all([
+    prisma.dailyRecord.findMany({
+      where: { patientId, ...doctorFilter },
+      include: {
+        doctor: { select: { name: true } },
+        slips: { select: { id: true, amount: true, transferredAt: true, sendingBank: true, transRef: true, createdAt: true } },
+      },
+    }),
+    prisma.appointment.findMany({
+      where: { patientId, ...doctorFilter },
+      include: {
+        doctor: { select: { name: true } },
+        treatmentType: { select: { name: true } },
+      },
+    }),
+  ]);
+
+  const entries: PatientTimelineEntry[] = [];
+  let totalSpent = new Decimal(0);
+  let outstandingBalance = new Decimal(0);
+  let lastVisitDate: string | null = null;
+
+  for (const r of records) {
+    const date = recordDateKey(r.recordDate);
+    const [createdDate, createdTime] = clinicDateTime(r.createdAt).split(' ');
+    const paid = r.slips.reduce((sum, s) => (s.amount ? sum.plus(s.amount) : sum), new Decimal(0));
+    const outstanding =
+      r.paymentMethod === 'TRANSFER' && paid.lessThan(r.totalAmount) ? new Decimal(r.totalAmount).minus(paid) : new Decimal(0);
+
+    totalSpent = totalSpent.plus(r.totalAmount);
+    outstandingBalance = outstandingBalance.plus(outstanding);
+    if (!lastVisitDate || date > lastVisitDate) lastVisitDate = date;
+
+    const visit: TimelineVisitEntry = {
+      type: 'VISIT',
+      id: r.id,
+      date,
+      time: createdDate === date ? createdTime : null, // a back-dated record has no known visit time
+      doctorId: r.doctorId,
+      doctorName: r.doctor.name,
+      sequenceNo: r.sequenceNo,
+      treatmentNote: r.treatmentNote,
+      totalAmount: r.totalAmount.toNumber(),
+      paymentMethod: r.paymentMethod,
+      outstandingAmount: outstanding.toNumber(),
+    };
+    entries.push(visit);
+
+    for (const s of r.slips) {
+      const [slipDate, slipTime] = clinicDateTime(s.transferredAt ?? s.createdAt).split(' ');
+      entries.push({
+        type: 'PAYMENT',
+        id: s.id,
+        date: slipDate,
+        time: slipTime,
+        doctorId: r.doctorId,
+        doctorName: r.doctor.name,
+        dailyRecordId: r.id,
+        amount: decimalToNumber(s.amount),
+        sendingBank: s.sendingBank,
+        transRef: s.transRef,
+      });
+    }
+  }
+
+  for (const a of appointments) {
+    entries.push({
+      type: 'APPOINTMENT',
+      id: a.id,
+      date: recordDateKey(a.date),
+      time: a.startTime,
+      doctorId: a.doctorId,
+      doctorName: a.doctor.name,
+      endTime: a.endTime,
+      treatmentTypeName: a.treatmentType.name,
+      status: a.status,
+      cancellationReason: a.cancellationReason,
+    });
+  }
+
+  // Newest first; on the same day an entry without a known time sorts after the timed ones.
+  entries.sort((x, y) => {
+    if (x.date !== y.date) return x.date < y.date ? 1 : -1;
+    const xt = x.time ?? '';
+    const yt = y.time ?? '';
+    return xt === yt ? 0 : xt < yt ? 1 : -1;
+  });
+
+  return {
+    patientId,
+    summary: {
+      totalSpent: totalSpent.toNumber(),
+      outstandingBalance: outstandingBalance.toNumber(),
+      lastVisitDate,
+      visitCount: records.length,
+      noShowCount: appointments.filter((a) => a.status === 'NO_SHOW').length,
+    },
+    entries,
+  };
+}
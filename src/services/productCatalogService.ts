@@ -0,0 +1,307 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ScannedPack } from '../types/stock.types';
+
+export interface ProductCategoryResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  productCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ProductCategoryInput {
+  name?: string;
+  description?: string | null;
+}
+
+export interface ProductPackResponse {
+  id: string;
+  name: string;
+  quantity: number; // base units per pack
+}
+
+export interface ProductBarcodeResponse {
+  id: string;
+  barcode: string;
+  label: string | null;
+  packId: string | null;
+  packName: string | null;
+}
+
+export interface ProductCatalogResponse {
+  productId: string;
+  name: string;
+  barcode: string; // primary
+  unit: string; // base unit
+  category: { id: string; name: string } | null;
+  barcodes: ProductBarcodeResponse[];
+  packs: ProductPackResponse[];
+}
+
+interface ProductBarcodeInput {
+  barcode: string;
+  label?: string | null;
+  packId?: string | null;
+}
+
+interface ProductPackInput {
+  name?: string;
+  quantity?: number;
+}
+
+/** Pack a scanned quantity is counted in. */
+export interface ScanPack {
+  packId: string;
+  name: string;
+  unitsPerPack: number;
+}
+
+// ─── Scanning ──────────────────────────────────────────────────────────────
+
+/**
+ * Maps a scanned code to the primary barcode of its product. An alternate barcode resolves to
+ * its product and, when it is printed on a pack, to that pack; any other code is returned as is.
+ */
+export async function resolveScannedBarcode(
+  client: Prisma.TransactionClient,
+  barcode: string,
+): Promise<{ barcode: string; packId: string | null }> {
+  const alternate = await client.productBarcode.findUnique({
+    where: { barcode },
+    include: { product: { select: { barcode: true } } },
+  });
+  if (!alternate) return { barcode, packId: null };
+  return { barcode: alternate.product.barcode, packId: alternate.packId };
+}
+
+/**
+ * Resolves the pack a scanned quantity is counted in (null = base units). Throws when the pack
+ * is not one of the product's packs.
+ */
+export async function resolveScanPack(
+  client: Prisma.TransactionClient,
+  productId: string,
+  packId: string | null | undefined,
+): Promise<ScanPack | null> {
+  if (!packId) return null;
+  const pack = await client.productPack.findUnique({ where: { id: packId } });
+  if (!pack || pack.productId !== productId) throw new Error(`Pack ${packId} is not defined for this product`);
+  return { packId: pack.id, name: pack.name, unitsPerPack: pack.quantity };
+}
+
+/**
+ * Converts a scanned quantity to base units. With a pack, also returns the pack details that
+ * stock results echo back.
+ */
+export function applyScanPack(quantity: number, pack: ScanPack | null): { quantity: number; pack?: ScannedPack } {
+  if (!pack) return { quantity };
+  return { quantity: quantity * pack.unitsPerPack, pack: { ...pack, packQuantity: quantity } };
+}
+
+/**
+ * True when the code is already a primary or alternate barcode. exceptProductId skips that
+ * product's own primary barcode (when it is being re-saved).
+ */
+export async function isBarcodeTaken(barcode: string, exceptProductId?: string): Promise<boolean> {
+  const [primary, alternate] = await Promise.all([
+    prisma.product.findUnique({ where: { barcode }, select: { id: true } }),
+    prisma.productBarcode.findUnique({ where: { barcode }, select: { id: true } }),
+  ]);
+  return (primary !== null && primary.id !== exceptProductId) || alternate !== null;
+}
+
+// ─── Categories ────────────────────────────────────────────────────────────
+
+function toCategoryResponse(c: {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: { products: number };
+}): ProductCategoryResponse {
+  return {
+    id: c.id,
+    name: c.name,
+    description: c.description,
+    productCount: c._count.products,
+    createdAt: c.createdAt.toISOString(),
+    updatedAt: c.updatedAt.toISOString(),
+  };
+}
+
+const CATEGORY_INCLUDE = { _count: { select: { products: true } } } as const;
+
+export async function listProductCategories(): Promise<ProductCategoryResponse[]> {
+  const categories = await prisma.productCategory.findMany({ include: CATEGORY_INCLUDE, orderBy: { name: 'asc' } });
+  return categories.map(toCategoryResponse);
+}
+
+export async function createProductCategory(data: ProductCategoryInput): Promise<ProductCategoryResponse> {
+  const name = data.name?.trim();
+  if (!name) throw new Error('INVALID_NAME');
+  try {
+    const category = await prisma.productCategory.create({
+      data: { name, description: data.description?.trim() || null },
+      include: CATEGORY_INCLUDE,
+    });
+    return toCategoryResponse(category);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('CATEGORY_NAME_TAKEN');
+    throw e;
+  }
+}
+
+export async function updateProductCategory(id: string, data: ProductCategoryInput): Promise<ProductCategoryResponse> {
+  const existing = await prisma.productCategory.findUnique({ where: { id } });
+  if (!existing) throw new Error('CATEGORY_NOT_FOUND');
+  if (data.name !== undefined && !data.name.trim()) throw new Error('INVALID_NAME');
+  try {
+    const category = await prisma.productCategory.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.description !== undefined ? { description: data.description?.trim() || null } : {}),
+      },
+      include: CATEGORY_INCLUDE,
+    });
+    return toCategoryResponse(category);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('CATEGORY_NAME_TAKEN');
+    throw e;
+  }
+}
+
+/** Deletes a category; its products become uncategorised. */
+export async function deleteProductCategory(id: string): Promise<void> {
+  const existing = await prisma.productCategory.findUnique({ where: { id } });
+  if (!existing) throw new Error('CATEGORY_NOT_FOUND');
+  await prisma.productCategory.delete({ where: { id } });
+}
+
+// ─── Barcodes & packs ──────────────────────────────────────────────────────
+
+export async function getProductCatalog(productId: string): Promise<ProductCatalogResponse> {
+  const product = await prisma.product.findUnique({
+    where: { id: productId },
+    include: {
+      category: { select: { id: true, name: true } },
+      barcodes: { include: { pack: { select: { name: true } } }, orderBy: { createdAt: 'asc' } },
+      packs: { orderBy: { quantity: 'asc' } },
+    },
+  });
+  if (!product) throw new Error('PRODUCT_NOT_FOUND');
+
+  return {
+    productId: product.id,
+    name: product.name,
+    barcode: product.barcode,
+    unit: product.unit,
+    category: product.category,
+    barcodes: product.barcodes.map((b) => ({
+      id: b.id,
+      barcode: b.barcode,
+      label: b.label,
+      packId: b.packId,
+      packName: b.pack?.name ?? null,
+    })),
+    packs: product.packs.map((p) => ({ id: p.id, name: p.name, quantity: p.quantity })),
+  };
+}
+
+async function assertProduct(productId: string): Promise<void> {
+  const product = await prisma.product.findUnique({ where: { id: productId }, select: { id: true } });
+  if (!product) throw new Error('PRODUCT_NOT_FOUND');
+}
+
+async function assertOwnPack(productId: string, packId: string): Promise<void> {
+  const pack = await prisma.productPack.findUnique({ where: { id: packId } });
+  if (!pack || pack.productId !== productId) throw new Error('PACK_NOT_FOUND');
+}
+
+/** Adds an alternate barcode. The code must not be any product's primary or alternate barcode. */
+export async function addProductBarcode(productId: string, data: ProductBarcodeInput): Promise<ProductCatalogResponse> {
+  const barcode = typeof data.barcode === 'string' ? data.barcode.trim() : '';
+  if (!barcode) throw new Error('INVALID_BARCODE');
+  await assertProduct(productId);
+  if (data.packId) await assertOwnPack(productId, data.packId);
+  if (await isBarcodeTaken(barcode)) throw new Error('BARCODE_TAKEN');
+
+  try {
+    await prisma.productBarcode.create({
+      data: { productId, barcode, label: data.label?.trim() || null, packId: data.packId || null },
+    });
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('BARCODE_TAKEN');
+    throw e;
+  }
+  return getProductCatalog(productId);
+}
+
+export async function removeProductBarcode(productId: string, barcodeId: string): Promise<ProductCatalogResponse> {
+  const existing = await prisma.productBarcode.findUnique({ where: { id: barcodeId } });
+  if (!existing || existing.productId !== productId) throw new Error('BARCODE_NOT_FOUND');
+  await prisma.productBarcode.delete({ where: { id: barcodeId } });
+  return getProductCatalog(productId);
+}
+
+function validatePackQuantity(quantity: unknown): void {
+  if (!Number.isInteger(quantity) || (quantity as number) < 2) throw new Error('INVALID_PACK_QUANTITY');
+}
+
+export async function createProductPack(productId: string, data: ProductPackInput): Promise<ProductCatalogResponse> {
+  const name = data.name?.trim();
+  if (!name) throw new Error('INVALID_NAME');
+  validatePackQuantity(data.quantity);
+  await assertProduct(productId);
+
+  try {
+    await prisma.productPack.create({ data: { productId, name, quantity: data.quantity! } });
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('PACK_NAME_TAKEN');
+    throw e;
+  }
+  return getProductCatalog(productId);
+}
+
+/**
+ * Renames a pack or changes its size. Stock is kept in base units, so a new size only affects
+ * scans from now on.
+ */
+export async function updateProductPack(
+  productId: string,
+  packId: string,
+  data: ProductPackInput,
+): Promise<ProductCatalogResponse> {
+  await assertOwnPack(productId, packId);
+  if (data.name !== undefined && !data.name.trim()) throw new Error('INVALID_NAME');
+  if (data.quantity !== undefined) validatePackQuantity(data.quantity);
+
+  try {
+    await prisma.productPack.update({
+      where: { id: packId },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.quantity !== undefined ? { quantity: data.quantity } : {}),
+      },
+    });
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('PACK_NAME_TAKEN');
+    throw e;
+  }
+  return getProductCatalog(productId);
+}
+
+/**
+ * Deletes a pack. A pack still printed on one of the product's barcodes cannot be deleted
+ * (PACK_IN_USE): those scans would silently start counting single units.
+ */
+export async function deleteProductPack(productId: string, packId: string): Promise<ProductCatalogResponse> {
+  await assertOwnPack(productId, packId);
+  const linked = await prisma.productBarcode.count({ where: { packId } });
+  if (linked > 0) throw new Error('PACK_IN_USE');
+  await prisma.productPack.delete({ where: { id: packId } });
+  return getProductCatalog(productId);
+}
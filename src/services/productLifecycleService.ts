@@ -0,0 +1,134 @@
+import { Prisma, Product } from '@prisma/client';
+import { prisma } from '../prisma';
+import { ProductChangeEntry, ProductHistoryResponse, ProductTrackedField } from '../types/dashboard.types';
+
+/** Product fields whose edits are kept in the history (archiving is recorded as "archived"). */
+export const TRACKED_PRODUCT_FIELDS = ['name', 'unit', 'minStock', 'isReusable'] as const;
+
+type TrackedValues = Pick<Product, (typeof TRACKED_PRODUCT_FIELDS)[number]>;
+
+function toHistoryValue(value: unknown): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+/**
+ * Records one history row per tracked field that differs between `before` and `after`.
+ * Call inside the transaction that applies the update.
+ */
+export async function recordProductChanges(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  before: TrackedValues,
+  after: TrackedValues,
+  userId: string | null,
+): Promise<void> {
+  const changed = TRACKED_PRODUCT_FIELDS.filter((field) => before[field] !== after[field]);
+  if (changed.length === 0) return;
+  await tx.productChange.createMany({
+    data: changed.map((field) => ({
+      productId,
+      field,
+      oldValue: toHistoryValue(before[field]),
+      newValue: toHistoryValue(after[field]),
+      changedById: userId,
+    })),
+  });
+}
+
+async function setArchived(id: string, archived: boolean, userId: string | null): Promise<Product> {
+  return prisma.$transaction(async (tx) => {
+    const existing = await tx.product.findUnique({ where: { id } });
+    if (!existing) throw new Error('PRODUCT_NOT_FOUND');
+    if ((existing.archivedAt !== null) === archived) {
+      throw new Error(archived ? 'PRODUCT_ARCHIVED' : 'PRODUCT_NOT_ARCHIVED');
+    }
+
+    const product = await tx.product.update({
+      where: { id },
+      data: archived
+        ? { archivedAt: new Date(), archivedById: userId }
+        : { archivedAt: null, archivedById: null },
+    });
+    await tx.productChange.create({
+      data: {
+        productId: id,
+        field: 'archived',
+        oldValue: String(!archived),
+        newValue: String(archived),
+        changedById: userId,
+      },
+    });
+    return product;
+  });
+}
+
+/**
+ * Archives a product: it is hidden from scanning and from lists by default, and stock-in, stock-out,
+ * withdraw and transfer refuse it. Its batches, movements and history stay; remaining stock can
+ * still be disposed or depleted. Throws PRODUCT_NOT_FOUND / PRODUCT_ARCHIVED.
+ */
+export async function archiveProduct(id: string, userId: string | null): Promise<Product> {
+  return setArchived(id, true, userId);
+}
+
+/** Brings an archived product back into use. Throws PRODUCT_NOT_FOUND / PRODUCT_NOT_ARCHIVED. */
+export async function unarchiveProduct(id: string, userId: string | null): Promise<Product> {
+  return setArchived(id, false, userId);
+}
+
+/**
+ * Permanently deletes a product that never had a stock movement (e.g. created by mistake).
+ * Anything with movements must be archived instead so the audit trail survives.
+ * Throws PRODUCT_NOT_FOUND, PRODUCT_HAS_MOVEMENTS, or PRODUCT_REFERENCED when purchase orders or
+ * other records still point at it.
+ */
+export async function deleteProduct(id: string): Promise<void> {
+  const existing = await prisma.product.findUnique({
+    where: { id },
+    select: { id: true, _count: { select: { stockMovements: true } } },
+  });
+  if (!existing) throw new Error('PRODUCT_NOT_FOUND');
+  if (existing._count.stockMovements > 0) throw new Error('PRODUCT_HAS_MOVEMENTS');
+
+  try {
+    await prisma.product.delete({ where: { id } });
+  } catch (e) {
+    // Purchase-order lines (and movements posted meanwhile) restrict the delete.
+    if ((e as { code?: string }).code === 'P2003') throw new Error('PRODUCT_REFERENCED');
+    throw e;
+  }
+}
+
+/** Edit history of a product, newest first. Throws PRODUCT_NOT_FOUND. */
+export async function getProductHistory(id: string): Promise<ProductHistoryResponse> {
+  const product = await prisma.product.findUnique({
+    where: { id },
+    select: {
+      id: true,
+      name: true,
+      archivedAt: true,
+      changes: {
+        orderBy: { createdAt: 'desc' },
+        include: { changedBy: { select: { name: true } } },
+      },
+    },
+  });
+  if (!product) throw new Error('PRODUCT_NOT_FOUND');
+
+  return {
+    productId: product.id,
+    name: product.name,
+    archivedAt: product.archivedAt?.toISOString() ?? null,
+    changes: product.changes.map(
+      (c): ProductChangeEntry => ({
+        id: c.id,
+        field: c.field as ProductTrackedField,
+        oldValue: c.oldValue,
+        newValue: c.newValue,
+        changedById: c.changedById,
+        changedByName: c.changedBy?.name ?? null,
+        changedAt: c.createdAt.toISOString(),
+      }),
+    ),
+  };
+}
@@ -1,4 +1,5 @@
 import { prisma } from '../prisma';
+import { resolveScannedBarcode } from './productCatalogService';
 import {
     ProductBatchDetail,
     ProductBatchStatus,
@@ -56,8 +57,12 @@ function classifyBatchStatus(
  * - totalQuantity: Sum of all batches per product
  * - nearExpiry: true if any batch expires in less than 6 months
  * - Ordered by name ASC
- * - Supports search by product name or barcode
+ * - Supports search by product name or barcode (primary or alternate)
+ * - Supports filtering by categoryId
+ * - Archived products are left out unless archived is 'archived' or 'all'
  * - Supports pagination
+ * - With locationId: warehouse and in-use quantities count only that location's stock, and
+ *   minStock is the location's threshold (Product.minStock when none is set)
  * 
  * @param query - Query parameters for search and pagination
  * @returns PaginatedProductListResponse with products and pagination metadata
@@ -68,6 +73,33 @@ export async function getProductList(query?: ProductListQuery): Promise<Paginate
     const limit = query?.limit && query.limit > 0 ? Math.min(query.limit, 100) : 20; // Max 100 per page
     const skip = (page - 1) * limit;
 
+    const data = await getProductListItems(query);
+
+    // Get total count after status filtering
+    const total = data.length;
+
+    // Apply pagination after filtering
+    const paginatedData = data.slice(skip, skip + limit);
+
+    // Calculate total pages
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+        data: paginatedData,
+        pagination: {
+            page,
+            limit,
+            total,
+            totalPages,
+        },
+    };
+}
+
+/**
+ * Every product matching the search / category / status filters of getProductList, unpaginated
+ * (page and limit are ignored). Used by the list itself and by the on-hand exports.
+ */
+export async function getProductListItems(query?: ProductListQuery): Promise<ProductListItem[]> {
     // Build where clause for search
     const where: any = {};
     if (query?.search && query.search.trim()) {
@@ -85,15 +117,56 @@ export async function getProductList(query?: ProductListQuery): Promise<Paginate
                     mode: 'insensitive',
                 },
             },
+            {
+                // alternate barcodes (other GTINs, supplier codes, pack barcodes)
+                barcodes: {
+                    some: {
+                        barcode: {
+                            contains: searchTerm,
+                            mode: 'insensitive',
+                        },
+                    },
+                },
+            },
         ];
     }
+    if (query?.categoryId) {
+        where.categoryId = query.categoryId;
+    }
+    // Archived products are hidden unless asked for
+    const archived = query?.archived ?? 'active';
+    if (archived === 'active') where.archivedAt = null;
+    if (archived === 'archived') where.archivedAt = { not: null };
+
+    const locationId = query?.locationId;
+    let locationMinStock: Map<string, number> | null = null;
+    let locationInUse: Map<string, number> | null = null;
+    if (locationId) {
+        const location = await prisma.stockLocation.findUnique({ where: { id: locationId } });
+        if (!location) throw new Error('LOCATION_NOT_FOUND');
+        const thresholds = await prisma.stockLocationThreshold.findMany({ where: { locationId } });
+        locationMinStock = new Map(thresholds.map((t) => [t.productId, t.minStock]));
+        // Product.inUseQuantity spans all locations; count only what was withdrawn from this one
+        const inUse = await prisma.stockInUse.groupBy({
+            by: ['productId'],
+            where: { locationId, quantity: { gt: 0 } },
+            _sum: { quantity: true },
+        });
+        locationInUse = new Map(inUse.map((r) => [r.productId, r._sum.quantity ?? 0]));
+    }
 
     // Fetch all products with their batches (we need all to calculate status)
     // Status filtering will be done in memory after calculation
     const allProducts = await prisma.product.findMany({
         where,
         include: {
+            category: {
+                select: {
+                    name: true,
+                },
+            },
             stockBatches: {
+                ...(locationId ? { where: { locationId } } : {}),
                 select: {
                     quantity: true,
                     expireDate: true,
@@ -145,8 +218,9 @@ export async function getProductList(query?: ProductListQuery): Promise<Paginate
 
         // For reusable items: totalQuantity = warehouse + in_use
         const warehouseQuantity = totalQuantity;
+        const inUseQuantity = locationInUse ? locationInUse.get(product.id) ?? 0 : product.inUseQuantity;
         const effectiveTotalQuantity = product.isReusable
-            ? warehouseQuantity + product.inUseQuantity
+            ? warehouseQuantity + inUseQuantity
             : warehouseQuantity;
 
         return {
@@ -154,10 +228,13 @@ export async function getProductList(query?: ProductListQuery): Promise<Paginate
             name: product.name,
             barcode: product.barcode,
             unit: product.unit,
-            minStock: product.minStock,
+            minStock: locationMinStock?.get(product.id) ?? product.minStock,
             isReusable: product.isReusable,
+            categoryId: product.categoryId,
+            categoryName: product.category?.name ?? null,
+            archivedAt: product.archivedAt?.toISOString() ?? null,
             warehouseQuantity,
-            inUseQuantity: product.inUseQuantity,
+            inUseQuantity,
             totalQuantity: effectiveTotalQuantity,
             nearExpiry,
             expireDate,
@@ -190,29 +267,14 @@ export async function getProductList(query?: ProductListQuery): Promise<Paginate
         });
     }
 
-    // Get total count after status filtering
-    const total = data.length;
-
-    // Apply pagination after filtering
-    const paginatedData = data.slice(skip, skip + limit);
-
-    // Calculate total pages
-    const totalPages = Math.ceil(total / limit);
-
-    return {
-        data: paginatedData,
-        pagination: {
-            page,
-            limit,
-            total,
-            totalPages,
-        },
-    };
+    return data;
 }
 
 export async function findProductById(productId: string): Promise<ProductListItem> {
+    // productId is a scanned barcode: primary or alternate
+    const scan = await resolveScannedBarcode(prisma, productId);
     const product = await prisma.product.findUnique({
-        where: { barcode: productId },
+        where: { barcode: scan.barcode },
         include: {
             stockBatches: {
                 select: {
@@ -228,6 +290,9 @@ export async function findProductById(productId: string): Promise<ProductListIte
     if (!product) {
         throw new Error('Product not found please add the product first');
     }
+    if (product.archivedAt) {
+        throw new Error('Product is archived; unarchive it before scanning');
+    }
 
     const now = new Date();
     const today = startOfDay(now);
@@ -315,6 +380,8 @@ export async function findProductById(productId: string): Promise<ProductListIte
         unit: product.unit,
         minStock: product.minStock,
         isReusable: product.isReusable,
+        openedShelfLifeDays: product.openedShelfLifeDays,
+        pickingStrategy: product.pickingStrategy,
         warehouseQuantity,
         inUseQuantity: product.inUseQuantity,
         totalQuantity: effectiveTotalQuantity,
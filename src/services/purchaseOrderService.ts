@@ -0,0 +1,380 @@
+import { randomUUID } from 'crypto';
+import { Prisma, PurchaseOrderStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import { decimalToNumber, parseAmount } from '../utils/money';
+import { clinicToday, parseRecordDate, recordDateKey } from '../utils/date';
+import { receiveIntoBatch, resolveLotNumber } from './stockInService';
+import { resolveLocationId } from './stockLocationService';
+
+const MAX_PO_NUMBER_RETRIES = 5;
+const PO_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'ORDERED', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CANCELLED'];
+
+export interface PurchaseOrderLineResponse {
+  id: string;
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  outstandingQuantity: number;
+  unitCost: number | null;
+}
+
+export interface PurchaseOrderResponse {
+  id: string;
+  poNumber: string;
+  supplierId: string;
+  supplierName: string;
+  status: PurchaseOrderStatus;
+  orderedAt: string | null;
+  expectedAt: string | null; // YYYY-MM-DD
+  note: string | null;
+  createdById: string | null;
+  lines: PurchaseOrderLineResponse[];
+  totalOutstanding: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  orderedQuantity: number;
+  unitCost?: number | string | null;
+}
+
+export interface CreatePurchaseOrderInput {
+  supplierId: string;
+  expectedAt?: string | null;
+  note?: string | null;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface UpdatePurchaseOrderInput {
+  supplierId?: string;
+  expectedAt?: string | null;
+  note?: string | null;
+  lines?: PurchaseOrderLineInput[]; // replaces all lines (DRAFT only)
+}
+
+export interface ListPurchaseOrderFilter {
+  status?: string;
+  supplierId?: string;
+}
+
+export interface ReceivePurchaseOrderItem {
+  lineId: string;
+  quantity: number;
+  lotNumber?: string;
+  expireDate?: string | null;
+}
+
+export interface ReceivedLineResult {
+  lineId: string;
+  productId: string;
+  batchId: string;
+  lotNumber: string;
+  quantity: number;
+}
+
+export interface ReceivePurchaseOrderResponse {
+  sessionId: string;
+  purchaseOrder: PurchaseOrderResponse;
+  results: ReceivedLineResult[];
+}
+
+const includeDetail = {
+  supplier: { select: { name: true } },
+  lines: {
+    include: { product: { select: { name: true, barcode: true, unit: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+type PurchaseOrderWithDetail = Prisma.PurchaseOrderGetPayload<{ include: typeof includeDetail }>;
+
+function toResponse(po: PurchaseOrderWithDetail): PurchaseOrderResponse {
+  const lines = po.lines.map((l) => ({
+    id: l.id,
+    productId: l.productId,
+    productName: l.product.name,
+    barcode: l.product.barcode,
+    unit: l.product.unit,
+    orderedQuantity: l.orderedQuantity,
+    receivedQuantity: l.receivedQuantity,
+    outstandingQuantity: Math.max(0, l.orderedQuantity - l.receivedQuantity),
+    unitCost: decimalToNumber(l.unitCost),
+  }));
+  return {
+    id: po.id,
+    poNumber: po.poNumber,
+    supplierId: po.supplierId,
+    supplierName: po.supplier.name,
+    status: po.status,
+    orderedAt: po.orderedAt ? po.orderedAt.toISOString() : null,
+    expectedAt: po.expectedAt ? recordDateKey(po.expectedAt) : null,
+    note: po.note,
+    createdById: po.createdById,
+    lines,
+    totalOutstanding: lines.reduce((sum, l) => sum + l.outstandingQuantity, 0),
+    createdAt: po.createdAt.toISOString(),
+    updatedAt: po.updatedAt.toISOString(),
+  };
+}
+
+async function assertSupplierActive(supplierId: string): Promise<void> {
+  const supplier = await prisma.supplier.findUnique({ where: { id: supplierId } });
+  if (!supplier || !supplier.active) throw new Error('INACTIVE_SUPPLIER');
+}
+
+// Validates line shape + product existence and returns the rows to insert.
+// Archived products cannot be ordered (PRODUCT_ARCHIVED).
+async function buildLines(
+  lines: PurchaseOrderLineInput[] | undefined,
+): Promise<Array<{ productId: string; orderedQuantity: number; unitCost: Prisma.Decimal | null }>> {
+  if (!Array.isArray(lines) || lines.length === 0) throw new Error('INVALID_LINES');
+
+  const seen = new Set<string>();
+  const rows = lines.map((line) => {
+    if (!line || typeof line.productId !== 'string' || !line.productId) throw new Error('INVALID_LINES');
+    if (!Number.isInteger(line.orderedQuantity) || line.orderedQuantity <= 0) throw new Error('INVALID_QUANTITY');
+    if (seen.has(line.productId)) throw new Error('DUPLICATE_PRODUCT_LINE');
+    seen.add(line.productId);
+    const unitCost =
+      line.unitCost === null || line.unitCost === undefined || line.unitCost === ''
+        ? null
+        : parseAmount(line.unitCost); // throws INVALID_AMOUNT
+    return { productId: line.productId, orderedQuantity: line.orderedQuantity, unitCost };
+  });
+
+  const found = await prisma.product.findMany({
+    where: { id: { in: rows.map((r) => r.productId) } },
+    select: { id: true, archivedAt: true },
+  });
+  if (found.length !== rows.length) throw new Error('PRODUCT_NOT_FOUND');
+  if (found.some((p) => p.archivedAt !== null)) throw new Error('PRODUCT_ARCHIVED');
+  return rows;
+}
+
+function resolveExpectedAt(value: string | null | undefined): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  return parseRecordDate(value); // throws INVALID_DATE
+}
+
+// "PO-YYYYMM-NNNN", numbered per clinic-local month.
+async function nextPoNumber(): Promise<string> {
+  const prefix = `PO-${clinicToday().slice(0, 7).replace('-', '')}-`;
+  const last = await prisma.purchaseOrder.findFirst({
+    where: { poNumber: { startsWith: prefix } },
+    orderBy: { poNumber: 'desc' },
+    select: { poNumber: true },
+  });
+  const lastSeq = last ? parseInt(last.poNumber.slice(prefix.length), 10) || 0 : 0;
+  return `${prefix}${String(lastSeq + 1).padStart(4, '0')}`;
+}
+
+export async function listPurchaseOrders(filter: ListPurchaseOrderFilter): Promise<PurchaseOrderResponse[]> {
+  if (filter.status && !PO_STATUSES.includes(filter.status as PurchaseOrderStatus)) {
+    throw new Error('INVALID_STATUS');
+  }
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      ...(filter.status ? { status: filter.status as PurchaseOrderStatus } : {}),
+      ...(filter.supplierId ? { supplierId: filter.supplierId } : {}),
+    },
+    include: includeDetail,
+    orderBy: { createdAt: 'desc' },
+  });
+  return orders.map(toResponse);
+}
+
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrderResponse> {
+  const po = await prisma.purchaseOrder.findUnique({ where: { id }, include: includeDetail });
+  if (!po) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+  return toResponse(po);
+}
+
+export async function createPurchaseOrder(
+  input: CreatePurchaseOrderInput,
+  userId: string | null,
+): Promise<PurchaseOrderResponse> {
+  await assertSupplierActive(input.supplierId);
+  const expectedAt = resolveExpectedAt(input.expectedAt);
+  const lines = await buildLines(input.lines);
+
+  // poNumber = MAX+1 within the month. Concurrent creates can collide on the unique → retry on P2002.
+  for (let attempt = 1; attempt <= MAX_PO_NUMBER_RETRIES; attempt++) {
+    try {
+      const po = await prisma.purchaseOrder.create({
+        data: {
+          poNumber: await nextPoNumber(),
+          supplierId: input.supplierId,
+          expectedAt,
+          note: input.note?.trim() || null,
+          createdById: userId,
+          lines: { create: lines },
+        },
+        include: includeDetail,
+      });
+      return toResponse(po);
+    } catch (e: unknown) {
+      if ((e as { code?: string }).code === 'P2002' && attempt < MAX_PO_NUMBER_RETRIES) continue;
+      throw e;
+    }
+  }
+  throw new Error('PO_NUMBER_CONFLICT');
+}
+
+export async function updatePurchaseOrder(
+  id: string,
+  input: UpdatePurchaseOrderInput,
+): Promise<PurchaseOrderResponse> {
+  const existing = await prisma.purchaseOrder.findUnique({ where: { id } });
+  if (!existing) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+  if (existing.status !== 'DRAFT') throw new Error('PURCHASE_ORDER_NOT_EDITABLE');
+
+  if (input.supplierId !== undefined) await assertSupplierActive(input.supplierId);
+  const lines = input.lines !== undefined ? await buildLines(input.lines) : undefined;
+
+  const po = await prisma.$transaction(async (tx) => {
+    if (lines) {
+      await tx.purchaseOrderLine.deleteMany({ where: { purchaseOrderId: id } });
+      await tx.purchaseOrderLine.createMany({
+        data: lines.map((l) => ({ ...l, purchaseOrderId: id })),
+      });
+    }
+    return tx.purchaseOrder.update({
+      where: { id },
+      data: {
+        ...(input.supplierId !== undefined ? { supplierId: input.supplierId } : {}),
+        ...(input.expectedAt !== undefined ? { expectedAt: resolveExpectedAt(input.expectedAt) } : {}),
+        ...(input.note !== undefined ? { note: input.note?.trim() || null } : {}),
+      },
+      include: includeDetail,
+    });
+  });
+  return toResponse(po);
+}
+
+/** DRAFT → ORDERED. The order is locked for editing from here on. */
+export async function markPurchaseOrderOrdered(id: string): Promise<PurchaseOrderResponse> {
+  const existing = await prisma.purchaseOrder.findUnique({ where: { id }, include: { lines: true } });
+  if (!existing) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+  if (existing.status !== 'DRAFT') throw new Error('INVALID_STATUS_TRANSITION');
+  if (existing.lines.length === 0) throw new Error('INVALID_LINES');
+
+  const po = await prisma.purchaseOrder.update({
+    where: { id },
+    data: { status: 'ORDERED', orderedAt: new Date() },
+    include: includeDetail,
+  });
+  return toResponse(po);
+}
+
+/** Cancels an order that has not received anything yet (DRAFT or ORDERED). */
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrderResponse> {
+  const existing = await prisma.purchaseOrder.findUnique({ where: { id } });
+  if (!existing) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+  if (existing.status !== 'DRAFT' && existing.status !== 'ORDERED') throw new Error('INVALID_STATUS_TRANSITION');
+
+  const po = await prisma.purchaseOrder.update({
+    where: { id },
+    data: { status: 'CANCELLED' },
+    include: includeDetail,
+  });
+  return toResponse(po);
+}
+
+/**
+ * Receives delivered quantities against an ORDERED / PARTIALLY_RECEIVED order.
+ *
+ * Every item runs the regular stock-in step (receiveIntoBatch) inside ONE transaction under a
+ * single sessionId, so the delivery shows up in /api/stock/logs like any other stock-in.
+ * The IN movements are linked to their PO line, the line's receivedQuantity is advanced, and the
+ * order status is recomputed. Receiving more than the outstanding quantity, or a line whose
+ * product was archived after ordering, is rejected.
+ * The delivery goes into `locationId`, or the default location when omitted; the movements are
+ * recorded as posted by `userId`.
+ */
+export async function receivePurchaseOrder(
+  id: string,
+  items: ReceivePurchaseOrderItem[],
+  locationId?: string | null,
+  userId: string | null = null,
+): Promise<ReceivePurchaseOrderResponse> {
+  if (!Array.isArray(items) || items.length === 0) throw new Error('INVALID_LINES');
+  for (const item of items) {
+    if (!item || typeof item.lineId !== 'string' || !item.lineId) throw new Error('LINE_NOT_FOUND');
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) throw new Error('INVALID_QUANTITY');
+    if (item.expireDate !== null && item.expireDate !== undefined && item.expireDate !== '') {
+      if (typeof item.expireDate !== 'string' || isNaN(new Date(item.expireDate).getTime())) {
+        throw new Error('INVALID_EXPIRE_DATE');
+      }
+    }
+  }
+
+  const sessionId = randomUUID();
+
+  const results = await prisma.$transaction(async (tx) => {
+    const po = await tx.purchaseOrder.findUnique({
+      where: { id },
+      include: { lines: { include: { product: { select: { archivedAt: true } } } } },
+    });
+    if (!po) throw new Error('PURCHASE_ORDER_NOT_FOUND');
+    if (po.status !== 'ORDERED' && po.status !== 'PARTIALLY_RECEIVED') {
+      throw new Error('PURCHASE_ORDER_NOT_RECEIVABLE');
+    }
+    const targetLocationId = await resolveLocationId(tx, locationId);
+
+    const linesById = new Map(po.lines.map((l) => [l.id, l]));
+    const requestedByLine = new Map<string, number>();
+    for (const item of items) {
+      const line = linesById.get(item.lineId);
+      if (!line) throw new Error('LINE_NOT_FOUND');
+      if (line.product.archivedAt) throw new Error('PRODUCT_ARCHIVED');
+      const requested = (requestedByLine.get(line.id) ?? 0) + item.quantity;
+      if (requested > line.orderedQuantity - line.receivedQuantity) throw new Error('OVER_RECEIPT');
+      requestedByLine.set(line.id, requested);
+    }
+
+    const received: ReceivedLineResult[] = [];
+    for (const item of items) {
+      const line = linesById.get(item.lineId)!;
+
+      // Conditional increment guards against a concurrent receive pushing the line past its order.
+      const advanced = await tx.purchaseOrderLine.updateMany({
+        where: { id: line.id, receivedQuantity: { lte: line.orderedQuantity - item.quantity } },
+        data: { receivedQuantity: { increment: item.quantity } },
+      });
+      if (advanced.count === 0) throw new Error('OVER_RECEIPT');
+
+      const { batchId, lotNumber } = await receiveIntoBatch(
+        tx,
+        line.productId,
+        {
+          locationId: targetLocationId,
+          lotNumber: resolveLotNumber(item.lotNumber),
+          expireDate: item.expireDate,
+          quantity: item.quantity,
+          unitCost: line.unitCost, // the agreed PO price becomes the batch cost
+        },
+        sessionId,
+        userId,
+        line.id,
+      );
+
+      received.push({ lineId: line.id, productId: line.productId, batchId, lotNumber, quantity: item.quantity });
+    }
+
+    const lines = await tx.purchaseOrderLine.findMany({ where: { purchaseOrderId: id } });
+    const fullyReceived = lines.every((l) => l.receivedQuantity >= l.orderedQuantity);
+    await tx.purchaseOrder.update({
+      where: { id },
+      data: { status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED' },
+    });
+
+    return received;
+  });
+
+  return { sessionId, purchaseOrder: await getPurchaseOrder(id), results };
+}
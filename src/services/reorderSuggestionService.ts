@@ -0,0 +1,133 @@
+import { prisma } from '../prisma';
+import { ReorderSuggestionEntry, ReorderSuggestionsResponse } from '../types/stock.types';
+import { CsvColumn } from '../utils/csv';
+
+export const DEFAULT_REORDER_WINDOW_DAYS = 30;
+export const DEFAULT_TARGET_COVER_DAYS = 30;
+export const MAX_REORDER_DAYS = 365;
+
+export interface ReorderSuggestionOptions {
+  windowDays?: number; // consumption history to average over
+  targetCoverDays?: number; // days of stock a suggested order should bring us up to
+  includeAll?: boolean; // also return products that need no order
+}
+
+/**
+ * Suggest reorder quantities from recent consumption velocity.
+ *
+ * Usage over the window is counted from warehouse outflow: OUT, plus WITHDRAW for reusable items.
+ * Reusables whose withdrawals happened before the window still get consumed (DEPLETE), so for them
+ * the larger of WITHDRAW and DEPLETE is used. Quantities already on open purchase orders
+ * (ORDERED / PARTIALLY_RECEIVED, not yet received) count towards cover; on hand only counts ACTIVE,
+ * unexpired batches. The target never falls below Product.minStock, so static thresholds keep
+ * working for slow movers.
+ *
+ * Throws INVALID_WINDOW when a day count is not an integer in 1..MAX_REORDER_DAYS.
+ */
+export async function getReorderSuggestions(
+  options: ReorderSuggestionOptions = {}
+): Promise<ReorderSuggestionsResponse> {
+  const windowDays = options.windowDays ?? DEFAULT_REORDER_WINDOW_DAYS;
+  const targetCoverDays = options.targetCoverDays ?? DEFAULT_TARGET_COVER_DAYS;
+  for (const days of [windowDays, targetCoverDays]) {
+    if (!Number.isInteger(days) || days < 1 || days > MAX_REORDER_DAYS) {
+      throw new Error('INVALID_WINDOW');
+    }
+  }
+
+  const generatedAt = new Date();
+  const since = new Date(generatedAt.getTime() - windowDays * 24 * 60 * 60 * 1000);
+  const startOfToday = new Date(generatedAt);
+  startOfToday.setHours(0, 0, 0, 0);
+
+  const [products, onHandRows, usageRows, openLines] = await Promise.all([
+    prisma.product.findMany({
+      where: { archivedAt: null }, // archived products are not reordered
+      select: { id: true, name: true, barcode: true, unit: true, minStock: true, isReusable: true },
+    }),
+    prisma.stockBatch.groupBy({
+      by: ['productId'],
+      // only stock that can still be used: quarantined, recalled and expired batches need replacing
+      where: { status: 'ACTIVE', OR: [{ expireDate: null }, { expireDate: { gte: startOfToday } }] },
+      _sum: { quantity: true },
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['productId', 'type'],
+      where: { type: { in: ['OUT', 'WITHDRAW', 'DEPLETE'] }, createdAt: { gte: since }, reversedBySessionId: null },
+      _sum: { quantity: true },
+    }),
+    prisma.purchaseOrderLine.findMany({
+      where: { purchaseOrder: { status: { in: ['ORDERED', 'PARTIALLY_RECEIVED'] } } },
+      select: { productId: true, orderedQuantity: true, receivedQuantity: true },
+    }),
+  ]);
+
+  const onHand = new Map(onHandRows.map((r) => [r.productId, r._sum.quantity ?? 0]));
+
+  const usage = new Map<string, { OUT: number; WITHDRAW: number; DEPLETE: number }>();
+  for (const row of usageRows) {
+    const entry = usage.get(row.productId) ?? { OUT: 0, WITHDRAW: 0, DEPLETE: 0 };
+    if (row.type === 'OUT' || row.type === 'WITHDRAW' || row.type === 'DEPLETE') {
+      entry[row.type] += row._sum.quantity ?? 0;
+    }
+    usage.set(row.productId, entry);
+  }
+
+  const onOrder = new Map<string, number>();
+  for (const line of openLines) {
+    const outstanding = Math.max(0, line.orderedQuantity - line.receivedQuantity);
+    onOrder.set(line.productId, (onOrder.get(line.productId) ?? 0) + outstanding);
+  }
+
+  const suggestions: ReorderSuggestionEntry[] = [];
+  for (const product of products) {
+    const u = usage.get(product.id) ?? { OUT: 0, WITHDRAW: 0, DEPLETE: 0 };
+    const consumedQuantity = u.OUT + (product.isReusable ? Math.max(u.WITHDRAW, u.DEPLETE) : u.WITHDRAW);
+    const dailyUsage = consumedQuantity / windowDays;
+    const currentQuantity = onHand.get(product.id) ?? 0;
+    const onOrderQuantity = onOrder.get(product.id) ?? 0;
+
+    const targetQuantity = Math.max(Math.ceil(dailyUsage * targetCoverDays), product.minStock);
+    const suggestedQuantity = Math.max(0, targetQuantity - currentQuantity - onOrderQuantity);
+    if (suggestedQuantity === 0 && !options.includeAll) continue;
+
+    suggestions.push({
+      productId: product.id,
+      productName: product.name,
+      barcode: product.barcode,
+      unit: product.unit,
+      minStock: product.minStock,
+      currentQuantity,
+      onOrderQuantity,
+      consumedQuantity,
+      dailyUsage: Math.round(dailyUsage * 100) / 100,
+      daysOfCover: dailyUsage > 0 ? Math.round((currentQuantity / dailyUsage) * 10) / 10 : null,
+      targetQuantity,
+      suggestedQuantity,
+    });
+  }
+
+  // Most urgent first: least cover, then products with no usage history by name.
+  suggestions.sort((a, b) => {
+    if (a.daysOfCover === null && b.daysOfCover === null) return a.productName.localeCompare(b.productName);
+    if (a.daysOfCover === null) return 1;
+    if (b.daysOfCover === null) return -1;
+    return a.daysOfCover - b.daysOfCover;
+  });
+
+  return { generatedAt: generatedAt.toISOString(), windowDays, targetCoverDays, suggestions };
+}
+
+/** CSV layout for exporting suggestions (e.g. to draft a purchase order by hand). */
+export const REORDER_SUGGESTION_CSV_COLUMNS: CsvColumn<ReorderSuggestionEntry>[] = [
+  { header: 'Product', value: (r) => r.productName },
+  { header: 'Barcode', value: (r) => r.barcode },
+  { header: 'Unit', value: (r) => r.unit },
+  { header: 'On hand', value: (r) => r.currentQuantity },
+  { header: 'On order', value: (r) => r.onOrderQuantity },
+  { header: 'Min stock', value: (r) => r.minStock },
+  { header: 'Daily usage', value: (r) => r.dailyUsage },
+  { header: 'Days of cover', value: (r) => r.daysOfCover },
+  { header: 'Target quantity', value: (r) => r.targetQuantity },
+  { header: 'Suggested order', value: (r) => r.suggestedQuantity },
+];
@@ -0,0 +1,100 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { clinicDayRange, rangeUTC } from '../utils/date';
+import { StockMovementLogType, StockUserActivity, StockUserActivityResponse } from '../types/stock.types';
+
+/**
+ * Stock work per user between two clinic days (inclusive): sessions and movements posted,
+ * movement count and quantity per type, products created and the latest movement.
+ *
+ * Reversed sessions still count for the user who posted them, and the compensating
+ * ADJUST_IN / ADJUST_OUT movements count for the user who reversed them. Movements recorded
+ * before authorship was captured are grouped under userId null. Users are ordered by
+ * movements posted, most first.
+ *
+ * Throws INVALID_DATE for malformed bounds and INVALID_RANGE for to < from or an over-wide span.
+ */
+export async function getStockUserActivity(
+  from: string,
+  to: string,
+  userId?: string | null,
+): Promise<StockUserActivityResponse> {
+  rangeUTC(from, to); // validates format, order and span
+  const start = clinicDayRange(from).start;
+  const end = clinicDayRange(to).end;
+
+  const [byType, sessions, created] = await Promise.all([
+    prisma.stockMovement.groupBy({
+      by: ['createdById', 'type'],
+      where: { createdAt: { gte: start, lt: end }, ...(userId ? { createdById: userId } : {}) },
+      _count: { _all: true },
+      _sum: { quantity: true },
+      _max: { createdAt: true },
+    }),
+    prisma.$queryRaw<{ createdById: string | null; sessionCount: number }[]>`
+      SELECT "createdById", COUNT(DISTINCT COALESCE("sessionId", "id"))::int AS "sessionCount"
+      FROM "stock_movements"
+      WHERE "createdAt" >= ${start} AND "createdAt" < ${end}
+        ${userId ? Prisma.sql`AND "createdById" = ${userId}` : Prisma.empty}
+      GROUP BY "createdById"`,
+    prisma.product.groupBy({
+      by: ['createdById'],
+      where: { createdAt: { gte: start, lt: end }, createdById: userId ? userId : { not: null } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const activity = new Map<string | null, StockUserActivity>();
+  const entryFor = (id: string | null): StockUserActivity => {
+    let entry = activity.get(id);
+    if (!entry) {
+      entry = {
+        userId: id,
+        userName: null,
+        role: null,
+        sessionCount: 0,
+        movementCount: 0,
+        byType: [],
+        productsCreated: 0,
+        lastActivityAt: null,
+      };
+      activity.set(id, entry);
+    }
+    return entry;
+  };
+
+  for (const row of byType) {
+    const entry = entryFor(row.createdById);
+    entry.movementCount += row._count._all;
+    entry.byType.push({
+      type: row.type as StockMovementLogType,
+      movementCount: row._count._all,
+      quantity: row._sum.quantity ?? 0,
+    });
+    const last = row._max.createdAt?.toISOString() ?? null;
+    if (last && (!entry.lastActivityAt || last > entry.lastActivityAt)) entry.lastActivityAt = last;
+  }
+  for (const row of sessions) entryFor(row.createdById).sessionCount = Number(row.sessionCount);
+  for (const row of created) entryFor(row.createdById).productsCreated = row._count._all;
+
+  const userIds = Array.from(activity.keys()).filter((id): id is string => id !== null);
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, name: true, role: true },
+  });
+  for (const user of users) {
+    const entry = activity.get(user.id)!;
+    entry.userName = user.name;
+    entry.role = user.role;
+  }
+
+  for (const entry of activity.values()) entry.byType.sort((a, b) => a.type.localeCompare(b.type));
+
+  return {
+    from,
+    to,
+    users: Array.from(activity.values()).sort(
+      (a, b) => b.movementCount - a.movementCount || (a.userName ?? '').localeCompare(b.userName ?? ''),
+    ),
+  };
+}
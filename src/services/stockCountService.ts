@@ -0,0 +1,344 @@
+import { randomUUID } from 'crypto';
+import { Prisma, StockCountStatus } from '@prisma/client';
+import { prisma } from '../prisma';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
+
+const STOCK_COUNT_STATUSES: StockCountStatus[] = ['OPEN', 'COMMITTED', 'CANCELLED'];
+
+export interface StockCountLineResponse {
+  id: string;
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  batchId: string | null; // null = lot not yet known to the system
+  lotNumber: string;
+  expireDate: string | null;
+  systemQuantity: number; // live StockBatch.quantity while OPEN, frozen at commit (0 for an unknown lot)
+  countedQuantity: number;
+  variance: number; // counted − system
+  reason: string | null;
+}
+
+export interface StockCountResponse {
+  id: string;
+  status: StockCountStatus;
+  locationId: string;
+  note: string | null;
+  sessionId: string | null;
+  createdById: string | null;
+  committedById: string | null;
+  committedAt: string | null;
+  lines: StockCountLineResponse[];
+  totalVariance: number;
+  linesWithVariance: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StockCountLineInput {
+  barcode: string;
+  lotNumber?: string | null; // may be omitted when the product has exactly one batch in stock
+  expireDate?: string | null;
+  countedQuantity: number;
+  reason?: string | null;
+}
+
+export interface StockCountAdjustment {
+  lineId: string;
+  productId: string;
+  batchId: string;
+  lotNumber: string;
+  type: 'ADJUST_IN' | 'ADJUST_OUT';
+  quantity: number;
+}
+
+export interface CommitStockCountResponse {
+  sessionId: string;
+  stockCount: StockCountResponse;
+  adjustments: StockCountAdjustment[];
+}
+
+const includeDetail = {
+  lines: {
+    include: {
+      product: { select: { name: true, barcode: true, unit: true } },
+      batch: { select: { quantity: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+type StockCountWithDetail = Prisma.StockCountGetPayload<{ include: typeof includeDetail }>;
+
+function toResponse(count: StockCountWithDetail): StockCountResponse {
+  const lines = count.lines.map((l) => {
+    const systemQuantity = l.systemQuantity ?? l.batch?.quantity ?? 0;
+    return {
+      id: l.id,
+      productId: l.productId,
+      productName: l.product.name,
+      barcode: l.product.barcode,
+      unit: l.product.unit,
+      batchId: l.batchId,
+      lotNumber: l.lotNumber,
+      expireDate: l.expireDate ? l.expireDate.toISOString() : null,
+      systemQuantity,
+      countedQuantity: l.countedQuantity,
+      variance: l.countedQuantity - systemQuantity,
+      reason: l.reason,
+    };
+  });
+  return {
+    id: count.id,
+    status: count.status,
+    locationId: count.locationId,
+    note: count.note,
+    sessionId: count.sessionId,
+    createdById: count.createdById,
+    committedById: count.committedById,
+    committedAt: count.committedAt ? count.committedAt.toISOString() : null,
+    lines,
+    totalVariance: lines.reduce((sum, l) => sum + l.variance, 0),
+    linesWithVariance: lines.filter((l) => l.variance !== 0).length,
+    createdAt: count.createdAt.toISOString(),
+    updatedAt: count.updatedAt.toISOString(),
+  };
+}
+
+function parseExpireDate(value: string | null | undefined): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const d = new Date(value);
+  if (typeof value !== 'string' || isNaN(d.getTime())) throw new Error('INVALID_EXPIRE_DATE');
+  return d;
+}
+
+async function assertOpen(id: string): Promise<{ locationId: string }> {
+  const count = await prisma.stockCount.findUnique({ where: { id }, select: { status: true, locationId: true } });
+  if (!count) throw new Error('STOCK_COUNT_NOT_FOUND');
+  if (count.status !== 'OPEN') throw new Error('STOCK_COUNT_NOT_OPEN');
+  return { locationId: count.locationId };
+}
+
+export async function listStockCounts(status?: string): Promise<StockCountResponse[]> {
+  if (status && !STOCK_COUNT_STATUSES.includes(status as StockCountStatus)) throw new Error('INVALID_STATUS');
+  const counts = await prisma.stockCount.findMany({
+    where: status ? { status: status as StockCountStatus } : {},
+    include: includeDetail,
+    orderBy: { createdAt: 'desc' },
+  });
+  return counts.map(toResponse);
+}
+
+export async function getStockCount(id: string): Promise<StockCountResponse> {
+  const count = await prisma.stockCount.findUnique({ where: { id }, include: includeDetail });
+  if (!count) throw new Error('STOCK_COUNT_NOT_FOUND');
+  return toResponse(count);
+}
+
+/** Opens a count of one location's batches (the default location when locationId is omitted). */
+export async function openStockCount(
+  note: string | null | undefined,
+  userId: string | null,
+  locationId?: string | null,
+): Promise<StockCountResponse> {
+  const countLocationId = await resolveLocationId(prisma, locationId);
+  const count = await prisma.stockCount.create({
+    data: { note: note?.trim() || null, createdById: userId, locationId: countLocationId },
+    include: includeDetail,
+  });
+  return toResponse(count);
+}
+
+/**
+ * Records counted quantities on an OPEN count. Scanning the same product + lot + expiry again
+ * replaces the earlier count. Items are scanned by primary or alternate barcode; a pack barcode counts
+ * packs. Nothing here touches StockBatch — stock only moves on commit.
+ */
+export async function recordStockCountLines(id: string, items: StockCountLineInput[]): Promise<StockCountResponse> {
+  if (!Array.isArray(items) || items.length === 0) throw new Error('INVALID_LINES');
+  for (const item of items) {
+    if (!item || typeof item.barcode !== 'string' || !item.barcode) throw new Error('INVALID_LINES');
+    if (!Number.isInteger(item.countedQuantity) || item.countedQuantity < 0) throw new Error('INVALID_QUANTITY');
+    parseExpireDate(item.expireDate);
+  }
+  const { locationId } = await assertOpen(id);
+
+  for (const item of items) {
+    const scan = await resolveScannedBarcode(prisma, item.barcode);
+    const product = await prisma.product.findUnique({ where: { barcode: scan.barcode } });
+    if (!product) throw new Error('PRODUCT_NOT_FOUND');
+    // A pack barcode counts packs; the line holds base units
+    const { quantity: countedQuantity } = applyScanPack(
+      item.countedQuantity,
+      await resolveScanPack(prisma, product.id, scan.packId)
+    );
+
+    const lotNumber = item.lotNumber?.trim() || null;
+    const expireDate = parseExpireDate(item.expireDate);
+    let batch: { id: string; lotNumber: string; expireDate: Date | null } | null = null;
+
+    if (lotNumber) {
+      const candidates = await prisma.stockBatch.findMany({
+        where: { productId: product.id, lotNumber, locationId },
+        select: { id: true, lotNumber: true, expireDate: true },
+      });
+      const matching = expireDate
+        ? candidates.filter((b) => b.expireDate?.getTime() === expireDate.getTime())
+        : candidates;
+      if (matching.length > 1) throw new Error('LOT_AMBIGUOUS');
+      batch = matching[0] ?? null;
+    } else {
+      const inStock = await prisma.stockBatch.findMany({
+        where: { productId: product.id, quantity: { gt: 0 }, locationId },
+        select: { id: true, lotNumber: true, expireDate: true },
+      });
+      if (inStock.length !== 1) throw new Error('LOT_REQUIRED');
+      batch = inStock[0];
+    }
+
+    const lineLot = batch ? batch.lotNumber : lotNumber!; // lotNumber is set whenever batch is null
+    const lineExpireDate = batch ? batch.expireDate : expireDate;
+    const line = {
+      batchId: batch?.id ?? null,
+      countedQuantity,
+      reason: item.reason?.trim() || null,
+    };
+    // Keyed like the batch (lot + expiry); not an upsert, as a compound unique can't match a null expiry
+    const existing = await prisma.stockCountLine.findFirst({
+      where: { stockCountId: id, productId: product.id, lotNumber: lineLot, expireDate: lineExpireDate },
+      select: { id: true },
+    });
+    if (existing) {
+      await prisma.stockCountLine.update({ where: { id: existing.id }, data: line });
+    } else {
+      await prisma.stockCountLine.create({
+        data: { stockCountId: id, productId: product.id, lotNumber: lineLot, expireDate: lineExpireDate, ...line },
+      });
+    }
+  }
+
+  return getStockCount(id);
+}
+
+export async function removeStockCountLine(id: string, lineId: string): Promise<StockCountResponse> {
+  await assertOpen(id);
+  const removed = await prisma.stockCountLine.deleteMany({ where: { id: lineId, stockCountId: id } });
+  if (removed.count === 0) throw new Error('LINE_NOT_FOUND');
+  return getStockCount(id);
+}
+
+export async function cancelStockCount(id: string): Promise<StockCountResponse> {
+  const cancelled = await prisma.stockCount.updateMany({
+    where: { id, status: 'OPEN' },
+    data: { status: 'CANCELLED' },
+  });
+  if (cancelled.count === 0) {
+    await assertOpen(id); // throws the precise reason
+  }
+  return getStockCount(id);
+}
+
+/**
+ * Commits an OPEN count: each batch is set to its counted quantity by posting an ADJUST_IN or
+ * ADJUST_OUT movement for the variance against the live batch quantity. A counted lot that the
+ * system did not know is created as a new batch. Everything runs in ONE transaction under a single
+ * sessionId, so the count appears as one operation in /api/stock/logs.
+ *
+ * Every line with a variance needs a reason — its own, or `reason` as the default for the count.
+ */
+export async function commitStockCount(
+  id: string,
+  userId: string | null,
+  reason?: string | null,
+): Promise<CommitStockCountResponse> {
+  const defaultReason = reason?.trim() || null;
+  const sessionId = randomUUID();
+
+  const adjustments = await prisma.$transaction(async (tx) => {
+    const count = await tx.stockCount.findUnique({ where: { id }, include: { lines: true } });
+    if (!count) throw new Error('STOCK_COUNT_NOT_FOUND');
+
+    // Conditional status flip guards against two concurrent commits of the same count.
+    const claimed = await tx.stockCount.updateMany({
+      where: { id, status: 'OPEN' },
+      data: { status: 'COMMITTED', sessionId, committedById: userId, committedAt: new Date() },
+    });
+    if (claimed.count === 0) throw new Error('STOCK_COUNT_NOT_OPEN');
+
+    const posted: StockCountAdjustment[] = [];
+    for (const line of count.lines) {
+      const batch = line.batchId
+        ? await tx.stockBatch.findUnique({ where: { id: line.batchId } })
+        : await tx.stockBatch.findFirst({
+            where: {
+              productId: line.productId,
+              lotNumber: line.lotNumber,
+              expireDate: line.expireDate,
+              locationId: count.locationId,
+            },
+          });
+
+      const systemQuantity = batch?.quantity ?? 0;
+      const variance = line.countedQuantity - systemQuantity;
+      if (variance === 0) {
+        await tx.stockCountLine.update({ where: { id: line.id }, data: { systemQuantity } });
+        continue;
+      }
+
+      const movementReason = line.reason || defaultReason;
+      if (!movementReason) throw new Error('REASON_REQUIRED');
+
+      let batchId: string;
+      if (batch) {
+        await tx.stockBatch.update({
+          where: { id: batch.id },
+          data: { quantity: { increment: variance } },
+        });
+        batchId = batch.id;
+      } else {
+        const created = await tx.stockBatch.create({
+          data: {
+            productId: line.productId,
+            locationId: count.locationId,
+            lotNumber: line.lotNumber,
+            expireDate: line.expireDate,
+            quantity: line.countedQuantity,
+          },
+        });
+        batchId = created.id;
+      }
+
+      await tx.stockCountLine.update({ where: { id: line.id }, data: { systemQuantity, batchId } });
+
+      const type = variance > 0 ? 'ADJUST_IN' : 'ADJUST_OUT';
+      await tx.stockMovement.create({
+        data: {
+          productId: line.productId,
+          batchId,
+          lotNumber: line.lotNumber,
+          type,
+          quantity: Math.abs(variance),
+          reason: movementReason,
+          unitCost: batch?.unitCost ?? null,
+          sessionId,
+          locationId: count.locationId,
+          ...(userId ? { createdById: userId } : {}),
+        },
+      });
+
+      posted.push({
+        lineId: line.id,
+        productId: line.productId,
+        batchId,
+        lotNumber: line.lotNumber,
+        type,
+        quantity: Math.abs(variance),
+      });
+    }
+    return posted;
+  });
+
+  return { sessionId, stockCount: await getStockCount(id), adjustments };
+}
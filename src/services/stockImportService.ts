@@ -0,0 +1,320 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { parseCsv } from '../utils/csv';
+import { excelSerialToDate, readXlsxRows } from '../utils/xlsx';
+import { parseRecordDate } from '../utils/date';
+import { parseAmount } from '../utils/money';
+import { receiveIntoBatch, resolveLotNumber } from './stockInService';
+import { resolveLocationId } from './stockLocationService';
+import {
+  StockImportProduct,
+  StockImportRequest,
+  StockImportResponse,
+  StockImportRowError,
+} from '../types/stock.types';
+
+/** Largest sheet accepted in one import, to keep the commit transaction bounded. */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Import columns, matched case-insensitively ignoring spaces/underscores.
+ * Product columns are read from the first row of each barcode; later rows of the same barcode
+ * only add batches and must leave product columns blank or identical.
+ */
+const COLUMNS = [
+  'barcode',
+  'name',
+  'unit',
+  'minStock',
+  'category',
+  'isReusable',
+  'openedShelfLifeDays',
+  'lotNumber',
+  'expireDate',
+  'quantity',
+  'unitCost',
+] as const;
+type Column = (typeof COLUMNS)[number];
+
+const REQUIRED_COLUMNS: Column[] = ['barcode', 'name', 'unit'];
+const PRODUCT_COLUMNS: Column[] = ['name', 'unit', 'minStock', 'category', 'isReusable', 'openedShelfLifeDays'];
+const BATCH_COLUMNS: Column[] = ['lotNumber', 'expireDate', 'unitCost'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+interface ImportBatch {
+  row: number;
+  lotNumber: string | null;
+  expireDate: string | null; // YYYY-MM-DD
+  quantity: number;
+  unitCost: Prisma.Decimal | null;
+}
+
+interface ImportProduct {
+  row: number; // first row of the barcode
+  barcode: string;
+  name: string;
+  unit: string;
+  minStock: number;
+  categoryName: string | null;
+  isReusable: boolean;
+  openedShelfLifeDays: number | null;
+  cells: Record<Column, string>; // raw product cells, to compare later rows against
+  batches: ImportBatch[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.replace(/[\s_]/g, '').toLowerCase();
+}
+
+/** Decodes the uploaded file into rows of cell text. Throws INVALID_XLSX for unreadable workbooks. */
+function readRows(request: StockImportRequest): string[][] {
+  if (request.format === 'xlsx') return readXlsxRows(Buffer.from(request.content, 'base64'));
+  return parseCsv(request.content);
+}
+
+function parseWholeNumber(value: string, min: number): number | null {
+  return /^\d+$/.test(value) && Number(value) >= min ? Number(value) : null;
+}
+
+/** `YYYY-MM-DD`, or an Excel date serial when the sheet stored the cell as a date. */
+function parseExpireDate(value: string, format: StockImportRequest['format']): string | null {
+  const text = format === 'xlsx' && /^\d{5}(\.\d+)?$/.test(value) ? excelSerialToDate(Number(value)) : value;
+  try {
+    parseRecordDate(text);
+    return text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validates a product + opening-stock sheet. Returns the products to create (with their batches)
+ * and every row-level problem found; products are only usable when errors is empty.
+ */
+function validateRows(
+  rows: string[][],
+  format: StockImportRequest['format'],
+): { products: ImportProduct[]; errors: StockImportRowError[]; rowCount: number } {
+  const errors: StockImportRowError[] = [];
+  const [header, ...dataRows] = rows;
+  if (!header) {
+    errors.push({ row: 1, column: null, message: 'File is empty' });
+    return { products: [], errors, rowCount: 0 };
+  }
+
+  const columnAt = new Map<Column, number>();
+  header.forEach((cell, index) => {
+    const column = COLUMNS.find((c) => c.toLowerCase() === normalizeHeader(cell));
+    if (column && !columnAt.has(column)) columnAt.set(column, index);
+  });
+  for (const column of REQUIRED_COLUMNS) {
+    if (!columnAt.has(column)) errors.push({ row: 1, column, message: `Missing required column: ${column}` });
+  }
+  if (dataRows.length === 0) errors.push({ row: 1, column: null, message: 'File has no data rows' });
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    errors.push({ row: 1, column: null, message: `File has more than ${MAX_IMPORT_ROWS} data rows` });
+  }
+  if (errors.length > 0) return { products: [], errors, rowCount: dataRows.length };
+
+  const products = new Map<string, ImportProduct>();
+
+  dataRows.forEach((cells, index) => {
+    const row = index + 2; // spreadsheet numbering, header is row 1
+    const raw = Object.fromEntries(
+      COLUMNS.map((c) => [c, columnAt.has(c) ? (cells[columnAt.get(c)!] ?? '').trim() : ''])
+    ) as Record<Column, string>;
+    const fail = (column: Column | null, message: string) => errors.push({ row, column, message });
+
+    if (!raw.barcode) {
+      fail('barcode', 'barcode is required');
+      return;
+    }
+
+    let product = products.get(raw.barcode);
+    if (product) {
+      // Repeated barcode: another opening batch of the same product
+      for (const column of PRODUCT_COLUMNS) {
+        if (raw[column] && raw[column] !== product.cells[column]) {
+          fail(column, `${column} conflicts with row ${product.row} for barcode ${raw.barcode}`);
+        }
+      }
+    } else {
+      if (!raw.name) fail('name', 'name is required');
+      if (!raw.unit) fail('unit', 'unit is required');
+
+      const minStock = raw.minStock ? parseWholeNumber(raw.minStock, 0) : 0;
+      if (minStock === null) fail('minStock', 'minStock must be a whole number, 0 or more');
+
+      const reusable = raw.isReusable.toLowerCase();
+      if (!TRUE_VALUES.includes(reusable) && !FALSE_VALUES.includes(reusable)) {
+        fail('isReusable', 'isReusable must be true or false');
+      }
+
+      const shelfLife = raw.openedShelfLifeDays ? parseWholeNumber(raw.openedShelfLifeDays, 1) : null;
+      if (raw.openedShelfLifeDays && shelfLife === null) {
+        fail('openedShelfLifeDays', 'openedShelfLifeDays must be a positive whole number');
+      }
+
+      product = {
+        row,
+        barcode: raw.barcode,
+        name: raw.name,
+        unit: raw.unit,
+        minStock: minStock ?? 0,
+        categoryName: raw.category || null,
+        isReusable: TRUE_VALUES.includes(reusable),
+        openedShelfLifeDays: shelfLife,
+        cells: raw,
+        batches: [],
+      };
+      products.set(raw.barcode, product);
+    }
+
+    // Opening batch (quantity blank or 0 = product only)
+    const quantity = raw.quantity ? parseWholeNumber(raw.quantity, 0) : 0;
+    if (quantity === null) {
+      fail('quantity', 'quantity must be a whole number, 0 or more');
+      return;
+    }
+    if (quantity === 0) {
+      const stray = BATCH_COLUMNS.find((c) => raw[c]);
+      if (stray) fail('quantity', `quantity is required when ${stray} is given`);
+      return;
+    }
+
+    const expireDate = raw.expireDate ? parseExpireDate(raw.expireDate, format) : null;
+    if (raw.expireDate && !expireDate) fail('expireDate', 'expireDate must be a valid date (YYYY-MM-DD)');
+
+    let unitCost: Prisma.Decimal | null = null;
+    if (raw.unitCost) {
+      try {
+        unitCost = parseAmount(raw.unitCost);
+      } catch {
+        fail('unitCost', 'unitCost must be a number, 0 or more');
+      }
+    }
+
+    product.batches.push({ row, lotNumber: raw.lotNumber || null, expireDate, quantity, unitCost });
+  });
+
+  return { products: Array.from(products.values()), errors, rowCount: dataRows.length };
+}
+
+/** Flags barcodes already used by a product (primary or alternate) and unknown category names. */
+async function checkAgainstCatalog(
+  products: ImportProduct[],
+  errors: StockImportRowError[],
+): Promise<Map<string, string>> {
+  const barcodes = products.map((p) => p.barcode);
+  const categoryNames = Array.from(new Set(products.flatMap((p) => (p.categoryName ? [p.categoryName] : []))));
+
+  const [primaries, alternates, categories] = await Promise.all([
+    prisma.product.findMany({ where: { barcode: { in: barcodes } }, select: { barcode: true } }),
+    prisma.productBarcode.findMany({ where: { barcode: { in: barcodes } }, select: { barcode: true } }),
+    prisma.productCategory.findMany({
+      where: { OR: categoryNames.map((name) => ({ name: { equals: name, mode: 'insensitive' as const } })) },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const taken = new Set([...primaries, ...alternates].map((b) => b.barcode));
+  const categoryIds = new Map(categories.map((c) => [c.name.toLowerCase(), c.id]));
+
+  for (const product of products) {
+    if (taken.has(product.barcode)) {
+      errors.push({ row: product.row, column: 'barcode', message: `Barcode already in use by a product: ${product.barcode}` });
+    }
+    if (product.categoryName && !categoryIds.has(product.categoryName.toLowerCase())) {
+      errors.push({ row: product.row, column: 'category', message: `Category does not exist: ${product.categoryName}` });
+    }
+  }
+  return categoryIds;
+}
+
+/**
+ * Imports products with their opening stock from a CSV or XLSX sheet (one row per product +
+ * opening batch; repeat the barcode for further batches).
+ *
+ * Every row is validated first (required columns, numbers, dates, barcodes already in the
+ * catalog or conflicting within the file, unknown categories). With dryRun, or when any row is
+ * invalid, nothing is written and the report lists the problems. Otherwise all products are
+ * created and the opening batches received in one transaction, as IN movements sharing one sessionId
+ * and recorded as posted by `userId`.
+ *
+ * Throws INVALID_XLSX for unreadable workbooks and LOCATION_NOT_FOUND / LOCATION_INACTIVE /
+ * DEFAULT_LOCATION_MISSING for the target location.
+ */
+export async function importStock(
+  request: StockImportRequest,
+  userId: string | null = null
+): Promise<StockImportResponse> {
+  const dryRun = request.dryRun === true;
+  const locationId = await resolveLocationId(prisma, request.locationId);
+
+  const { products, errors, rowCount } = validateRows(readRows(request), request.format);
+  const categoryIds = products.length > 0 ? await checkAgainstCatalog(products, errors) : new Map<string, string>();
+  errors.sort((a, b) => a.row - b.row);
+
+  const summary = (p: ImportProduct, productId: string | null): StockImportProduct => ({
+    productId,
+    barcode: p.barcode,
+    name: p.name,
+    batches: p.batches.length,
+    quantity: p.batches.reduce((sum, b) => sum + b.quantity, 0),
+  });
+
+  if (dryRun || errors.length > 0) {
+    return {
+      dryRun,
+      committed: false,
+      sessionId: null,
+      rowCount,
+      products: products.map((p) => summary(p, null)),
+      errors,
+    };
+  }
+
+  const sessionId = randomUUID();
+  const created = await prisma.$transaction(
+    async (tx) => {
+      const results: StockImportProduct[] = [];
+      for (const p of products) {
+        const product = await tx.product.create({
+          data: {
+            name: p.name,
+            barcode: p.barcode,
+            unit: p.unit,
+            minStock: p.minStock,
+            isReusable: p.isReusable,
+            ...(p.openedShelfLifeDays !== null ? { openedShelfLifeDays: p.openedShelfLifeDays } : {}),
+            ...(p.categoryName ? { categoryId: categoryIds.get(p.categoryName.toLowerCase()) } : {}),
+            ...(userId ? { createdById: userId } : {}),
+          },
+        });
+        for (const batch of p.batches) {
+          await receiveIntoBatch(
+            tx,
+            product.id,
+            {
+              locationId,
+              lotNumber: resolveLotNumber(batch.lotNumber),
+              expireDate: batch.expireDate,
+              quantity: batch.quantity,
+              unitCost: batch.unitCost,
+            },
+            sessionId,
+            userId
+          );
+        }
+        results.push(summary(p, product.id));
+      }
+      return results;
+    },
+    { timeout: 60_000 } // a full onboarding sheet is far more work than the 5s default allows
+  );
+
+  return { dryRun, committed: true, sessionId, rowCount, products: created, errors: [] };
+}
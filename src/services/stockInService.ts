@@ -1,32 +1,174 @@
 import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../prisma';
+import { Decimal, round2 } from '../utils/money';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
 import { StockInItem, StockInResponse, StockInItemResult } from '../types/stock.types';
 
+/**
+ * Returns the trimmed lot number, or an auto-generated one when the scanner sent none.
+ */
+export function resolveLotNumber(lotNumber?: string | null): string {
+  return lotNumber && lotNumber.trim()
+    ? lotNumber.trim()
+    : `AUTO-${Date.now()}-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Quantity to put into a single batch. lotNumber must already be resolved (no auto-generation here).
+ */
+export interface ReceiveIntoBatchInput {
+  locationId: string; // resolved location the stock is put into
+  lotNumber: string;
+  expireDate: string | null | undefined;
+  quantity: number;
+  unitCost?: Prisma.Decimal | null; // THB per unit; null/undefined = cost unknown
+}
+
+/**
+ * Weighted-average unit cost after adding `addedQty` at `addedCost` to a batch holding
+ * `currentQty` at `currentCost`. An unknown side keeps the known cost.
+ */
+export function blendUnitCost(
+  currentQty: number,
+  currentCost: Prisma.Decimal | null,
+  addedQty: number,
+  addedCost: Prisma.Decimal | null
+): Prisma.Decimal | null {
+  if (addedCost === null) return currentCost;
+  if (currentCost === null || currentQty <= 0) return addedCost;
+  return round2(
+    currentCost.times(currentQty).plus(addedCost.times(addedQty)).div(currentQty + addedQty)
+  );
+}
+
+/**
+ * Adds quantity to the batch identified by product + lot + expiry + location (creating it when missing)
+ * and records the IN movement for the audit trail.
+ * Shared by /api/stock/in and purchase-order receiving so both paths produce identical rows.
+ *
+ * @param tx - Active transaction client
+ * @param productId - Resolved product id
+ * @param input - Lot, expiry and quantity to receive
+ * @param sessionId - Session grouping the movements of this operation
+ * @param userId - User posting the movement (null when unknown)
+ * @param purchaseOrderLineId - Optional PO line the IN movement is linked to
+ * @returns The batch the quantity was added to
+ */
+export async function receiveIntoBatch(
+  tx: Prisma.TransactionClient,
+  productId: string,
+  input: ReceiveIntoBatchInput,
+  sessionId: string,
+  userId: string | null,
+  purchaseOrderLineId?: string
+): Promise<{ batchId: string; lotNumber: string }> {
+  const parsedExpireDate =
+    input.expireDate !== null && input.expireDate !== undefined && input.expireDate !== ''
+      ? new Date(input.expireDate)
+      : null;
+
+  // Check if batch already exists for this product + lot + expiry combination at the location
+  const existingBatch = await tx.stockBatch.findFirst({
+    where: {
+      productId,
+      lotNumber: input.lotNumber,
+      expireDate: parsedExpireDate,
+      locationId: input.locationId,
+    },
+  });
+
+  const unitCost = input.unitCost ?? null;
+  let batchId: string;
+
+  if (existingBatch) {
+    // Update existing batch quantity (and re-average the cost when one was supplied)
+    const updatedBatch = await tx.stockBatch.update({
+      where: { id: existingBatch.id },
+      data: {
+        quantity: {
+          increment: input.quantity,
+        },
+        ...(unitCost !== null
+          ? {
+              unitCost: blendUnitCost(
+                existingBatch.quantity,
+                existingBatch.unitCost ?? null,
+                input.quantity,
+                unitCost
+              ),
+            }
+          : {}),
+      },
+    });
+    batchId = updatedBatch.id;
+  } else {
+    // Create new batch
+    const newBatch = await tx.stockBatch.create({
+      data: {
+        productId,
+        locationId: input.locationId,
+        lotNumber: input.lotNumber,
+        quantity: input.quantity,
+        receivedAt: new Date(),
+        expireDate: parsedExpireDate,
+        ...(unitCost !== null ? { unitCost } : {}),
+      },
+    });
+    batchId = newBatch.id;
+  }
+
+  // Create movement record for audit trail
+  await tx.stockMovement.create({
+    data: {
+      productId,
+      batchId: batchId,
+      lotNumber: input.lotNumber,
+      type: 'IN',
+      quantity: input.quantity,
+      sessionId: sessionId,
+      locationId: input.locationId,
+      ...(unitCost !== null ? { unitCost } : {}),
+      ...(purchaseOrderLineId ? { purchaseOrderLineId } : {}),
+      ...(userId ? { createdById: userId } : {}),
+    },
+  });
+
+  return { batchId, lotNumber: input.lotNumber };
+}
+
 /**
  * Processes stock-in operations for one or more items
  * Uses a database transaction to ensure atomicity
  * 
  * @param items - Array of stock-in items
+ * @param locationId - Optional location to receive into (default location when omitted)
+ * @param userId - User posting the stock-in
  * @returns StockInResponse with sessionId and results for each item
  */
-export async function stockInService(items: StockInItem[]): Promise<StockInResponse> {
+export async function stockInService(
+  items: StockInItem[],
+  locationId?: string | null,
+  userId: string | null = null
+): Promise<StockInResponse> {
   // Generate a session ID for grouping all movements in this bulk operation
   const sessionId = randomUUID();
 
   // Process all items within a single transaction
   const results = await prisma.$transaction(async (tx) => {
     const itemResults: StockInItemResult[] = [];
+    const targetLocationId = await resolveLocationId(tx, locationId);
 
     for (const item of items) {
       try {
         // Auto-generate lotNumber if not provided
-        const effectiveLotNumber = (item.lotNumber && item.lotNumber.trim())
-          ? item.lotNumber.trim()
-          : `AUTO-${Date.now()}-${randomUUID().slice(0, 8)}`;
+        const effectiveLotNumber = resolveLotNumber(item.lotNumber);
 
-        // Resolve product by barcode
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
         const product = await tx.product.findUnique({
-          where: { barcode: item.barcode },
+          where: { barcode: scan.barcode },
         });
 
         if (!product) {
@@ -42,81 +184,56 @@ export async function stockInService(items: StockInItem[]): Promise<StockInRespo
           continue;
         }
 
-        const parsedExpireDate =
-          item.expireDate !== null && item.expireDate !== undefined && item.expireDate !== ''
-            ? new Date(item.expireDate)
-            : null;
-
-        // Check if batch already exists for this product + lot + expiry combination
-        const existingBatch = await tx.stockBatch.findFirst({
-          where: {
-            productId: product.id,
-            lotNumber: effectiveLotNumber,
-            expireDate: parsedExpireDate,
-          },
-        });
-
-        let batchId: string;
-
-        if (existingBatch) {
-          // Update existing batch quantity
-          const updatedBatch = await tx.stockBatch.update({
-            where: { id: existingBatch.id },
-            data: {
-              quantity: {
-                increment: item.quantity,
-              },
-            },
-          });
-          batchId = updatedBatch.id;
-        } else {
-          // Create new batch
-          const createData: {
-            productId: string;
-            lotNumber: string;
-            quantity: number;
-            receivedAt: Date;
-            expireDate?: Date | null;
-          } = {
+        // Archived products are not received any more
+        if (product.archivedAt) {
+          itemResults.push({
+            barcode: item.barcode,
             productId: product.id,
+            batchId: '',
             lotNumber: effectiveLotNumber,
             quantity: item.quantity,
-            receivedAt: new Date(),
-          };
-
-          createData.expireDate = parsedExpireDate;
-
-          const newBatch = await tx.stockBatch.create({
-            data: createData as any, // Type assertion needed until Prisma client is regenerated
+            success: false,
+            error: `Product "${product.name}" is archived`,
           });
-          batchId = newBatch.id;
+          continue;
         }
 
-        // Create movement record for audit trail
-        await tx.stockMovement.create({
-          data: {
-            productId: product.id,
-            batchId: batchId,
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
+        const { batchId } = await receiveIntoBatch(
+          tx,
+          product.id,
+          {
+            locationId: targetLocationId,
             lotNumber: effectiveLotNumber,
-            type: 'IN',
-            quantity: item.quantity,
-            sessionId: sessionId,
+            expireDate: item.expireDate,
+            quantity,
+            // unitCost is per scanned unit; stored per base unit
+            unitCost:
+              item.unitCost !== null && item.unitCost !== undefined
+                ? round2(new Decimal(item.unitCost).div(pack?.unitsPerPack ?? 1))
+                : null,
           },
-        });
+          sessionId,
+          userId
+        );
 
         itemResults.push({
           barcode: item.barcode,
           productId: product.id,
           batchId: batchId,
           lotNumber: effectiveLotNumber,
-          quantity: item.quantity,
+          quantity,
+          pack,
           success: true,
         });
       } catch (error) {
         // Handle any unexpected errors
-        const errorLotNumber = (item.lotNumber && item.lotNumber.trim()) 
-          ? item.lotNumber.trim() 
-          : `AUTO-${Date.now()}-${randomUUID().slice(0, 8)}`;
+        const errorLotNumber = resolveLotNumber(item.lotNumber);
         itemResults.push({
           barcode: item.barcode,
           productId: '',
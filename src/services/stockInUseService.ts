@@ -0,0 +1,38 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { StockInUseEntry, StockInUseFilters } from '../types/stock.types';
+
+/**
+ * Lists reusable stock currently open (in use), oldest-opened first.
+ * A row is past its use-by once `now` reaches useBy (openedAt + the product's openedShelfLifeDays).
+ */
+export async function listInUseStock(filters: StockInUseFilters, now: Date = new Date()): Promise<StockInUseEntry[]> {
+  const where: Prisma.StockInUseWhereInput = {
+    quantity: { gt: 0 },
+    ...(filters.productId ? { productId: filters.productId } : {}),
+    ...(filters.barcode ? { product: { barcode: filters.barcode } } : {}),
+    ...(filters.pastUseBy ? { useBy: { lte: now } } : {}),
+  };
+
+  const rows = await prisma.stockInUse.findMany({
+    where,
+    include: { product: { select: { name: true, barcode: true, unit: true } } },
+    orderBy: [{ openedAt: 'asc' }, { id: 'asc' }],
+  });
+
+  return rows.map((r) => ({
+    id: r.id,
+    productId: r.productId,
+    productName: r.product.name,
+    barcode: r.product.barcode,
+    unit: r.product.unit,
+    batchId: r.batchId,
+    lotNumber: r.lotNumber,
+    locationId: r.locationId,
+    openedQuantity: r.openedQuantity,
+    quantity: r.quantity,
+    openedAt: r.openedAt.toISOString(),
+    useBy: r.useBy ? r.useBy.toISOString() : null,
+    isPastUseBy: r.useBy !== null && r.useBy.getTime() <= now.getTime(),
+  }));
+}
@@ -0,0 +1,233 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+
+export interface StockLocationResponse {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CreateStockLocationInput {
+  name: string;
+  description?: string | null;
+  isDefault?: boolean;
+}
+
+interface UpdateStockLocationInput {
+  name?: string;
+  description?: string | null;
+  isDefault?: boolean;
+  isActive?: boolean;
+}
+
+export interface LocationThresholdInput {
+  productId: string;
+  minStock: number;
+}
+
+export interface LocationStockEntry {
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  quantity: number;
+  minStock: number | null; // this location's threshold; null = none set
+  isLowStock: boolean;
+}
+
+export interface LocationStockResponse {
+  location: StockLocationResponse;
+  products: LocationStockEntry[];
+}
+
+function toResponse(l: {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}): StockLocationResponse {
+  return {
+    id: l.id,
+    name: l.name,
+    description: l.description,
+    isDefault: l.isDefault,
+    isActive: l.isActive,
+    createdAt: l.createdAt.toISOString(),
+    updatedAt: l.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Resolves the location a stock operation applies to: the given one (must exist and be active)
+ * or, when omitted, the default location.
+ */
+export async function resolveLocationId(
+  client: Prisma.TransactionClient,
+  locationId?: string | null,
+): Promise<string> {
+  if (locationId) {
+    const location = await client.stockLocation.findUnique({ where: { id: locationId } });
+    if (!location) throw new Error('LOCATION_NOT_FOUND');
+    if (!location.isActive) throw new Error('LOCATION_INACTIVE');
+    return location.id;
+  }
+  const fallback = await client.stockLocation.findFirst({ where: { isDefault: true } });
+  if (!fallback) throw new Error('DEFAULT_LOCATION_MISSING');
+  return fallback.id;
+}
+
+export async function listStockLocations(activeOnly: boolean): Promise<StockLocationResponse[]> {
+  const locations = await prisma.stockLocation.findMany({
+    where: activeOnly ? { isActive: true } : undefined,
+    orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+  });
+  return locations.map(toResponse);
+}
+
+export async function createStockLocation(data: CreateStockLocationInput): Promise<StockLocationResponse> {
+  const name = data.name?.trim();
+  if (!name) throw new Error('INVALID_NAME');
+  try {
+    const location = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) await tx.stockLocation.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      return tx.stockLocation.create({
+        data: { name, description: data.description?.trim() || null, isDefault: data.isDefault === true },
+      });
+    });
+    return toResponse(location);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('LOCATION_NAME_TAKEN');
+    throw e;
+  }
+}
+
+/**
+ * Updates a location. Making a location the default moves the flag away from the previous one;
+ * the default itself can be neither un-flagged directly nor deactivated. A location still holding
+ * stock cannot be deactivated — transfer it out first.
+ */
+export async function updateStockLocation(id: string, data: UpdateStockLocationInput): Promise<StockLocationResponse> {
+  const existing = await prisma.stockLocation.findUnique({ where: { id } });
+  if (!existing) throw new Error('LOCATION_NOT_FOUND');
+  if (data.name !== undefined && !data.name.trim()) throw new Error('INVALID_NAME');
+
+  const willBeDefault = data.isDefault ?? existing.isDefault;
+  if (existing.isDefault && data.isDefault === false) throw new Error('DEFAULT_LOCATION_REQUIRED');
+  if (willBeDefault && data.isActive === false) throw new Error('DEFAULT_LOCATION_REQUIRED');
+
+  if (data.isActive === false && existing.isActive) {
+    const held = await prisma.stockBatch.aggregate({
+      where: { locationId: id, quantity: { gt: 0 } },
+      _sum: { quantity: true },
+    });
+    if ((held._sum.quantity ?? 0) > 0) throw new Error('LOCATION_NOT_EMPTY');
+  }
+
+  try {
+    const location = await prisma.$transaction(async (tx) => {
+      if (data.isDefault && !existing.isDefault) {
+        await tx.stockLocation.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.stockLocation.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+          ...(data.description !== undefined ? { description: data.description?.trim() || null } : {}),
+          ...(data.isDefault !== undefined ? { isDefault: data.isDefault } : {}),
+          ...(data.isActive !== undefined ? { isActive: data.isActive } : {}),
+        },
+      });
+    });
+    return toResponse(location);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('LOCATION_NAME_TAKEN');
+    throw e;
+  }
+}
+
+/**
+ * Stock held at one location, per product. Products with a threshold here are listed even when
+ * the location holds none of them, so an empty cabinet slot still shows up as low stock.
+ */
+export async function getLocationStock(id: string): Promise<LocationStockResponse> {
+  const location = await prisma.stockLocation.findUnique({ where: { id } });
+  if (!location) throw new Error('LOCATION_NOT_FOUND');
+
+  const [totals, thresholds] = await Promise.all([
+    prisma.stockBatch.groupBy({
+      by: ['productId'],
+      where: { locationId: id, quantity: { gt: 0 } },
+      _sum: { quantity: true },
+    }),
+    prisma.stockLocationThreshold.findMany({ where: { locationId: id } }),
+  ]);
+
+  const quantityByProduct = new Map(totals.map((t) => [t.productId, t._sum.quantity ?? 0]));
+  const minStockByProduct = new Map(thresholds.map((t) => [t.productId, t.minStock]));
+  const productIds = [...new Set([...quantityByProduct.keys(), ...minStockByProduct.keys()])];
+
+  const products = productIds.length
+    ? await prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: { id: true, name: true, barcode: true, unit: true },
+      })
+    : [];
+
+  return {
+    location: toResponse(location),
+    products: products
+      .map((p) => {
+        const quantity = quantityByProduct.get(p.id) ?? 0;
+        const minStock = minStockByProduct.get(p.id) ?? null;
+        return {
+          productId: p.id,
+          productName: p.name,
+          barcode: p.barcode,
+          unit: p.unit,
+          quantity,
+          minStock,
+          isLowStock: minStock !== null && quantity <= minStock,
+        };
+      })
+      .sort((a, b) => a.productName.localeCompare(b.productName)),
+  };
+}
+
+/** Replaces all minStock thresholds of a location. An empty list clears them. */
+export async function replaceLocationThresholds(
+  id: string,
+  thresholds: LocationThresholdInput[],
+): Promise<LocationStockResponse> {
+  if (!Array.isArray(thresholds)) throw new Error('INVALID_THRESHOLDS');
+  const seen = new Set<string>();
+  for (const t of thresholds) {
+    if (!t || typeof t.productId !== 'string' || !t.productId) throw new Error('INVALID_THRESHOLDS');
+    if (!Number.isInteger(t.minStock) || t.minStock < 0) throw new Error('INVALID_MIN_STOCK');
+    if (seen.has(t.productId)) throw new Error('DUPLICATE_PRODUCT');
+    seen.add(t.productId);
+  }
+
+  const location = await prisma.stockLocation.findUnique({ where: { id } });
+  if (!location) throw new Error('LOCATION_NOT_FOUND');
+
+  const found = await prisma.product.findMany({ where: { id: { in: [...seen] } }, select: { id: true } });
+  if (found.length !== seen.size) throw new Error('PRODUCT_NOT_FOUND');
+
+  await prisma.$transaction(async (tx) => {
+    await tx.stockLocationThreshold.deleteMany({ where: { locationId: id } });
+    if (thresholds.length > 0) {
+      await tx.stockLocationThreshold.createMany({
+        data: thresholds.map((t) => ({ locationId: id, productId: t.productId, minStock: t.minStock })),
+      });
+    }
+  });
+
+  return getLocationStock(id);
+}
@@ -1,5 +1,6 @@
 import { prisma } from '../prisma';
 import { StockLogsResponse, StockLogEntry, StockLogLotBreakdown } from '../types/stock.types';
+import { REASON_GROUPED_TYPES } from './getStockLogsService';
 
 /**
  * Retrieves stock movement logs grouped by sessionId, productId, and type
@@ -34,13 +35,13 @@ export async function stockLogService(): Promise<StockLogsResponse> {
     },
   });
 
-  // Group movements by sessionId + productId + type (+ reason for DISPOSE)
+  // Group movements by sessionId + productId + type (+ reason for DISPOSE/ADJUST_*)
   // Use a composite key to ensure proper grouping
   const groupedMap = new Map<string, StockLogEntry>();
 
   for (const movement of movements) {
     const movementReason = (movement as { reason?: string | null }).reason ?? null;
-    const reasonKey = movement.type === 'DISPOSE' ? movementReason || '' : '';
+    const reasonKey = REASON_GROUPED_TYPES.includes(movement.type) ? movementReason || '' : '';
 
     // Create composite key: sessionId|productId|type|reason
     // Handle null sessionId by using movement id as fallback
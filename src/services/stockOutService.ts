@@ -1,6 +1,10 @@
 import { randomUUID } from 'crypto';
+import { PickingStrategy, Prisma, Product } from '@prisma/client';
 import { prisma } from '../prisma';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
 import {
+  StockConsumptionLink,
   StockOutItem,
   StockOutResponse,
   StockOutItemResult,
@@ -8,21 +12,147 @@ import {
 } from '../types/stock.types';
 
 /**
- * Processes stock-out operations with strict FIFO handling
+ * FIFO batch order (oldest received first). Default picking order of every deduction path and
+ * the order inventory valuation lists batches in.
+ */
+export const FIFO_BATCH_ORDER: Prisma.StockBatchOrderByWithRelationInput[] = [
+  { receivedAt: 'asc' },
+  { createdAt: 'asc' },
+];
+
+/**
+ * FEFO batch order (earliest expiry first, batches without an expiry date last), FIFO among
+ * batches expiring on the same date.
+ */
+export const FEFO_BATCH_ORDER: Prisma.StockBatchOrderByWithRelationInput[] = [
+  { expireDate: { sort: 'asc', nulls: 'last' } },
+  ...FIFO_BATCH_ORDER,
+];
+
+export const PICKING_STRATEGIES: PickingStrategy[] = ['FIFO', 'FEFO', 'MANUAL'];
+
+export function isPickingStrategy(value: unknown): value is PickingStrategy {
+  return PICKING_STRATEGIES.includes(value as PickingStrategy);
+}
+
+/**
+ * Picking strategy of a product: its own pickingStrategy, otherwise the clinic default
+ * (FIFO until the clinic settings are saved).
+ */
+export async function resolvePickingStrategy(
+  tx: Prisma.TransactionClient,
+  product: Pick<Product, 'pickingStrategy'>
+): Promise<PickingStrategy> {
+  if (product.pickingStrategy) return product.pickingStrategy;
+  const settings = await tx.clinicSetting.findUnique({
+    where: { id: 1 },
+    select: { defaultPickingStrategy: true },
+  });
+  return settings?.defaultPickingStrategy ?? 'FIFO';
+}
+
+/**
+ * Batch filter and order for deducting one item of a product. An explicit lotNumber restricts
+ * the pick to that lot whatever the strategy; MANUAL products cannot be deducted without one.
+ *
+ * Throws when a MANUAL product is deducted without a lotNumber (reported as a failed item).
+ */
+export async function resolveBatchPicking(
+  tx: Prisma.TransactionClient,
+  product: Pick<Product, 'name' | 'pickingStrategy'>,
+  lotNumber?: string | null
+): Promise<{ lotNumber: string | null; where: Prisma.StockBatchWhereInput; orderBy: Prisma.StockBatchOrderByWithRelationInput[] }> {
+  const lot = lotNumber?.trim() || null;
+  const strategy = await resolvePickingStrategy(tx, product);
+  if (strategy === 'MANUAL' && !lot) {
+    throw new Error(`Product "${product.name}" is picked manually: lotNumber is required`);
+  }
+
+  return {
+    lotNumber: lot,
+    where: lot ? { lotNumber: lot } : {},
+    orderBy: strategy === 'FEFO' ? FEFO_BATCH_ORDER : FIFO_BATCH_ORDER,
+  };
+}
+
+/**
+ * Validates a consumption link and returns the movement fields to store with it.
+ * A daily record supplies the patient; an explicit patientId must agree with it.
+ *
+ * Throws DAILY_RECORD_NOT_FOUND, PATIENT_NOT_FOUND or PATIENT_MISMATCH.
+ */
+export async function resolveConsumptionLink(
+  link?: StockConsumptionLink
+): Promise<{ dailyRecordId?: string; patientId?: string }> {
+  const dailyRecordId = link?.dailyRecordId || undefined;
+  let patientId = link?.patientId || undefined;
+
+  if (dailyRecordId) {
+    const record = await prisma.dailyRecord.findUnique({
+      where: { id: dailyRecordId },
+      select: { patientId: true },
+    });
+    if (!record) throw new Error('DAILY_RECORD_NOT_FOUND');
+    if (patientId && record.patientId && patientId !== record.patientId) throw new Error('PATIENT_MISMATCH');
+    patientId = patientId ?? record.patientId ?? undefined;
+  } else if (patientId) {
+    const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+    if (!patient) throw new Error('PATIENT_NOT_FOUND');
+  }
+
+  return {
+    ...(dailyRecordId ? { dailyRecordId } : {}),
+    ...(patientId ? { patientId } : {}),
+  };
+}
+
+/**
+ * Error message of a deduction that exceeds the stock of the picked batches (rolls back the session).
+ * expiredQuantity is stock left out because it is past its expiry date, so staff know it exists.
+ */
+export function insufficientStockMessage(
+  barcode: string,
+  lotNumber: string | null,
+  requested: number,
+  available: number,
+  expiredQuantity = 0
+): string {
+  const lot = lotNumber ? ` in lot ${lotNumber}` : '';
+  const expired =
+    expiredQuantity > 0
+      ? ` (${expiredQuantity} more expired: dispose it or ask an admin for an expired-stock override)`
+      : '';
+  return `Insufficient stock for product ${barcode}${lot}. Requested: ${requested}, Available: ${available}${expired}`;
+}
+
+/**
+ * Processes stock-out operations using each product's picking strategy
  * Uses a database transaction to ensure atomicity
  * 
- * FIFO Algorithm:
- * 1. Find all batches for the product with quantity > 0
- * 2. Exclude expired batches
- * 3. Order by receivedAt ascending (oldest received first)
- * 3. Deduct quantity across batches until requested quantity is satisfied
- * 4. Throw error if total available stock is insufficient
+ * Picking Algorithm:
+ * 1. Find all batches for the product with quantity > 0 (only the requested lot when lotNumber is given)
+ * 2. Exclude expired and quarantined batches
+ * 3. Order by the product's strategy: FIFO (oldest received first) or FEFO (earliest expiry first);
+ *    MANUAL products must name a lot
+ * 4. Deduct quantity across batches until requested quantity is satisfied
+ * 5. Throw error if total available stock is insufficient
  * 
  * @param items - Array of stock-out items
+ * @param link - Optional daily record / patient the materials were used for
+ * @param locationId - Optional location to take stock from (all locations when omitted)
+ * @param userId - User posting the stock-out
  * @returns StockOutResponse with sessionId and results for each item
  * @throws Error if insufficient stock for any item
  */
-export async function stockOutService(items: StockOutItem[]): Promise<StockOutResponse> {
+export async function stockOutService(
+  items: StockOutItem[],
+  link?: StockConsumptionLink,
+  locationId?: string | null,
+  userId: string | null = null
+): Promise<StockOutResponse> {
+  const linkData = await resolveConsumptionLink(link);
+  if (locationId) await resolveLocationId(prisma, locationId);
+
   // Generate a session ID for grouping all movements in this bulk operation
   const sessionId = randomUUID();
 
@@ -32,9 +162,10 @@ export async function stockOutService(items: StockOutItem[]): Promise<StockOutRe
 
     for (const item of items) {
       try {
-        // Resolve product by barcode
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
         const product = await tx.product.findUnique({
-          where: { barcode: item.barcode },
+          where: { barcode: scan.barcode },
         });
 
         if (!product) {
@@ -50,12 +181,32 @@ export async function stockOutService(items: StockOutItem[]): Promise<StockOutRe
           continue;
         }
 
+        // Archived products are not used any more; leftovers can still be disposed
+        if (product.archivedAt) {
+          itemResults.push({
+            barcode: item.barcode,
+            productId: product.id,
+            requestedQuantity: item.quantity,
+            deductedQuantity: 0,
+            batches: [],
+            success: false,
+            error: `Product "${product.name}" is archived`,
+          });
+          continue;
+        }
+
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
         // Guard: reusable items must use /api/stock/withdraw instead
         if (product.isReusable) {
           itemResults.push({
             barcode: item.barcode,
             productId: product.id,
-            requestedQuantity: item.quantity,
+            requestedQuantity: quantity,
             deductedQuantity: 0,
             batches: [],
             success: false,
@@ -67,28 +218,50 @@ export async function stockOutService(items: StockOutItem[]): Promise<StockOutRe
         const startOfToday = new Date();
         startOfToday.setHours(0, 0, 0, 0);
 
-        // Find all non-expired batches with available stock, ordered by receivedAt (strict FIFO)
+        const picking = await resolveBatchPicking(tx, product, item.lotNumber);
+
+        // Find all non-expired batches with available stock, in the product's picking order
         const batches = await tx.stockBatch.findMany({
           where: {
             productId: product.id,
             quantity: { gt: 0 },
+            status: 'ACTIVE',
             OR: [{ expireDate: null }, { expireDate: { gte: startOfToday } }],
+            ...(locationId ? { locationId } : {}),
+            ...picking.where,
           },
-          orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
+          orderBy: picking.orderBy,
         });
 
         // Calculate total available stock
         const totalAvailable = batches.reduce((sum, batch) => sum + batch.quantity, 0);
 
-        // Check if sufficient stock is available
-        if (totalAvailable < item.quantity) {
+        // Check if sufficient stock is available; report expired stock that was left out
+        if (totalAvailable < quantity) {
+          const expired = await tx.stockBatch.aggregate({
+            where: {
+              productId: product.id,
+              quantity: { gt: 0 },
+              status: 'ACTIVE',
+              expireDate: { lt: startOfToday },
+              ...(locationId ? { locationId } : {}),
+              ...picking.where,
+            },
+            _sum: { quantity: true },
+          });
           throw new Error(
-            `Insufficient stock for product ${item.barcode}. Requested: ${item.quantity}, Available: ${totalAvailable}`
+            insufficientStockMessage(
+              item.barcode,
+              picking.lotNumber,
+              quantity,
+              totalAvailable,
+              expired._sum.quantity ?? 0
+            )
           );
         }
 
-        // Deduct quantity across batches using strict FIFO algorithm
-        let remainingQuantity = item.quantity;
+        // Deduct quantity across batches in picking order
+        let remainingQuantity = quantity;
         const batchDeductions: StockOutBatchDeduction[] = [];
 
         for (const batch of batches) {
@@ -116,7 +289,11 @@ export async function stockOutService(items: StockOutItem[]): Promise<StockOutRe
               lotNumber: batch.lotNumber,
               type: 'OUT',
               quantity: quantityToDeduct,
+              unitCost: batch.unitCost,
               sessionId: sessionId,
+              locationId: batch.locationId,
+              ...linkData,
+              ...(userId ? { createdById: userId } : {}),
             },
           });
 
@@ -132,9 +309,10 @@ export async function stockOutService(items: StockOutItem[]): Promise<StockOutRe
         itemResults.push({
           barcode: item.barcode,
           productId: product.id,
-          requestedQuantity: item.quantity,
-          deductedQuantity: item.quantity,
+          requestedQuantity: quantity,
+          deductedQuantity: quantity,
           batches: batchDeductions,
+          pack,
           success: true,
         });
       } catch (error) {
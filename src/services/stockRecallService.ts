@@ -0,0 +1,136 @@
+import { StockMovementType } from '@prisma/client';
+import { prisma } from '../prisma';
+import { resolveScannedBarcode } from './productCatalogService';
+import {
+  BatchStatusRequest,
+  LotRecallBatch,
+  LotRecallMovement,
+  LotRecallPatient,
+  LotRecallResponse,
+} from '../types/stock.types';
+
+/** Movement types that hand stock to a patient (the ones a consumption link is stored on). */
+const PATIENT_USE_TYPES: StockMovementType[] = ['OUT', 'WITHDRAW'];
+
+/**
+ * Finds every batch of a lot (optionally of one product) with its remaining quantity, all
+ * movements against it and the patients it was used for.
+ *
+ * Movements count for a batch both as source (batchId) and as the destination of a transfer
+ * (toBatchId). Patients come from OUT/WITHDRAW movements linked to a Patient or DailyRecord;
+ * reversed sessions are listed under movements but not counted as patient use.
+ */
+export async function findLotRecall(lotNumber: string, barcode?: string | null): Promise<LotRecallResponse> {
+  // An alternate (GTIN, supplier, pack) barcode narrows to its product like the primary one
+  const productBarcode = barcode ? (await resolveScannedBarcode(prisma, barcode)).barcode : null;
+  const batches = await prisma.stockBatch.findMany({
+    where: { lotNumber, ...(productBarcode ? { product: { barcode: productBarcode } } : {}) },
+    include: {
+      product: { select: { name: true, barcode: true, unit: true } },
+      location: { select: { name: true } },
+      inUse: { where: { quantity: { gt: 0 } }, select: { quantity: true } },
+    },
+    orderBy: [{ productId: 'asc' }, { receivedAt: 'asc' }],
+  });
+
+  const response: LotRecallResponse = { lotNumber, barcode: barcode || null, batches: [], affectedPatients: [] };
+  if (batches.length === 0) return response;
+
+  const batchIds = batches.map((b) => b.id);
+  const movements = await prisma.stockMovement.findMany({
+    where: { OR: [{ batchId: { in: batchIds } }, { toBatchId: { in: batchIds } }] },
+    include: {
+      patient: { select: { dn: true, firstName: true, lastName: true } },
+      dailyRecord: { select: { dn: true, patientName: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  response.batches = batches.map((b): LotRecallBatch => ({
+    batchId: b.id,
+    productId: b.productId,
+    productName: b.product.name,
+    barcode: b.product.barcode,
+    unit: b.product.unit,
+    lotNumber: b.lotNumber,
+    expireDate: b.expireDate ? b.expireDate.toISOString() : null,
+    locationId: b.locationId,
+    locationName: b.location.name,
+    quantity: b.quantity,
+    inUseQuantity: b.inUse.reduce((sum, u) => sum + u.quantity, 0),
+    status: b.status,
+    quarantinedAt: b.quarantinedAt ? b.quarantinedAt.toISOString() : null,
+    quarantineReason: b.quarantineReason,
+    movements: movements
+      .filter((m) => m.batchId === b.id || m.toBatchId === b.id)
+      .map((m): LotRecallMovement => ({
+        id: m.id,
+        sessionId: m.sessionId,
+        type: m.type,
+        quantity: m.quantity,
+        reason: m.reason,
+        toBatchId: m.toBatchId,
+        dailyRecordId: m.dailyRecordId,
+        patientId: m.patientId,
+        reversedBySessionId: m.reversedBySessionId,
+        createdAt: m.createdAt.toISOString(),
+      })),
+  }));
+
+  // Group patient use by Patient, or by the daily record's name snapshot when it has no Patient link
+  const patients = new Map<string, LotRecallPatient>();
+  for (const m of movements) {
+    if (!PATIENT_USE_TYPES.includes(m.type) || m.reversedBySessionId) continue;
+    if (!m.patientId && !m.dailyRecordId) continue;
+
+    const key = m.patientId ?? `record:${m.dailyRecordId}`;
+    const usedAt = m.createdAt.toISOString();
+    let entry = patients.get(key);
+    if (!entry) {
+      entry = {
+        patientId: m.patientId,
+        dn: m.patient?.dn ?? m.dailyRecord?.dn ?? null,
+        patientName: m.patient
+          ? `${m.patient.firstName} ${m.patient.lastName}`
+          : m.dailyRecord?.patientName ?? '',
+        quantity: 0,
+        dailyRecordIds: [],
+        firstUsedAt: usedAt,
+        lastUsedAt: usedAt,
+      };
+      patients.set(key, entry);
+    }
+    entry.quantity += m.quantity;
+    entry.lastUsedAt = usedAt;
+    if (m.dailyRecordId && !entry.dailyRecordIds.includes(m.dailyRecordId)) {
+      entry.dailyRecordIds.push(m.dailyRecordId);
+    }
+  }
+  response.affectedPatients = Array.from(patients.values()).sort((a, b) =>
+    a.firstUsedAt.localeCompare(b.firstUsedAt)
+  );
+
+  return response;
+}
+
+/**
+ * Quarantines a batch (held back from stock-out/withdraw FIFO) or releases it back to ACTIVE.
+ * Throws BATCH_NOT_FOUND.
+ */
+export async function setBatchStatus(batchId: string, request: BatchStatusRequest): Promise<LotRecallBatch> {
+  const existing = await prisma.stockBatch.findUnique({ where: { id: batchId } });
+  if (!existing) throw new Error('BATCH_NOT_FOUND');
+
+  const quarantined = request.status === 'QUARANTINED';
+  await prisma.stockBatch.update({
+    where: { id: batchId },
+    data: {
+      status: request.status,
+      quarantinedAt: quarantined ? existing.quarantinedAt ?? new Date() : null,
+      quarantineReason: quarantined ? request.reason?.trim() || existing.quarantineReason : null,
+    },
+  });
+
+  const recall = await findLotRecall(existing.lotNumber);
+  return recall.batches.find((b) => b.batchId === batchId)!;
+}
@@ -0,0 +1,137 @@
+import { randomUUID } from 'crypto';
+import { Prisma, StockMovementType } from '@prisma/client';
+import { prisma } from '../prisma';
+import { StockReversalMovement, StockReversalResponse } from '../types/stock.types';
+
+/** Movement types whose sessions can be reversed, with the compensating type each one gets. */
+const COMPENSATING_TYPE: Partial<Record<StockMovementType, 'ADJUST_IN' | 'ADJUST_OUT'>> = {
+  IN: 'ADJUST_OUT',
+  OUT: 'ADJUST_IN',
+  WITHDRAW: 'ADJUST_IN',
+  DISPOSE: 'ADJUST_IN',
+};
+
+/**
+ * Reverses a stock session (stock-in, stock-out, withdraw or dispose) by posting compensating
+ * ADJUST_IN / ADJUST_OUT movements against exactly the batches the session touched.
+ *
+ * - The compensating movements share a new sessionId and carry `reversesSessionId`; the original
+ *   movements get `reversedBySessionId`, so both directions of the link show up in the logs.
+ * - Reversing a stock-in requires the received quantity to still be in its batch, and reversing a
+ *   withdraw requires the opened items to still be in use, none depleted; otherwise STOCK_ALREADY_CONSUMED.
+ * - A stock-in that received a purchase order line hands the quantity back to that line.
+ * - DEPLETE, transfers (transfer the stock back instead), count adjustments and reversals themselves
+ *   are not reversible (SESSION_NOT_REVERSIBLE).
+ *
+ * Everything runs in ONE transaction; a session can be reversed only once (SESSION_ALREADY_REVERSED).
+ * The compensating movements are recorded as posted by `userId`.
+ */
+export async function reverseStockSession(
+  sessionId: string,
+  reason?: string | null,
+  userId: string | null = null,
+): Promise<StockReversalResponse> {
+  const reversalSessionId = randomUUID();
+  const movementReason = reason?.trim() || `Reversal of session ${sessionId}`;
+
+  const movements = await prisma.$transaction(async (tx) => {
+    const originals = await tx.stockMovement.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+    });
+    if (originals.length === 0) throw new Error('SESSION_NOT_FOUND');
+    if (originals.some((m) => m.reversedBySessionId)) throw new Error('SESSION_ALREADY_REVERSED');
+    if (originals.some((m) => !COMPENSATING_TYPE[m.type] || !m.batchId)) {
+      throw new Error('SESSION_NOT_REVERSIBLE');
+    }
+
+    // Claim the session first; a concurrent reversal then finds nothing left to claim.
+    const claimed = await tx.stockMovement.updateMany({
+      where: { sessionId, reversedBySessionId: null },
+      data: { reversedBySessionId: reversalSessionId },
+    });
+    if (claimed.count !== originals.length) throw new Error('SESSION_ALREADY_REVERSED');
+
+    const posted: StockReversalMovement[] = [];
+    const touchedOrders = new Set<string>();
+
+    for (const m of originals) {
+      const batchId = m.batchId!;
+      const type = COMPENSATING_TYPE[m.type]!;
+
+      if (type === 'ADJUST_OUT') {
+        const taken = await tx.stockBatch.updateMany({
+          where: { id: batchId, quantity: { gte: m.quantity } },
+          data: { quantity: { decrement: m.quantity } },
+        });
+        if (taken.count === 0) throw new Error('STOCK_ALREADY_CONSUMED');
+      } else {
+        await tx.stockBatch.update({
+          where: { id: batchId },
+          data: { quantity: { increment: m.quantity } },
+        });
+      }
+
+      if (m.type === 'WITHDRAW') {
+        // Only untouched in-use stock goes back; sessions withdrawn before per-batch tracking have no row
+        const opened = await tx.stockInUse.findFirst({
+          where: { sessionId, batchId, openedQuantity: m.quantity },
+        });
+        if (opened) {
+          if (opened.quantity !== opened.openedQuantity) throw new Error('STOCK_ALREADY_CONSUMED');
+          await tx.stockInUse.delete({ where: { id: opened.id } });
+        }
+
+        const returned = await tx.product.updateMany({
+          where: { id: m.productId, inUseQuantity: { gte: m.quantity } },
+          data: { inUseQuantity: { decrement: m.quantity } },
+        });
+        if (returned.count === 0) throw new Error('STOCK_ALREADY_CONSUMED');
+      }
+
+      if (m.purchaseOrderLineId) {
+        const line = await tx.purchaseOrderLine.update({
+          where: { id: m.purchaseOrderLineId },
+          data: { receivedQuantity: { decrement: m.quantity } },
+        });
+        touchedOrders.add(line.purchaseOrderId);
+      }
+
+      await tx.stockMovement.create({
+        data: {
+          productId: m.productId,
+          batchId,
+          lotNumber: m.lotNumber,
+          type,
+          quantity: m.quantity,
+          reason: movementReason,
+          unitCost: m.unitCost,
+          sessionId: reversalSessionId,
+          reversesSessionId: sessionId,
+          locationId: m.locationId,
+          ...(userId ? { createdById: userId } : {}),
+        },
+      });
+
+      posted.push({ productId: m.productId, batchId, lotNumber: m.lotNumber, type, quantity: m.quantity });
+    }
+
+    for (const purchaseOrderId of touchedOrders) {
+      await recomputeReceivingStatus(tx, purchaseOrderId);
+    }
+
+    return posted;
+  });
+
+  return { sessionId, reversalSessionId, reason: movementReason, movements };
+}
+
+// After quantities are handed back, an order is PARTIALLY_RECEIVED while anything remains received.
+async function recomputeReceivingStatus(tx: Prisma.TransactionClient, purchaseOrderId: string): Promise<void> {
+  const lines = await tx.purchaseOrderLine.findMany({ where: { purchaseOrderId } });
+  const anyReceived = lines.some((l) => l.receivedQuantity > 0);
+  await tx.purchaseOrder.update({
+    where: { id: purchaseOrderId },
+    data: { status: anyReceived ? 'PARTIALLY_RECEIVED' : 'ORDERED' },
+  });
+}
@@ -0,0 +1,196 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../prisma';
+import { FIFO_BATCH_ORDER } from './stockOutService';
+import { blendUnitCost } from './stockInService';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
+import { TransferBatchMove, TransferItem, TransferItemResult, TransferResponse } from '../types/stock.types';
+
+/**
+ * Moves stock between two locations (e.g. main storeroom → operatory cabinet).
+ *
+ * Each source batch is split: its quantity is decremented and the same lot + expiry is added to
+ * the matching batch at the destination (created when missing, keeping the original receivedAt so
+ * FIFO age survives the move). One TRANSFER movement per source batch records both sides.
+ * Without lotNumber the oldest non-expired batches are moved first; expired and quarantined stock
+ * is not moved.
+ *
+ * Throws LOCATION_NOT_FOUND / LOCATION_INACTIVE for unknown or inactive locations and
+ * SAME_LOCATION when both are the same. Insufficient stock rolls the whole transfer back.
+ * The movements are recorded as posted by `userId`.
+ */
+export async function transferStock(
+  fromLocationId: string,
+  toLocationId: string,
+  items: TransferItem[],
+  userId: string | null = null,
+): Promise<TransferResponse> {
+  if (fromLocationId === toLocationId) throw new Error('SAME_LOCATION');
+  await resolveLocationId(prisma, fromLocationId);
+  await resolveLocationId(prisma, toLocationId);
+
+  const sessionId = randomUUID();
+
+  const results = await prisma.$transaction(async (tx) => {
+    const itemResults: TransferItemResult[] = [];
+
+    for (const item of items) {
+      try {
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
+        const product = await tx.product.findUnique({ where: { barcode: scan.barcode } });
+
+        if (!product) {
+          itemResults.push({
+            barcode: item.barcode,
+            productId: '',
+            requestedQuantity: item.quantity,
+            transferredQuantity: 0,
+            batches: [],
+            success: false,
+            error: `Product not found for barcode: ${item.barcode}`,
+          });
+          continue;
+        }
+
+        // Archived products are not moved between locations
+        if (product.archivedAt) {
+          itemResults.push({
+            barcode: item.barcode,
+            productId: product.id,
+            requestedQuantity: item.quantity,
+            transferredQuantity: 0,
+            batches: [],
+            success: false,
+            error: `Product "${product.name}" is archived`,
+          });
+          continue;
+        }
+
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
+        const startOfToday = new Date();
+        startOfToday.setHours(0, 0, 0, 0);
+        const lotNumber = item.lotNumber?.trim() || null;
+
+        const batches = await tx.stockBatch.findMany({
+          where: {
+            productId: product.id,
+            locationId: fromLocationId,
+            quantity: { gt: 0 },
+            status: 'ACTIVE',
+            OR: [{ expireDate: null }, { expireDate: { gte: startOfToday } }],
+            ...(lotNumber ? { lotNumber } : {}),
+          },
+          orderBy: FIFO_BATCH_ORDER,
+        });
+
+        const totalAvailable = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+        if (totalAvailable < quantity) {
+          throw new Error(
+            `Insufficient stock for product ${item.barcode}. Requested: ${quantity}, Available: ${totalAvailable}`
+          );
+        }
+
+        let remainingQuantity = quantity;
+        const moves: TransferBatchMove[] = [];
+
+        for (const batch of batches) {
+          if (remainingQuantity <= 0) break;
+          const quantityToMove = Math.min(remainingQuantity, batch.quantity);
+
+          await tx.stockBatch.update({
+            where: { id: batch.id },
+            data: { quantity: { decrement: quantityToMove } },
+          });
+
+          const target = await tx.stockBatch.findFirst({
+            where: {
+              productId: product.id,
+              lotNumber: batch.lotNumber,
+              expireDate: batch.expireDate,
+              locationId: toLocationId,
+            },
+          });
+
+          let toBatchId: string;
+          if (target) {
+            await tx.stockBatch.update({
+              where: { id: target.id },
+              data: {
+                quantity: { increment: quantityToMove },
+                unitCost: blendUnitCost(target.quantity, target.unitCost, quantityToMove, batch.unitCost),
+              },
+            });
+            toBatchId = target.id;
+          } else {
+            const created = await tx.stockBatch.create({
+              data: {
+                productId: product.id,
+                locationId: toLocationId,
+                lotNumber: batch.lotNumber,
+                expireDate: batch.expireDate,
+                receivedAt: batch.receivedAt,
+                quantity: quantityToMove,
+                unitCost: batch.unitCost,
+              },
+            });
+            toBatchId = created.id;
+          }
+
+          await tx.stockMovement.create({
+            data: {
+              productId: product.id,
+              batchId: batch.id,
+              lotNumber: batch.lotNumber,
+              type: 'TRANSFER',
+              quantity: quantityToMove,
+              unitCost: batch.unitCost,
+              sessionId,
+              locationId: fromLocationId,
+              toLocationId,
+              toBatchId,
+              ...(userId ? { createdById: userId } : {}),
+            },
+          });
+
+          moves.push({ fromBatchId: batch.id, toBatchId, lotNumber: batch.lotNumber, quantity: quantityToMove });
+          remainingQuantity -= quantityToMove;
+        }
+
+        itemResults.push({
+          barcode: item.barcode,
+          productId: product.id,
+          requestedQuantity: quantity,
+          transferredQuantity: quantity,
+          batches: moves,
+          pack,
+          success: true,
+        });
+      } catch (error) {
+        itemResults.push({
+          barcode: item.barcode,
+          productId: '',
+          requestedQuantity: item.quantity,
+          transferredQuantity: 0,
+          batches: [],
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+        });
+
+        // Re-throw insufficient stock to roll back the whole transfer
+        if (error instanceof Error && error.message.includes('Insufficient stock')) {
+          throw error;
+        }
+      }
+    }
+
+    return itemResults;
+  });
+
+  return { sessionId, fromLocationId, toLocationId, results };
+}
@@ -0,0 +1,157 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../prisma';
+import { CLINIC_TZ, clinicDayRange, clinicToday, rangeUTC } from '../utils/date';
+import {
+  DisposalReasonEntry,
+  StockOutFrequencyEntry,
+  StockTrendPoint,
+  StockTrendsQuery,
+  StockTrendsResponse,
+  TopConsumedProduct,
+  TrendInterval,
+  TrendMovementType,
+} from '../types/dashboard.types';
+
+const TREND_TYPES: TrendMovementType[] = ['IN', 'OUT', 'WITHDRAW', 'DEPLETE', 'DISPOSE'];
+const CONSUMED_TYPES: TrendMovementType[] = ['OUT', 'WITHDRAW'];
+
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+const DAY_MS = 86_400_000;
+
+/** `YYYY-MM-DD` shifted by whole days. */
+function addDays(day: string, days: number): string {
+  return new Date(new Date(`${day}T00:00:00.000Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Monday of the week containing `day` (matches Postgres date_trunc('week')). */
+function weekStart(day: string): string {
+  const weekday = new Date(`${day}T00:00:00.000Z`).getUTCDay(); // 0 = Sunday
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+function emptyQuantities(): Record<TrendMovementType, number> {
+  return { IN: 0, OUT: 0, WITHDRAW: 0, DEPLETE: 0, DISPOSE: 0 };
+}
+
+/** Every period between from and to, so days/weeks without movements still appear as zeros. */
+function emptySeries(from: string, to: string, interval: TrendInterval): Map<string, StockTrendPoint> {
+  const series = new Map<string, StockTrendPoint>();
+  const step = interval === 'week' ? 7 : 1;
+  for (let period = interval === 'week' ? weekStart(from) : from; period <= to; period = addDays(period, step)) {
+    series.set(period, { period, quantities: emptyQuantities() });
+  }
+  return series;
+}
+
+/**
+ * Stock movement analytics between two clinic days (inclusive), aggregated in the database:
+ *
+ * - series: IN / OUT / WITHDRAW / DEPLETE / DISPOSE quantities per clinic day or week
+ * - topConsumed: products by quantity consumed (OUT + WITHDRAW)
+ * - disposalReasons: disposed quantity per reason
+ * - stockOutFrequency: products by number of stock-out sessions and days they occurred on
+ *
+ * Reversed sessions are left out. Defaults to the last 30 days, daily.
+ * Throws INVALID_DATE for malformed bounds and INVALID_RANGE for to < from or an over-wide span.
+ */
+export async function getStockTrends(query: StockTrendsQuery = {}): Promise<StockTrendsResponse> {
+  const to = query.to ?? clinicToday();
+  const from = query.from ?? addDays(to, -(DEFAULT_RANGE_DAYS - 1));
+  const interval = query.interval ?? 'day';
+  const limit = Math.min(query.limit ?? DEFAULT_LIMIT, MAX_LIMIT);
+
+  rangeUTC(from, to); // validates format, order and span
+  const start = clinicDayRange(from).start;
+  const end = clinicDayRange(to).end;
+
+  const where: Prisma.StockMovementWhereInput = {
+    createdAt: { gte: start, lt: end },
+    reversedBySessionId: null, // a reversed session never happened
+  };
+
+  // Clinic-local calendar day of a movement; createdAt is stored as UTC without a zone
+  const localTime = Prisma.sql`("createdAt" AT TIME ZONE 'UTC' AT TIME ZONE ${CLINIC_TZ})`;
+
+  const [seriesRows, consumed, disposals, frequencyRows] = await Promise.all([
+    prisma.$queryRaw<{ period: string; type: TrendMovementType; quantity: number }[]>`
+      SELECT to_char(date_trunc(${interval}, ${localTime}), 'YYYY-MM-DD') AS "period",
+             "type"::text AS "type",
+             SUM("quantity")::int AS "quantity"
+      FROM "stock_movements"
+      WHERE "createdAt" >= ${start} AND "createdAt" < ${end}
+        AND "reversedBySessionId" IS NULL
+        AND "type"::text IN (${Prisma.join(TREND_TYPES)})
+      GROUP BY 1, 2
+      ORDER BY 1`,
+    prisma.stockMovement.groupBy({
+      by: ['productId'],
+      where: { ...where, type: { in: CONSUMED_TYPES } },
+      _sum: { quantity: true },
+      orderBy: { _sum: { quantity: 'desc' } },
+      take: limit,
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['reason'],
+      where: { ...where, type: 'DISPOSE' },
+      _sum: { quantity: true },
+      _count: { _all: true },
+      orderBy: { _sum: { quantity: 'desc' } },
+    }),
+    prisma.$queryRaw<StockOutFrequencyEntry[]>`
+      SELECT m."productId" AS "productId",
+             p."name" AS "productName",
+             COUNT(DISTINCT COALESCE(m."sessionId", m."id"))::int AS "stockOutCount",
+             COUNT(DISTINCT (m."createdAt" AT TIME ZONE 'UTC' AT TIME ZONE ${CLINIC_TZ})::date)::int AS "activeDays",
+             SUM(m."quantity")::int AS "quantity"
+      FROM "stock_movements" m
+      JOIN "products" p ON p."id" = m."productId"
+      WHERE m."createdAt" >= ${start} AND m."createdAt" < ${end}
+        AND m."reversedBySessionId" IS NULL
+        AND m."type" = 'OUT'
+      GROUP BY m."productId", p."name"
+      ORDER BY "stockOutCount" DESC, "quantity" DESC
+      LIMIT ${limit}`,
+  ]);
+
+  const series = emptySeries(from, to, interval);
+  for (const row of seriesRows) {
+    const point = series.get(row.period);
+    if (point) point.quantities[row.type] = Number(row.quantity);
+  }
+
+  const products = await prisma.product.findMany({
+    where: { id: { in: consumed.map((c) => c.productId) } },
+    select: { id: true, name: true, unit: true },
+  });
+  const productById = new Map(products.map((p) => [p.id, p]));
+
+  const topConsumed: TopConsumedProduct[] = consumed.map((c) => ({
+    productId: c.productId,
+    productName: productById.get(c.productId)?.name ?? '',
+    unit: productById.get(c.productId)?.unit ?? '',
+    quantity: c._sum.quantity ?? 0,
+  }));
+
+  const disposalReasons: DisposalReasonEntry[] = disposals.map((d) => ({
+    reason: d.reason,
+    quantity: d._sum.quantity ?? 0,
+    movementCount: d._count._all,
+  }));
+
+  return {
+    from,
+    to,
+    interval,
+    series: Array.from(series.values()),
+    topConsumed,
+    disposalReasons,
+    stockOutFrequency: frequencyRows.map((r) => ({
+      ...r,
+      stockOutCount: Number(r.stockOutCount),
+      activeDays: Number(r.activeDays),
+      quantity: Number(r.quantity),
+    })),
+  };
+}
@@ -0,0 +1,119 @@
+import { prisma } from '../prisma';
+
+export interface SupplierResponse {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  note: string | null;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CreateSupplierInput {
+  name: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  note?: string | null;
+}
+
+interface UpdateSupplierInput {
+  name?: string;
+  contactName?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  address?: string | null;
+  note?: string | null;
+  active?: boolean;
+}
+
+function toResponse(s: {
+  id: string;
+  name: string;
+  contactName: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  note: string | null;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}): SupplierResponse {
+  return {
+    id: s.id,
+    name: s.name,
+    contactName: s.contactName,
+    phone: s.phone,
+    email: s.email,
+    address: s.address,
+    note: s.note,
+    active: s.active,
+    createdAt: s.createdAt.toISOString(),
+    updatedAt: s.updatedAt.toISOString(),
+  };
+}
+
+export async function listSuppliers(activeOnly: boolean): Promise<SupplierResponse[]> {
+  const suppliers = await prisma.supplier.findMany({
+    where: activeOnly ? { active: true } : undefined,
+    orderBy: { name: 'asc' },
+  });
+  return suppliers.map(toResponse);
+}
+
+export async function createSupplier(data: CreateSupplierInput): Promise<SupplierResponse> {
+  const name = data.name?.trim();
+  if (!name) throw new Error('INVALID_NAME');
+  try {
+    const supplier = await prisma.supplier.create({
+      data: {
+        name,
+        contactName: data.contactName?.trim() || null,
+        phone: data.phone?.trim() || null,
+        email: data.email?.trim() || null,
+        address: data.address?.trim() || null,
+        note: data.note?.trim() || null,
+      },
+    });
+    return toResponse(supplier);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('SUPPLIER_NAME_TAKEN');
+    throw e;
+  }
+}
+
+export async function updateSupplier(id: string, data: UpdateSupplierInput): Promise<SupplierResponse> {
+  const existing = await prisma.supplier.findUnique({ where: { id } });
+  if (!existing) throw new Error('SUPPLIER_NOT_FOUND');
+  if (data.name !== undefined && !data.name.trim()) throw new Error('INVALID_NAME');
+
+  try {
+    const supplier = await prisma.supplier.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name.trim() } : {}),
+        ...(data.contactName !== undefined ? { contactName: data.contactName?.trim() || null } : {}),
+        ...(data.phone !== undefined ? { phone: data.phone?.trim() || null } : {}),
+        ...(data.email !== undefined ? { email: data.email?.trim() || null } : {}),
+        ...(data.address !== undefined ? { address: data.address?.trim() || null } : {}),
+        ...(data.note !== undefined ? { note: data.note?.trim() || null } : {}),
+        ...(data.active !== undefined ? { active: data.active } : {}),
+      },
+    });
+    return toResponse(supplier);
+  } catch (e: unknown) {
+    if ((e as { code?: string }).code === 'P2002') throw new Error('SUPPLIER_NAME_TAKEN');
+    throw e;
+  }
+}
+
+export async function softDeleteSupplier(id: string): Promise<void> {
+  const existing = await prisma.supplier.findUnique({ where: { id } });
+  if (!existing) throw new Error('SUPPLIER_NOT_FOUND');
+  await prisma.supplier.update({ where: { id }, data: { active: false } });
+}
@@ -0,0 +1,186 @@
+import { prisma } from '../prisma';
+import { recordDateKey } from '../utils/date';
+import {
+  PatientChartResponse,
+  ToothChartEntryInput,
+  ToothChartEntryResponse,
+  ToothCondition,
+  ToothState,
+  ToothSurface,
+} from '../types/patient.types';
+
+export const TOOTH_SURFACES: ToothSurface[] = ['M', 'O', 'D', 'B', 'L'];
+export const TOOTH_CONDITIONS: ToothCondition[] = ['CARIES', 'FILLED', 'MISSING', 'CROWN', 'RCT'];
+
+/** Conditions charted per surface; the others apply to the whole tooth. */
+const SURFACE_CONDITIONS: ToothCondition[] = ['CARIES', 'FILLED'];
+
+/**
+ * FDI two-digit tooth number: quadrants 1–4 hold permanent teeth 1–8,
+ * quadrants 5–8 hold primary teeth 1–5.
+ */
+export function isFdiToothNumber(value: unknown): value is number {
+  if (!Number.isInteger(value)) return false;
+  const quadrant = Math.floor((value as number) / 10);
+  const tooth = (value as number) % 10;
+  if (quadrant >= 1 && quadrant <= 4) return tooth >= 1 && tooth <= 8;
+  if (quadrant >= 5 && quadrant <= 8) return tooth >= 1 && tooth <= 5;
+  return false;
+}
+
+type ChartEntryRow = {
+  toothNumber: number;
+  surfaces: ToothSurface[];
+  condition: ToothCondition | null;
+  createdAt: Date;
+};
+
+/**
+ * Replays chart entries (oldest first) into the current state of each charted tooth:
+ * - CARIES / FILLED set the condition of the listed surfaces (a later entry overrides an earlier one)
+ * - MISSING clears everything else on the tooth; CROWN replaces the surface conditions
+ * - RCT and CROWN accumulate as whole-tooth conditions
+ * Procedure-only entries (no condition) leave the state as it was.
+ */
+export function buildChartState(entries: ChartEntryRow[]): ToothState[] {
+  const teeth = new Map<number, ToothState>();
+
+  for (const entry of entries) {
+    let tooth = teeth.get(entry.toothNumber);
+    if (!tooth) {
+      tooth = { toothNumber: entry.toothNumber, conditions: [], surfaces: {}, lastChartedAt: '' };
+      teeth.set(entry.toothNumber, tooth);
+    }
+    tooth.lastChartedAt = entry.createdAt.toISOString();
+
+    const condition = entry.condition;
+    if (!condition) continue;
+    if (SURFACE_CONDITIONS.includes(condition)) {
+      for (const surface of entry.surfaces) tooth.surfaces[surface] = condition;
+    } else if (condition === 'MISSING') {
+      tooth.conditions = ['MISSING'];
+      tooth.surfaces = {};
+    } else {
+      if (condition === 'CROWN') tooth.surfaces = {};
+      if (!tooth.conditions.includes(condition)) tooth.conditions.push(condition);
+    }
+  }
+
+  return Array.from(teeth.values()).sort((a, b) => a.toothNumber - b.toothNumber);
+}
+
+/**
+ * Throws INVALID_TOOTH_NUMBER, INVALID_SURFACE, INVALID_CONDITION, CHART_ENTRY_EMPTY (neither a
+ * condition nor a procedure), SURFACES_REQUIRED (CARIES / FILLED without surfaces) or
+ * SURFACES_NOT_ALLOWED (surfaces on a whole-tooth condition).
+ */
+function validateEntry(entry: ToothChartEntryInput): void {
+  if (!isFdiToothNumber(entry.toothNumber)) throw new Error('INVALID_TOOTH_NUMBER');
+  const surfaces = entry.surfaces ?? [];
+  if (!Array.isArray(surfaces) || surfaces.some((s) => !TOOTH_SURFACES.includes(s))) {
+    throw new Error('INVALID_SURFACE');
+  }
+  if (entry.condition != null && !TOOTH_CONDITIONS.includes(entry.condition)) throw new Error('INVALID_CONDITION');
+  if (!entry.condition && !entry.treatmentTypeId) throw new Error('CHART_ENTRY_EMPTY');
+  if (entry.condition && SURFACE_CONDITIONS.includes(entry.condition) && surfaces.length === 0) {
+    throw new Error('SURFACES_REQUIRED');
+  }
+  if (entry.condition && !SURFACE_CONDITIONS.includes(entry.condition) && surfaces.length > 0) {
+    throw new Error('SURFACES_NOT_ALLOWED');
+  }
+}
+
+/** Current chart and full history of a patient. Throws PATIENT_NOT_FOUND. */
+export async function getPatientChart(patientId: string): Promise<PatientChartResponse> {
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const entries = await prisma.toothChartEntry.findMany({
+    where: { patientId },
+    include: {
+      treatmentType: { select: { name: true } },
+      dailyRecord: { select: { recordDate: true } },
+      createdBy: { select: { name: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return {
+    patientId,
+    teeth: buildChartState(entries),
+    history: entries
+      .map(
+        (e): ToothChartEntryResponse => ({
+          id: e.id,
+          toothNumber: e.toothNumber,
+          surfaces: e.surfaces,
+          condition: e.condition,
+          treatmentTypeId: e.treatmentTypeId,
+          treatmentTypeName: e.treatmentType?.name ?? null,
+          dailyRecordId: e.dailyRecordId,
+          recordDate: e.dailyRecord ? recordDateKey(e.dailyRecord.recordDate) : null,
+          note: e.note,
+          createdById: e.createdById,
+          createdByName: e.createdBy?.name ?? null,
+          createdAt: e.createdAt.toISOString(),
+        })
+      )
+      .reverse(),
+  };
+}
+
+/**
+ * Charts one or more entries for a patient (all or none) and returns the updated chart.
+ * Besides the entry validation errors, throws PATIENT_NOT_FOUND, TREATMENT_TYPE_NOT_FOUND,
+ * DAILY_RECORD_NOT_FOUND or DAILY_RECORD_PATIENT_MISMATCH (the visit is another patient's).
+ */
+export async function addChartEntries(
+  patientId: string,
+  entries: ToothChartEntryInput[],
+  userId: string | null = null
+): Promise<PatientChartResponse> {
+  entries.forEach(validateEntry);
+
+  const patient = await prisma.patient.findUnique({ where: { id: patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+
+  const treatmentTypeIds = [...new Set(entries.map((e) => e.treatmentTypeId).filter((id): id is string => !!id))];
+  if (treatmentTypeIds.length > 0) {
+    const found = await prisma.treatmentType.count({ where: { id: { in: treatmentTypeIds } } });
+    if (found !== treatmentTypeIds.length) throw new Error('TREATMENT_TYPE_NOT_FOUND');
+  }
+
+  const dailyRecordIds = [...new Set(entries.map((e) => e.dailyRecordId).filter((id): id is string => !!id))];
+  if (dailyRecordIds.length > 0) {
+    const records = await prisma.dailyRecord.findMany({
+      where: { id: { in: dailyRecordIds } },
+      select: { id: true, patientId: true },
+    });
+    if (records.length !== dailyRecordIds.length) throw new Error('DAILY_RECORD_NOT_FOUND');
+    // Legacy records without a Patient link are accepted
+    if (records.some((r) => r.patientId && r.patientId !== patientId)) {
+      throw new Error('DAILY_RECORD_PATIENT_MISMATCH');
+    }
+  }
+
+  await prisma.toothChartEntry.createMany({
+    data: entries.map((e) => ({
+      patientId,
+      toothNumber: e.toothNumber,
+      surfaces: [...new Set(e.surfaces ?? [])],
+      condition: e.condition ?? null,
+      treatmentTypeId: e.treatmentTypeId || null,
+      dailyRecordId: e.dailyRecordId || null,
+      note: e.note?.trim() || null,
+      createdById: userId,
+    })),
+  });
+
+  return getPatientChart(patientId);
+}
+
+/** Removes a mistaken chart entry. Throws CHART_ENTRY_NOT_FOUND. */
+export async function deleteChartEntry(patientId: string, entryId: string): Promise<void> {
+  const { count } = await prisma.toothChartEntry.deleteMany({ where: { id: entryId, patientId } });
+  if (count === 0) throw new Error('CHART_ENTRY_NOT_FOUND');
+}
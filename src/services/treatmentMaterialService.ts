@@ -0,0 +1,176 @@
+import { prisma } from '../prisma';
+import { stockOutService } from './stockOutService';
+import { StockOutResponse } from '../types/stock.types';
+
+export interface TreatmentMaterialResponse {
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  isReusable: boolean;
+  quantity: number;
+}
+
+export interface TreatmentMaterialInput {
+  productId: string;
+  quantity: number;
+}
+
+export interface MaterialProposalItem {
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  isReusable: boolean;
+  proposedQuantity: number; // sum over the record's treatment types
+  postedQuantity: number; // already consumed against this record
+  remainingQuantity: number;
+}
+
+export interface MaterialProposal {
+  dailyRecordId: string;
+  items: MaterialProposalItem[];
+}
+
+export interface PostMaterialsResponse {
+  dailyRecordId: string;
+  stockOut: StockOutResponse | null; // null when nothing was left to post
+  skipped: MaterialProposalItem[]; // reusable items — withdraw them manually
+}
+
+const includeProduct = {
+  product: { select: { name: true, barcode: true, unit: true, isReusable: true } },
+} as const;
+
+export async function listTreatmentMaterials(treatmentTypeId: string): Promise<TreatmentMaterialResponse[]> {
+  const type = await prisma.treatmentType.findUnique({ where: { id: treatmentTypeId } });
+  if (!type) throw new Error('TREATMENT_TYPE_NOT_FOUND');
+
+  const materials = await prisma.treatmentMaterial.findMany({
+    where: { treatmentTypeId },
+    include: includeProduct,
+    orderBy: { createdAt: 'asc' },
+  });
+  return materials.map((m) => ({
+    productId: m.productId,
+    productName: m.product.name,
+    barcode: m.product.barcode,
+    unit: m.product.unit,
+    isReusable: m.product.isReusable,
+    quantity: m.quantity,
+  }));
+}
+
+/** Replaces the whole bill of materials of a treatment type. An empty list clears it. */
+export async function replaceTreatmentMaterials(
+  treatmentTypeId: string,
+  materials: TreatmentMaterialInput[],
+): Promise<TreatmentMaterialResponse[]> {
+  if (!Array.isArray(materials)) throw new Error('INVALID_MATERIALS');
+  const seen = new Set<string>();
+  for (const m of materials) {
+    if (!m || typeof m.productId !== 'string' || !m.productId) throw new Error('INVALID_MATERIALS');
+    if (!Number.isInteger(m.quantity) || m.quantity <= 0) throw new Error('INVALID_QUANTITY');
+    if (seen.has(m.productId)) throw new Error('DUPLICATE_PRODUCT');
+    seen.add(m.productId);
+  }
+
+  const type = await prisma.treatmentType.findUnique({ where: { id: treatmentTypeId } });
+  if (!type) throw new Error('TREATMENT_TYPE_NOT_FOUND');
+
+  const found = await prisma.product.findMany({ where: { id: { in: [...seen] } }, select: { id: true } });
+  if (found.length !== seen.size) throw new Error('PRODUCT_NOT_FOUND');
+
+  await prisma.$transaction(async (tx) => {
+    await tx.treatmentMaterial.deleteMany({ where: { treatmentTypeId } });
+    if (materials.length > 0) {
+      await tx.treatmentMaterial.createMany({
+        data: materials.map((m) => ({ treatmentTypeId, productId: m.productId, quantity: m.quantity })),
+      });
+    }
+  });
+
+  return listTreatmentMaterials(treatmentTypeId);
+}
+
+/**
+ * Standard consumables for a daily record: the bills of materials of all its treatment types,
+ * summed per product, minus what has already been consumed against the record (OUT/WITHDRAW,
+ * reversed sessions excluded).
+ */
+export async function proposeDailyRecordMaterials(dailyRecordId: string): Promise<MaterialProposal> {
+  const record = await prisma.dailyRecord.findUnique({
+    where: { id: dailyRecordId },
+    select: { id: true, treatmentTypeIds: true },
+  });
+  if (!record) throw new Error('DAILY_RECORD_NOT_FOUND');
+  if (record.treatmentTypeIds.length === 0) return { dailyRecordId, items: [] };
+
+  const [materials, posted] = await Promise.all([
+    prisma.treatmentMaterial.findMany({
+      where: { treatmentTypeId: { in: record.treatmentTypeIds } },
+      include: includeProduct,
+    }),
+    prisma.stockMovement.groupBy({
+      by: ['productId'],
+      where: { dailyRecordId, type: { in: ['OUT', 'WITHDRAW'] }, reversedBySessionId: null },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const postedByProduct = new Map(posted.map((p) => [p.productId, p._sum.quantity ?? 0]));
+  const items = new Map<string, MaterialProposalItem>();
+  for (const m of materials) {
+    const existing = items.get(m.productId);
+    if (existing) {
+      existing.proposedQuantity += m.quantity;
+      continue;
+    }
+    items.set(m.productId, {
+      productId: m.productId,
+      productName: m.product.name,
+      barcode: m.product.barcode,
+      unit: m.product.unit,
+      isReusable: m.product.isReusable,
+      proposedQuantity: m.quantity,
+      postedQuantity: postedByProduct.get(m.productId) ?? 0,
+      remainingQuantity: 0,
+    });
+  }
+
+  for (const item of items.values()) {
+    item.remainingQuantity = Math.max(0, item.proposedQuantity - item.postedQuantity);
+  }
+
+  return {
+    dailyRecordId,
+    items: Array.from(items.values()).sort((a, b) => a.productName.localeCompare(b.productName)),
+  };
+}
+
+/**
+ * Posts the remaining proposed consumables of a daily record as one stock-out linked to the record
+ * (and its patient). Reusable items are not posted: they are withdrawn into use and consumed via
+ * DEPLETE rather than per treatment, so they are returned as `skipped`.
+ */
+export async function postDailyRecordMaterials(
+  dailyRecordId: string,
+  userId: string | null = null,
+): Promise<PostMaterialsResponse> {
+  const proposal = await proposeDailyRecordMaterials(dailyRecordId);
+  const pending = proposal.items.filter((i) => i.remainingQuantity > 0);
+  const consumable = pending.filter((i) => !i.isReusable);
+  const skipped = pending.filter((i) => i.isReusable);
+
+  const stockOut =
+    consumable.length > 0
+      ? await stockOutService(
+          consumable.map((i) => ({ barcode: i.barcode, quantity: i.remainingQuantity })),
+          { dailyRecordId },
+          null,
+          userId,
+        )
+      : null;
+
+  return { dailyRecordId, stockOut, skipped };
+}
@@ -0,0 +1,432 @@
+import { AppointmentStatus, Prisma, TreatmentPlanItemStatus, UserRole } from '@prisma/client';
+import { prisma } from '../prisma';
+import { Decimal, decimalToNumber, parseAmount } from '../utils/money';
+import { isFdiToothNumber } from './toothChartService';
+import { cancelAppointment, createAppointment } from './appointmentService';
+
+export interface TreatmentPlanItemInput {
+  treatmentTypeId: string;
+  phase?: number;
+  toothNumber?: number | null;
+  estimatedFee?: number | string | null; // defaults to TreatmentType.defaultPrice
+  notes?: string | null;
+}
+
+export interface CreateTreatmentPlanInput {
+  patientId: string;
+  doctorId: string;
+  title?: string | null;
+  notes?: string | null;
+  items: TreatmentPlanItemInput[];
+}
+
+export interface UpdateTreatmentPlanInput {
+  title?: string | null;
+  notes?: string | null;
+}
+
+export interface UpdateTreatmentPlanItemInput {
+  phase?: number;
+  toothNumber?: number | null;
+  estimatedFee?: number | string | null;
+  status?: TreatmentPlanItemStatus;
+  notes?: string | null;
+}
+
+export interface SchedulePlanItemInput {
+  date: string;
+  startTime: string;
+  doctorId?: string; // defaults to the plan's doctor
+  notes?: string;
+}
+
+export interface TreatmentPlanItemResponse {
+  id: string;
+  phase: number;
+  treatmentTypeId: string;
+  treatmentTypeName: string;
+  toothNumber: number | null;
+  estimatedFee: number | null;
+  status: TreatmentPlanItemStatus;
+  appointmentId: string | null;
+  appointmentDate: string | null; // YYYY-MM-DD
+  appointmentStartTime: string | null;
+  appointmentStatus: AppointmentStatus | null;
+  dailyRecordId: string | null;
+  completedAt: string | null;
+  notes: string | null;
+}
+
+export interface TreatmentPlanResponse {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  title: string | null;
+  notes: string | null;
+  estimatedTotal: number; // all items except DECLINED
+  completedTotal: number; // DONE items
+  items: TreatmentPlanItemResponse[];
+  createdById: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const PLAN_ITEM_STATUSES: TreatmentPlanItemStatus[] = ['PROPOSED', 'ACCEPTED', 'SCHEDULED', 'DONE', 'DECLINED'];
+
+// Open items a DailyRecord can complete, best match first: a booked visit before an agreed item.
+const OPEN_ITEM_RANK: Partial<Record<TreatmentPlanItemStatus, number>> = { SCHEDULED: 0, ACCEPTED: 1, PROPOSED: 2 };
+
+const PLAN_INCLUDE = {
+  patient: { select: { firstName: true, lastName: true } },
+  doctor: { select: { name: true } },
+  items: {
+    include: {
+      treatmentType: { select: { name: true } },
+      appointment: { select: { date: true, startTime: true, status: true } },
+    },
+    orderBy: [{ phase: 'asc' }, { createdAt: 'asc' }],
+  },
+} satisfies Prisma.TreatmentPlanInclude;
+
+type PlanWithIncludes = Prisma.TreatmentPlanGetPayload<{ include: typeof PLAN_INCLUDE }>;
+
+function toResponse(p: PlanWithIncludes): TreatmentPlanResponse {
+  let estimatedTotal = new Decimal(0);
+  let completedTotal = new Decimal(0);
+  for (const item of p.items) {
+    if (!item.estimatedFee) continue;
+    if (item.status !== 'DECLINED') estimatedTotal = estimatedTotal.plus(item.estimatedFee);
+    if (item.status === 'DONE') completedTotal = completedTotal.plus(item.estimatedFee);
+  }
+
+  return {
+    id: p.id,
+    patientId: p.patientId,
+    patientName: `${p.patient.firstName} ${p.patient.lastName}`.trim(),
+    doctorId: p.doctorId,
+    doctorName: p.doctor.name,
+    title: p.title,
+    notes: p.notes,
+    estimatedTotal: estimatedTotal.toNumber(),
+    completedTotal: completedTotal.toNumber(),
+    items: p.items.map((i) => ({
+      id: i.id,
+      phase: i.phase,
+      treatmentTypeId: i.treatmentTypeId,
+      treatmentTypeName: i.treatmentType.name,
+      toothNumber: i.toothNumber,
+      estimatedFee: decimalToNumber(i.estimatedFee),
+      status: i.status,
+      appointmentId: i.appointmentId,
+      appointmentDate: i.appointment ? i.appointment.date.toISOString().slice(0, 10) : null,
+      appointmentStartTime: i.appointment?.startTime ?? null,
+      appointmentStatus: i.appointment?.status ?? null,
+      dailyRecordId: i.dailyRecordId,
+      completedAt: i.completedAt?.toISOString() ?? null,
+      notes: i.notes,
+    })),
+    createdById: p.createdById,
+    createdAt: p.createdAt.toISOString(),
+    updatedAt: p.updatedAt.toISOString(),
+  };
+}
+
+function validatePhase(phase: unknown): number {
+  if (!Number.isInteger(phase) || (phase as number) < 1) throw new Error('INVALID_PHASE');
+  return phase as number;
+}
+
+function validateToothNumber(toothNumber: unknown): number | null {
+  if (toothNumber === null || toothNumber === undefined) return null;
+  if (!isFdiToothNumber(toothNumber)) throw new Error('INVALID_TOOTH_NUMBER');
+  return toothNumber;
+}
+
+/**
+ * Builds the rows for new plan items. The estimated fee is the treatment type's defaultPrice
+ * unless the item carries its own. Throws INVALID_PHASE, INVALID_TOOTH_NUMBER, INVALID_AMOUNT or
+ * INACTIVE_TREATMENT_TYPE.
+ */
+async function buildItemRows(items: TreatmentPlanItemInput[]): Promise<Prisma.TreatmentPlanItemCreateManyPlanInput[]> {
+  const typeIds = [...new Set(items.map((i) => i.treatmentTypeId))];
+  const types = await prisma.treatmentType.findMany({ where: { id: { in: typeIds }, active: true } });
+  const typeById = new Map(types.map((t) => [t.id, t]));
+
+  return items.map((item) => {
+    const type = typeById.get(item.treatmentTypeId);
+    if (!type) throw new Error('INACTIVE_TREATMENT_TYPE');
+    const estimatedFee =
+      item.estimatedFee !== undefined && item.estimatedFee !== null ? parseAmount(item.estimatedFee) : type.defaultPrice;
+    return {
+      phase: item.phase !== undefined ? validatePhase(item.phase) : 1,
+      treatmentTypeId: type.id,
+      toothNumber: validateToothNumber(item.toothNumber),
+      estimatedFee,
+      notes: item.notes?.trim() || null,
+    };
+  });
+}
+
+// A DOCTOR only sees and edits their own plans.
+function assertCanAccess(plan: { doctorId: string }, role: UserRole, userDoctorId: string | null): void {
+  if (role === UserRole.DOCTOR && plan.doctorId !== userDoctorId) throw new Error('FORBIDDEN');
+}
+
+async function findPlan(id: string, role: UserRole, userDoctorId: string | null): Promise<PlanWithIncludes> {
+  const plan = await prisma.treatmentPlan.findUnique({ where: { id }, include: PLAN_INCLUDE });
+  if (!plan) throw new Error('TREATMENT_PLAN_NOT_FOUND');
+  assertCanAccess(plan, role, userDoctorId);
+  return plan;
+}
+
+async function findPlanItem(planId: string, itemId: string, role: UserRole, userDoctorId: string | null) {
+  const item = await prisma.treatmentPlanItem.findFirst({
+    where: { id: itemId, planId },
+    include: {
+      plan: { select: { patientId: true, doctorId: true } },
+      appointment: { select: { status: true } },
+    },
+  });
+  if (!item) throw new Error('PLAN_ITEM_NOT_FOUND');
+  assertCanAccess(item.plan, role, userDoctorId);
+  return item;
+}
+
+// ── List / Get ────────────────────────────────────────────────────────────────
+
+export async function listTreatmentPlans(
+  patientId: string,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse[]> {
+  const plans = await prisma.treatmentPlan.findMany({
+    where: { patientId, ...(role === UserRole.DOCTOR ? { doctorId: userDoctorId ?? '' } : {}) },
+    include: PLAN_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+  return plans.map(toResponse);
+}
+
+export async function getTreatmentPlan(
+  id: string,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse> {
+  return toResponse(await findPlan(id, role, userDoctorId));
+}
+
+// ── Create / Update / Delete ──────────────────────────────────────────────────
+
+/**
+ * Creates a plan with its items (all PROPOSED). A DOCTOR always plans as themselves.
+ * Throws PATIENT_NOT_FOUND, INACTIVE_DOCTOR, EMPTY_PLAN or an item validation error.
+ */
+export async function createTreatmentPlan(
+  input: CreateTreatmentPlanInput,
+  userId: string | null,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse> {
+  const doctorId = role === UserRole.DOCTOR ? userDoctorId : input.doctorId;
+  if (!doctorId) throw new Error('INACTIVE_DOCTOR');
+  if (!input.items?.length) throw new Error('EMPTY_PLAN');
+
+  const patient = await prisma.patient.findUnique({ where: { id: input.patientId }, select: { id: true } });
+  if (!patient) throw new Error('PATIENT_NOT_FOUND');
+  const doctor = await prisma.doctor.findUnique({ where: { id: doctorId } });
+  if (!doctor || !doctor.active) throw new Error('INACTIVE_DOCTOR');
+
+  const rows = await buildItemRows(input.items);
+
+  const plan = await prisma.treatmentPlan.create({
+    data: {
+      patientId: patient.id,
+      doctorId,
+      title: input.title?.trim() || null,
+      notes: input.notes?.trim() || null,
+      createdById: userId,
+      items: { createMany: { data: rows } },
+    },
+    include: PLAN_INCLUDE,
+  });
+  return toResponse(plan);
+}
+
+export async function updateTreatmentPlan(
+  id: string,
+  input: UpdateTreatmentPlanInput,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse> {
+  await findPlan(id, role, userDoctorId);
+  const plan = await prisma.treatmentPlan.update({
+    where: { id },
+    data: {
+      ...(input.title !== undefined ? { title: input.title?.trim() || null } : {}),
+      ...(input.notes !== undefined ? { notes: input.notes?.trim() || null } : {}),
+    },
+    include: PLAN_INCLUDE,
+  });
+  return toResponse(plan);
+}
+
+/** Deletes a plan nothing was booked or done from. Throws PLAN_IN_PROGRESS otherwise. */
+export async function deleteTreatmentPlan(id: string): Promise<void> {
+  const plan = await prisma.treatmentPlan.findUnique({ where: { id }, include: { items: { select: { status: true } } } });
+  if (!plan) throw new Error('TREATMENT_PLAN_NOT_FOUND');
+  if (plan.items.some((i) => i.status === 'SCHEDULED' || i.status === 'DONE')) throw new Error('PLAN_IN_PROGRESS');
+  await prisma.treatmentPlan.delete({ where: { id } });
+}
+
+// ── Items ─────────────────────────────────────────────────────────────────────
+
+export async function addPlanItems(
+  planId: string,
+  items: TreatmentPlanItemInput[],
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse> {
+  await findPlan(planId, role, userDoctorId);
+  if (!items?.length) throw new Error('EMPTY_PLAN');
+  const rows = await buildItemRows(items);
+  await prisma.treatmentPlanItem.createMany({ data: rows.map((r) => ({ ...r, planId })) });
+  return toResponse(await findPlan(planId, role, userDoctorId));
+}
+
+/**
+ * Edits an item or moves it through PROPOSED / ACCEPTED / DECLINED / DONE. SCHEDULED is only
+ * reached by booking the item (schedulePlanItem). Throws INVALID_STATUS, ITEM_STATUS_NOT_ALLOWED
+ * or ITEM_ALREADY_DONE (a DONE item is final; one completed by a daily record reopens only when
+ * that record is deleted or re-tagged, see reopenPlanItemsForRecord).
+ */
+export async function updatePlanItem(
+  planId: string,
+  itemId: string,
+  input: UpdateTreatmentPlanItemInput,
+  role: UserRole,
+  userDoctorId: string | null,
+): Promise<TreatmentPlanResponse> {
+  const item = await findPlanItem(planId, itemId, role, userDoctorId);
+  if (item.status === 'DONE') throw new Error('ITEM_ALREADY_DONE');
+  if (input.status !== undefined) {
+    if (!PLAN_ITEM_STATUSES.includes(input.status)) throw new Error('INVALID_STATUS');
+    if (input.status === 'SCHEDULED' && item.status !== 'SCHEDULED') throw new Error('ITEM_STATUS_NOT_ALLOWED');
+  }
+
+  await prisma.treatmentPlanItem.update({
+    where: { id: itemId },
+    data: {
+      ...(input.phase !== undefined ? { phase: validatePhase(input.phase) } : {}),
+      ...(input.toothNumber !== undefined ? { toothNumber: validateToothNumber(input.toothNumber) } : {}),
+      ...(input.estimatedFee !== undefined
+        ? { estimatedFee: input.estimatedFee === null ? null : parseAmount(input.estimatedFee) }
+        : {}),
+      ...(input.notes !== undefined ? { notes: input.notes?.trim() || null } : {}),
+      ...(input.status !== undefined ? { status: input.status } : {}),
+      ...(input.status === 'DONE' ? { completedAt: new Date() } : {}),
+    },
+  });
+  return toResponse(await findPlan(planId, role, userDoctorId));
+}
+
+/**
+ * Books a plan item as an Appointment (same slot checks as a regular booking) and marks it
+ * SCHEDULED. An item whose earlier appointment was cancelled or missed can be booked again.
+ * Throws ITEM_NOT_SCHEDULABLE, or any appointment booking error.
+ */
+export async function schedulePlanItem(
+  planId: string,
+  itemId: string,
+  input: SchedulePlanItemInput,
+  userId: string,
+): Promise<TreatmentPlanResponse> {
+  const item = await findPlanItem(planId, itemId, UserRole.ADMIN, null);
+  const rebooking =
+    item.status === 'SCHEDULED' &&
+    (!item.appointment ||
+      item.appointment.status === AppointmentStatus.CANCELLED ||
+      item.appointment.status === AppointmentStatus.NO_SHOW);
+  if (item.status !== 'PROPOSED' && item.status !== 'ACCEPTED' && !rebooking) {
+    throw new Error('ITEM_NOT_SCHEDULABLE');
+  }
+
+  const appointment = await createAppointment(
+    {
+      patientId: item.plan.patientId,
+      doctorId: input.doctorId ?? item.plan.doctorId,
+      treatmentTypeId: item.treatmentTypeId,
+      date: input.date,
+      startTime: input.startTime,
+      notes: input.notes,
+    },
+    userId,
+  );
+
+  // Guarded on the state read above: a concurrent booking of the same item wins, this one is undone.
+  const { count } = await prisma.treatmentPlanItem.updateMany({
+    where: { id: itemId, status: item.status, appointmentId: item.appointmentId },
+    data: { status: 'SCHEDULED', appointmentId: appointment.id },
+  });
+  if (count === 0) {
+    await cancelAppointment(appointment.id, 'Treatment plan item was booked concurrently');
+    throw new Error('ITEM_NOT_SCHEDULABLE');
+  }
+
+  return toResponse(await findPlan(planId, UserRole.ADMIN, null));
+}
+
+/**
+ * Marks the patient's open plan items done by a new DailyRecord: one item per treatment type of
+ * the record (a booked item first, then the earliest phase). Runs inside the record's transaction.
+ */
+export async function completePlanItemsForRecord(
+  tx: Prisma.TransactionClient,
+  record: { id: string; patientId: string | null; treatmentTypeIds: string[] },
+): Promise<string[]> {
+  if (!record.patientId || record.treatmentTypeIds.length === 0) return [];
+
+  const open = await tx.treatmentPlanItem.findMany({
+    where: {
+      plan: { patientId: record.patientId },
+      treatmentTypeId: { in: record.treatmentTypeIds },
+      status: { in: ['SCHEDULED', 'ACCEPTED', 'PROPOSED'] },
+    },
+    select: { id: true, treatmentTypeId: true, status: true },
+    orderBy: [{ phase: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const picked = new Map<string, (typeof open)[number]>();
+  for (const item of open) {
+    const current = picked.get(item.treatmentTypeId);
+    if (!current || OPEN_ITEM_RANK[item.status]! < OPEN_ITEM_RANK[current.status]!) {
+      picked.set(item.treatmentTypeId, item);
+    }
+  }
+
+  const ids = Array.from(picked.values()).map((i) => i.id);
+  if (ids.length === 0) return [];
+  await tx.treatmentPlanItem.updateMany({
+    where: { id: { in: ids } },
+    data: { status: 'DONE', dailyRecordId: record.id, completedAt: new Date() },
+  });
+  return ids;
+}
+
+/**
+ * Undoes completePlanItemsForRecord when the record is deleted or its treatment types or patient
+ * change: the items it completed go back to SCHEDULED when booked, ACCEPTED otherwise. Items
+ * marked DONE by hand (no record) are left alone. Runs inside the record's transaction.
+ */
+export async function reopenPlanItemsForRecord(tx: Prisma.TransactionClient, recordId: string): Promise<void> {
+  const reopen = { dailyRecordId: null, completedAt: null };
+  await tx.treatmentPlanItem.updateMany({
+    where: { dailyRecordId: recordId, status: 'DONE', appointmentId: { not: null } },
+    data: { ...reopen, status: 'SCHEDULED' },
+  });
+  await tx.treatmentPlanItem.updateMany({
+    where: { dailyRecordId: recordId, status: 'DONE', appointmentId: null },
+    data: { ...reopen, status: 'ACCEPTED' },
+  });
+}
@@ -1,21 +1,41 @@
 import { randomUUID } from 'crypto';
 import { prisma } from '../prisma';
+import { insufficientStockMessage, resolveBatchPicking, resolveConsumptionLink } from './stockOutService';
+import { resolveLocationId } from './stockLocationService';
+import { applyScanPack, resolveScanPack, resolveScannedBarcode } from './productCatalogService';
 import {
+  StockConsumptionLink,
   WithdrawItem,
   WithdrawResponse,
   WithdrawItemResult,
   StockOutBatchDeduction,
 } from '../types/stock.types';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Processes withdrawal operations for reusable items using strict FIFO.
+ * Processes withdrawal operations for reusable items in each product's picking order (FIFO, FEFO,
+ * or the requested lot; expired and quarantined batches are skipped, as in stockOut).
  * Unlike stockOut, this moves stock from warehouse to in-use (inUseQuantity),
  * so the item does NOT trigger an out-of-stock alert when warehouse reaches 0.
+ * Each batch drawn from is opened as a StockInUse row, with a use-by date when the product
+ * has a post-opening shelf life (openedShelfLifeDays).
  *
  * @param items - Array of items to withdraw (must be reusable products)
+ * @param link - Optional daily record / patient the items were withdrawn for
+ * @param locationId - Optional location to take stock from (all locations when omitted)
+ * @param userId - User posting the withdrawal
  * @returns WithdrawResponse with sessionId and per-item results
  */
-export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawResponse> {
+export async function withdrawService(
+  items: WithdrawItem[],
+  link?: StockConsumptionLink,
+  locationId?: string | null,
+  userId: string | null = null
+): Promise<WithdrawResponse> {
+  const linkData = await resolveConsumptionLink(link);
+  if (locationId) await resolveLocationId(prisma, locationId);
+
   const sessionId = randomUUID();
 
   const results = await prisma.$transaction(async (tx) => {
@@ -23,8 +43,10 @@ export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawRe
 
     for (const item of items) {
       try {
+        // Resolve product by primary or alternate barcode
+        const scan = await resolveScannedBarcode(tx, item.barcode);
         const product = await tx.product.findUnique({
-          where: { barcode: item.barcode },
+          where: { barcode: scan.barcode },
         });
 
         if (!product) {
@@ -41,12 +63,33 @@ export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawRe
           continue;
         }
 
-        if (!product.isReusable) {
+        // Archived products are not used any more; leftovers can still be disposed
+        if (product.archivedAt) {
           itemResults.push({
             barcode: item.barcode,
             productId: product.id,
             requestedQuantity: item.quantity,
             deductedQuantity: 0,
+            inUseAfter: 0,
+            batches: [],
+            success: false,
+            error: `Product "${product.name}" is archived`,
+          });
+          continue;
+        }
+
+        // Scanned quantity in base units (a pack barcode or packId counts per pack)
+        const { quantity, pack } = applyScanPack(
+          item.quantity,
+          await resolveScanPack(tx, product.id, item.packId ?? scan.packId)
+        );
+
+        if (!product.isReusable) {
+          itemResults.push({
+            barcode: item.barcode,
+            productId: product.id,
+            requestedQuantity: quantity,
+            deductedQuantity: 0,
             inUseAfter: product.inUseQuantity,
             batches: [],
             success: false,
@@ -58,27 +101,33 @@ export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawRe
         const startOfToday = new Date();
         startOfToday.setHours(0, 0, 0, 0);
 
-        // Strict FIFO: find non-expired batches with stock and sort by receivedAt
+        // Find non-expired batches with stock in the product's picking order
+        const picking = await resolveBatchPicking(tx, product, item.lotNumber);
         const batches = await tx.stockBatch.findMany({
           where: {
             productId: product.id,
             quantity: { gt: 0 },
+            status: 'ACTIVE',
             OR: [{ expireDate: null }, { expireDate: { gte: startOfToday } }],
+            ...(locationId ? { locationId } : {}),
+            ...picking.where,
           },
-          orderBy: [{ receivedAt: 'asc' }, { createdAt: 'asc' }],
+          orderBy: picking.orderBy,
         });
 
         const totalAvailable = batches.reduce((sum, batch) => sum + batch.quantity, 0);
 
-        if (totalAvailable < item.quantity) {
-          throw new Error(
-            `Insufficient stock for product ${item.barcode}. Requested: ${item.quantity}, Available: ${totalAvailable}`
-          );
+        if (totalAvailable < quantity) {
+          throw new Error(insufficientStockMessage(item.barcode, picking.lotNumber, quantity, totalAvailable));
         }
 
-        // Deduct batches (strict FIFO) and log WITHDRAW movements
-        let remainingQuantity = item.quantity;
+        // Deduct batches in picking order and log WITHDRAW movements
+        let remainingQuantity = quantity;
         const batchDeductions: StockOutBatchDeduction[] = [];
+        const openedAt = new Date();
+        const useBy = product.openedShelfLifeDays
+          ? new Date(openedAt.getTime() + product.openedShelfLifeDays * DAY_MS)
+          : null;
 
         for (const batch of batches) {
           if (remainingQuantity <= 0) break;
@@ -97,6 +146,24 @@ export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawRe
               lotNumber: batch.lotNumber,
               type: 'WITHDRAW',
               quantity: quantityToDeduct,
+              unitCost: batch.unitCost,
+              sessionId,
+              locationId: batch.locationId,
+              ...linkData,
+              ...(userId ? { createdById: userId } : {}),
+            },
+          });
+
+          await tx.stockInUse.create({
+            data: {
+              productId: product.id,
+              batchId: batch.id,
+              lotNumber: batch.lotNumber,
+              locationId: batch.locationId,
+              openedQuantity: quantityToDeduct,
+              quantity: quantityToDeduct,
+              openedAt,
+              useBy,
               sessionId,
             },
           });
@@ -113,16 +180,17 @@ export async function withdrawService(items: WithdrawItem[]): Promise<WithdrawRe
         // Increment inUseQuantity on product
         const updatedProduct = await tx.product.update({
           where: { id: product.id },
-          data: { inUseQuantity: { increment: item.quantity } },
+          data: { inUseQuantity: { increment: quantity } },
         });
 
         itemResults.push({
           barcode: item.barcode,
           productId: product.id,
-          requestedQuantity: item.quantity,
-          deductedQuantity: item.quantity,
+          requestedQuantity: quantity,
+          deductedQuantity: quantity,
           inUseAfter: updatedProduct.inUseQuantity,
           batches: batchDeductions,
+          pack,
           success: true,
         });
       } catch (error) {
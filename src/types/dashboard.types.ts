@@ -1,3 +1,5 @@
+import { PickingStrategy } from '@prisma/client';
+
 /**
  * Dashboard summary response
  */
@@ -19,6 +21,11 @@ export interface ProductListItem {
   unit: string;
   minStock: number;
   isReusable: boolean;
+  categoryId?: string | null; // list only
+  categoryName?: string | null; // list only
+  archivedAt?: string | null; // list only: ISO date string while archived
+  openedShelfLifeDays?: number | null; // detail only: use within N days after opening (null = no limit)
+  pickingStrategy?: PickingStrategy | null; // detail only: batch picking order (null = clinic default)
   warehouseQuantity: number; // Quantity available in warehouse (from batches)
   inUseQuantity: number;     // Quantity currently in use (reusable items only)
   totalQuantity: number;     // warehouseQuantity + inUseQuantity
@@ -78,5 +85,104 @@ export interface ProductListQuery {
   page?: number;
   limit?: number;
   status?: ProductStatus;
+  locationId?: string; // restrict quantities to one stock location
+  categoryId?: string; // restrict to one product category
+  archived?: ProductArchiveFilter; // default 'active'
+}
+
+export type ProductArchiveFilter = 'active' | 'archived' | 'all';
+
+// ─── Product History Types ─────────────────────────────────────────────────
+
+export type ProductTrackedField = 'name' | 'unit' | 'minStock' | 'isReusable' | 'archived';
+
+/**
+ * One field change of a product
+ */
+export interface ProductChangeEntry {
+  id: string;
+  field: ProductTrackedField;
+  oldValue: string | null;
+  newValue: string | null;
+  changedById: string | null;
+  changedByName: string | null;
+  changedAt: string; // ISO date string
 }
 
+/**
+ * Edit history of a product, newest first
+ */
+export interface ProductHistoryResponse {
+  productId: string;
+  name: string;
+  archivedAt: string | null;
+  changes: ProductChangeEntry[];
+}
+
+
+// ─── Trend Types ───────────────────────────────────────────────────────────
+
+export type TrendInterval = 'day' | 'week';
+
+export type TrendMovementType = 'IN' | 'OUT' | 'WITHDRAW' | 'DEPLETE' | 'DISPOSE';
+
+/**
+ * Moved quantities in one day or week (clinic time; weeks start on Monday)
+ */
+export interface StockTrendPoint {
+  period: string; // YYYY-MM-DD of the day / first day of the week
+  quantities: Record<TrendMovementType, number>;
+}
+
+/**
+ * Product ranked by quantity consumed (OUT + WITHDRAW)
+ */
+export interface TopConsumedProduct {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+}
+
+/**
+ * Disposed quantity per reason (null = no reason given)
+ */
+export interface DisposalReasonEntry {
+  reason: string | null;
+  quantity: number;
+  movementCount: number;
+}
+
+/**
+ * How often a product was stocked out (OUT sessions) over the period
+ */
+export interface StockOutFrequencyEntry {
+  productId: string;
+  productName: string;
+  stockOutCount: number; // distinct stock-out sessions
+  activeDays: number; // distinct clinic days with a stock-out
+  quantity: number;
+}
+
+/**
+ * Query for GET /api/dashboard/trends
+ */
+export interface StockTrendsQuery {
+  from?: string; // YYYY-MM-DD, default 29 days before `to`
+  to?: string; // YYYY-MM-DD, default today (clinic time)
+  interval?: TrendInterval;
+  limit?: number; // rows in the product rankings (default 10)
+}
+
+/**
+ * Stock movement analytics for the dashboard
+ */
+export interface StockTrendsResponse {
+  from: string;
+  to: string;
+  interval: TrendInterval;
+  series: StockTrendPoint[];
+  topConsumed: TopConsumedProduct[];
+  disposalReasons: DisposalReasonEntry[];
+  stockOutFrequency: StockOutFrequencyEntry[];
+}
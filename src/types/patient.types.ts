@@ -12,7 +12,7 @@ export interface CreatePatientRequest {
   cardNo?: string;
   address?: string;
   note?: string;
-  photoBase64?: string;
+  photoBase64?: string; // deprecated: stored as a PROFILE_PHOTO file, not on the patient row
 }
 
 export interface UpdatePatientRequest {
@@ -26,7 +26,7 @@ export interface UpdatePatientRequest {
   cardNo?: string | null;
   address?: string | null;
   note?: string | null;
-  photoBase64?: string | null;
+  photoBase64?: string | null; // deprecated: a data URL becomes a new PROFILE_PHOTO file; null removes the photo
 }
 
 export interface PatientResponse {
@@ -42,8 +42,172 @@ export interface PatientResponse {
   cardNo: string | null;
   address: string | null;
   note: string | null;
-  photoBase64: string | null;
+  photoBase64: string | null; // legacy inline photo, null once moved to file storage
+  photoFileId: string | null; // latest PROFILE_PHOTO file (GET /patients/:id/files/:fileId)
   age: number;
+  alerts: PatientAlert[]; // ongoing medical history, most severe first
   createdAt: string;
   updatedAt: string;
 }
+
+// ─── Medical History ───────────────────────────────────────────────────────
+
+export type MedicalHistoryCategory = 'ALLERGY' | 'MEDICATION' | 'CONDITION';
+export type MedicalAlertSeverity = 'LOW' | 'MODERATE' | 'HIGH';
+
+export interface MedicalHistoryEntryInput {
+  category: MedicalHistoryCategory;
+  name: string;
+  severity?: MedicalAlertSeverity; // default MODERATE
+  notes?: string | null;
+  startedAt?: string | null; // YYYY-MM-DD
+  endedAt?: string | null; // YYYY-MM-DD; null = ongoing
+}
+
+export interface MedicalHistoryEntryResponse {
+  id: string;
+  category: MedicalHistoryCategory;
+  name: string;
+  severity: MedicalAlertSeverity;
+  notes: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  active: boolean; // not ended as of today: shown as an alert
+  createdById: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Warning to check before treatment, from an ongoing medical history entry. */
+export interface PatientAlert {
+  id: string;
+  category: MedicalHistoryCategory;
+  name: string;
+  severity: MedicalAlertSeverity;
+  notes: string | null;
+}
+
+// ─── Files ─────────────────────────────────────────────────────────────────
+
+export type PatientFileCategory = 'PROFILE_PHOTO' | 'XRAY' | 'CONSENT_FORM' | 'INTRAORAL_PHOTO';
+
+export interface UploadPatientFileInput {
+  category: PatientFileCategory;
+  contentType: string; // declared type (request Content-Type); must match the file's bytes
+  body: Buffer;
+  fileName?: string | null;
+  note?: string | null;
+}
+
+export interface PatientFileResponse {
+  id: string;
+  patientId: string;
+  category: PatientFileCategory;
+  fileName: string;
+  contentType: string;
+  size: number; // bytes
+  hasThumbnail: boolean; // images only: GET ...?thumbnail=true
+  note: string | null;
+  uploadedById: string | null;
+  createdAt: string;
+}
+
+export interface PhotoMigrationResult {
+  migrated: number;
+  failed: { patientId: string; error: string }[]; // left in photoBase64
+}
+
+// ─── Dental Chart ──────────────────────────────────────────────────────────
+
+export type ToothSurface = 'M' | 'O' | 'D' | 'B' | 'L';
+export type ToothCondition = 'CARIES' | 'FILLED' | 'MISSING' | 'CROWN' | 'RCT';
+
+/** One charting entry to record (a condition found and/or a procedure performed). */
+export interface ToothChartEntryInput {
+  toothNumber: number; // FDI notation, e.g. 36
+  surfaces?: ToothSurface[]; // required for CARIES / FILLED, omitted for whole-tooth conditions
+  condition?: ToothCondition | null;
+  treatmentTypeId?: string | null; // procedure performed
+  dailyRecordId?: string | null; // visit (must belong to the patient)
+  note?: string | null;
+}
+
+export interface ToothChartEntryResponse {
+  id: string;
+  toothNumber: number;
+  surfaces: ToothSurface[];
+  condition: ToothCondition | null;
+  treatmentTypeId: string | null;
+  treatmentTypeName: string | null;
+  dailyRecordId: string | null;
+  recordDate: string | null; // YYYY-MM-DD of the linked visit
+  note: string | null;
+  createdById: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+/** Current state of one charted tooth, replayed from its entries. */
+export interface ToothState {
+  toothNumber: number;
+  conditions: ToothCondition[]; // whole-tooth conditions (MISSING, CROWN, RCT)
+  surfaces: Partial<Record<ToothSurface, ToothCondition>>; // CARIES / FILLED per surface
+  lastChartedAt: string;
+}
+
+export interface PatientChartResponse {
+  patientId: string;
+  teeth: ToothState[]; // charted teeth only, in FDI order
+  history: ToothChartEntryResponse[]; // newest first
+}
+
+// ─── Timeline ──────────────────────────────────────────────────────────────
+
+interface TimelineEntryBase {
+  id: string;
+  date: string; // YYYY-MM-DD (clinic calendar day)
+  time: string | null; // HH:MM on the clinic clock, when known
+  doctorId: string | null;
+  doctorName: string | null;
+}
+
+export interface TimelineVisitEntry extends TimelineEntryBase {
+  type: 'VISIT';
+  sequenceNo: number;
+  treatmentNote: string;
+  totalAmount: number;
+  paymentMethod: 'CASH' | 'TRANSFER';
+  outstandingAmount: number; // TRANSFER amount not yet covered by linked slips
+}
+
+export interface TimelineAppointmentEntry extends TimelineEntryBase {
+  type: 'APPOINTMENT';
+  endTime: string;
+  treatmentTypeName: string;
+  status: 'SCHEDULED' | 'COMPLETED' | 'CANCELLED' | 'NO_SHOW';
+  cancellationReason: string | null;
+}
+
+export interface TimelinePaymentEntry extends TimelineEntryBase {
+  type: 'PAYMENT';
+  dailyRecordId: string;
+  amount: number | null;
+  sendingBank: string | null;
+  transRef: string | null;
+}
+
+export type PatientTimelineEntry = TimelineVisitEntry | TimelineAppointmentEntry | TimelinePaymentEntry;
+
+export interface PatientTimelineSummary {
+  totalSpent: number; // sum of visit totals
+  outstandingBalance: number; // sum of visit outstandingAmount
+  lastVisitDate: string | null;
+  visitCount: number;
+  noShowCount: number;
+}
+
+export interface PatientTimelineResponse {
+  patientId: string;
+  summary: PatientTimelineSummary;
+  entries: PatientTimelineEntry[]; // newest first
+}
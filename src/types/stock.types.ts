@@ -1,13 +1,38 @@
-export type StockMovementLogType = 'IN' | 'OUT' | 'WITHDRAW' | 'DEPLETE' | 'DISPOSE';
+import { UserRole } from '@prisma/client';
+
+export type StockMovementLogType =
+  | 'IN'
+  | 'OUT'
+  | 'WITHDRAW'
+  | 'DEPLETE'
+  | 'DISPOSE'
+  | 'ADJUST_IN'
+  | 'ADJUST_OUT'
+  | 'TRANSFER';
+
+/**
+ * Pack a scanned quantity was counted in. Present on results only when scanning by pack;
+ * result quantities are always in base units.
+ */
+export interface ScannedPack {
+  packId: string;
+  name: string;
+  unitsPerPack: number;
+  packQuantity: number; // quantity as scanned, in packs
+}
 
 /**
- * Stock-in request item
+ * Stock-in request item.
+ * barcode may be the primary or an alternate barcode; a pack barcode (or packId) makes quantity
+ * and unitCost count per pack.
  */
 export interface StockInItem {
   barcode: string;
   quantity: number;
   lotNumber?: string; // Optional - backend auto-generates if omitted
   expireDate: string | null; // ISO date string or null for products without expiration
+  unitCost?: number | null; // Optional THB purchase cost per scanned unit (used for valuation)
+  packId?: string | null; // Optional - count quantity in this pack of the product
 }
 
 /**
@@ -15,6 +40,7 @@ export interface StockInItem {
  */
 export interface StockInRequest {
   items: StockInItem[];
+  locationId?: string | null; // Optional - default location when omitted
 }
 
 /**
@@ -26,6 +52,7 @@ export interface StockInItemResult {
   batchId: string;
   lotNumber: string;
   quantity: number;
+  pack?: ScannedPack;
   success: boolean;
   error?: string;
 }
@@ -39,18 +66,32 @@ export interface StockInResponse {
 }
 
 /**
- * Stock-out request item
+ * Stock-out request item (primary or alternate barcode; pack barcode or packId counts per pack).
+ * Without lotNumber batches are picked in the product's picking order; with it only that lot is
+ * deducted. MANUAL-picked products require lotNumber.
  */
 export interface StockOutItem {
   barcode: string;
   quantity: number;
+  lotNumber?: string | null;
+  packId?: string | null;
+}
+
+/**
+ * Optional clinical context for consumption (stock-out / withdraw).
+ * When only dailyRecordId is given, patientId is taken from the daily record.
+ */
+export interface StockConsumptionLink {
+  dailyRecordId?: string | null;
+  patientId?: string | null;
 }
 
 /**
  * Stock-out request body
  */
-export interface StockOutRequest {
+export interface StockOutRequest extends StockConsumptionLink {
   items: StockOutItem[];
+  locationId?: string | null; // Optional - any location when omitted
 }
 
 /**
@@ -71,6 +112,7 @@ export interface StockOutItemResult {
   requestedQuantity: number;
   deductedQuantity: number;
   batches: StockOutBatchDeduction[];
+  pack?: ScannedPack;
   success: boolean;
   error?: string;
 }
@@ -84,12 +126,16 @@ export interface StockOutResponse {
 }
 
 /**
- * Dispose request item (warehouse stock discarded from one or more batches)
+ * Dispose request item (warehouse stock discarded from one or more batches, or from lotNumber only).
+ * expiredOnly restricts the disposal to batches past their expiry date.
  */
 export interface DisposeItem {
   barcode: string;
   quantity: number;
   reason: string;
+  lotNumber?: string | null;
+  expiredOnly?: boolean;
+  packId?: string | null;
 }
 
 /**
@@ -97,6 +143,7 @@ export interface DisposeItem {
  */
 export interface DisposeRequest {
   items: DisposeItem[];
+  locationId?: string | null; // Optional - any location when omitted
 }
 
 /**
@@ -109,6 +156,7 @@ export interface DisposeItemResult {
   disposedQuantity: number;
   reason: string;
   batches: StockOutBatchDeduction[];
+  pack?: ScannedPack;
   success: boolean;
   error?: string;
 }
@@ -161,6 +209,12 @@ export interface StockLogResponseEntry {
   productName: string;
   totalQuantity: number;
   reason?: string | null;
+  reversedBySessionId?: string | null; // set when this session has been reversed
+  reversesSessionId?: string | null; // set on the compensating entries of a reversal
+  locationName?: string; // location the stock was at (TRANSFER: source), when known
+  toLocationName?: string; // TRANSFER destination
+  createdById?: string; // user who posted the movements, when recorded
+  createdByName?: string | null;
   lots: Array<{
     lot: string;
     quantity: number;
@@ -175,16 +229,34 @@ export interface StockLogFilters {
   fromDate?: string; // YYYY-MM-DD
   toDate?: string; // YYYY-MM-DD
   filter?: 'today' | '7days'; // Predefined date filters
+  locationId?: string; // movements at this location, including transfers into it
+  productId?: string;
+  barcode?: string; // primary or alternate barcode of the product
+  lotNumber?: string;
+  sessionId?: string;
+  userId?: string; // movements posted by this user
+  limit?: number; // log entries per page
+  cursor?: string; // nextCursor of the previous page
+}
+
+/**
+ * One page of stock log entries, newest first
+ */
+export interface StockLogPage {
+  entries: StockLogResponseEntry[];
+  nextCursor: string | null; // null on the last page
 }
 
 // ─── Reusable Item Types ───────────────────────────────────────────────────
 
 /**
- * Withdraw request item (reusable items only: warehouse → in_use)
+ * Withdraw request item (reusable items only: warehouse → in_use). lotNumber picks as in stock-out.
  */
 export interface WithdrawItem {
   barcode: string;
   quantity: number;
+  lotNumber?: string | null;
+  packId?: string | null;
 }
 
 /**
@@ -197,6 +269,7 @@ export interface WithdrawItemResult {
   deductedQuantity: number;
   inUseAfter: number;
   batches: StockOutBatchDeduction[];
+  pack?: ScannedPack;
   success: boolean;
   error?: string;
 }
@@ -210,11 +283,23 @@ export interface WithdrawResponse {
 }
 
 /**
- * Deplete request item (reusable items only: in_use → consumed)
+ * Deplete request item (reusable items only: in_use → consumed).
+ * Without lotNumber the earliest-opened in-use stock is consumed first.
  */
 export interface DepleteItem {
   barcode: string;
   quantity: number;
+  lotNumber?: string | null;
+  packId?: string | null;
+}
+
+/**
+ * In-use quantity consumed from one batch by a deplete
+ */
+export interface DepleteBatchEntry {
+  batchId: string;
+  lotNumber: string;
+  quantity: number;
 }
 
 /**
@@ -226,6 +311,8 @@ export interface DepleteItemResult {
   quantity: number;
   inUseAfter: number;
   isOutOfStock: boolean;
+  batches?: DepleteBatchEntry[]; // omitted for failed items; empty when only untracked stock was used
+  pack?: ScannedPack;
   success: boolean;
   error?: string;
 }
@@ -238,3 +325,460 @@ export interface DepleteResponse {
   results: DepleteItemResult[];
 }
 
+// ─── Transfer Types ────────────────────────────────────────────────────────
+
+/**
+ * Transfer request item. Without lotNumber the oldest non-expired batches are moved first (FIFO).
+ */
+export interface TransferItem {
+  barcode: string;
+  quantity: number;
+  lotNumber?: string | null;
+  packId?: string | null;
+}
+
+/**
+ * Transfer request body (stock moves from one location to another)
+ */
+export interface TransferRequest {
+  fromLocationId: string;
+  toLocationId: string;
+  items: TransferItem[];
+}
+
+/**
+ * Batch moved by a transfer: source batch → destination batch (same lot and expiry)
+ */
+export interface TransferBatchMove {
+  fromBatchId: string;
+  toBatchId: string;
+  lotNumber: string;
+  quantity: number;
+}
+
+/**
+ * Transfer result for a single item
+ */
+export interface TransferItemResult {
+  barcode: string;
+  productId: string;
+  requestedQuantity: number;
+  transferredQuantity: number;
+  batches: TransferBatchMove[];
+  pack?: ScannedPack;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Transfer response
+ */
+export interface TransferResponse {
+  sessionId: string;
+  fromLocationId: string;
+  toLocationId: string;
+  results: TransferItemResult[];
+}
+
+// ─── Valuation Types ───────────────────────────────────────────────────────
+
+/**
+ * Valued quantity of a single batch (FIFO order within its product)
+ */
+export interface InventoryValuationBatchEntry {
+  batchId: string;
+  lotNumber: string;
+  expireDate: string | null; // ISO date string
+  receivedAt: string; // ISO date string
+  quantity: number;
+  unitCost: number | null; // null when the batch was received without a cost
+  value: number | null;
+}
+
+/**
+ * Valuation totals for a single product
+ */
+export interface InventoryValuationProductEntry {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  value: number;
+  unvaluedQuantity: number; // quantity in batches without a unit cost
+  batches: InventoryValuationBatchEntry[];
+}
+
+/**
+ * Inventory valuation response
+ */
+export interface InventoryValuationResponse {
+  asOf: string | null; // YYYY-MM-DD, null for current stock
+  totalValue: number;
+  unvaluedQuantity: number;
+  products: InventoryValuationProductEntry[];
+}
+
+/**
+ * Cost of goods consumed/disposed for a single product
+ */
+export interface CostOfGoodsProductEntry {
+  productId: string;
+  productName: string;
+  unit: string;
+  consumedQuantity: number; // OUT + WITHDRAW
+  consumedCost: number;
+  disposedQuantity: number; // DISPOSE
+  disposedCost: number;
+  uncostedQuantity: number; // movements without a captured unit cost
+}
+
+/**
+ * Cost of goods consumed report response
+ */
+export interface CostOfGoodsResponse {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  consumedCost: number;
+  disposedCost: number;
+  totalCost: number;
+  uncostedQuantity: number;
+  products: CostOfGoodsProductEntry[];
+}
+
+// ─── Reorder Types ─────────────────────────────────────────────────────────
+
+/**
+ * Reorder suggestion for a single product
+ */
+export interface ReorderSuggestionEntry {
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  minStock: number;
+  currentQuantity: number; // warehouse quantity across all batches
+  onOrderQuantity: number; // outstanding on open purchase orders
+  consumedQuantity: number; // usage over the window
+  dailyUsage: number;
+  daysOfCover: number | null; // null when there was no usage in the window
+  targetQuantity: number;
+  suggestedQuantity: number;
+}
+
+/**
+ * Reorder suggestions response
+ */
+export interface ReorderSuggestionsResponse {
+  generatedAt: string; // ISO date string
+  windowDays: number;
+  targetCoverDays: number;
+  suggestions: ReorderSuggestionEntry[];
+}
+
+// ─── Reversal Types ────────────────────────────────────────────────────────
+
+/**
+ * Compensating movement posted by a session reversal
+ */
+export interface StockReversalMovement {
+  productId: string;
+  batchId: string;
+  lotNumber: string | null;
+  type: 'ADJUST_IN' | 'ADJUST_OUT';
+  quantity: number;
+}
+
+/**
+ * Session reversal response
+ */
+export interface StockReversalResponse {
+  sessionId: string; // the reversed session
+  reversalSessionId: string; // session of the compensating movements
+  reason: string;
+  movements: StockReversalMovement[];
+}
+
+// ─── In-Use Types ──────────────────────────────────────────────────────────
+
+/**
+ * Reusable stock opened from one batch and not yet used up
+ */
+export interface StockInUseEntry {
+  id: string;
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  batchId: string;
+  lotNumber: string;
+  locationId: string | null;
+  openedQuantity: number;
+  quantity: number; // still in use
+  openedAt: string; // ISO date string
+  useBy: string | null; // ISO date string; null = no post-opening limit
+  isPastUseBy: boolean;
+}
+
+/**
+ * In-use listing filters
+ */
+export interface StockInUseFilters {
+  productId?: string;
+  barcode?: string;
+  pastUseBy?: boolean; // only rows whose post-opening life has run out
+}
+
+// ─── Recall Types ──────────────────────────────────────────────────────────
+
+/**
+ * Movement recorded against a recalled batch (as source, or as destination of a transfer)
+ */
+export interface LotRecallMovement {
+  id: string;
+  sessionId: string | null;
+  type: StockMovementLogType;
+  quantity: number;
+  reason: string | null;
+  toBatchId: string | null;
+  dailyRecordId: string | null;
+  patientId: string | null;
+  reversedBySessionId: string | null;
+  createdAt: string; // ISO date string
+}
+
+/**
+ * Batch of the recalled lot with its remaining and opened quantity
+ */
+export interface LotRecallBatch {
+  batchId: string;
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  lotNumber: string;
+  expireDate: string | null; // ISO date string
+  locationId: string;
+  locationName: string;
+  quantity: number; // still in the warehouse
+  inUseQuantity: number; // opened and not yet used up
+  status: 'ACTIVE' | 'QUARANTINED';
+  quarantinedAt: string | null; // ISO date string
+  quarantineReason: string | null;
+  movements: LotRecallMovement[];
+}
+
+/**
+ * Patient (or daily-record patient snapshot) who received stock from the recalled lot
+ */
+export interface LotRecallPatient {
+  patientId: string | null; // null when the daily record is not linked to a Patient
+  dn: string | null;
+  patientName: string;
+  quantity: number;
+  dailyRecordIds: string[];
+  firstUsedAt: string; // ISO date string
+  lastUsedAt: string; // ISO date string
+}
+
+/**
+ * Lot recall lookup response
+ */
+export interface LotRecallResponse {
+  lotNumber: string;
+  barcode: string | null;
+  batches: LotRecallBatch[];
+  affectedPatients: LotRecallPatient[];
+}
+
+/**
+ * Batch status change request
+ */
+export interface BatchStatusRequest {
+  status: 'ACTIVE' | 'QUARANTINED';
+  reason?: string | null;
+}
+
+// ─── Expiry Digest Types ───────────────────────────────────────────────────
+
+/**
+ * Batch listed in the expiry digest
+ */
+export interface ExpiryDigestBatch {
+  batchId: string;
+  productId: string;
+  productName: string;
+  unit: string;
+  lotNumber: string;
+  expireDate: string; // YYYY-MM-DD
+  daysLeft: number; // negative when already expired
+  quantity: number;
+}
+
+/**
+ * Batches expiring within one window (after the previous, shorter window)
+ */
+export interface ExpiryDigestWindow {
+  days: number;
+  batches: ExpiryDigestBatch[];
+}
+
+/**
+ * Product at or below its minimum stock
+ */
+export interface ExpiryDigestLowStock {
+  productId: string;
+  productName: string;
+  unit: string;
+  quantity: number;
+  minStock: number;
+}
+
+/**
+ * Daily stock digest pushed over LINE
+ */
+export interface ExpiryDigest {
+  generatedAt: string; // ISO date string
+  today: string; // YYYY-MM-DD (clinic timezone)
+  expired: ExpiryDigestBatch[];
+  windows: ExpiryDigestWindow[];
+  lowStock: ExpiryDigestLowStock[];
+  openedPastUseBy: StockInUseEntry[]; // opened reusable items past their post-opening life
+}
+
+// ─── Import Types ──────────────────────────────────────────────────────────
+
+/**
+ * Product + opening stock import request. CSV is sent as text, XLSX as base64.
+ */
+export interface StockImportRequest {
+  format: 'csv' | 'xlsx';
+  content: string;
+  locationId?: string | null; // location opening stock is received into (default location when omitted)
+  dryRun?: boolean;
+}
+
+/**
+ * Validation problem on one import row (row numbers as shown in the spreadsheet, header = 1)
+ */
+export interface StockImportRowError {
+  row: number;
+  column: string | null;
+  message: string;
+}
+
+/**
+ * Product created by an import
+ */
+export interface StockImportProduct {
+  productId: string | null; // null in dry-run
+  barcode: string;
+  name: string;
+  batches: number;
+  quantity: number; // opening stock across the product's batches
+}
+
+/**
+ * Import report. Nothing is written unless the file is clean and dryRun is false.
+ */
+export interface StockImportResponse {
+  dryRun: boolean;
+  committed: boolean;
+  sessionId: string | null; // IN movements of the opening stock
+  rowCount: number;
+  products: StockImportProduct[];
+  errors: StockImportRowError[];
+}
+
+// ─── User Activity Types ───────────────────────────────────────────────────
+
+/**
+ * Movements of one type posted by a user
+ */
+export interface StockUserActivityByType {
+  type: StockMovementLogType;
+  movementCount: number;
+  quantity: number;
+}
+
+/**
+ * Stock work of one user over the report range
+ */
+export interface StockUserActivity {
+  userId: string | null; // null groups movements recorded before authorship was captured
+  userName: string | null;
+  role: UserRole | null;
+  sessionCount: number; // operations posted (a bulk stock-out is one session)
+  movementCount: number;
+  byType: StockUserActivityByType[];
+  productsCreated: number;
+  lastActivityAt: string | null; // ISO date string of the latest movement
+}
+
+/**
+ * Per-user stock activity report response
+ */
+export interface StockUserActivityResponse {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+  users: StockUserActivity[];
+}
+
+// ─── Expired Stock Types ───────────────────────────────────────────────────
+
+/**
+ * Expired batch that still holds warehouse quantity
+ */
+export interface ExpiredStockBatch {
+  batchId: string;
+  lotNumber: string;
+  expireDate: string; // YYYY-MM-DD
+  locationId: string;
+  locationName: string;
+  quantity: number;
+  status: 'ACTIVE' | 'QUARANTINED';
+}
+
+/**
+ * Expired quantity of one product, by batch (earliest expiry first)
+ */
+export interface ExpiredStockProduct {
+  productId: string;
+  productName: string;
+  barcode: string;
+  unit: string;
+  quantity: number;
+  batches: ExpiredStockBatch[];
+}
+
+/**
+ * Expired stock report (stock-out and withdraw skip these batches)
+ */
+export interface ExpiredStockReport {
+  today: string; // YYYY-MM-DD
+  totalQuantity: number;
+  products: ExpiredStockProduct[];
+}
+
+/**
+ * ADMIN override: dispense from one expired batch, with the justification kept on the OUT movement
+ */
+export interface ExpiredDispenseRequest {
+  batchId: string;
+  quantity: number;
+  justification: string;
+  dailyRecordId?: string | null;
+  patientId?: string | null;
+}
+
+/**
+ * Expired-batch dispense result
+ */
+export interface ExpiredDispenseResponse {
+  sessionId: string;
+  productId: string;
+  batchId: string;
+  lotNumber: string;
+  expireDate: string; // YYYY-MM-DD
+  quantity: number;
+  justification: string;
+}
@@ -0,0 +1,78 @@
+/**
+ * Minimal RFC 4180 CSV writer for report exports and reader for imports.
+ *
+ * Output starts with a UTF-8 BOM so Excel opens Thai product names correctly, and text that a
+ * spreadsheet would evaluate as a formula is neutralized.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => CsvValue;
+}
+
+// Text starting with one of these is run as a formula by Excel/Sheets (CSV injection): such cells
+// get a leading apostrophe and are quoted. Numbers are written as-is so negatives stay numeric.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) return `"'${text.replace(/"/g, '""')}"`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Render rows as CSV using the given column definitions (CRLF line endings). */
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((c) => escapeCell(c.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((c) => escapeCell(c.value(row))).join(','));
+  }
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into rows of cells. Accepts CRLF or LF line endings, quoted cells with embedded
+ * commas/newlines/doubled quotes and a leading UTF-8 BOM. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
@@ -21,6 +21,20 @@ export function clinicToday(): string {
   return new Intl.DateTimeFormat('en-CA', { timeZone: CLINIC_TZ }).format(new Date());
 }
 
+/** Instant as `YYYY-MM-DD HH:mm` on the clinic's wall clock (for printed reports). */
+export function clinicDateTime(d: Date): string {
+  // sv-SE formats as YYYY-MM-DD HH:mm.
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: CLINIC_TZ,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(d);
+}
+
 /** Validate a `YYYY-MM-DD` string and return the UTC-midnight Date used for storage. */
 export function parseRecordDate(value: unknown): Date {
   if (typeof value !== 'string' || !DATE_RE.test(value)) throw new Error('INVALID_DATE');
@@ -67,6 +81,18 @@ export function rangeUTC(from: unknown, to: unknown): { start: Date; end: Date }
   return { start, end };
 }
 
+/**
+ * Real-time [start, end) instants covering a clinic-local calendar day `YYYY-MM-DD`.
+ * Use this for timestamp columns (e.g. StockMovement.createdAt), not for @db.Date columns.
+ * Asia/Bangkok has no DST, so the fixed +07:00 offset is exact.
+ */
+export function clinicDayRange(value: string): { start: Date; end: Date } {
+  parseRecordDate(value); // validates format + rollover, throws INVALID_DATE
+  const start = new Date(`${value}T00:00:00.000+07:00`);
+  const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+  return { start, end };
+}
+
 /** Format a stored recordDate (UTC-midnight Date) back to its `YYYY-MM-DD` key. */
 export function recordDateKey(d: Date): string {
   return d.toISOString().slice(0, 10);
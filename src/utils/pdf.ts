@@ -0,0 +1,132 @@
+/**
+ * Printable table reports (A4 landscape) for exports.
+ *
+ * Thai text needs a TrueType font with Thai glyphs: set REPORT_FONT_PATH (and optionally
+ * REPORT_FONT_BOLD_PATH) to e.g. a Sarabun or Noto Sans Thai .ttf. Without it the built-in
+ * Helvetica is used, which cannot render Thai.
+ */
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import { CsvColumn, CsvValue } from './csv';
+import { clinicDateTime } from './date';
+
+export interface PdfColumn<T> extends CsvColumn<T> {
+  width: number; // relative share of the table width
+  align?: 'left' | 'right';
+}
+
+export interface PdfTableReport<T> {
+  clinicName: string | null;
+  title: string;
+  details: string[]; // filter summary lines printed under the title
+  columns: PdfColumn<T>[];
+  rows: T[];
+}
+
+const MARGIN = 36;
+const CELL_PADDING = 3;
+const FONT_SIZE = 9;
+
+let warnedMissingFont = false;
+
+/** Registers the report fonts; returns the names to use for body and header text. */
+function registerFonts(doc: PDFKit.PDFDocument): { regular: string; bold: string } {
+  const regularPath = process.env.REPORT_FONT_PATH;
+  if (!regularPath || !fs.existsSync(regularPath)) {
+    if (!warnedMissingFont) {
+      console.warn('REPORT_FONT_PATH is not set or missing; PDF reports cannot render Thai text');
+      warnedMissingFont = true;
+    }
+    return { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+  }
+  doc.registerFont('report', regularPath);
+  const boldPath = process.env.REPORT_FONT_BOLD_PATH;
+  if (boldPath && fs.existsSync(boldPath)) {
+    doc.registerFont('report-bold', boldPath);
+    return { regular: 'report', bold: 'report-bold' };
+  }
+  return { regular: 'report', bold: 'report' };
+}
+
+function cellText(value: CsvValue): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Renders rows as a paginated table headed by the clinic name, report title and filter details.
+ * The column header repeats on every page; pages are numbered in the footer.
+ */
+export function renderTablePdf<T>(report: PdfTableReport<T>): Promise<Buffer> {
+  const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: MARGIN, bufferPages: true });
+  const fonts = registerFonts(doc);
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const tableWidth = doc.page.width - MARGIN * 2;
+  const totalWeight = report.columns.reduce((sum, c) => sum + c.width, 0);
+  const widths = report.columns.map((c) => (c.width / totalWeight) * tableWidth);
+  const bottom = () => doc.page.height - MARGIN - 14; // leave room for the footer
+
+  const drawRow = (cells: string[], font: string, shaded: boolean) => {
+    doc.font(font).fontSize(FONT_SIZE);
+    const height =
+      Math.max(...cells.map((text, i) => doc.heightOfString(text || ' ', { width: widths[i] - CELL_PADDING * 2 }))) +
+      CELL_PADDING * 2;
+    if (doc.y + height > bottom()) {
+      doc.addPage();
+      if (!shaded) drawHeader();
+      doc.font(font).fontSize(FONT_SIZE);
+    }
+    const y = doc.y;
+    if (shaded) doc.rect(MARGIN, y, tableWidth, height).fill('#eeeeee').fillColor('black');
+    let x = MARGIN;
+    cells.forEach((text, i) => {
+      doc.text(text, x + CELL_PADDING, y + CELL_PADDING, {
+        width: widths[i] - CELL_PADDING * 2,
+        align: report.columns[i].align ?? 'left',
+      });
+      x += widths[i];
+    });
+    doc.moveTo(MARGIN, y + height).lineTo(MARGIN + tableWidth, y + height).lineWidth(0.5).stroke('#999999');
+    doc.x = MARGIN;
+    doc.y = y + height;
+  };
+  const drawHeader = () => drawRow(report.columns.map((c) => c.header), fonts.bold, true);
+
+  // Report heading
+  if (report.clinicName) doc.font(fonts.bold).fontSize(14).text(report.clinicName);
+  doc.font(fonts.bold).fontSize(12).text(report.title);
+  doc.font(fonts.regular).fontSize(FONT_SIZE);
+  for (const line of report.details) doc.text(line);
+  doc.text(`Generated ${clinicDateTime(new Date())}`);
+  doc.moveDown(0.5);
+
+  drawHeader();
+  if (report.rows.length === 0) {
+    doc.font(fonts.regular).fontSize(FONT_SIZE).text('No rows match the selected filters.', MARGIN, doc.y + CELL_PADDING);
+  }
+  for (const row of report.rows) {
+    drawRow(report.columns.map((c) => cellText(c.value(row))), fonts.regular, false);
+  }
+
+  // Footer page numbers (drawn inside the bottom margin, so lift it temporarily)
+  const range = doc.bufferedPageRange();
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const marginBottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc
+      .font(fonts.regular)
+      .fontSize(8)
+      .text(`Page ${i + 1} / ${range.count}`, MARGIN, doc.page.height - MARGIN, { width: tableWidth, align: 'right' });
+    doc.page.margins.bottom = marginBottom;
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,146 @@
+/**
+ * Minimal XLSX reader for imports: returns the cells of the first worksheet as text.
+ *
+ * An .xlsx file is a zip of XML parts. Only what a plain data sheet needs is supported: stored or
+ * deflated entries, shared and inline strings, numbers and booleans. Formulas yield their cached
+ * value; dates come back as Excel serial numbers (see excelSerialToDate).
+ */
+import { inflateRawSync } from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** Largest XML part read (uncompressed). A full import sheet is well under this. */
+const MAX_ENTRY_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Reads the XML parts of a zip archive into name → contents; other parts (images, binaries) are
+ * skipped. Inflating is capped at the size the central directory declares, and a part declared
+ * over MAX_ENTRY_BYTES is refused, so a zip bomb cannot blow up memory. Throws INVALID_XLSX.
+ */
+function unzip(buffer: Buffer): Map<string, Buffer> {
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('INVALID_XLSX');
+
+  const entries = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+
+  for (let n = 0; n < count; n++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_SIGNATURE) throw new Error('INVALID_XLSX');
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!/\.(xml|rels)$/.test(name)) continue;
+    if (uncompressedSize > MAX_ENTRY_BYTES) throw new Error('INVALID_XLSX');
+
+    if (buffer.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) throw new Error('INVALID_XLSX');
+    const dataStart =
+      localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === 0) entries.set(name, data);
+    else if (method === 8) entries.set(name, inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) }));
+    else throw new Error('INVALID_XLSX');
+  }
+  return entries;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** Concatenated text of every <t> run (rich text is split into several runs). */
+function textRuns(xml: string): string {
+  let text = '';
+  for (const m of xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) text += decodeXml(m[1]);
+  return text;
+}
+
+/** Zero-based column index of a cell reference such as "AB12". */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref.replace(/\d+$/, '')) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Path of the first worksheet listed in the workbook (falls back to sheet1.xml). */
+function firstSheetPath(entries: Map<string, Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.toString('utf8') ?? '';
+  const rels = entries.get('xl/_rels/workbook.xml.rels')?.toString('utf8') ?? '';
+  const relId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const relationship = relId
+    ? Array.from(rels.matchAll(/<Relationship\s[^>]*>/g)).find((m) => m[0].includes(`Id="${relId}"`))
+    : undefined;
+  const target = relationship?.[0].match(/Target="([^"]+)"/)?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+/**
+ * Rows of the first worksheet, each a dense array of cell text ('' for empty cells).
+ * Empty rows are dropped. Throws INVALID_XLSX when the file is not a readable workbook.
+ */
+export function readXlsxRows(buffer: Buffer): string[][] {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = unzip(buffer);
+  } catch {
+    throw new Error('INVALID_XLSX');
+  }
+
+  const sheet = entries.get(firstSheetPath(entries))?.toString('utf8');
+  if (!sheet) throw new Error('INVALID_XLSX');
+
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.toString('utf8') ?? '';
+  const shared = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g)).map((m) => textRuns(m[1]));
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cellMatch of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cellMatch[1];
+      const body = cellMatch[2] ?? '';
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let value = '';
+      if (type === 'inlineStr') value = textRuns(body);
+      else if (type === 's' && raw !== undefined) value = shared[Number(raw)] ?? '';
+      else if (raw !== undefined) value = decodeXml(raw);
+
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    if (row.some((cell) => cell.trim() !== '')) rows.push(row);
+  }
+  return rows;
+}
+
+/** Converts an Excel date serial (days since 1899-12-30, 1900 date system) to `YYYY-MM-DD`. */
+export function excelSerialToDate(serial: number): string {
+  return new Date(Date.UTC(1899, 11, 30) + Math.floor(serial) * 86_400_000).toISOString().slice(0, 10);
+}